@@ -0,0 +1,14 @@
+-- Full-text search for hybrid (keyword + vector) retrieval
+-- Run each statement individually against Neon (CONCURRENTLY can't be in a transaction)
+
+-- Weighted tsvector over title (A) and the string values inside content (B).
+-- jsonb_to_tsvector skips keys and non-string values, unlike content::text.
+ALTER TABLE entries ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(jsonb_to_tsvector('english', coalesce(content, '{}'::jsonb), '["string"]'), 'B')
+  ) STORED;
+
+-- GIN index for @@ tsquery matching (replaces content::text ILIKE scans)
+CREATE INDEX CONCURRENTLY IF NOT EXISTS entries_search_vector_idx
+  ON entries USING gin (search_vector);
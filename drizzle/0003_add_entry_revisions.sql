@@ -0,0 +1,15 @@
+-- Version history for entries
+-- Each row snapshots an entry's state before an update, recategorize, archive or restore
+
+CREATE TABLE IF NOT EXISTS "entry_revisions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"entry_id" uuid NOT NULL,
+	"action" text NOT NULL,
+	"changed_fields" jsonb DEFAULT '[]'::jsonb,
+	"snapshot" jsonb NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "entry_revisions" ADD CONSTRAINT "entry_revisions_entry_id_entries_id_fk" FOREIGN KEY ("entry_id") REFERENCES "public"."entries"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "entry_revisions_entry_id_idx" ON "entry_revisions" USING btree ("entry_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "entry_revisions_created_at_idx" ON "entry_revisions" USING btree ("created_at");
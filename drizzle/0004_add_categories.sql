@@ -0,0 +1,31 @@
+-- User-defined categories and status workflows
+-- Seeded with the built-in categories; capture, recategorize and Telegram read from here
+
+CREATE TABLE IF NOT EXISTS "categories" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"db_name" text NOT NULL,
+	"description" text NOT NULL,
+	"statuses" jsonb NOT NULL,
+	"default_status" text NOT NULL,
+	"done_status" text,
+	"icon" text NOT NULL,
+	"gradient" text NOT NULL,
+	"title_field" text DEFAULT 'title' NOT NULL,
+	"fields" jsonb DEFAULT '[]'::jsonb,
+	"default_content" jsonb DEFAULT '{}'::jsonb,
+	"default_priority" text,
+	"sort_order" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "categories_name_unique" UNIQUE("name"),
+	CONSTRAINT "categories_db_name_unique" UNIQUE("db_name")
+);
+--> statement-breakpoint
+INSERT INTO "categories" ("name", "db_name", "description", "statuses", "default_status", "done_status", "icon", "gradient", "title_field", "fields", "default_content", "default_priority", "sort_order") VALUES
+	('People', 'People', 'names, contacts, networking, follow-ups, meetings with individuals', '["New","Active","Dormant"]', 'New', 'Dormant', '👤', 'from-blue-500 to-cyan-500', 'name', '[{"key":"company","contentKey":"company","description":"Company, if mentioned"},{"key":"context","contentKey":"context","description":"How you know them or why it matters"}]', '{"lastContact":"$today"}', NULL, 0),
+	('Project', 'Projects', 'tasks with deliverables, multi-step work, deadlines', '["Not Started","Active","Waiting","Complete"]', 'Active', 'Complete', '🚀', 'from-green-500 to-emerald-500', 'name', '[{"key":"next_action","contentKey":"nextAction","description":"The very next physical step"}]', '{"area":"Work"}', 'Medium', 1),
+	('Idea', 'Ideas', 'insights, quotes, observations, "shower thoughts", learnings', '["Spark","Developing","Actionable"]', 'Spark', NULL, '💡', 'from-purple-500 to-pink-500', 'title', '[{"key":"raw_insight","contentKey":"rawInsight","description":"The insight in the user''s words"}]', '{"ideaCategory":"Life"}', NULL, 2),
+	('Admin', 'Admin', 'errands, appointments, logistics, bills, personal tasks', '["Todo","Done"]', 'Todo', 'Done', '📋', 'from-orange-500 to-amber-500', 'task', '[]', '{"adminCategory":"Home"}', 'Medium', 3),
+	('Reading', 'Reading', 'articles, links, URLs, reference material, "read later" items, bookmarks', '["Unread","Read"]', 'Unread', 'Read', '📖', 'from-sky-500 to-indigo-500', 'title', '[{"key":"source","contentKey":"source","description":"URL if present"}]', '{"ideaCategory":"Tech"}', NULL, 4)
+ON CONFLICT ("name") DO NOTHING;
@@ -0,0 +1,4 @@
+-- Recurring entries
+-- RRULE text (e.g. FREQ=WEEKLY;BYDAY=MO); completing the entry creates the next occurrence
+
+ALTER TABLE "entries" ADD COLUMN IF NOT EXISTS "recurrence" text;
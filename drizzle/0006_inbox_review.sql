@@ -0,0 +1,6 @@
+-- Needs Review triage for low-confidence captures
+-- fixed_category records where a recategorized capture ended up (classifier accuracy)
+
+ALTER TABLE "inbox_log" ADD COLUMN IF NOT EXISTS "fixed_category" text;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "inbox_log_status_idx" ON "inbox_log" USING btree ("status");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "inbox_log_destination_id_idx" ON "inbox_log" USING btree ("destination_id");
@@ -0,0 +1,14 @@
+-- Few-shot examples for the capture classifier
+-- Every recategorized capture is stored with its embedding; the most similar ones are shown to the model
+
+CREATE TABLE IF NOT EXISTS "classifier_examples" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"raw_input" text NOT NULL,
+	"category" text NOT NULL,
+	"previous_category" text,
+	"source" text,
+	"embedding" vector(1536),
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "classifier_examples_raw_input_idx" ON "classifier_examples" USING btree ("raw_input");
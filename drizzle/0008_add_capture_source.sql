@@ -0,0 +1,6 @@
+-- Capture provenance
+-- Which pipeline source created an entry / inbox log row: web, telegram, agent, research, import
+
+ALTER TABLE "entries" ADD COLUMN IF NOT EXISTS "source" text;--> statement-breakpoint
+ALTER TABLE "inbox_log" ADD COLUMN IF NOT EXISTS "source" text;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "entries_source_idx" ON "entries" USING btree ("source");
@@ -0,0 +1,19 @@
+-- Attachments: original files kept with an entry (photos, PDFs, audio)
+-- Bytes live in the storage backend under storage_key; purging an entry nulls entry_id so the files can be cleaned up
+
+CREATE TABLE IF NOT EXISTS "attachments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"entry_id" uuid,
+	"kind" text NOT NULL,
+	"file_name" text NOT NULL,
+	"mime_type" text NOT NULL,
+	"size" integer NOT NULL,
+	"storage_backend" text NOT NULL,
+	"storage_key" text NOT NULL,
+	"description" text,
+	"processed_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "attachments" ADD CONSTRAINT "attachments_entry_id_entries_id_fk" FOREIGN KEY ("entry_id") REFERENCES "public"."entries"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "attachments_entry_id_idx" ON "attachments" USING btree ("entry_id");
@@ -0,0 +1,10 @@
+-- Embedding tracking
+-- The model behind each vector and a hash of the text it was built from, so the re-index job can
+-- find missing, stale and outdated-model embeddings. Existing vectors came from text-embedding-3-small;
+-- their text hash is unknown, so the first re-index run re-embeds them once.
+
+ALTER TABLE "entries" ADD COLUMN IF NOT EXISTS "embedding_model" text;--> statement-breakpoint
+ALTER TABLE "entries" ADD COLUMN IF NOT EXISTS "embedding_hash" text;--> statement-breakpoint
+ALTER TABLE "classifier_examples" ADD COLUMN IF NOT EXISTS "embedding_model" text;--> statement-breakpoint
+UPDATE "entries" SET "embedding_model" = 'text-embedding-3-small' WHERE "embedding" IS NOT NULL AND "embedding_model" IS NULL;--> statement-breakpoint
+UPDATE "classifier_examples" SET "embedding_model" = 'text-embedding-3-small' WHERE "embedding" IS NOT NULL AND "embedding_model" IS NULL;
@@ -0,0 +1,6 @@
+-- Entry text hash
+-- A hash of each entry's current title and content, stored on every write, so the embedding status
+-- and the re-index job compare columns instead of reading and hashing every entry. Existing rows
+-- start without one; the next re-index pass fills it in.
+
+ALTER TABLE "entries" ADD COLUMN IF NOT EXISTS "text_hash" text;
@@ -0,0 +1,101 @@
+/**
+ * Import entries from an Obsidian/Markdown folder, a CSV, or a Notion export zip
+ *
+ * Maps fields per category, skips anything already in the brain (matched by
+ * Notion ID or category + title), and batches embeddings. Dry-run by default:
+ * prints the diff and writes nothing until --apply is passed.
+ *
+ * Run with:
+ *   DOTENV_CONFIG_PATH=.env.local npx tsx --require dotenv/config scripts/import.ts <path> [--apply] [--category=Idea]
+ *
+ *   <path>        folder (walked recursively), .zip, .csv or .md
+ *   --apply       write the entries (otherwise dry run)
+ *   --category=X  category for records with no folder/field hint (default Idea)
+ */
+
+import { readFileSync, readdirSync, statSync } from 'fs';
+import { join, relative } from 'path';
+import {
+  readImportFiles,
+  parseImportFiles,
+  planImport,
+  applyImport,
+  resolveCategory,
+  type ImportFile,
+} from '../src/services/import';
+import { getCategories } from '../src/services/db/categories';
+
+function readFolder(root: string): ImportFile[] {
+  const files: ImportFile[] = [];
+  const walk = (dir: string) => {
+    for (const name of readdirSync(dir)) {
+      if (name.startsWith('.')) continue;
+      const full = join(dir, name);
+      if (statSync(full).isDirectory()) {
+        walk(full);
+      } else if (/\.(md|markdown|csv)$/i.test(name)) {
+        files.push({ path: relative(root, full), text: readFileSync(full, 'utf8') });
+      }
+    }
+  };
+  walk(root);
+  return files;
+}
+
+async function runImport() {
+  const args = process.argv.slice(2);
+  const path = args.find(a => !a.startsWith('--'));
+  const apply = args.includes('--apply');
+  const categoryArg = args.find(a => a.startsWith('--category='))?.split('=')[1];
+  const defaultCategory = categoryArg ? resolveCategory(categoryArg, await getCategories())?.name : 'Idea';
+
+  if (!path) throw new Error('Usage: scripts/import.ts <path> [--apply] [--category=Idea]');
+  if (!defaultCategory) throw new Error(`Unknown category: ${categoryArg}`);
+
+  console.log(`=== Import ${path}${apply ? '' : ' (dry run)'} ===\n`);
+
+  // Step 1: Read and parse the source
+  const files = statSync(path).isDirectory()
+    ? readFolder(path)
+    : readImportFiles(path, new Uint8Array(readFileSync(path)));
+  const records = parseImportFiles(files);
+  console.log(`Read ${files.length} files, ${records.length} records.\n`);
+
+  // Step 2: Plan — map fields and dedupe against existing entries
+  const plan = await planImport(records, { defaultCategory });
+
+  for (const p of plan.create) {
+    console.log(`  + [${p.input.category}] ${p.input.title}${p.input.status ? ` (${p.input.status})` : ''}`);
+    for (const w of p.warnings) console.log(`      ⚠ ${w}`);
+  }
+  for (const d of plan.duplicates) {
+    console.log(`  = [${d.category}] ${d.title} — exists (${d.matchedOn}: ${d.existingId})`);
+  }
+  for (const i of plan.invalid) {
+    console.log(`  ! ${i.sourcePath}: ${i.reason}`);
+  }
+
+  console.log(`\n${plan.create.length} to create, ${plan.duplicates.length} duplicates, ${plan.invalid.length} invalid`);
+
+  if (!apply) {
+    console.log('\nDry run — re-run with --apply to write.');
+    return;
+  }
+
+  // Step 3: Write with batched embeddings
+  console.log(`\nCreating ${plan.create.length} entries...`);
+  const result = await applyImport(plan);
+  for (const f of result.failed) console.error(`  ✗ Failed: "${f.title}" — ${f.error}`);
+
+  console.log(`\n=== Import complete: ${result.created.length} created, ${result.failed.length} failed ===`);
+}
+
+runImport()
+  .then(() => {
+    // Give logActivity calls time to flush
+    setTimeout(() => process.exit(0), 1000);
+  })
+  .catch(err => {
+    console.error('Import failed:', err);
+    process.exit(1);
+  });
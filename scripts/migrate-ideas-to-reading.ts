@@ -12,7 +12,7 @@
 import { eq, and, sql } from 'drizzle-orm';
 import { db } from '../src/db';
 import { entries } from '../src/db/schema';
-import { generateEmbeddingsBatch, buildEmbeddingText } from '../src/services/db/embeddings';
+import { generateEmbeddingsBatch, buildEmbeddingText, embeddingColumns, textHashColumn } from '../src/services/db/embeddings';
 import { logActivity } from '../src/services/db/activity';
 
 async function migrateIdeasToReading() {
@@ -70,7 +70,8 @@ async function migrateIdeasToReading() {
         .set({
           category: 'Reading',
           status: newStatus,
-          embedding: newEmbeddings[i],
+          ...embeddingColumns(newEmbeddings[i], embeddingTexts[i]),
+          ...textHashColumn(entry.title, (entry.content as Record<string, unknown>) || {}),
           updatedAt: new Date(),
         })
         .where(eq(entries.id, entry.id));
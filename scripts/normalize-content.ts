@@ -0,0 +1,86 @@
+/**
+ * Normalise entries.content against the per-category content schemas
+ *
+ * Renames API-style keys to stored keys ('next_action' → 'nextAction'), turns
+ * numbers in text fields into strings and drops nulls. Every result is
+ * checked against the schema in both modes; rows that still don't fit
+ * (unknown keys, wrong types, unknown category) are listed and left as they
+ * are. Dry-run by default: prints the changes and writes nothing until
+ * --apply is passed.
+ *
+ * Run with:
+ *   DOTENV_CONFIG_PATH=.env.local npx tsx --require dotenv/config scripts/normalize-content.ts [--apply]
+ */
+
+import { asc, eq } from 'drizzle-orm';
+import { db } from '../src/db';
+import { entries } from '../src/db/schema';
+import { getCategories } from '../src/services/db/categories';
+import { findCategory } from '../src/config/categories';
+import { normalizeContent, validateContent } from '../src/lib/content';
+import { textHashColumn } from '../src/services/db/embeddings';
+
+const BATCH_SIZE = 500;
+
+async function normalizeAllContent() {
+  const apply = process.argv.includes('--apply');
+  console.log(`=== Normalise entry content${apply ? '' : ' (dry run)'} ===\n`);
+
+  const categories = await getCategories();
+  let checked = 0;
+  let normalized = 0;
+  const misfits: string[] = [];
+
+  for (let offset = 0; ; offset += BATCH_SIZE) {
+    const batch = await db
+      .select({ id: entries.id, category: entries.category, title: entries.title, content: entries.content })
+      .from(entries)
+      .orderBy(asc(entries.createdAt), asc(entries.id))
+      .limit(BATCH_SIZE)
+      .offset(offset);
+    if (batch.length === 0) break;
+
+    for (const entry of batch) {
+      checked++;
+      const label = `"${entry.title}" [${entry.category}] ${entry.id}`;
+      const definition = findCategory(categories, entry.category);
+      if (!definition) {
+        misfits.push(`${label} — unknown category`);
+        continue;
+      }
+
+      const result = normalizeContent(definition, (entry.content as Record<string, unknown>) || {});
+      if (result.error) {
+        misfits.push(`${label} — ${result.error}`);
+        continue;
+      }
+      const valid = validateContent(definition, result.content);
+      if (!valid.success) {
+        misfits.push(`${label} — ${valid.error}`);
+        continue;
+      }
+      if (result.changes.length === 0) continue;
+
+      normalized++;
+      console.log(`  ${apply ? '✓' : '~'} ${label}: ${result.changes.join(', ')}`);
+      if (apply) {
+        await db.update(entries).set({ content: valid.data, ...textHashColumn(entry.title, valid.data) }).where(eq(entries.id, entry.id));
+      }
+    }
+  }
+
+  if (misfits.length > 0) {
+    console.log(`\nDon't fit the schema (left unchanged):`);
+    for (const line of misfits) console.log(`  ✗ ${line}`);
+  }
+
+  console.log(`\n=== ${checked} checked, ${normalized} ${apply ? 'normalised' : 'to normalise'}, ${misfits.length} don't fit ===`);
+  if (!apply && normalized > 0) console.log('Dry run — pass --apply to write the changes.');
+}
+
+normalizeAllContent()
+  .then(() => process.exit(0))
+  .catch(err => {
+    console.error('Normalisation failed:', err);
+    process.exit(1);
+  });
@@ -0,0 +1,47 @@
+/**
+ * Re-embed entries whose vectors are missing, stale or from another model
+ *
+ * Runs re-index passes until nothing is left, e.g. after changing
+ * EMBEDDING_MODEL. --status prints the counts and embeds nothing. Stops early
+ * if a pass embeds nothing, so a failing embeddings API doesn't loop forever.
+ *
+ * Run with:
+ *   DOTENV_CONFIG_PATH=.env.local npx tsx --require dotenv/config scripts/reindex-embeddings.ts [--status]
+ */
+
+import { getEmbeddingStatus, reindexEmbeddings } from '../src/services/db/reindex';
+
+async function reindexAllEmbeddings() {
+  const status = await getEmbeddingStatus();
+  console.log(`=== Embeddings (${status.model}) ===\n`);
+  console.log(`  ${status.total} entries: ${status.missing} missing, ${status.outdatedModel} from another model, ${status.stale} stale`);
+  console.log(`  ${status.outdatedExamples} classifier examples to re-embed\n`);
+
+  if (process.argv.includes('--status')) return;
+
+  let embedded = 0;
+  let examples = 0;
+  let failed = 0;
+  for (let pass = 1; ; pass++) {
+    const result = await reindexEmbeddings();
+    embedded += result.embedded;
+    examples += result.examplesEmbedded;
+    failed += result.failed;
+    console.log(`  Pass ${pass}: ${result.embedded} entries, ${result.examplesEmbedded} examples, ${result.failed} failed`);
+
+    if (!result.remaining) break;
+    if (result.embedded === 0 && result.examplesEmbedded === 0) {
+      console.log('  No progress — stopping; run again later.');
+      break;
+    }
+  }
+
+  console.log(`\n=== ${embedded} entries and ${examples} examples embedded, ${failed} failed ===`);
+}
+
+reindexAllEmbeddings()
+  .then(() => process.exit(0))
+  .catch(err => {
+    console.error('Re-index failed:', err);
+    process.exit(1);
+  });
@@ -2,15 +2,13 @@
 // Provides deep research capabilities with citations and reasoning transparency
 
 import { NextRequest, NextResponse } from 'next/server';
-import OpenAI from 'openai';
+import { isLLMConfigured } from '@/lib/llm';
 import { runResearchLoop, ResearchResponse } from '@/lib/research-agent';
 import { Citation } from '@/lib/research-agent/citations';
 import { eq } from 'drizzle-orm';
 import { db } from '@/db';
 import { chatSessions } from '@/db/schema';
 
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
-
 // In-memory conversation cache
 const conversationHistory = new Map<string, Array<{ role: string; content: string }>>();
 
@@ -82,11 +80,11 @@ interface ResearchAPIResponse {
 
 export async function POST(request: NextRequest): Promise<NextResponse<ResearchAPIResponse>> {
   try {
-    if (!OPENAI_API_KEY) {
+    if (!isLLMConfigured('research')) {
       return NextResponse.json(
         {
           status: 'error',
-          error: 'OpenAI API key not configured',
+          error: 'No LLM configured for research',
           response: '',
           citations: [],
           research_steps: [],
@@ -118,7 +116,6 @@ export async function POST(request: NextRequest): Promise<NextResponse<ResearchA
     }
 
     const sessionId = session_id || 'default-research';
-    const openai = new OpenAI({ apiKey: OPENAI_API_KEY });
 
     // Load conversation history from Neon, fall back to in-memory
     let history: Array<{ role: string; content: string }>;
@@ -135,7 +132,7 @@ export async function POST(request: NextRequest): Promise<NextResponse<ResearchA
     }
 
     // Run research loop
-    const result: ResearchResponse = await runResearchLoop(message, history, openai);
+    const result: ResearchResponse = await runResearchLoop(message, history);
 
     // Update history with new exchange
     history.push({ role: 'user', content: message });
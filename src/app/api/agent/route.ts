@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import OpenAI from 'openai';
-import { createEntry } from '@/services/db/entries';
+import type OpenAI from 'openai';
+import { capture, fromAgentTask, fromAgentIdea } from '@/services/capture';
 import { agentTools } from '@/lib/agent-tools/definitions';
 import { validate, agentSchema } from '@/lib/validation';
-import { searchBrainEntries, getItemDetailsCore, getRecentActivityCore } from '@/lib/agent-tools/handlers';
+import { getLLM, isLLMConfigured } from '@/lib/llm';
+import { searchBrainEntries, getItemDetailsCore, getRecentActivityCore, restoreFromTrashCore } from '@/lib/agent-tools/handlers';
 import { isGoogleConnected } from '@/services/google/auth';
 import { fetchTodaysEvents, fetchTomorrowsEvents, fetchWeekEvents, createCalendarEvent, deleteCalendarEvent } from '@/services/google/calendar';
 import { searchEmails as searchGmail, getEmailDetail } from '@/services/google/gmail';
@@ -13,17 +14,15 @@ import { eq } from 'drizzle-orm';
 import { db } from '@/db';
 import { chatSessions } from '@/db/schema';
 
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
-
 // ============= Tool Handlers =============
 
-async function searchBrain(query: string, categories?: string[]): Promise<string> {
-  const results = await searchBrainEntries(query, categories);
+async function searchBrain(query: string, categories?: string[], tags?: string[]): Promise<string> {
+  const results = await searchBrainEntries(query, categories, tags);
 
   if (results.length === 0) {
     return JSON.stringify({
       found: false,
-      message: `No items found matching "${query}" in your Second Brain.`,
+      message: `No items found matching "${query}"${tags?.length ? ` tagged ${tags.map(t => `#${t}`).join(' ')}` : ''} in your Second Brain.`,
       results: {},
     });
   }
@@ -72,12 +71,7 @@ async function createTask(
   dueDate?: string
 ): Promise<string> {
   try {
-    const entry = await createEntry({
-      category: 'Admin',
-      title,
-      priority: priority || undefined,
-      dueDate: dueDate || undefined,
-    });
+    const { items: [{ entry }] } = await capture(fromAgentTask({ title, priority, dueDate }));
 
     return JSON.stringify({
       success: true,
@@ -98,18 +92,7 @@ async function saveIdea(
   category?: string
 ): Promise<string> {
   try {
-    const content: Record<string, unknown> = {
-      rawInsight: insight,
-    };
-    if (category) {
-      content.ideaCategory = category;
-    }
-
-    const entry = await createEntry({
-      category: 'Idea',
-      title,
-      content,
-    });
+    const { items: [{ entry }] } = await capture(fromAgentIdea({ title, insight, category }));
 
     return JSON.stringify({
       success: true,
@@ -124,6 +107,39 @@ async function saveIdea(
   }
 }
 
+async function restoreFromTrash(query: string, itemId?: string): Promise<string> {
+  try {
+    const result = await restoreFromTrashCore(query, itemId);
+
+    if (result.restored) {
+      return JSON.stringify({
+        success: true,
+        message: `Restored "${result.restored.title}" (${result.restored.category}) from the trash.`,
+        id: result.restored.id,
+      });
+    }
+
+    if (result.candidates.length === 0) {
+      return JSON.stringify({
+        success: false,
+        error: `Nothing in the trash matches "${query}".`,
+      });
+    }
+
+    return JSON.stringify({
+      success: false,
+      needs_clarification: true,
+      message: 'Several deleted items match. Ask the user which one to restore.',
+      candidates: result.candidates,
+    });
+  } catch (error) {
+    return JSON.stringify({
+      success: false,
+      error: `Failed to restore: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    });
+  }
+}
+
 async function getRecentActivity(period: string, actionFilter?: string): Promise<string> {
   try {
     const validPeriod = (['today', 'this_week', 'this_month'] as const).includes(period as 'today' | 'this_week' | 'this_month')
@@ -431,13 +447,15 @@ async function handleToolCall(
 ): Promise<string> {
   switch (name) {
     case 'search_brain':
-      return await searchBrain(args.query as string, args.categories as string[] | undefined);
+      return await searchBrain(args.query as string, args.categories as string[] | undefined, args.tags as string[] | undefined);
     case 'get_item_details':
       return await getItemDetails(args.item_id as string);
     case 'create_task':
       return await createTask(args.title as string, args.priority as string | undefined, args.due_date as string | undefined);
     case 'save_idea':
       return await saveIdea(args.title as string, args.insight as string, args.category as string | undefined);
+    case 'restore_from_trash':
+      return await restoreFromTrash(args.query as string, args.item_id as string | undefined);
     case 'get_recent_activity':
       return await getRecentActivity(args.period as string, args.action_filter as string | undefined);
     case 'read_calendar':
@@ -468,10 +486,11 @@ function getSystemPrompt(): string {
 
 ## Your Capabilities
 You have access to these tools:
-- **search_brain**: Search for items by topic/keyword across People, Projects, Ideas, and Tasks
+- **search_brain**: Search for items by topic/keyword across People, Projects, Ideas, and Tasks (optionally only items with given tags)
 - **get_item_details**: Get full details of a specific item
 - **create_task**: Create new tasks/reminders
 - **save_idea**: Save insights as new Ideas
+- **restore_from_trash**: Bring back a deleted item from the trash
 - **get_recent_activity**: See what the user has been doing recently (captures, status changes, snoozes, completions)
 - **read_calendar**: Check Google Calendar events for today, tomorrow, or this week
 - **create_calendar_event**: Schedule a new calendar event (always check availability first with read_calendar)
@@ -492,6 +511,7 @@ You have access to these tools:
    - Note: Google Tasks are external to-do lists from Google. Second Brain tasks (Admin) are items captured in this app. If the user says "my tasks" without specifying, check both.
    - "What have I been working on?", "my recent activity", productivity, behavior patterns → use **get_recent_activity**
    - People, projects, ideas, tasks, topics stored in the brain → use **search_brain** first
+   - Undelete/restore/bring back a deleted item → use **restore_from_trash**
    - Current events, external knowledge, general questions, fact-checking → use **search_web**
    - If brain search returns no results and the question could benefit from web info → use **search_web** as fallback
 2. Present results clearly organized by category
@@ -593,9 +613,9 @@ async function deleteConversationFromDB(sessionId: string): Promise<boolean> {
 
 export async function POST(request: NextRequest) {
   try {
-    if (!OPENAI_API_KEY) {
+    if (!isLLMConfigured('chat')) {
       return NextResponse.json(
-        { status: 'error', error: 'OPENAI_API_KEY not configured' },
+        { status: 'error', error: 'No LLM configured for chat' },
         { status: 500 }
       );
     }
@@ -607,7 +627,7 @@ export async function POST(request: NextRequest) {
     }
     const { message } = parsed.data;
     const sessionId = parsed.data.session_id || 'default';
-    const openai = new OpenAI({ apiKey: OPENAI_API_KEY });
+    const { client, model } = getLLM('chat');
 
     // Load conversation - try Neon first, fall back to in-memory
     let history: ConversationMessage[];
@@ -638,8 +658,8 @@ export async function POST(request: NextRequest) {
     }
 
     // First API call - may include tool calls
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
+    const completion = await client.chat.completions.create({
+      model,
       temperature: 0.7,
       max_tokens: 1500,
       messages: recentMessages as OpenAI.ChatCompletionMessageParam[],
@@ -689,8 +709,8 @@ export async function POST(request: NextRequest) {
         updatedMessages.unshift(systemMessage);
       }
 
-      const finalCompletion = await openai.chat.completions.create({
-        model: 'gpt-4o-mini',
+      const finalCompletion = await client.chat.completions.create({
+        model,
         temperature: 0.7,
         max_tokens: 1500,
         messages: updatedMessages as OpenAI.ChatCompletionMessageParam[],
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAttachment, processAttachment, canProcessAttachment } from '@/services/attachments';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Re-run description / extraction on the stored original
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const attachment = await getAttachment(id);
+    if (!attachment) {
+      return NextResponse.json({ status: 'error', error: 'Attachment not found' }, { status: 404 });
+    }
+    if (!canProcessAttachment(attachment.kind)) {
+      return NextResponse.json(
+        { status: 'error', error: `${attachment.kind} attachments can't be reprocessed` },
+        { status: 400 }
+      );
+    }
+
+    const processed = await processAttachment(attachment);
+    if (!processed) {
+      return NextResponse.json(
+        { status: 'error', error: 'Stored file is missing' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      status: 'success',
+      id: processed.id,
+      description: processed.description || undefined,
+      processed_time: processed.processedAt?.toISOString(),
+    });
+  } catch (error) {
+    console.error('Attachment reprocess error:', error);
+    return NextResponse.json(
+      { status: 'error', error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
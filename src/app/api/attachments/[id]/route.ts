@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAttachment, readAttachmentData, deleteAttachment, contentDisposition } from '@/services/attachments';
+import { logActivity } from '@/services/db/activity';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function notFound() {
+  return NextResponse.json({ status: 'error', error: 'Attachment not found' }, { status: 404 });
+}
+
+// Serve the original file. Raster images show inline; the rest download, and
+// nosniff plus a sandbox CSP keep the bytes from running as a page either way.
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const attachment = await getAttachment(id);
+    if (!attachment) return notFound();
+
+    const data = await readAttachmentData(attachment);
+    if (!data) return notFound();
+
+    const download = request.nextUrl.searchParams.get('download') === 'true';
+    return new Response(new Blob([data as BlobPart], { type: attachment.mimeType }), {
+      headers: {
+        'Content-Type': attachment.mimeType,
+        'Content-Length': String(data.byteLength),
+        'Content-Disposition': contentDisposition(attachment.fileName, attachment.mimeType, download),
+        'X-Content-Type-Options': 'nosniff',
+        'Content-Security-Policy': 'sandbox',
+        'Cache-Control': 'private, max-age=86400',
+      },
+    });
+  } catch (error) {
+    console.error('Attachment fetch error:', error);
+    return NextResponse.json(
+      { status: 'error', error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Delete the attachment and its stored bytes
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const deleted = await deleteAttachment(id);
+    if (!deleted) return notFound();
+
+    if (deleted.entryId) {
+      logActivity(deleted.entryId, 'attachment_removed', { attachmentId: deleted.id, fileName: deleted.fileName });
+    }
+
+    return NextResponse.json({ status: 'deleted', id: deleted.id });
+  } catch (error) {
+    console.error('Attachment delete error:', error);
+    return NextResponse.json(
+      { status: 'error', error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
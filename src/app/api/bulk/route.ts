@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { applyBulkAction, type BulkAction } from '@/services/db/bulk';
+import { validate, bulkActionSchema } from '@/lib/validation';
+
+// Apply one action (status, priority, archive, recategorize, snooze, tag) to many entries
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const parsed = validate(bulkActionSchema, body);
+    if (!parsed.success) {
+      return NextResponse.json({ status: 'error', error: parsed.error }, { status: 400 });
+    }
+    const { ids, action } = parsed.data;
+
+    const bulkAction: BulkAction = action.type === 'snooze'
+      ? { type: 'snooze', dueDate: action.due_date }
+      : action;
+    const result = await applyBulkAction(ids, bulkAction);
+
+    return NextResponse.json({
+      status: 'success',
+      batch_id: result.batchId,
+      updated: result.updated,
+      results: result.items,
+    });
+  } catch (error) {
+    console.error('Bulk action error:', error);
+    return NextResponse.json(
+      { status: 'error', error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { capture, fromVoice, toCaptureResponse } from '@/services/capture';
+import { saveAttachment, MAX_ATTACHMENT_BYTES } from '@/services/attachments';
+import { transcribeAudio, audioFileName } from '@/services/transcribe';
+import { validate, voiceCaptureSchema } from '@/lib/validation';
+import { createLogger } from '@/lib/logger';
+import { isLLMConfigured } from '@/lib/llm';
+
+const log = createLogger('api/capture/voice');
+
+/**
+ * POST /api/capture/voice — multipart `audio` (a MediaRecorder blob) plus optional `reminderDate`
+ *
+ * Transcribes with Whisper and captures the transcript like typed text; the
+ * first entry keeps the transcript in its notes and, when storage allows, the
+ * recording as an audio attachment. Responds like /api/capture, plus `transcript`.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!isLLMConfigured('transcription') || !isLLMConfigured('classification')) {
+      return NextResponse.json(
+        { status: 'error', error: 'No LLM configured for transcription and classification' },
+        { status: 500 }
+      );
+    }
+
+    const form = await request.formData();
+    const audio = form.get('audio');
+    if (!(audio instanceof File) || audio.size === 0) {
+      return NextResponse.json({ status: 'error', error: 'Missing audio' }, { status: 400 });
+    }
+    if (!audio.type.startsWith('audio/')) {
+      return NextResponse.json({ status: 'error', error: 'Recording must be an audio file' }, { status: 400 });
+    }
+    if (audio.size > MAX_ATTACHMENT_BYTES) {
+      return NextResponse.json(
+        { status: 'error', error: `Recording too large (max ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB)` },
+        { status: 400 }
+      );
+    }
+
+    const reminderField = form.get('reminderDate');
+    const parsed = validate(voiceCaptureSchema, {
+      reminderDate: typeof reminderField === 'string' && reminderField ? reminderField : undefined,
+    });
+    if (!parsed.success) {
+      return NextResponse.json({ status: 'error', error: parsed.error }, { status: 400 });
+    }
+    const { reminderDate } = parsed.data;
+
+    const data = new Uint8Array(await audio.arrayBuffer());
+    const fileName = audioFileName(audio.type);
+    const transcript = await transcribeAudio(data, fileName, audio.type);
+    if (!transcript || transcript.length < 3) {
+      return NextResponse.json(
+        { status: 'error', error: 'Could not make out any speech in the recording' },
+        { status: 422 }
+      );
+    }
+
+    const result = await capture(fromVoice('web', transcript, reminderDate));
+
+    try {
+      await saveAttachment({
+        entryId: result.items[0].entry.id,
+        fileName,
+        mimeType: audio.type,
+        data,
+        description: transcript,
+      });
+    } catch (attachError) {
+      log.error('Failed to store voice recording', attachError);
+    }
+
+    return NextResponse.json({ ...toCaptureResponse(result, reminderDate), transcript });
+  } catch (error) {
+    log.error('Voice capture failed', error);
+    return NextResponse.json(
+      { status: 'error', error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  getCategories,
+  getCategory,
+  createCategory,
+  updateCategory,
+  deleteCategory,
+  type CategoryInput,
+} from '@/services/db/categories';
+import { toCategoryInfo } from '@/config/categories';
+import { validate, categorySchema, updateCategorySchema, deleteCategorySchema } from '@/lib/validation';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('api/categories');
+
+function toInput(data: z.infer<typeof categorySchema>): CategoryInput {
+  return {
+    name: data.name,
+    dbName: data.db_name || data.name,
+    description: data.description,
+    statuses: data.statuses,
+    defaultStatus: data.default_status,
+    doneStatus: data.done_status ?? null,
+    icon: data.icon,
+    gradient: data.gradient,
+    titleField: data.title_field || 'title',
+    fields: (data.fields || []).map(f => ({ key: f.key, contentKey: f.content_key, description: f.description })),
+    defaultContent: data.default_content || {},
+    defaultPriority: data.default_priority ?? null,
+  };
+}
+
+function errorResponse(error: unknown) {
+  return NextResponse.json(
+    { status: 'error', error: error instanceof Error ? error.message : 'Unknown error' },
+    { status: 500 }
+  );
+}
+
+/**
+ * GET /api/categories
+ *
+ * Category definitions (statuses, done status, icon, gradient, extraction
+ * fields) in display order.
+ */
+export async function GET() {
+  try {
+    const categories = await getCategories();
+    return NextResponse.json({ status: 'success', categories: categories.map(toCategoryInfo) });
+  } catch (error) {
+    log.error('List categories error', error);
+    return errorResponse(error);
+  }
+}
+
+/**
+ * POST /api/categories
+ * Body: { name, description, statuses, default_status, icon, gradient, ... }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const parsed = validate(categorySchema, body);
+    if (!parsed.success) {
+      return NextResponse.json({ status: 'error', error: parsed.error }, { status: 400 });
+    }
+
+    const input = toInput(parsed.data);
+    if (await getCategory(input.name) || await getCategory(input.dbName)) {
+      return NextResponse.json(
+        { status: 'error', error: `Category "${input.name}" already exists` },
+        { status: 409 }
+      );
+    }
+
+    const category = await createCategory(input);
+    log.info('Category created', { name: category.name });
+    return NextResponse.json({ status: 'success', category: toCategoryInfo(category) });
+  } catch (error) {
+    log.error('Create category error', error);
+    return errorResponse(error);
+  }
+}
+
+/**
+ * PUT /api/categories
+ * Body: { original_name, ...full definition }
+ * Changing db_name moves existing entries to the new name.
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const parsed = validate(updateCategorySchema, body);
+    if (!parsed.success) {
+      return NextResponse.json({ status: 'error', error: parsed.error }, { status: 400 });
+    }
+
+    const input = toInput(parsed.data);
+    const current = await getCategory(parsed.data.original_name);
+    if (!current) {
+      return NextResponse.json({ status: 'error', error: 'Category not found' }, { status: 404 });
+    }
+
+    // Renames must not collide with another category
+    for (const name of [input.name, input.dbName]) {
+      const clash = await getCategory(name);
+      if (clash && clash.name !== current.name) {
+        return NextResponse.json(
+          { status: 'error', error: `Category "${name}" already exists` },
+          { status: 409 }
+        );
+      }
+    }
+
+    const category = await updateCategory(current.name, input);
+    if (!category) {
+      return NextResponse.json({ status: 'error', error: 'Category not found' }, { status: 404 });
+    }
+
+    log.info('Category updated', { name: category.name });
+    return NextResponse.json({ status: 'success', category: toCategoryInfo(category) });
+  } catch (error) {
+    log.error('Update category error', error);
+    return errorResponse(error);
+  }
+}
+
+/**
+ * DELETE /api/categories
+ * Body: { name }
+ * Refused with 409 while entries still use the category.
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const parsed = validate(deleteCategorySchema, body);
+    if (!parsed.success) {
+      return NextResponse.json({ status: 'error', error: parsed.error }, { status: 400 });
+    }
+
+    const result = await deleteCategory(parsed.data.name);
+    if (result.inUse > 0) {
+      return NextResponse.json(
+        { status: 'error', error: `${result.inUse} entries still use this category — move them first` },
+        { status: 409 }
+      );
+    }
+    if (!result.deleted) {
+      return NextResponse.json({ status: 'error', error: 'Category not found' }, { status: 404 });
+    }
+
+    log.info('Category deleted', { name: parsed.data.name });
+    return NextResponse.json({ status: 'deleted' });
+  } catch (error) {
+    log.error('Delete category error', error);
+    return errorResponse(error);
+  }
+}
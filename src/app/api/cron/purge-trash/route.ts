@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { purgeExpiredEntries, getTrashRetentionDays } from '@/services/db/trash';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('cron/purge-trash');
+
+const CRON_SECRET = process.env.CRON_SECRET;
+
+/**
+ * Daily cron: permanently delete entries archived longer than the
+ * configured retention window (config key `trash_retention_days`).
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    if (CRON_SECRET && authHeader !== `Bearer ${CRON_SECRET}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const [purged, retentionDays] = await Promise.all([
+      purgeExpiredEntries(),
+      getTrashRetentionDays(),
+    ]);
+
+    log.info('Trash purged', { purged, retentionDays });
+
+    return NextResponse.json({ status: 'success', purged, retention_days: retentionDays });
+  } catch (error) {
+    log.error('Trash purge cron error:', error);
+    return NextResponse.json(
+      {
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Cron job failed',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { reindexEmbeddings } from '@/services/db/reindex';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('cron/reindex-embeddings');
+
+const CRON_SECRET = process.env.CRON_SECRET;
+
+/**
+ * Daily cron: one re-index pass over entries with missing, stale or
+ * outdated-model embeddings. Large backlogs (a model switch) drain over
+ * several runs, or at once from Settings or `npm run db:reindex-embeddings`.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    if (CRON_SECRET && authHeader !== `Bearer ${CRON_SECRET}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const result = await reindexEmbeddings();
+
+    return NextResponse.json({
+      status: 'success',
+      model: result.model,
+      embedded: result.embedded,
+      failed: result.failed,
+      examples_embedded: result.examplesEmbedded,
+      remaining: result.remaining,
+    });
+  } catch (error) {
+    log.error('Embedding re-index cron error:', error);
+    return NextResponse.json(
+      {
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Cron job failed',
+      },
+      { status: 500 }
+    );
+  }
+}
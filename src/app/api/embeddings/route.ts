@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { getEmbeddingStatus, reindexEmbeddings } from '@/services/db/reindex';
+
+/**
+ * GET /api/embeddings
+ *
+ * How many entries need embedding: no vector, a vector from another model,
+ * or one built from text that has since changed.
+ */
+export async function GET() {
+  try {
+    const status = await getEmbeddingStatus();
+
+    return NextResponse.json({
+      status: 'success',
+      model: status.model,
+      total: status.total,
+      missing: status.missing,
+      outdated_model: status.outdatedModel,
+      stale: status.stale,
+      outdated_examples: status.outdatedExamples,
+    });
+  } catch (error) {
+    console.error('Embedding status error:', error);
+    return NextResponse.json(
+      { status: 'error', error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Run one re-index pass; call again while `remaining` is true
+export async function POST() {
+  try {
+    const result = await reindexEmbeddings();
+
+    return NextResponse.json({
+      status: 'success',
+      model: result.model,
+      embedded: result.embedded,
+      failed: result.failed,
+      examples_embedded: result.examplesEmbedded,
+      remaining: result.remaining,
+    });
+  } catch (error) {
+    console.error('Embedding re-index error:', error);
+    return NextResponse.json(
+      { status: 'error', error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
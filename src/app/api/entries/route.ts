@@ -1,84 +1,126 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { queryEntries, countEntries } from '@/services/db/entries';
+import { listEntries, decodeCursor } from '@/services/db/entries';
+import { getCategories } from '@/services/db/categories';
+import { readSubtasks, subtaskProgress } from '@/services/db/subtasks';
+import { getTagsForEntries, normalizeTags } from '@/services/db/tags';
+import { findCategory } from '@/config/categories';
+import { entriesQuerySchema, validate } from '@/lib/validation';
+
+// Params that take several values, comma-separated or repeated
+const LIST_PARAMS = ['database', 'status', 'priority', 'source', 'tags'];
 
 /**
- * GET /api/entries?database=admin&status=Todo
+ * GET /api/entries?database=admin,projects&status=Todo&due_before=2026-03-01&limit=50
  *
  * Local replacement for the n8n sb-pwa-fetch webhook.
  * Returns entries from Neon, matching the same response shape.
+ * List params (database, status, priority, source) match any of their values;
+ * `tags` keeps entries carrying all of them. Date ranges are
+ * [*_after, *_before). No `database` means every category. Pages follow
+ * `nextCursor` until it is null; `total` counts every matching entry.
  */
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = request.nextUrl;
-    const database = searchParams.get('database');
-    const status = searchParams.get('status') || undefined;
+    const query: Record<string, unknown> = {};
+    for (const [key, value] of searchParams) {
+      if (LIST_PARAMS.includes(key)) {
+        const values = value.split(',').map(v => v.trim()).filter(Boolean);
+        query[key] = [...((query[key] as string[]) || []), ...values];
+      } else {
+        query[key] = value;
+      }
+    }
 
-    if (!database) {
+    const parsed = validate(entriesQuerySchema, query);
+    if (!parsed.success) {
       return NextResponse.json(
-        { status: 'error', error: 'Missing required param: database' },
+        { status: 'error', error: parsed.error },
         { status: 400 }
       );
     }
+    const params = parsed.data;
 
-    // Map frontend database names to Neon category names
-    const categoryMap: Record<string, string> = {
-      admin: 'Admin',
-      projects: 'Projects',
-      ideas: 'Ideas',
-      people: 'People',
-    };
+    // Frontend database names are the lowercased stored category names ('projects')
+    const definitions = await getCategories();
+    const categories = [];
+    for (const database of params.database) {
+      const definition = findCategory(definitions, database);
+      if (!definition) {
+        return NextResponse.json(
+          { status: 'error', error: `Unknown database: ${database}` },
+          { status: 400 }
+        );
+      }
+      categories.push(definition.dbName);
+    }
 
-    const category = categoryMap[database.toLowerCase()];
-    if (!category) {
+    const cursor = params.cursor ? decodeCursor(params.cursor, params.sort) : undefined;
+    if (cursor === null) {
       return NextResponse.json(
-        { status: 'error', error: `Unknown database: ${database}` },
+        { status: 'error', error: 'Invalid cursor' },
         { status: 400 }
       );
     }
 
-    const page = Math.max(1, parseInt(searchParams.get('page') || '1'));
-    const pageSize = Math.min(100, Math.max(1, parseInt(searchParams.get('pageSize') || '50')));
+    const tags = normalizeTags(params.tags);
+    const toDate = (value?: string) => (value ? new Date(value) : undefined);
 
-    const [entries, total] = await Promise.all([
-      queryEntries({
-        category,
-        status,
-        orderBy: 'created_at',
-        orderDir: 'desc',
-        limit: pageSize,
-        offset: (page - 1) * pageSize,
-      }),
-      countEntries({ category, status }),
-    ]);
+    const page = await listEntries(
+      {
+        category: categories,
+        status: params.status,
+        priority: params.priority,
+        source: params.source,
+        tags,
+        dueAfter: toDate(params.due_after),
+        dueBefore: toDate(params.due_before),
+        createdAfter: toDate(params.created_after),
+        createdBefore: toDate(params.created_before),
+        updatedAfter: toDate(params.updated_after),
+        updatedBefore: toDate(params.updated_before),
+        hasRelation: params.has_relation === undefined ? undefined : params.has_relation === 'true',
+      },
+      { sort: params.sort, order: params.order, limit: params.limit, cursor }
+    );
+    const tagsByEntry = await getTagsForEntries(page.items.map(entry => entry.id));
 
     // Map to the frontend Entry shape
-    const items = entries.map(entry => {
+    const items = page.items.map(entry => {
       const content = (entry.content as Record<string, unknown>) || {};
+      const subtasks = subtaskProgress(readSubtasks(entry));
       return {
         id: entry.id,
         title: entry.title,
+        category: findCategory(definitions, entry.category)?.name || entry.category,
         status: entry.status || '',
         priority: entry.priority || undefined,
         due_date: entry.dueDate?.toISOString().split('T')[0] || undefined,
+        recurrence: entry.recurrence || undefined,
+        source: entry.source || undefined,
         created: entry.createdAt.toISOString(),
         notes: (content.notes as string) || undefined,
         context: (content.context as string) || undefined,
         company: (content.company as string) || undefined,
         role: (content.role as string) || undefined,
         one_liner: (content.oneLiner as string) || undefined,
-        maturity: category === 'Ideas' ? entry.status : undefined,
+        maturity: entry.category === 'Ideas' ? entry.status : undefined,
         url: (content.source as string) || undefined,
+        subtasks_done: subtasks.total > 0 ? subtasks.done : undefined,
+        subtasks_total: subtasks.total > 0 ? subtasks.total : undefined,
+        tags: tagsByEntry.get(entry.id) || [],
       };
     });
 
     return NextResponse.json({
       status: 'ok',
-      database,
+      database: params.database.join(','),
+      ...(tags.length > 0 && { tags }),
       count: items.length,
-      total,
-      page,
-      pageSize,
-      hasMore: page * pageSize < total,
+      total: page.total,
+      limit: params.limit,
+      hasMore: page.nextCursor !== null,
+      nextCursor: page.nextCursor,
       items,
     });
   } catch (error) {
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getEntry, getEntryByLegacyId } from '@/services/db/entries';
+import { logActivity } from '@/services/db/activity';
+import {
+  listAttachments,
+  saveAttachment,
+  processAttachment,
+  canProcessAttachment,
+  attachmentKind,
+  MAX_ATTACHMENT_BYTES,
+} from '@/services/attachments';
+import { detectDocumentKind } from '@/services/documents';
+import type { Attachment } from '@/db/schema';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function toResponse(a: Attachment) {
+  return {
+    id: a.id,
+    kind: a.kind,
+    file_name: a.fileName,
+    mime_type: a.mimeType,
+    size: a.size,
+    description: a.description || undefined,
+    processed_time: a.processedAt?.toISOString(),
+    created_time: a.createdAt.toISOString(),
+    url: `/api/attachments/${a.id}`,
+  };
+}
+
+async function loadEntry(context: RouteContext) {
+  const { id } = await context.params;
+  return await getEntry(id) || await getEntryByLegacyId(id);
+}
+
+function notFound() {
+  return NextResponse.json({ status: 'error', error: 'Entry not found' }, { status: 404 });
+}
+
+function errorResponse(label: string, error: unknown) {
+  console.error(`${label}:`, error);
+  return NextResponse.json(
+    { status: 'error', error: error instanceof Error ? error.message : 'Unknown error' },
+    { status: 500 }
+  );
+}
+
+// List an entry's attachments (oldest first)
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const entry = await loadEntry(context);
+    if (!entry) return notFound();
+
+    const rows = await listAttachments(entry.id);
+    return NextResponse.json({
+      status: 'success',
+      entry_id: entry.id,
+      attachments: rows.map(toResponse),
+    });
+  } catch (error) {
+    return errorResponse('List attachments error', error);
+  }
+}
+
+// Upload a file (multipart field `file`); images are described right away
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const entry = await loadEntry(context);
+    if (!entry) return notFound();
+
+    const form = await request.formData();
+    const file = form.get('file');
+    if (!(file instanceof File) || file.size === 0) {
+      return NextResponse.json({ status: 'error', error: 'Missing file' }, { status: 400 });
+    }
+    if (attachmentKind(file.type) === 'file' && !detectDocumentKind(file.type, file.name)) {
+      return NextResponse.json(
+        { status: 'error', error: 'Only images (not SVG), PDFs, audio and text documents can be attached' },
+        { status: 400 }
+      );
+    }
+    if (file.size > MAX_ATTACHMENT_BYTES) {
+      return NextResponse.json(
+        { status: 'error', error: `File too large (max ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB)` },
+        { status: 400 }
+      );
+    }
+
+    let attachment = await saveAttachment({
+      entryId: entry.id,
+      fileName: file.name,
+      mimeType: file.type,
+      data: new Uint8Array(await file.arrayBuffer()),
+    });
+
+    if (canProcessAttachment(attachment.kind)) {
+      try {
+        attachment = await processAttachment(attachment) || attachment;
+      } catch (processError) {
+        console.error('Attachment processing failed:', processError);
+      }
+    }
+
+    logActivity(entry.id, 'attachment_added', { attachmentId: attachment.id, kind: attachment.kind });
+
+    return NextResponse.json({ status: 'success', attachment: toResponse(attachment) });
+  } catch (error) {
+    return errorResponse('Upload attachment error', error);
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getEntry, getEntryByLegacyId } from '@/services/db/entries';
+import { getRevisions, restoreRevision } from '@/services/db/revisions';
+import { logActivity } from '@/services/db/activity';
+import { validate, restoreRevisionSchema } from '@/lib/validation';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// List an entry's revision history (newest first)
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    const entry = await getEntry(id) || await getEntryByLegacyId(id);
+    if (!entry) {
+      return NextResponse.json(
+        { status: 'error', error: 'Entry not found' },
+        { status: 404 }
+      );
+    }
+
+    const revisions = await getRevisions(entry.id);
+
+    return NextResponse.json({
+      status: 'success',
+      entry_id: entry.id,
+      revisions: revisions.map(r => ({
+        id: r.id,
+        action: r.action,
+        changed_fields: r.changedFields || [],
+        created_time: r.createdAt.toISOString(),
+        title: r.snapshot.title,
+        status: r.snapshot.status,
+        priority: r.snapshot.priority,
+        category: r.snapshot.category,
+        due_date: r.snapshot.dueDate?.split('T')[0] || undefined,
+        notes: (r.snapshot.content.notes as string) || undefined,
+        archived: !!r.snapshot.archived,
+      })),
+    });
+  } catch (error) {
+    console.error('Entry history error:', error);
+    return NextResponse.json(
+      { status: 'error', error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Restore an entry to a previous revision
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const body = await request.json();
+    const parsed = validate(restoreRevisionSchema, body);
+    if (!parsed.success) {
+      return NextResponse.json({ status: 'error', error: parsed.error }, { status: 400 });
+    }
+    const { revision_id } = parsed.data;
+
+    const entry = await getEntry(id) || await getEntryByLegacyId(id);
+    if (!entry) {
+      return NextResponse.json(
+        { status: 'error', error: 'Entry not found' },
+        { status: 404 }
+      );
+    }
+
+    const restored = await restoreRevision(entry.id, revision_id);
+    if (!restored) {
+      return NextResponse.json(
+        { status: 'error', error: 'Revision not found' },
+        { status: 404 }
+      );
+    }
+
+    logActivity(entry.id, 'restored', { revisionId: revision_id });
+
+    return NextResponse.json({
+      status: 'restored',
+      page_id: restored.id,
+      revision_id,
+    });
+  } catch (error) {
+    console.error('Entry restore error:', error);
+    return NextResponse.json(
+      { status: 'error', error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
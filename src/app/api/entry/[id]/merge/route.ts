@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getEntry, getEntryByLegacyId } from '@/services/db/entries';
+import { mergeEntries } from '@/services/db/merge';
+import { validate, mergeEntrySchema } from '@/lib/validation';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Merge this entry (a duplicate) into another; the duplicate moves to the trash
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const body = await request.json();
+    const parsed = validate(mergeEntrySchema, body);
+    if (!parsed.success) {
+      return NextResponse.json({ status: 'error', error: parsed.error }, { status: 400 });
+    }
+    const { into_id } = parsed.data;
+
+    const entry = await getEntry(id) || await getEntryByLegacyId(id);
+    if (!entry) {
+      return NextResponse.json(
+        { status: 'error', error: 'Entry not found' },
+        { status: 404 }
+      );
+    }
+    if (entry.id === into_id) {
+      return NextResponse.json(
+        { status: 'error', error: 'Cannot merge an entry into itself' },
+        { status: 400 }
+      );
+    }
+
+    const target = await getEntry(into_id);
+    if (target && target.category !== entry.category) {
+      return NextResponse.json(
+        { status: 'error', error: `Only entries in the same category can be merged (${entry.category} into ${target.category})` },
+        { status: 400 }
+      );
+    }
+
+    const merged = await mergeEntries(entry.id, into_id);
+    if (!merged) {
+      return NextResponse.json(
+        { status: 'error', error: 'Entry to merge into not found or archived' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      status: 'merged',
+      page_id: merged.id,
+      merged_id: entry.id,
+      title: merged.title,
+    });
+  } catch (error) {
+    console.error('Entry merge error:', error);
+    return NextResponse.json(
+      { status: 'error', error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getEntry, getEntryByLegacyId } from '@/services/db/entries';
+import { addMentionedPerson } from '@/services/capture';
+import { validate, addPersonSchema } from '@/lib/validation';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Create a People entry for someone this entry mentioned, and link the two
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const body = await request.json();
+    const parsed = validate(addPersonSchema, body);
+    if (!parsed.success) {
+      return NextResponse.json({ status: 'error', error: parsed.error }, { status: 400 });
+    }
+
+    const entry = await getEntry(id) || await getEntryByLegacyId(id);
+    if (!entry) {
+      return NextResponse.json(
+        { status: 'error', error: 'Entry not found' },
+        { status: 404 }
+      );
+    }
+
+    const { name, company } = parsed.data;
+    const person = await addMentionedPerson(entry, { name, ...(company && { company }) }, 'web');
+
+    return NextResponse.json({ status: 'created', person });
+  } catch (error) {
+    console.error('Add person error:', error);
+    return NextResponse.json(
+      { status: 'error', error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
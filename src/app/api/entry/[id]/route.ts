@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getEntry, getEntryByLegacyId } from '@/services/db/entries';
+import { getCategory } from '@/services/db/categories';
 
 // Fetch a single entry's full details from Neon
 export async function GET(
@@ -31,14 +32,8 @@ export async function GET(
 
     const content = (dbEntry.content as Record<string, unknown>) || {};
 
-    // Determine entry type from category
-    const categoryMap: Record<string, string> = {
-      People: 'People',
-      Projects: 'Project',
-      Ideas: 'Idea',
-      Admin: 'Admin',
-    };
-    const entryType = categoryMap[dbEntry.category] || dbEntry.category;
+    // Determine entry type (singular category name) from the stored category
+    const entryType = (await getCategory(dbEntry.category))?.name || dbEntry.category;
 
     // Build response
     const entry: Record<string, unknown> = {
@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getEntry, getEntryByLegacyId } from '@/services/db/entries';
+import {
+  getSubtasks,
+  addSubtask,
+  setSubtaskDone,
+  renameSubtask,
+  reorderSubtasks,
+  removeSubtask,
+  readSubtasks,
+  subtaskProgress,
+  supportsSubtasks,
+  type Subtask,
+} from '@/services/db/subtasks';
+import type { Entry } from '@/db/schema';
+import { validate, addSubtaskSchema, updateSubtaskSchema, deleteSubtaskSchema } from '@/lib/validation';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function toResponse(s: Subtask) {
+  return {
+    id: s.id,
+    text: s.text,
+    done: s.done,
+    entry_id: s.entryId || undefined,
+    status: s.status || undefined,
+    due_date: s.dueDate || undefined,
+  };
+}
+
+async function loadProject(context: RouteContext) {
+  const { id } = await context.params;
+  return await getEntry(id) || await getEntryByLegacyId(id);
+}
+
+async function listResponse(project: Entry) {
+  const subtasks = await getSubtasks(project);
+  const content = (project.content as Record<string, unknown>) || {};
+  return {
+    status: 'success' as const,
+    entry_id: project.id,
+    project_status: project.status,
+    next_action: (content.nextAction as string) || '',
+    progress: subtaskProgress(readSubtasks(project)),
+    subtasks: subtasks.map(toResponse),
+  };
+}
+
+function notFound(error: string) {
+  return NextResponse.json({ status: 'error', error }, { status: 404 });
+}
+
+function notAProject(project: Entry) {
+  return NextResponse.json(
+    { status: 'error', error: `${project.category} entries don't have subtasks` },
+    { status: 400 }
+  );
+}
+
+function errorResponse(label: string, error: unknown) {
+  console.error(`${label}:`, error);
+  return NextResponse.json(
+    { status: 'error', error: error instanceof Error ? error.message : 'Unknown error' },
+    { status: 500 }
+  );
+}
+
+// List a project's subtasks in order with progress
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const project = await loadProject(context);
+    if (!project) return notFound('Entry not found');
+
+    return NextResponse.json(await listResponse(project));
+  } catch (error) {
+    return errorResponse('Subtasks fetch error', error);
+  }
+}
+
+// Add a subtask: { text, as_entry?, category? } or { entry_id } to link an existing entry
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const body = await request.json();
+    const parsed = validate(addSubtaskSchema, body);
+    if (!parsed.success) {
+      return NextResponse.json({ status: 'error', error: parsed.error }, { status: 400 });
+    }
+
+    const project = await loadProject(context);
+    if (!project) return notFound('Entry not found');
+    if (!(await supportsSubtasks(project))) return notAProject(project);
+
+    const { text, entry_id, as_entry, category } = parsed.data;
+    const item = entry_id
+      ? await addSubtask(project, { entryId: entry_id })
+      : await addSubtask(project, { text: text!, asEntry: as_entry, category });
+    if (!item) return notFound('Subtask entry not found');
+
+    return NextResponse.json(await listResponse((await getEntry(project.id))!));
+  } catch (error) {
+    return errorResponse('Subtask add error', error);
+  }
+}
+
+// Tick/rename one subtask ({ subtask_id, done?, text? }) or reorder all ({ order })
+export async function PUT(request: NextRequest, context: RouteContext) {
+  try {
+    const body = await request.json();
+    const parsed = validate(updateSubtaskSchema, body);
+    if (!parsed.success) {
+      return NextResponse.json({ status: 'error', error: parsed.error }, { status: 400 });
+    }
+
+    const project = await loadProject(context);
+    if (!project) return notFound('Entry not found');
+    if (!(await supportsSubtasks(project))) return notAProject(project);
+
+    const { subtask_id, done, text, order } = parsed.data;
+    let updated: Entry | null = project;
+    if (order) {
+      updated = await reorderSubtasks(project, order);
+    } else {
+      if (text !== undefined) updated = updated && await renameSubtask(updated, subtask_id!, text);
+      if (done !== undefined) updated = updated && await setSubtaskDone(updated, subtask_id!, done);
+    }
+    if (!updated) return notFound('Subtask not found');
+
+    return NextResponse.json(await listResponse(updated));
+  } catch (error) {
+    return errorResponse('Subtask update error', error);
+  }
+}
+
+// Remove a subtask: { subtask_id }
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const body = await request.json();
+    const parsed = validate(deleteSubtaskSchema, body);
+    if (!parsed.success) {
+      return NextResponse.json({ status: 'error', error: parsed.error }, { status: 400 });
+    }
+
+    const project = await loadProject(context);
+    if (!project) return notFound('Entry not found');
+    if (!(await supportsSubtasks(project))) return notAProject(project);
+
+    const updated = await removeSubtask(project, parsed.data.subtask_id);
+    if (!updated) return notFound('Subtask not found');
+
+    return NextResponse.json(await listResponse(updated));
+  } catch (error) {
+    return errorResponse('Subtask delete error', error);
+  }
+}
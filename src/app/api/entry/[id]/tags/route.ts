@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getEntry, getEntryByLegacyId } from '@/services/db/entries';
+import { getEntryTags, setEntryTags } from '@/services/db/tags';
+import { logActivity } from '@/services/db/activity';
+import { validate, updateTagsSchema } from '@/lib/validation';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+async function loadEntry(context: RouteContext) {
+  const { id } = await context.params;
+  return await getEntry(id) || await getEntryByLegacyId(id);
+}
+
+function notFound() {
+  return NextResponse.json({ status: 'error', error: 'Entry not found' }, { status: 404 });
+}
+
+function errorResponse(label: string, error: unknown) {
+  console.error(`${label}:`, error);
+  return NextResponse.json(
+    { status: 'error', error: error instanceof Error ? error.message : 'Unknown error' },
+    { status: 500 }
+  );
+}
+
+// An entry's tags
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const entry = await loadEntry(context);
+    if (!entry) return notFound();
+
+    return NextResponse.json({ status: 'success', entry_id: entry.id, tags: await getEntryTags(entry.id) });
+  } catch (error) {
+    return errorResponse('Tags fetch error', error);
+  }
+}
+
+// Replace an entry's tags: { tags: string[] } (names are normalized, e.g. 'Q3 Launch' → 'q3-launch')
+export async function PUT(request: NextRequest, context: RouteContext) {
+  try {
+    const body = await request.json();
+    const parsed = validate(updateTagsSchema, body);
+    if (!parsed.success) {
+      return NextResponse.json({ status: 'error', error: parsed.error }, { status: 400 });
+    }
+
+    const entry = await loadEntry(context);
+    if (!entry) return notFound();
+
+    const previous = await getEntryTags(entry.id);
+    const tags = await setEntryTags(entry.id, parsed.data.tags);
+    const added = tags.filter(tag => !previous.includes(tag));
+    const removed = previous.filter(tag => !tags.includes(tag));
+    if (added.length > 0 || removed.length > 0) {
+      logActivity(entry.id, 'tagged', { added, removed });
+    }
+
+    return NextResponse.json({ status: 'success', entry_id: entry.id, tags });
+  } catch (error) {
+    return errorResponse('Tags update error', error);
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loadExportData, createJsonStream, createMarkdownZipStream } from '@/services/export';
+import { readAttachmentData } from '@/services/attachments';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('api/export');
+
+const FORMATS = ['json', 'markdown'] as const;
+type ExportFormat = typeof FORMATS[number];
+
+/**
+ * GET /api/export?format=json|markdown&include_archived=true
+ *
+ * Streams the whole brain — entries, relations, inbox log, activity and
+ * attachment metadata — as a JSON bundle, or a zip of Markdown notes (with the
+ * original attachment files) that opens as an Obsidian vault.
+ *
+ * Nightly backup:
+ *   curl -H "Authorization: Bearer $API_SECRET" "$APP_URL/api/export?format=json&include_archived=true" -o brain.json
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const format = (searchParams.get('format') || 'json') as ExportFormat;
+    const includeArchived = searchParams.get('include_archived') === 'true';
+
+    if (!FORMATS.includes(format)) {
+      return NextResponse.json(
+        { status: 'error', error: `Unknown format: ${format}. Use json or markdown.` },
+        { status: 400 }
+      );
+    }
+
+    const data = await loadExportData({ includeArchived });
+    const stamp = data.exportedAt.toISOString().split('T')[0];
+
+    log.info('Export started', {
+      format,
+      entries: data.entries.length,
+      relations: data.relations.length,
+    });
+
+    if (format === 'markdown') {
+      return new Response(createMarkdownZipStream(data, readAttachmentData), {
+        headers: {
+          'Content-Type': 'application/zip',
+          'Content-Disposition': `attachment; filename="second-brain-${stamp}.zip"`,
+          'Cache-Control': 'no-store',
+        },
+      });
+    }
+
+    return new Response(createJsonStream(data), {
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="second-brain-${stamp}.json"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    log.error('Export error', error);
+    return NextResponse.json(
+      { status: 'error', error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
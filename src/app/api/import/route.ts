@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  readImportFiles,
+  parseImportFiles,
+  planImport,
+  applyImport,
+  resolveCategory,
+} from '@/services/import';
+import { getCategories } from '@/services/db/categories';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('api/import');
+
+const MAX_UPLOAD_BYTES = 20 * 1024 * 1024;
+
+/**
+ * POST /api/import  (multipart/form-data)
+ *   file:             .zip (Obsidian vault / Notion export), .csv or .md
+ *   dry_run:          'false' to write; anything else only reports the plan
+ *   default_category: category for records with no folder/field hint (default Idea)
+ *
+ * A dry run returns what would be created, which records already exist
+ * (matched by Notion ID or category + title) and which rows were skipped.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const form = await request.formData();
+    const file = form.get('file');
+    const dryRun = form.get('dry_run') !== 'false';
+    const categoryParam = form.get('default_category');
+    const defaultCategory = typeof categoryParam === 'string' && categoryParam
+      ? resolveCategory(categoryParam, await getCategories())?.name
+      : 'Idea';
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ status: 'error', error: 'Missing file' }, { status: 400 });
+    }
+    if (file.size > MAX_UPLOAD_BYTES) {
+      return NextResponse.json({ status: 'error', error: 'File too large (max 20MB)' }, { status: 413 });
+    }
+    if (!defaultCategory) {
+      return NextResponse.json(
+        { status: 'error', error: `Unknown category: ${categoryParam}` },
+        { status: 400 }
+      );
+    }
+
+    let records;
+    try {
+      const files = readImportFiles(file.name, new Uint8Array(await file.arrayBuffer()));
+      records = parseImportFiles(files);
+    } catch (err) {
+      return NextResponse.json(
+        { status: 'error', error: err instanceof Error ? err.message : 'Could not read file' },
+        { status: 400 }
+      );
+    }
+
+    const plan = await planImport(records, { defaultCategory });
+    const result = dryRun ? null : await applyImport(plan);
+
+    log.info('Import', {
+      file: file.name,
+      dryRun,
+      records: records.length,
+      toCreate: plan.create.length,
+      duplicates: plan.duplicates.length,
+      invalid: plan.invalid.length,
+    });
+
+    return NextResponse.json({
+      status: 'success',
+      dry_run: dryRun,
+      summary: {
+        to_create: plan.create.length,
+        duplicates: plan.duplicates.length,
+        invalid: plan.invalid.length,
+        created: result?.created.length ?? 0,
+        failed: result?.failed.length ?? 0,
+      },
+      to_create: plan.create.map(p => ({
+        title: p.input.title,
+        category: p.input.category,
+        status: p.input.status || null,
+        due_date: p.input.dueDate || null,
+        tags: p.tags,
+        source_paths: p.sourcePaths,
+        warnings: p.warnings,
+      })),
+      duplicates: plan.duplicates.map(d => ({
+        title: d.title,
+        category: d.category,
+        existing_id: d.existingId,
+        matched_on: d.matchedOn,
+        source_path: d.sourcePath,
+      })),
+      invalid: plan.invalid.map(i => ({ source_path: i.sourcePath, reason: i.reason })),
+      ...(result && { created: result.created, failed: result.failed }),
+    });
+  } catch (error) {
+    log.error('Import error', error);
+    return NextResponse.json(
+      { status: 'error', error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
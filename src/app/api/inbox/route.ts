@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  listNeedsReview,
+  resolveReview,
+  getClassifierAccuracy,
+  getReviewThreshold,
+  setReviewThreshold,
+} from '@/services/db/inbox';
+import { getCategories } from '@/services/db/categories';
+import { findCategory } from '@/config/categories';
+import { validate, inboxResolveSchema, reviewThresholdSchema } from '@/lib/validation';
+
+/**
+ * GET /api/inbox
+ *
+ * Low-confidence captures waiting for triage, plus classifier accuracy
+ * (Processed vs Fixed) and the current review threshold.
+ */
+export async function GET() {
+  try {
+    const [rows, accuracy, threshold, categories] = await Promise.all([
+      listNeedsReview(),
+      getClassifierAccuracy(),
+      getReviewThreshold(),
+      getCategories(),
+    ]);
+
+    const items = rows.map(row => {
+      // Entries deleted since capture can only be dismissed
+      const entry = row.entry && !row.entry.archived ? row.entry : null;
+      return {
+        id: row.id,
+        raw_input: row.rawInput,
+        // Frontend uses the singular category name
+        category: findCategory(categories, entry?.category || row.category || '')?.name || row.category || '',
+        confidence: row.confidence ?? 0,
+        created_time: row.createdAt?.toISOString() || '',
+        entry_id: entry?.id || null,
+        entry_title: entry?.title || null,
+      };
+    });
+
+    return NextResponse.json({
+      status: 'success',
+      threshold,
+      accuracy,
+      items,
+    });
+  } catch (error) {
+    console.error('Inbox fetch error:', error);
+    return NextResponse.json(
+      { status: 'error', error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Resolve a Needs Review row: confirm the classifier's category or dismiss it
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const parsed = validate(inboxResolveSchema, body);
+    if (!parsed.success) {
+      return NextResponse.json({ status: 'error', error: parsed.error }, { status: 400 });
+    }
+    const { id, action } = parsed.data;
+
+    const row = await resolveReview(id, action === 'confirm' ? 'Processed' : 'Ignored');
+    if (!row) {
+      return NextResponse.json(
+        { status: 'error', error: 'Review item not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ status: 'success', id: row.id, log_status: row.status });
+  } catch (error) {
+    console.error('Inbox resolve error:', error);
+    return NextResponse.json(
+      { status: 'error', error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Update the confidence below which captures are parked for review
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const parsed = validate(reviewThresholdSchema, body);
+    if (!parsed.success) {
+      return NextResponse.json({ status: 'error', error: parsed.error }, { status: 400 });
+    }
+
+    await setReviewThreshold(parsed.data.threshold);
+
+    return NextResponse.json({ status: 'success', threshold: parsed.data.threshold });
+  } catch (error) {
+    console.error('Inbox settings error:', error);
+    return NextResponse.json(
+      { status: 'error', error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,13 +1,11 @@
 import { NextResponse } from 'next/server';
-import OpenAI from 'openai';
 import { queryEntries } from '@/services/db/entries';
 import { getActivitySummary, getFrequentlySnoozed } from '@/services/db/activity';
 import { isGoogleConnected } from '@/services/google/auth';
 import { fetchYesterdayEmailsOrEmpty, classifyEmails } from '@/services/digest/email';
+import { getLLM, isLLMConfigured } from '@/lib/llm';
 import type { EmailDigestItem } from '@/lib/types';
 
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
-
 interface StaleItem {
   id: string;
   title: string;
@@ -195,8 +193,8 @@ export async function GET() {
 
     // Generate AI insights
     let aiInsights: string | null = null;
-    if (OPENAI_API_KEY && (weeklyStats.totalCaptures > 0 || staleItems.length > 0 || dueToday.length > 0)) {
-      const openai = new OpenAI({ apiKey: OPENAI_API_KEY });
+    if (isLLMConfigured('summarization') && (weeklyStats.totalCaptures > 0 || staleItems.length > 0 || dueToday.length > 0)) {
+      const { client, model } = getLLM('summarization');
 
       // Build activity context
       let activityContext = '';
@@ -230,8 +228,8 @@ export async function GET() {
       }
 
       try {
-        const completion = await openai.chat.completions.create({
-          model: 'gpt-4o-mini',
+        const completion = await client.chat.completions.create({
+          model,
           temperature: 0.7,
           messages: [
             {
@@ -1,18 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import * as cheerio from 'cheerio';
-import OpenAI from 'openai';
 import { YoutubeTranscript } from 'youtube-transcript';
 import { validate, processUrlSchema } from '@/lib/validation';
 import { queryEntries } from '@/services/db/entries';
+import { detectDocumentKind, parseDocument, condenseDocument, readDocumentBody, MAX_DOCUMENT_BYTES, type DocumentKind } from '@/services/documents';
 import { createLogger } from '@/lib/logger';
+import { getLLM, isLLMConfigured } from '@/lib/llm';
 
 const log = createLogger('api/process-url');
 
-// Environment variables
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
-
-// URL type detection
-type UrlType = 'youtube' | 'twitter' | 'article' | 'generic';
+// URL type detection ('document' is decided after fetching, from the content type)
+type UrlType = 'youtube' | 'twitter' | 'article' | 'generic' | 'document';
 
 function detectUrlType(url: string): UrlType {
   const hostname = new URL(url).hostname.toLowerCase();
@@ -165,15 +163,52 @@ function fetchYouTubeDescription(html: string): string {
   return '';
 }
 
-// Fetch and extract content from URL
-async function extractContent(url: string, urlType: UrlType): Promise<{
+// PDFs and text files: how they were parsed, for the prompt and the preview
+interface DocumentInfo {
+  kind: DocumentKind;
+  pageCount: number;
+  paged: boolean;
+  truncated: boolean;
+}
+
+interface ExtractedContent {
   title: string;
   content: string;
   description: string;
   author?: string;
   publishDate?: string;
   readTime?: string;
-}> {
+  document?: DocumentInfo;
+}
+
+// Estimate read time (average 200 words per minute)
+function estimateReadTime(text: string): string {
+  const wordCount = text.split(/\s+/).length;
+  return Math.max(1, Math.ceil(wordCount / 200)) + ' min read';
+}
+
+// Parse a PDF / text / Markdown file; long ones are condensed chunk by chunk
+async function extractDocumentContent(data: Uint8Array, kind: DocumentKind, name: string): Promise<ExtractedContent> {
+  const doc = await parseDocument(data, kind, name);
+  const condensed = await condenseDocument(doc);
+
+  return {
+    title: doc.title,
+    content: condensed.content,
+    description: '',
+    author: doc.author,
+    readTime: estimateReadTime(doc.pages.join(' ')),
+    document: {
+      kind,
+      pageCount: doc.pages.length,
+      paged: doc.paged,
+      truncated: condensed.truncated,
+    },
+  };
+}
+
+// Fetch and extract content from URL
+async function extractContent(url: string, urlType: UrlType): Promise<ExtractedContent> {
   const response = await fetch(url, {
     headers: {
       'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36',
@@ -185,6 +220,11 @@ async function extractContent(url: string, urlType: UrlType): Promise<{
     throw new Error(`Failed to fetch URL: ${response.status}`);
   }
 
+  const documentKind = detectDocumentKind(response.headers.get('content-type'), url);
+  if (documentKind) {
+    return extractDocumentContent(await readDocumentBody(response), documentKind, url);
+  }
+
   const html = await response.text();
   const $ = cheerio.load(html);
 
@@ -304,17 +344,13 @@ async function extractContent(url: string, urlType: UrlType): Promise<{
     .trim()
     .slice(0, 8000); // Limit content length for API
 
-  // Estimate read time (average 200 words per minute)
-  const wordCount = content.split(/\s+/).length;
-  const readTime = Math.max(1, Math.ceil(wordCount / 200)) + ' min read';
-
   return {
     title: finalTitle.trim(),
     content,
     description: description.trim(),
     author: finalAuthor.trim() || undefined,
     publishDate: publishDate || undefined,
-    readTime,
+    readTime: estimateReadTime(content),
   };
 }
 
@@ -354,11 +390,18 @@ interface RichSummary {
   content_type: string;
 }
 
+// Content type label shown on the preview card
+function contentTypeLabel(urlType: UrlType, document?: DocumentInfo): string {
+  if (document) return document.kind === 'pdf' ? 'PDF' : 'Document';
+  return urlType === 'youtube' ? 'Video' : 'Article';
+}
+
 // Generate ultra-comprehensive summary with OpenAI
 async function generateSummary(
   title: string,
   content: string,
-  urlType: UrlType
+  urlType: UrlType,
+  document?: DocumentInfo
 ): Promise<RichSummary> {
   const defaultSummary: RichSummary = {
     one_liner: 'AI summary unavailable',
@@ -377,19 +420,20 @@ async function generateSummary(
     related_topics: [],
     category: 'Tech',
     complexity: 'Intermediate',
-    content_type: urlType === 'youtube' ? 'Video' : 'Article',
+    content_type: contentTypeLabel(urlType, document),
   };
 
-  if (!OPENAI_API_KEY) {
+  if (!isLLMConfigured('summarization')) {
     return defaultSummary;
   }
 
-  const openai = new OpenAI({ apiKey: OPENAI_API_KEY });
-  const contentType = urlType === 'youtube' ? 'video' : 'article';
+  const { client, model } = getLLM('summarization');
+  const contentType = urlType === 'youtube' ? 'video' : document ? 'document' : 'article';
   const isVideo = urlType === 'youtube';
+  const citePages = document?.paged ?? false;
 
-  const response = await openai.chat.completions.create({
-    model: 'gpt-4o-mini',
+  const response = await client.chat.completions.create({
+    model,
     temperature: 0.3,
     max_tokens: 6000,
     messages: [
@@ -402,10 +446,12 @@ async function generateSummary(
         content: `Create an EXHAUSTIVELY DETAILED summary of this ${contentType}. Extract EVERYTHING valuable - the user should never need to view the original.
 
 TITLE: ${title}
-
+${document?.truncated ? '\nNOTE: This is a long document; only the first part is included below.\n' : ''}
 CONTENT:
 ${content}
-
+${citePages ? `
+PAGE REFERENCES: The content is marked with [Page N] markers or (p. N) citations. End every main_ideas detail, key_takeaway, notable_quote, statistics_and_data and examples_and_cases item with the page it comes from, e.g. "(p. 12)".
+` : ''}
 Generate a COMPREHENSIVE analysis with ALL sections below. Be SPECIFIC - include actual names, numbers, examples, not generic statements:
 
 1. **one_liner**: A compelling 1-sentence hook that captures the core insight
@@ -547,7 +593,7 @@ Output STRICT JSON (no markdown):
         })) : undefined,
         category: parsed.category || 'Tech',
         complexity: parsed.complexity || 'Intermediate',
-        content_type: contentType === 'video' ? 'Video' : 'Article',
+        content_type: contentTypeLabel(urlType, document),
       };
     }
   } catch (e) {
@@ -557,9 +603,80 @@ Output STRICT JSON (no markdown):
   return defaultSummary;
 }
 
-// Main POST handler
+// Preview payload shared by URLs and uploads
+function previewResponse(
+  url: string,
+  urlType: UrlType,
+  extracted: ExtractedContent,
+  summary: RichSummary,
+  fileName?: string
+) {
+  return NextResponse.json({
+    status: 'success',
+    url,
+    urlType,
+    title: extracted.title,
+    author: extracted.author,
+    readTime: extracted.readTime,
+    file_name: fileName,
+    page_count: extracted.document?.paged ? extracted.document.pageCount : undefined,
+    // Ultra-detailed summary fields
+    one_liner: summary.one_liner,
+    tldr: summary.tldr,
+    full_summary: summary.full_summary,
+    main_ideas: summary.main_ideas,
+    key_takeaways: summary.key_takeaways,
+    notable_quotes: summary.notable_quotes,
+    statistics_and_data: summary.statistics_and_data,
+    examples_and_cases: summary.examples_and_cases,
+    frameworks_and_models: summary.frameworks_and_models,
+    tools_and_resources: summary.tools_and_resources,
+    definitions: summary.definitions,
+    action_items: summary.action_items,
+    questions_to_consider: summary.questions_to_consider,
+    related_topics: summary.related_topics,
+    timestamps: summary.timestamps,
+    category: summary.category,
+    complexity: summary.complexity,
+    content_type: summary.content_type,
+  });
+}
+
+// Uploaded PDF / text / Markdown file (multipart field "file")
+async function processUpload(request: NextRequest) {
+  const form = await request.formData();
+  const file = form.get('file');
+  if (!(file instanceof File) || file.size === 0) {
+    return NextResponse.json({ status: 'error', error: 'Missing file' }, { status: 400 });
+  }
+  if (file.size > MAX_DOCUMENT_BYTES) {
+    return NextResponse.json(
+      { status: 'error', error: `File too large (max ${MAX_DOCUMENT_BYTES / 1024 / 1024} MB)` },
+      { status: 400 }
+    );
+  }
+
+  const kind = detectDocumentKind(file.type, file.name);
+  if (!kind) {
+    return NextResponse.json(
+      { status: 'error', error: 'Only PDF, text and Markdown files can be summarized' },
+      { status: 400 }
+    );
+  }
+
+  const extracted = await extractDocumentContent(new Uint8Array(await file.arrayBuffer()), kind, file.name);
+  const summary = await generateSummary(extracted.title, extracted.content, 'document', extracted.document);
+
+  return previewResponse('', 'document', extracted, summary, file.name);
+}
+
+// Main POST handler: JSON { url } or a multipart file upload
 export async function POST(request: NextRequest) {
   try {
+    if (request.headers.get('content-type')?.startsWith('multipart/form-data')) {
+      return await processUpload(request);
+    }
+
     const body = await request.json();
     const parsed = validate(processUrlSchema, body);
     if (!parsed.success) {
@@ -595,44 +712,20 @@ export async function POST(request: NextRequest) {
     // Detect URL type
     const urlType = detectUrlType(url);
 
-    // Extract content
+    // Extract content (a PDF or text link turns the type into 'document')
     const extracted = await extractContent(url, urlType);
+    const resolvedType = extracted.document ? 'document' : urlType;
 
     // Generate AI summary
     const summary = await generateSummary(
       extracted.title,
       extracted.content || extracted.description,
-      urlType
+      resolvedType,
+      extracted.document
     );
 
     // Return preview data (no auto-save — user decides to save or dismiss)
-    return NextResponse.json({
-      status: 'success',
-      url,
-      urlType,
-      title: extracted.title,
-      author: extracted.author,
-      readTime: extracted.readTime,
-      // Ultra-detailed summary fields
-      one_liner: summary.one_liner,
-      tldr: summary.tldr,
-      full_summary: summary.full_summary,
-      main_ideas: summary.main_ideas,
-      key_takeaways: summary.key_takeaways,
-      notable_quotes: summary.notable_quotes,
-      statistics_and_data: summary.statistics_and_data,
-      examples_and_cases: summary.examples_and_cases,
-      frameworks_and_models: summary.frameworks_and_models,
-      tools_and_resources: summary.tools_and_resources,
-      definitions: summary.definitions,
-      action_items: summary.action_items,
-      questions_to_consider: summary.questions_to_consider,
-      related_topics: summary.related_topics,
-      timestamps: summary.timestamps,
-      category: summary.category,
-      complexity: summary.complexity,
-      content_type: summary.content_type,
-    });
+    return previewResponse(url, resolvedType, extracted, summary);
 
   } catch (error) {
     log.error('URL processing failed', error);
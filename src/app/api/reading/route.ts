@@ -1,24 +1,42 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { queryEntries, countEntries } from '@/services/db/entries';
+import { listEntries, decodeCursor } from '@/services/db/entries';
 
+/**
+ * GET /api/reading?created_after=2026-03-01T00:00:00.000Z&limit=20&cursor=...
+ *
+ * Reading items, newest first, one page at a time; `nextCursor` fetches the next.
+ */
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = request.nextUrl;
-    const page = Math.max(1, parseInt(searchParams.get('page') || '1'));
-    const pageSize = Math.min(100, Math.max(1, parseInt(searchParams.get('pageSize') || '50')));
+    const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '50') || 50));
+    const createdAfter = searchParams.get('created_after');
+    const cursorParam = searchParams.get('cursor');
 
-    const [readingEntries, total] = await Promise.all([
-      queryEntries({
+    if (createdAfter && isNaN(Date.parse(createdAfter))) {
+      return NextResponse.json(
+        { status: 'error', error: 'Invalid created_after date' },
+        { status: 400 }
+      );
+    }
+
+    const cursor = cursorParam ? decodeCursor(cursorParam, 'created_at') : undefined;
+    if (cursor === null) {
+      return NextResponse.json(
+        { status: 'error', error: 'Invalid cursor' },
+        { status: 400 }
+      );
+    }
+
+    const page = await listEntries(
+      {
         category: 'Reading',
-        orderBy: 'created_at',
-        orderDir: 'desc',
-        limit: pageSize,
-        offset: (page - 1) * pageSize,
-      }),
-      countEntries({ category: 'Reading' }),
-    ]);
+        createdAfter: createdAfter ? new Date(createdAfter) : undefined,
+      },
+      { sort: 'created_at', order: 'desc', limit, cursor }
+    );
 
-    const items = readingEntries.map(entry => {
+    const items = page.items.map(entry => {
       const content = (entry.content as Record<string, unknown>) || {};
       return {
         id: entry.id,
@@ -37,10 +55,10 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({
       status: 'success',
       count: items.length,
-      total,
-      page,
-      pageSize,
-      hasMore: page * pageSize < total,
+      total: page.total,
+      limit,
+      hasMore: page.nextCursor !== null,
+      nextCursor: page.nextCursor,
       items,
     });
   } catch (error) {
@@ -1,62 +1,68 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createEntry, archiveEntry, getEntry, getEntryByLegacyId, createInboxLogEntry } from '@/services/db/entries';
+import { createEntry, archiveEntry, getEntry, getEntryByLegacyId } from '@/services/db/entries';
 import { logActivity } from '@/services/db/activity';
-import { validate, recategorizeSchema } from '@/lib/validation';
-
-type Category = 'People' | 'Project' | 'Idea' | 'Admin' | 'Reading';
+import { markInboxFixed } from '@/services/db/inbox';
+import { recordCorrection } from '@/services/db/classifier-examples';
+import { getCategories } from '@/services/db/categories';
+import { buildCaptureEntry } from '@/services/classifier';
+import { findCategory } from '@/config/categories';
+import { validate, buildRecategorizeSchema } from '@/lib/validation';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const parsed = validate(recategorizeSchema, body);
+    const categories = await getCategories();
+    const parsed = validate(buildRecategorizeSchema(categories.map(c => c.name)), body);
     if (!parsed.success) {
       return NextResponse.json({ status: 'error', error: parsed.error }, { status: 400 });
     }
     const { page_id, current_category, new_category, raw_text } = parsed.data;
 
     // Step 1: Archive the old entry
+    let oldEntryId = page_id;
+    let source: string | null = null;
     try {
       const oldEntry = await getEntry(page_id) || await getEntryByLegacyId(page_id);
       if (oldEntry) {
-        await archiveEntry(oldEntry.id);
+        oldEntryId = oldEntry.id;
+        source = oldEntry.source;
+        await archiveEntry(oldEntry.id, 'recategorized');
       }
     } catch (error) {
       console.error('Failed to archive old entry:', error);
     }
 
-    // Step 2: Build category-specific content defaults
-    const content: Record<string, unknown> = {};
-    if (new_category === 'Admin') {
-      content.adminCategory = 'Home';
-    } else if (new_category === 'Project') {
-      content.area = 'Work';
-    } else if (new_category === 'Idea') {
-      content.ideaCategory = 'Life';
-    } else if (new_category === 'People') {
-      content.lastContact = new Date().toISOString().split('T')[0];
-    } else if (new_category === 'Reading') {
-      content.ideaCategory = 'Tech';
-    }
+    // Step 2: Category-specific content defaults from the definition
+    const { content, priority } = buildCaptureEntry(findCategory(categories, new_category)!, {}, raw_text);
 
     // Step 3: Create new entry
     const newEntry = await createEntry({
-      category: new_category as Category,
+      category: new_category,
       title: raw_text,
-      priority: (new_category === 'Admin' || new_category === 'Project') ? 'Medium' : undefined,
+      priority,
       content,
+      source, // Still the same capture, just filed elsewhere
     });
 
-    // Step 4: Log to Inbox Log
+    // Step 4: Mark the capture's Inbox Log row as Fixed (the classifier got it wrong)
+    let capturedText = raw_text;
     try {
-      await createInboxLogEntry({
-        rawInput: raw_text,
+      const [logRow] = await markInboxFixed(oldEntryId, new_category, newEntry.id);
+      if (logRow) capturedText = logRow.rawInput;
+    } catch (logError) {
+      console.error('Failed to update Inbox Log:', logError);
+    }
+
+    // Step 5: Keep the correction as a few-shot example for future captures
+    try {
+      await recordCorrection({
+        rawInput: capturedText,
         category: new_category,
-        confidence: 1.0,
-        destinationId: newEntry.id,
-        status: 'Fixed',
+        previousCategory: current_category,
+        source: 'web',
       });
-    } catch (logError) {
-      console.error('Failed to log to Inbox Log:', logError);
+    } catch (exampleError) {
+      console.error('Failed to record classifier example:', exampleError);
     }
 
     // Log activity
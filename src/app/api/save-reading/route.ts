@@ -20,8 +20,9 @@ export async function POST(request: NextRequest) {
         rawInsight: tldr || '',
         source: url,
         ideaCategory: category || 'Tech',
-        structuredSummary: structuredSummary || null,
+        ...(structuredSummary && { structuredSummary }),
       },
+      source: 'web',
     });
 
     logActivity(newEntry.id, 'saved_reading', { url, title: title.slice(0, 100) });
@@ -2,8 +2,7 @@
 // Saves AI research responses as Ideas or Admin tasks
 
 import { NextRequest, NextResponse } from 'next/server';
-import { createEntry } from '@/services/db/entries';
-import { logActivity } from '@/services/db/activity';
+import { capture, fromResearch } from '@/services/capture';
 import { validate, saveResearchSchema } from '@/lib/validation';
 
 export async function POST(request: NextRequest) {
@@ -13,43 +12,9 @@ export async function POST(request: NextRequest) {
     if (!parsed.success) {
       return NextResponse.json({ status: 'error', error: parsed.error }, { status: 400 });
     }
-    const { question, answer, category, citations = [], expertDomain } = parsed.data;
+    const { category } = parsed.data;
 
-    // Format citations as text
-    const citationsText = citations.length > 0
-      ? '\n\nSources:\n' + citations.map((c, i) =>
-          `${i + 1}. ${c.title}${c.type === 'web' && c.url ? ` (${c.url})` : c.database ? ` (${c.database})` : ''}`
-        ).join('\n')
-      : '';
-
-    const noteContent = `Q: ${question}\n\n${answer}${citationsText}`;
-    const title = question.length > 80 ? question.slice(0, 77) + '...' : question;
-
-    // Build content based on category
-    const content: Record<string, unknown> = {};
-
-    if (category === 'Idea') {
-      content.rawInsight = noteContent.slice(0, 2000);
-      content.oneLiner = `Research: ${expertDomain || 'general'}`;
-      content.ideaCategory = 'Tech';
-    } else if (category === 'Reading') {
-      content.rawInsight = noteContent.slice(0, 2000);
-      content.oneLiner = `Research: ${expertDomain || 'general'}`;
-      content.source = citations.find(c => c.type === 'web' && c.url)?.url || '';
-    } else {
-      content.notes = noteContent.slice(0, 2000);
-      content.adminCategory = 'Work';
-    }
-
-    // Create entry
-    const newEntry = await createEntry({
-      category,
-      title,
-      priority: category === 'Admin' ? 'Medium' : undefined,
-      content,
-    });
-
-    logActivity(newEntry.id, 'created', { category, source: 'research' });
+    const { items: [{ entry: newEntry }] } = await capture(fromResearch(parsed.data));
 
     return NextResponse.json({
       status: 'success',
@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import OpenAI from 'openai';
 import { searchEntries } from '@/services/db/entries';
 import { getRelatedEntries } from '@/services/db/relations';
 import { logActivity } from '@/services/db/activity';
+import { listTags, getTagsForEntries, normalizeTags, extractHashtags } from '@/services/db/tags';
 import { validate, searchSchema } from '@/lib/validation';
-
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
+import { getLLM, isLLMConfigured, type LLM } from '@/lib/llm';
+import { getCategories } from '@/services/db/categories';
+import { findCategory, type CategoryDefinition } from '@/config/categories';
 
 interface ParsedQuery {
   searchTerms: string[];
@@ -15,21 +16,29 @@ interface ParsedQuery {
     statuses?: string[];
     dateRange?: { start?: Date; end?: Date };
     priority?: string[];
+    tags?: string[];
   };
   naturalResponse?: string;
 }
 
-async function parseNaturalLanguageQuery(query: string, openai: OpenAI): Promise<ParsedQuery> {
+async function parseNaturalLanguageQuery(
+  query: string,
+  llm: LLM,
+  knownTags: string[],
+  categories: CategoryDefinition[]
+): Promise<ParsedQuery> {
   const today = new Date();
   const todayStr = today.toISOString().split('T')[0];
+  const databases = categories.map(c => c.dbName);
+  const statuses = [...new Set(categories.flatMap(c => c.statuses))];
 
-  const response = await openai.chat.completions.create({
-    model: 'gpt-4o-mini',
+  const response = await llm.client.chat.completions.create({
+    model: llm.model,
     temperature: 0,
     messages: [
       {
         role: 'system',
-        content: `You are a query parser for a personal knowledge base with 4 databases: People, Projects, Ideas, Admin (tasks).
+        content: `You are a query parser for a personal knowledge base with ${databases.length} databases: ${databases.join(', ')}.
 
 Parse the user's query and extract structured filters. Today's date is ${todayStr}.
 
@@ -40,10 +49,11 @@ Output STRICT JSON:
   "searchTerms": ["keyword1", "keyword2"],
   "intent": "search" | "question" | "action" | "filter",
   "filters": {
-    "categories": ["People", "Projects", "Ideas", "Admin"] or null,
-    "statuses": ["Active", "Todo", "Done", "Complete", "New", "Dormant"] or null,
+    "categories": ${JSON.stringify(databases)} or null,
+    "statuses": ${JSON.stringify(statuses)} or null,
     "dateRange": { "start": "YYYY-MM-DD", "end": "YYYY-MM-DD" } or null,
-    "priority": ["High", "Medium", "Low"] or null
+    "priority": ["High", "Medium", "Low"] or null,
+    "tags": ["tag"] or null
   },
   "naturalResponse": "Brief friendly response about what you're searching for"
 }
@@ -53,7 +63,10 @@ Examples:
 - "Show me the person Sarah" → categories: ["People"], searchTerms: ["Sarah"]
 - "Show urgent tasks due this week" → categories: ["Admin"], statuses: ["Todo"], priority: ["High"], dateRange: this week
 - "Active projects" → categories: ["Projects"], statuses: ["Active"]
-- "Ideas about AI" → categories: ["Ideas"], searchTerms: ["AI"]`,
+- "Ideas about AI" → categories: ["Ideas"], searchTerms: ["AI"]
+- "Everything tagged q3-launch" → tags: ["q3-launch"], searchTerms: []
+
+Only set tags when the user asks for a tag or writes #tag${knownTags.length > 0 ? `. Existing tags: ${knownTags.slice(0, 50).join(', ')}` : ''}.`,
       },
       { role: 'user', content: query },
     ],
@@ -94,12 +107,13 @@ export async function POST(request: NextRequest) {
     }
     const { query, summarize = true } = parsed.data;
 
-    const openai = OPENAI_API_KEY ? new OpenAI({ apiKey: OPENAI_API_KEY }) : null;
+    const categories = await getCategories();
 
     // Parse natural language query
     let parsedQuery: ParsedQuery;
-    if (openai) {
-      parsedQuery = await parseNaturalLanguageQuery(query, openai);
+    if (isLLMConfigured('classification')) {
+      const knownTags = (await listTags().catch(() => [])).map(tag => tag.name);
+      parsedQuery = await parseNaturalLanguageQuery(query, getLLM('classification'), knownTags, categories);
     } else {
       parsedQuery = {
         searchTerms: query.toLowerCase().split(/\s+/).filter(t => t.length >= 2),
@@ -108,21 +122,23 @@ export async function POST(request: NextRequest) {
       };
     }
 
+    // #hashtags in the query are always tag filters; the text search runs on the rest
+    const tagFilter = normalizeTags([...extractHashtags(query), ...(parsedQuery.filters.tags || [])]);
+    parsedQuery.filters.tags = tagFilter.length > 0 ? tagFilter : undefined;
+    const textQuery = query.replace(/(^|\s)#[\p{L}\p{N}][\p{L}\p{N}_/-]*/gu, ' ').trim();
+
     // Determine category filter
     const categoryFilter = parsedQuery.filters.categories?.length === 1
       ? parsedQuery.filters.categories[0]
       : undefined;
 
-    // Search Neon using stored embeddings (vector + keyword hybrid)
-    const results = await searchEntries(query, {
-      category: categoryFilter ? ({
-        People: 'People',
-        Projects: 'Projects',
-        Ideas: 'Ideas',
-        Admin: 'Admin',
-      }[categoryFilter] || undefined) : undefined,
+    // Search Neon: full-text + vector results merged with reciprocal rank fusion
+    const results = await searchEntries(textQuery, {
+      category: categoryFilter ? findCategory(categories, categoryFilter)?.dbName : undefined,
+      tags: tagFilter,
       limit: 50,
     });
+    const tagsByEntry = await getTagsForEntries(results.map(r => r.id));
 
     // Map to the expected search result shape
     const searchResults = results.map(r => {
@@ -131,27 +147,20 @@ export async function POST(request: NextRequest) {
         .filter(v => typeof v === 'string')
         .join(' ');
 
-      // Map DB category names to display names
-      const categoryMap: Record<string, string> = {
-        People: 'People',
-        Projects: 'Project',
-        Ideas: 'Idea',
-        Admin: 'Admin',
-      };
-
       return {
         id: r.id,
         _neonId: r.id, // Internal: used for relation lookups
         title: r.title,
-        category: categoryMap[r.category] || r.category,
+        category: findCategory(categories, r.category)?.name || r.category, // Display name ('Project')
         status: r.status || undefined,
         priority: r.priority || undefined,
         dueDate: r.dueDate?.toISOString().split('T')[0] || undefined,
         created: r.createdAt.toISOString(),
         lastEdited: r.updatedAt.toISOString(),
         snippet: contentText.slice(0, 200) || undefined,
-        relevanceScore: ('similarity' in r) ? (r as { similarity: number }).similarity : 0,
+        relevanceScore: r.score,
         source: (content.source as string) || undefined,
+        tags: tagsByEntry.get(r.id),
       };
     });
 
@@ -183,12 +192,7 @@ export async function POST(request: NextRequest) {
     }
 
     if (parsedQuery.filters.categories && parsedQuery.filters.categories.length > 1) {
-      const cats = parsedQuery.filters.categories.map(c => ({
-        People: 'People',
-        Projects: 'Project',
-        Ideas: 'Idea',
-        Admin: 'Admin',
-      }[c] || c));
+      const cats = parsedQuery.filters.categories.map(c => findCategory(categories, c)?.name || c);
       filtered = filtered.filter(r => cats.includes(r.category));
     }
 
@@ -215,14 +219,15 @@ export async function POST(request: NextRequest) {
 
     // Generate AI summary
     let summary = parsedQuery.naturalResponse || null;
-    if (summarize && openai && filtered.length > 0) {
+    if (summarize && isLLMConfigured('summarization') && filtered.length > 0) {
       try {
         const resultsContext = filtered.slice(0, 15).map(r =>
           `- [${r.category}] ${r.title}${r.status ? ` (${r.status})` : ''}${r.priority ? ` - ${r.priority} priority` : ''}`
         ).join('\n');
 
-        const completion = await openai.chat.completions.create({
-          model: 'gpt-4o-mini',
+        const { client, model } = getLLM('summarization');
+        const completion = await client.chat.completions.create({
+          model,
           temperature: 0.3,
           messages: [
             {
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { listTags } from '@/services/db/tags';
+
+/**
+ * GET /api/tags
+ *
+ * Tags in use with how many entries carry each, most used first —
+ * for tag suggestions and filter pickers.
+ */
+export async function GET() {
+  try {
+    const tags = await listTags();
+    return NextResponse.json({ status: 'success', tags });
+  } catch (error) {
+    console.error('Tags list error:', error);
+    return NextResponse.json(
+      { status: 'error', error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -73,6 +73,7 @@ export async function GET(request: NextRequest) {
       NEXT_PUBLIC_APP_URL: process.env.NEXT_PUBLIC_APP_URL || 'NOT SET',
       DATABASE_URL: !!process.env.DATABASE_URL,
       OPENAI_API_KEY: !!process.env.OPENAI_API_KEY,
+      LLM_BASE_URL: process.env.LLM_BASE_URL || 'NOT SET',
       TAVILY_API_KEY: !!process.env.TAVILY_API_KEY,
     });
   }
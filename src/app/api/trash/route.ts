@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { restoreEntry } from '@/services/db/entries';
+import {
+  listTrash,
+  purgeEntry,
+  getPurgeDate,
+  getTrashRetentionDays,
+  setTrashRetentionDays,
+} from '@/services/db/trash';
+import { logActivity } from '@/services/db/activity';
+import { getCategories } from '@/services/db/categories';
+import { findCategory } from '@/config/categories';
+import { validate, deleteSchema, trashRetentionSchema } from '@/lib/validation';
+
+/**
+ * GET /api/trash?q=dentist
+ *
+ * Archived entries with the date each will be permanently purged.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const search = request.nextUrl.searchParams.get('q') || undefined;
+
+    const [rows, retentionDays, categories] = await Promise.all([
+      listTrash({ search }),
+      getTrashRetentionDays(),
+      getCategories(),
+    ]);
+
+    const items = rows.map(entry => ({
+      id: entry.id,
+      title: entry.title,
+      // Frontend uses the singular category name
+      category: findCategory(categories, entry.category)?.name || entry.category,
+      status: entry.status || '',
+      archived_at: entry.archived!.toISOString(),
+      purge_at: getPurgeDate(entry.archived!, retentionDays).toISOString(),
+    }));
+
+    return NextResponse.json({
+      status: 'success',
+      retention_days: retentionDays,
+      items,
+    });
+  } catch (error) {
+    console.error('Trash fetch error:', error);
+    return NextResponse.json(
+      { status: 'error', error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Restore an archived entry
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const parsed = validate(deleteSchema, body);
+    if (!parsed.success) {
+      return NextResponse.json({ status: 'error', error: parsed.error }, { status: 400 });
+    }
+    const { page_id } = parsed.data;
+
+    const restored = await restoreEntry(page_id);
+    if (!restored) {
+      return NextResponse.json(
+        { status: 'error', error: 'Entry not found in trash' },
+        { status: 404 }
+      );
+    }
+
+    logActivity(restored.id, 'restored', { title: restored.title, category: restored.category, from: 'trash' });
+
+    return NextResponse.json({ status: 'restored', page_id: restored.id });
+  } catch (error) {
+    console.error('Trash restore error:', error);
+    return NextResponse.json(
+      { status: 'error', error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Update the retention window (days before archived entries are purged)
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const parsed = validate(trashRetentionSchema, body);
+    if (!parsed.success) {
+      return NextResponse.json({ status: 'error', error: parsed.error }, { status: 400 });
+    }
+
+    await setTrashRetentionDays(parsed.data.retention_days);
+
+    return NextResponse.json({ status: 'success', retention_days: parsed.data.retention_days });
+  } catch (error) {
+    console.error('Trash settings error:', error);
+    return NextResponse.json(
+      { status: 'error', error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Permanently delete a single archived entry
+export async function DELETE(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const parsed = validate(deleteSchema, body);
+    if (!parsed.success) {
+      return NextResponse.json({ status: 'error', error: parsed.error }, { status: 400 });
+    }
+    const { page_id } = parsed.data;
+
+    const purged = await purgeEntry(page_id);
+    if (!purged) {
+      return NextResponse.json(
+        { status: 'error', error: 'Entry not found in trash' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ status: 'purged', page_id });
+  } catch (error) {
+    console.error('Trash purge error:', error);
+    return NextResponse.json(
+      { status: 'error', error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,22 +2,14 @@ import { NextRequest, NextResponse } from 'next/server';
 import { updateEntry, getEntry, getEntryByLegacyId } from '@/services/db/entries';
 import type { UpdateEntryInput } from '@/services/db/entries';
 import { logActivity } from '@/services/db/activity';
+import { spawnNextOccurrence } from '@/services/db/recurrence';
+import { syncParentSubtasks } from '@/services/db/subtasks';
+import { getCategory } from '@/services/db/categories';
+import { isValidStatus } from '@/config/categories';
+import { normalizeRecurrence } from '@/lib/utils/rrule';
+import { toContent } from '@/lib/content';
 import { validate, updateSchema } from '@/lib/validation';
 
-// Map frontend field keys to Neon content keys
-const CONTENT_FIELDS = new Set([
-  'notes', 'context', 'next_action', 'raw_insight', 'one_liner', 'source',
-]);
-
-const CONTENT_KEY_MAP: Record<string, string> = {
-  notes: 'notes',
-  context: 'context',
-  next_action: 'nextAction',
-  raw_insight: 'rawInsight',
-  one_liner: 'oneLiner',
-  source: 'source',
-};
-
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
@@ -36,9 +28,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Build Neon update input
+    // Build Neon update input; anything that isn't a column is a content field
     const updateInput: UpdateEntryInput = {};
-    const contentUpdates: Record<string, unknown> = {};
+    const contentFields: Record<string, unknown> = {};
 
     for (const [key, value] of Object.entries(updates)) {
       if (key === 'status' || key === 'maturity') {
@@ -47,14 +39,38 @@ export async function POST(request: NextRequest) {
         updateInput.priority = String(value);
       } else if (key === 'due_date' || key === 'next_followup' || key === 'last_contact') {
         updateInput.dueDate = value ? String(value) : null;
-      } else if (CONTENT_FIELDS.has(key)) {
-        const neonKey = CONTENT_KEY_MAP[key] || key;
-        contentUpdates[neonKey] = String(value);
+      } else if (key === 'recurrence') {
+        // Preset name ('weekly') or RRULE text; empty clears it
+        const rule = value ? normalizeRecurrence(String(value)) : null;
+        if (value && !rule) {
+          return NextResponse.json(
+            { status: 'error', error: `Invalid recurrence rule: ${value}` },
+            { status: 400 }
+          );
+        }
+        updateInput.recurrence = rule;
+      } else {
+        contentFields[key] = value;
       }
     }
 
-    if (Object.keys(contentUpdates).length > 0) {
-      updateInput.content = contentUpdates;
+    const definition = await getCategory(entry.category);
+
+    // Only statuses the category defines; an unknown one would never show up in its tabs
+    if (updateInput.status !== undefined && definition && !isValidStatus(entry.category, updateInput.status, [definition])) {
+      return NextResponse.json(
+        { status: 'error', error: `Unknown status for ${definition.name}: ${updateInput.status}` },
+        { status: 400 }
+      );
+    }
+
+    // API field names ('next_action') become stored keys ('nextAction'), checked against the category's schema
+    if (Object.keys(contentFields).length > 0 && definition) {
+      const content = toContent(definition, contentFields);
+      if (!content.success) {
+        return NextResponse.json({ status: 'error', error: content.error }, { status: 400 });
+      }
+      updateInput.content = content.data;
     }
 
     // Update entry
@@ -74,13 +90,29 @@ export async function POST(request: NextRequest) {
     if (updateInput.dueDate !== undefined) {
       logActivity(entry.id, 'snoozed', { to: updateInput.dueDate });
     }
-    if (Object.keys(contentUpdates).length > 0) {
-      logActivity(entry.id, 'note_added', { fields: Object.keys(contentUpdates) });
+    if (updateInput.content) {
+      logActivity(entry.id, 'note_added', { fields: Object.keys(updateInput.content) });
+    }
+
+    // Completing a recurring entry creates its next occurrence
+    const next = updateInput.status !== undefined
+      ? await spawnNextOccurrence(updated, updateInput.status)
+      : null;
+
+    // Subtasks of a project tick off (and roll up) with the linked entry
+    if (updateInput.status !== undefined) {
+      await syncParentSubtasks(updated, updateInput.status);
     }
 
     return NextResponse.json({
       status: 'updated',
       page_id,
+      ...(next && {
+        next_occurrence: {
+          page_id: next.id,
+          due_date: next.dueDate?.toISOString().split('T')[0] || null,
+        },
+      }),
     });
   } catch (error) {
     console.error('Update error:', error);
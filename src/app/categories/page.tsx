@@ -0,0 +1,275 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { fetchCategories, saveCategory, deleteCategory } from '@/lib/api';
+import type { CategoryInfo } from '@/lib/types';
+import { CATEGORY_GRADIENT_PRESETS } from '@/config/ui';
+import { invalidateCategories } from '@/shared/hooks/useCategories';
+import { useToast } from '@/shared/components/Toast';
+
+interface Draft {
+  originalName?: string;
+  name: string;
+  dbName: string;
+  description: string;
+  statuses: string;
+  defaultStatus: string;
+  doneStatus: string;
+  icon: string;
+  gradient: string;
+  fields: string;
+}
+
+const EMPTY_DRAFT: Draft = {
+  name: '',
+  dbName: '',
+  description: '',
+  statuses: 'New, Done',
+  defaultStatus: 'New',
+  doneStatus: 'Done',
+  icon: '📁',
+  gradient: CATEGORY_GRADIENT_PRESETS[0],
+  fields: '',
+};
+
+const INPUT_CLASS = 'w-full rounded-lg bg-[var(--bg-surface)] px-3 py-2 text-sm text-[var(--text-primary)] placeholder:text-[var(--text-muted)]/60 outline-none focus:ring-1 focus:ring-cyan-500/50';
+
+// snake_case extraction key → camelCase content key
+function toContentKey(key: string): string {
+  return key.replace(/_([a-z0-9])/g, (_, c: string) => c.toUpperCase());
+}
+
+function toDraft(c: CategoryInfo): Draft {
+  return {
+    originalName: c.name,
+    name: c.name,
+    dbName: c.db_name,
+    description: c.description,
+    statuses: c.statuses.join(', '),
+    defaultStatus: c.default_status,
+    doneStatus: c.done_status || '',
+    icon: c.icon,
+    gradient: c.gradient,
+    fields: c.fields.map(f => `${f.key}: ${f.description}`).join('\n'),
+  };
+}
+
+export default function CategoriesPage() {
+  const [categories, setCategories] = useState<CategoryInfo[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+  const { showSuccess, showError } = useToast();
+
+  useEffect(() => {
+    fetchCategories()
+      .then((result) => {
+        if (result.status === 'success') setCategories(result.categories || []);
+      })
+      .finally(() => setIsLoading(false));
+  }, [reloadKey]);
+
+  const update = (patch: Partial<Draft>) => setDraft((d) => (d ? { ...d, ...patch } : d));
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const existing = categories.find((c) => c.name === draft.originalName);
+    const statuses = draft.statuses.split(',').map((s) => s.trim()).filter(Boolean);
+    const fields = draft.fields
+      .split('\n')
+      .map((line) => line.match(/^\s*([a-z][a-z0-9_]*)\s*:\s*(.*)$/))
+      .filter((m): m is RegExpMatchArray => !!m)
+      .map((m) => ({ key: m[1], content_key: toContentKey(m[1]), description: m[2].trim() }));
+
+    setIsSaving(true);
+    const result = await saveCategory({
+      name: draft.name.trim(),
+      db_name: draft.dbName.trim() || undefined,
+      description: draft.description.trim(),
+      statuses,
+      default_status: draft.defaultStatus.trim(),
+      done_status: draft.doneStatus.trim() || null,
+      icon: draft.icon.trim(),
+      gradient: draft.gradient,
+      title_field: existing?.title_field || 'title',
+      fields,
+      default_content: existing?.default_content || {},
+      default_priority: existing?.default_priority ?? null,
+    }, draft.originalName);
+    setIsSaving(false);
+
+    if (result.status === 'success') {
+      invalidateCategories();
+      showSuccess(draft.originalName ? 'Category updated' : 'Category added');
+      setDraft(null);
+      setReloadKey((k) => k + 1);
+    } else {
+      showError(result.error || 'Failed to save category');
+    }
+  };
+
+  const handleDelete = async (name: string) => {
+    const result = await deleteCategory(name);
+    if (result.status === 'deleted') {
+      invalidateCategories();
+      showSuccess(`Deleted ${name}`);
+      setDraft(null);
+      setReloadKey((k) => k + 1);
+    } else {
+      showError(result.error || 'Failed to delete category');
+    }
+  };
+
+  return (
+    <div className="mx-auto max-w-lg px-5 pt-8 pb-24">
+      {/* Header */}
+      <header className="mb-8 animate-fade-up">
+        <div className="flex items-center gap-3 mb-2">
+          <div className="flex h-10 w-10 items-center justify-center rounded-xl bg-gradient-to-br from-cyan-500 to-blue-600 text-lg">
+            🗂️
+          </div>
+          <h1 className="text-3xl font-bold tracking-tight text-[var(--text-primary)]">
+            Categories
+          </h1>
+        </div>
+        <p className="text-base text-[var(--text-muted)] ml-[52px]">
+          Where captures land and how they move through statuses
+        </p>
+      </header>
+
+      {/* Category list */}
+      <div className="space-y-3 animate-fade-up delay-1">
+        {isLoading ? (
+          <div className="flex flex-col items-center justify-center py-12">
+            <div className="spinner mb-3" />
+            <span className="text-sm text-[var(--text-muted)]">Loading categories...</span>
+          </div>
+        ) : (
+          categories.map((c) => (
+            <button
+              key={c.name}
+              onClick={() => setDraft(toDraft(c))}
+              className="glass-card flex w-full items-center gap-3 p-4 text-left"
+            >
+              <div className={`flex h-10 w-10 shrink-0 items-center justify-center rounded-lg bg-gradient-to-br ${c.gradient}`}>
+                <span className="text-lg">{c.icon}</span>
+              </div>
+              <div className="flex-1 min-w-0">
+                <h3 className="text-sm font-medium text-[var(--text-primary)]">{c.name}</h3>
+                <p className="mt-0.5 truncate text-xs text-[var(--text-muted)]">
+                  {c.statuses.map((s) => (s === c.done_status ? `${s} ✓` : s)).join(' → ')}
+                </p>
+              </div>
+            </button>
+          ))
+        )}
+
+        {!isLoading && !draft && (
+          <button
+            onClick={() => setDraft({ ...EMPTY_DRAFT })}
+            className="w-full rounded-xl border border-dashed border-[var(--border-subtle)] py-3 text-sm text-[var(--text-muted)] hover:text-[var(--text-secondary)]"
+          >
+            + Add category
+          </button>
+        )}
+      </div>
+
+      {/* Editor */}
+      {draft && (
+        <div className="glass-card mt-6 space-y-4 p-4 animate-fade-up">
+          <div className="grid grid-cols-[4rem_1fr] gap-3">
+            <input
+              value={draft.icon}
+              onChange={(e) => update({ icon: e.target.value })}
+              className={`${INPUT_CLASS} text-center text-lg`}
+              aria-label="Icon"
+            />
+            <input
+              value={draft.name}
+              onChange={(e) => update({ name: e.target.value })}
+              placeholder="Name, e.g. Recipe"
+              className={INPUT_CLASS}
+            />
+          </div>
+          <input
+            value={draft.dbName}
+            onChange={(e) => update({ dbName: e.target.value })}
+            placeholder="Plural name (optional), e.g. Recipes"
+            className={INPUT_CLASS}
+          />
+          <textarea
+            value={draft.description}
+            onChange={(e) => update({ description: e.target.value })}
+            placeholder="What belongs here — the classifier reads this"
+            rows={2}
+            className={INPUT_CLASS}
+          />
+          <input
+            value={draft.statuses}
+            onChange={(e) => update({ statuses: e.target.value })}
+            placeholder="Statuses, comma separated"
+            className={INPUT_CLASS}
+          />
+          <div className="grid grid-cols-2 gap-3">
+            <input
+              value={draft.defaultStatus}
+              onChange={(e) => update({ defaultStatus: e.target.value })}
+              placeholder="Starts as"
+              className={INPUT_CLASS}
+            />
+            <input
+              value={draft.doneStatus}
+              onChange={(e) => update({ doneStatus: e.target.value })}
+              placeholder="Done status (optional)"
+              className={INPUT_CLASS}
+            />
+          </div>
+          <textarea
+            value={draft.fields}
+            onChange={(e) => update({ fields: e.target.value })}
+            placeholder={'Fields to extract, one per line\ningredients: Ingredient list'}
+            rows={3}
+            className={`${INPUT_CLASS} font-mono text-xs`}
+          />
+          <div className="flex flex-wrap gap-2">
+            {CATEGORY_GRADIENT_PRESETS.map((g) => (
+              <button
+                key={g}
+                onClick={() => update({ gradient: g })}
+                aria-label={g}
+                className={`h-7 w-7 rounded-full bg-gradient-to-br ${g} ${
+                  draft.gradient === g ? 'ring-2 ring-offset-2 ring-offset-[var(--bg-deep)] ring-[var(--text-primary)]' : ''
+                }`}
+              />
+            ))}
+          </div>
+
+          <div className="flex gap-2 pt-2">
+            <button
+              onClick={handleSave}
+              disabled={isSaving || !draft.name.trim()}
+              className="flex-1 rounded-lg bg-cyan-600 px-3 py-2 text-sm font-medium text-white hover:bg-cyan-500 disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Save'}
+            </button>
+            <button
+              onClick={() => setDraft(null)}
+              className="flex-1 rounded-lg bg-[var(--bg-elevated)] px-3 py-2 text-sm text-[var(--text-muted)] hover:bg-[var(--bg-surface)]"
+            >
+              Cancel
+            </button>
+          </div>
+          {draft.originalName && (
+            <button
+              onClick={() => handleDelete(draft.originalName!)}
+              className="w-full rounded-lg px-3 py-2 text-xs text-red-400 hover:bg-red-500/10"
+            >
+              Delete category
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,50 +1,66 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { fetchEntries } from '@/lib/api';
+import { fetchEntryPage } from '@/lib/api';
 import type { Entry, Category } from '@/lib/types';
 import { formatRelativeDate } from '@/lib/utils/date';
 import { CATEGORY_BADGE_COLORS } from '@/config/ui';
 
+// History covers the four capture categories; Reading has its own page
+const DATABASES: Record<Exclude<Category, 'Reading'>, string> = {
+  Admin: 'admin',
+  Project: 'projects',
+  People: 'people',
+  Idea: 'ideas',
+};
+
+const PAGE_SIZE = 30;
+
+type Filter = keyof typeof DATABASES | 'all';
+
+function databasesFor(filter: Filter): string[] {
+  return filter === 'all' ? Object.values(DATABASES) : [DATABASES[filter]];
+}
+
 export default function HistoryPage() {
   const [entries, setEntries] = useState<Entry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const [filter, setFilter] = useState<Category | 'all'>('all');
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [filter, setFilter] = useState<Filter>('all');
 
   useEffect(() => {
-    async function loadEntries() {
-      setIsLoading(true);
-      try {
-        // Load from all databases
-        const [admin, projects, people, ideas] = await Promise.all([
-          fetchEntries('admin'),
-          fetchEntries('projects'),
-          fetchEntries('people'),
-          fetchEntries('ideas'),
-        ]);
-
-        // Combine and sort by created date
-        const all = [
-          ...admin.map((e) => ({ ...e, category: 'Admin' as const })),
-          ...projects.map((e) => ({ ...e, category: 'Project' as const })),
-          ...people.map((e) => ({ ...e, category: 'People' as const })),
-          ...ideas.map((e) => ({ ...e, category: 'Idea' as const })),
-        ].sort((a, b) => new Date(b.created || '').getTime() - new Date(a.created || '').getTime());
+    let cancelled = false;
+    fetchEntryPage({ database: databasesFor(filter), limit: PAGE_SIZE })
+      .then((page) => {
+        if (cancelled) return;
+        setEntries(page.items);
+        setTotal(page.total);
+        setNextCursor(page.nextCursor);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [filter]);
 
-        setEntries(all);
-      } catch (error) {
-        console.error('Failed to load entries:', error);
-      } finally {
-        setIsLoading(false);
-      }
-    }
+  const handleFilter = (next: Filter) => {
+    if (next === filter) return;
+    setIsLoading(true);
+    setFilter(next);
+  };
 
-    loadEntries();
-  }, []);
-
-  const filteredEntries = filter === 'all'
-    ? entries
-    : entries.filter((e) => (e as Entry & { category: Category }).category === filter);
+  const loadMore = async () => {
+    if (!nextCursor) return;
+    setIsLoadingMore(true);
+    const page = await fetchEntryPage({ database: databasesFor(filter), limit: PAGE_SIZE, cursor: nextCursor });
+    setEntries((prev) => [...prev, ...page.items]);
+    setNextCursor(page.nextCursor);
+    setIsLoadingMore(false);
+  };
 
   const formatDate = formatRelativeDate;
 
@@ -61,7 +77,7 @@ export default function HistoryPage() {
           </h1>
         </div>
         <p className="text-base text-[var(--text-muted)] ml-[52px]">
-          Recent entries from your inbox
+          {isLoading ? 'Recent entries from your inbox' : `${total} entries from your inbox`}
         </p>
       </header>
 
@@ -70,7 +86,7 @@ export default function HistoryPage() {
         {(['all', 'Admin', 'Project', 'People', 'Idea'] as const).map((cat) => (
           <button
             key={cat}
-            onClick={() => setFilter(cat)}
+            onClick={() => handleFilter(cat)}
             className={`whitespace-nowrap rounded-lg px-4 py-2 text-sm font-medium transition-all ${
               filter === cat
                 ? 'bg-[var(--accent-cyan)] text-[var(--bg-deep)]'
@@ -89,14 +105,14 @@ export default function HistoryPage() {
             <div className="spinner mb-3" />
             <span className="text-sm text-[var(--text-muted)]">Loading history...</span>
           </div>
-        ) : filteredEntries.length === 0 ? (
+        ) : entries.length === 0 ? (
           <div className="flex flex-col items-center justify-center rounded-xl bg-[var(--bg-elevated)] py-12">
             <span className="text-4xl mb-3">📭</span>
             <span className="text-sm text-[var(--text-muted)]">No entries yet</span>
           </div>
         ) : (
-          filteredEntries.slice(0, 50).map((entry) => {
-            const category = (entry as Entry & { category: Category }).category;
+          entries.map((entry) => {
+            const category = (entry.category || 'Admin') as Category;
             const colors = CATEGORY_BADGE_COLORS[category] || CATEGORY_BADGE_COLORS.Admin;
 
             return (
@@ -128,6 +144,16 @@ export default function HistoryPage() {
             );
           })
         )}
+
+        {!isLoading && nextCursor && (
+          <button
+            onClick={loadMore}
+            disabled={isLoadingMore}
+            className="w-full py-3 text-center text-sm text-[var(--text-muted)] transition-colors hover:text-[var(--text-secondary)] disabled:opacity-50"
+          >
+            {isLoadingMore ? 'Loading...' : `Show more · ${total - entries.length} left`}
+          </button>
+        )}
       </div>
     </div>
   );
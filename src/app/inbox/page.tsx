@@ -0,0 +1,204 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { fetchReviewInbox, resolveReviewItem, setReviewThreshold, recategorize } from '@/lib/api';
+import type { ClassifierAccuracy, ReviewInboxItem } from '@/lib/types';
+import { formatRelativeDate } from '@/lib/utils/date';
+import { useCategories } from '@/shared/hooks/useCategories';
+import { useToast } from '@/shared/components/Toast';
+
+const THRESHOLD_OPTIONS = [0.5, 0.6, 0.7, 0.8];
+
+export default function InboxPage() {
+  const [items, setItems] = useState<ReviewInboxItem[]>([]);
+  const [accuracy, setAccuracy] = useState<ClassifierAccuracy | null>(null);
+  const [threshold, setThreshold] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const categories = useCategories();
+  const { showSuccess, showError } = useToast();
+
+  useEffect(() => {
+    fetchReviewInbox()
+      .then((result) => {
+        if (result.status === 'success') {
+          setItems(result.items || []);
+          setAccuracy(result.accuracy || null);
+          setThreshold(result.threshold ?? null);
+        }
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const removeItem = (id: string) => setItems((prev) => prev.filter((i) => i.id !== id));
+
+  // Tapping the filed category confirms it; any other category moves the entry (logged as Fixed)
+  const handleChoose = async (item: ReviewInboxItem, category: string) => {
+    setBusyId(item.id);
+
+    if (category === item.category || !item.entry_id) {
+      const result = await resolveReviewItem(item.id, 'confirm');
+      setBusyId(null);
+      if (result.status === 'success') {
+        removeItem(item.id);
+        setAccuracy((prev) => prev && { ...prev, processed: prev.processed + 1, needsReview: prev.needsReview - 1 });
+      } else {
+        showError(result.error || 'Failed to confirm');
+      }
+      return;
+    }
+
+    const result = await recategorize(item.entry_id, item.category, category, item.raw_input);
+    setBusyId(null);
+    if (result.status === 'error') {
+      showError(result.error || 'Failed to move entry');
+      return;
+    }
+    removeItem(item.id);
+    setAccuracy((prev) => prev && { ...prev, fixed: prev.fixed + 1, needsReview: prev.needsReview - 1 });
+    showSuccess(`Moved to ${category}`);
+  };
+
+  const handleDismiss = async (item: ReviewInboxItem) => {
+    setBusyId(item.id);
+    const result = await resolveReviewItem(item.id, 'ignore');
+    setBusyId(null);
+
+    if (result.status === 'success') {
+      removeItem(item.id);
+    } else {
+      showError(result.error || 'Failed to dismiss');
+    }
+  };
+
+  const handleThresholdChange = async (value: number) => {
+    const previous = threshold;
+    setThreshold(value);
+    const result = await setReviewThreshold(value);
+    if (result.status !== 'success') {
+      setThreshold(previous);
+      showError(result.error || 'Failed to update threshold');
+    }
+  };
+
+  const accuracyLabel = accuracy?.accuracy != null
+    ? `${Math.round(accuracy.accuracy * 100)}%`
+    : '—';
+
+  return (
+    <div className="mx-auto max-w-lg px-5 pt-8 pb-24">
+      {/* Header */}
+      <header className="mb-8 animate-fade-up">
+        <div className="flex items-center gap-3 mb-2">
+          <div className="flex h-10 w-10 items-center justify-center rounded-xl bg-gradient-to-br from-amber-500 to-orange-600 text-lg">
+            🤔
+          </div>
+          <h1 className="text-3xl font-bold tracking-tight text-[var(--text-primary)]">
+            Needs Review
+          </h1>
+        </div>
+        <p className="text-base text-[var(--text-muted)] ml-[52px]">
+          Captures the classifier wasn&apos;t sure about
+        </p>
+      </header>
+
+      {/* Accuracy */}
+      {accuracy && (
+        <div className="mb-6 grid grid-cols-3 gap-2 animate-fade-up delay-1">
+          <div className="rounded-xl bg-[var(--bg-elevated)] p-3 text-center">
+            <p className="text-lg font-semibold text-[var(--text-primary)]">{accuracyLabel}</p>
+            <p className="text-xs text-[var(--text-muted)]">Accuracy</p>
+          </div>
+          <div className="rounded-xl bg-[var(--bg-elevated)] p-3 text-center">
+            <p className="text-lg font-semibold text-[var(--text-primary)]">{accuracy.processed}</p>
+            <p className="text-xs text-[var(--text-muted)]">Correct</p>
+          </div>
+          <div className="rounded-xl bg-[var(--bg-elevated)] p-3 text-center">
+            <p className="text-lg font-semibold text-[var(--text-primary)]">{accuracy.fixed}</p>
+            <p className="text-xs text-[var(--text-muted)]">Fixed</p>
+          </div>
+        </div>
+      )}
+
+      {/* Threshold */}
+      <div className="mb-6 animate-fade-up delay-1">
+        <p className="text-xs font-medium text-[var(--text-muted)] uppercase tracking-wider mb-3">
+          Review captures below
+        </p>
+        <div className="flex rounded-xl bg-[var(--bg-elevated)] p-1 gap-1">
+          {THRESHOLD_OPTIONS.map((value) => {
+            const isActive = threshold === value;
+            return (
+              <button
+                key={value}
+                onClick={() => handleThresholdChange(value)}
+                disabled={threshold === null}
+                className={`flex-1 rounded-lg py-2 text-sm font-medium transition-all disabled:opacity-50 ${
+                  isActive
+                    ? 'bg-[var(--bg-surface)] text-[var(--text-primary)] shadow-sm'
+                    : 'text-[var(--text-muted)] hover:text-[var(--text-secondary)]'
+                }`}
+              >
+                {Math.round(value * 100)}%
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Review items */}
+      <div className="space-y-3 animate-fade-up delay-2">
+        {isLoading ? (
+          <div className="flex flex-col items-center justify-center py-12">
+            <div className="spinner mb-3" />
+            <span className="text-sm text-[var(--text-muted)]">Loading inbox...</span>
+          </div>
+        ) : items.length === 0 ? (
+          <div className="flex flex-col items-center justify-center rounded-xl bg-[var(--bg-elevated)] py-12">
+            <span className="text-4xl mb-3">✨</span>
+            <span className="text-sm text-[var(--text-muted)]">Nothing to review</span>
+          </div>
+        ) : (
+          items.map((item) => (
+            <div key={item.id} className={`glass-card p-4 ${busyId === item.id ? 'opacity-50' : ''}`}>
+              <p className="text-sm text-[var(--text-primary)] line-clamp-3">{item.raw_input}</p>
+              <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-[var(--text-muted)]">
+                <span>Filed as {item.category}</span>
+                <span>· {Math.round(item.confidence * 100)}%</span>
+                {item.created_time && <span>· {formatRelativeDate(item.created_time)}</span>}
+                {!item.entry_id && <span className="text-red-400/80">· entry deleted</span>}
+              </div>
+
+              <div className="mt-3 flex flex-wrap gap-1.5">
+                {item.entry_id && categories.map((c) => {
+                  const isCurrent = c.name === item.category;
+                  return (
+                    <button
+                      key={c.name}
+                      onClick={() => handleChoose(item, c.name)}
+                      disabled={busyId !== null}
+                      className={`rounded-lg px-2.5 py-1.5 text-xs font-medium transition-colors disabled:opacity-50 ${
+                        isCurrent
+                          ? 'bg-emerald-900/50 text-emerald-400 hover:bg-emerald-900/70'
+                          : 'bg-[var(--bg-elevated)] text-[var(--text-secondary)] hover:bg-[var(--bg-surface)]'
+                      }`}
+                    >
+                      {c.icon} {c.name}{isCurrent ? ' ✓' : ''}
+                    </button>
+                  );
+                })}
+                <button
+                  onClick={() => handleDismiss(item)}
+                  disabled={busyId !== null}
+                  className="rounded-lg bg-[var(--bg-elevated)] px-2.5 py-1.5 text-xs text-[var(--text-muted)] hover:bg-[var(--bg-surface)] disabled:opacity-50"
+                >
+                  Dismiss
+                </button>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -4,9 +4,10 @@ import { useState, useCallback, useRef, useEffect } from 'react';
 import { CaptureInput } from '@/features/capture/components/CaptureInput';
 import { ConfirmCard } from '@/features/capture/components/ConfirmCard';
 import { LinkSummaryCard } from '@/features/reading/components/LinkSummaryCard';
-import { captureThought, recategorize, processUrl, saveReading } from '@/lib/api';
+import { captureThought, captureVoice, recategorize, deleteEntry, mergeEntry, addMentionedPerson, updateEntryTags, processUrl, processDocument, saveReading, uploadAttachment } from '@/lib/api';
 import { getPendingItems, syncQueue } from '@/lib/offline-queue';
-import type { Category, ConfirmationState, UrlProcessResult } from '@/lib/types';
+import { useToast } from '@/shared/components/Toast';
+import type { CaptureResponse, ConfirmationItem, ConfirmationState, MentionedPerson, UrlProcessResult } from '@/lib/types';
 
 // Progress stages for URL processing
 const URL_STAGES = [
@@ -19,11 +20,15 @@ export default function CapturePage() {
   const [isLoading, setIsLoading] = useState(false);
   const [confirmation, setConfirmation] = useState<ConfirmationState | null>(null);
   const [urlResult, setUrlResult] = useState<UrlProcessResult | null>(null);
-  const [lastText, setLastText] = useState('');
   const [processingStage, setProcessingStage] = useState(0);
   const [isUrlProcessing, setIsUrlProcessing] = useState(false);
   const [pendingCount, setPendingCount] = useState(0);
   const [isSyncing, setIsSyncing] = useState(false);
+  const [shareError, setShareError] = useState<string | null>(null);
+  const handledShare = useRef(false);
+  // Uploaded document behind the current summary card, attached to the entry on save
+  const summaryFile = useRef<File | null>(null);
+  const { showError } = useToast();
 
   // Check offline queue on mount and on reconnect
   useEffect(() => {
@@ -51,50 +56,78 @@ export default function CapturePage() {
     return () => window.removeEventListener('online', handleOnline);
   }, []);
 
-  const handleCapture = useCallback(async (text: string, reminderDate?: string) => {
-    setIsLoading(true);
-    setLastText(text);
-
-    try {
-      const response = await captureThought(text, reminderDate);
-
-      // Check for offline save
-      if ('offline' in response && response.offline) {
-        setPendingCount(p => p + 1);
-        setConfirmation({
-          show: true,
-          text,
-          category: 'Admin',
-          confidence: 0,
-          page_id: undefined,
-        });
-      } else if (response.status === 'captured' && response.category) {
-        setConfirmation({
-          show: true,
+  // Typed and voice captures share the confirmation card
+  const showCaptureResult = useCallback((text: string, response: CaptureResponse) => {
+    // Check for offline save
+    if ('offline' in response && response.offline) {
+      setPendingCount(p => p + 1);
+      setConfirmation({
+        show: true,
+        text,
+        items: [{ text, category: 'Admin', confidence: 0 }],
+      });
+    } else if (response.status === 'captured' && response.category) {
+      setConfirmation({
+        show: true,
+        text,
+        items: response.items || [{
           text,
           category: response.category,
           confidence: response.confidence || 0,
           page_id: response.page_id,
-        });
-      } else if (response.status === 'needs_clarification') {
-        setConfirmation({
-          show: true,
+          needs_review: response.needs_review,
+          due_date: response.due_date,
+        }],
+      });
+    } else if (response.status === 'needs_clarification') {
+      setConfirmation({
+        show: true,
+        text,
+        items: [{
           text,
           category: response.category || 'Admin',
           confidence: response.confidence || 0,
           page_id: response.page_id,
-        });
-      } else if (response.status === 'error') {
-        console.error('Capture error:', response.error);
-      }
+        }],
+      });
+    } else if (response.status === 'error') {
+      console.error('Capture error:', response.error);
+    }
+  }, []);
+
+  const handleCapture = useCallback(async (text: string, reminderDate?: string) => {
+    setIsLoading(true);
+
+    try {
+      const response = await captureThought(text, reminderDate);
+      showCaptureResult(text, response);
     } catch (error) {
       console.error('Capture failed:', error);
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [showCaptureResult]);
 
-  const handleUrlCapture = useCallback(async (url: string) => {
+  // Voice notes are transcribed server-side; the card shows what Whisper heard
+  const handleVoiceCapture = useCallback(async (audio: Blob, reminderDate?: string) => {
+    setIsLoading(true);
+
+    try {
+      const response = await captureVoice(audio, reminderDate);
+      if (response.status === 'error') {
+        // Nothing was typed, so say what went wrong rather than failing silently
+        showError(response.error || 'Failed to capture voice note');
+      }
+      showCaptureResult(response.transcript || 'Voice note', response);
+    } catch (error) {
+      console.error('Voice capture failed:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [showCaptureResult, showError]);
+
+  // Links and uploaded documents share the progress stages and summary card
+  const runSummary = useCallback(async (process: () => Promise<UrlProcessResult>, url: string) => {
     setIsLoading(true);
     setIsUrlProcessing(true);
     setConfirmation(null);
@@ -107,7 +140,7 @@ export default function CapturePage() {
     }, 8000);
 
     try {
-      const result = await processUrl(url);
+      const result = await process();
       clearInterval(stageInterval);
       setUrlResult(result);
     } catch (error) {
@@ -131,15 +164,26 @@ export default function CapturePage() {
     }
   }, []);
 
+  const handleUrlCapture = useCallback(async (url: string) => {
+    summaryFile.current = null;
+    await runSummary(() => processUrl(url), url);
+  }, [runSummary]);
+
+  const handleDocumentCapture = useCallback(async (file: File) => {
+    summaryFile.current = file;
+    await runSummary(() => processDocument(file), '');
+  }, [runSummary]);
+
   const handleUrlDismiss = useCallback(() => {
     setUrlResult(null);
+    summaryFile.current = null;
   }, []);
 
   const handleSaveReading = useCallback(async () => {
     if (!urlResult || urlResult.status === 'error') return;
     const result = await saveReading({
       title: urlResult.title,
-      url: urlResult.url,
+      url: urlResult.url || undefined,
       oneLiner: urlResult.one_liner,
       tldr: urlResult.tldr,
       category: urlResult.category,
@@ -148,35 +192,168 @@ export default function CapturePage() {
     if (result.status === 'error') {
       throw new Error(result.error);
     }
-  }, [urlResult]);
+
+    // Keep the original document with the Reading entry; without it the save is undone so Retry starts clean
+    const file = summaryFile.current;
+    if (file && result.pageId) {
+      const attached = await uploadAttachment(result.pageId, file);
+      if (attached.status === 'error') {
+        await deleteEntry(result.pageId);
+        showError(`Couldn't attach the document: ${attached.error || 'upload failed'}`);
+        throw new Error(attached.error);
+      }
+    }
+  }, [urlResult, showError]);
+
+  const updateItem = useCallback((index: number, changes: Partial<ConfirmationItem>) => {
+    setConfirmation((prev) => prev && {
+      ...prev,
+      items: prev.items.map((item, i) => (i === index ? { ...item, ...changes } : item)),
+    });
+  }, []);
 
   const handleRecategorize = useCallback(
-    async (newCategory: Category | 'Ignore') => {
+    async (index: number, newCategory: string) => {
       if (!confirmation) return;
+      const item = confirmation.items[index];
+      const isSplit = confirmation.items.length > 1;
 
       if (newCategory === 'Ignore') {
         setConfirmation(null);
         return;
       }
 
-      if (confirmation.page_id) {
-        await recategorize(
-          confirmation.page_id,
-          confirmation.category,
+      if (item.page_id) {
+        const result = await recategorize(
+          item.page_id,
+          item.category,
           newCategory,
-          lastText
+          item.text
         );
+        // Split captures stay open so the other items can still be fixed
+        if (isSplit && result.status === 'captured') {
+          updateItem(index, { category: newCategory, page_id: result.page_id, needs_review: false });
+          return;
+        }
       }
 
-      setConfirmation(null);
+      if (!isSplit) setConfirmation(null);
     },
-    [confirmation, lastText]
+    [confirmation, updateItem]
+  );
+
+  // Undo moves the created entry to the trash
+  const handleUndo = useCallback(
+    async (index: number) => {
+      if (!confirmation) return;
+      const item = confirmation.items[index];
+      if (!item.page_id) return;
+
+      const result = await deleteEntry(item.page_id);
+      if (result.status !== 'deleted') return;
+
+      const remaining = confirmation.items.filter((it, i) => i !== index && !it.undone);
+      if (remaining.length === 0) {
+        setConfirmation(null);
+      } else {
+        updateItem(index, { undone: true });
+      }
+    },
+    [confirmation, updateItem]
+  );
+
+  // Merge folds the new entry into the one it repeats; the card shows the result briefly
+  const handleMerge = useCallback(
+    async (index: number) => {
+      if (!confirmation) return;
+      const item = confirmation.items[index];
+      if (!item.page_id || !item.duplicate_of) return;
+
+      const result = await mergeEntry(item.page_id, item.duplicate_of.id);
+      if (result.status !== 'merged') {
+        showError(result.error || 'Failed to merge');
+        return;
+      }
+      updateItem(index, { merged: true });
+    },
+    [confirmation, updateItem, showError]
+  );
+
+  // Creating a mentioned person moves them from the "+ add" buttons to the linked chips
+  const handleAddPerson = useCallback(
+    async (index: number, person: MentionedPerson) => {
+      if (!confirmation) return;
+      const item = confirmation.items[index];
+      if (!item.page_id) return;
+
+      const result = await addMentionedPerson(item.page_id, person);
+      if (result.status !== 'created' || !result.person) {
+        showError(result.error || 'Failed to add person');
+        return;
+      }
+      const added = result.person;
+      updateItem(index, {
+        people: [...(item.people || []).filter(p => p.id !== added.id), added],
+        new_people: (item.new_people || []).filter(p => p.name !== person.name),
+      });
+    },
+    [confirmation, updateItem, showError]
+  );
+
+  // Accepting a suggested tag moves it from the "+ #tag" buttons to the applied chips
+  const handleAddTag = useCallback(
+    async (index: number, tag: string) => {
+      if (!confirmation) return;
+      const item = confirmation.items[index];
+      if (!item.page_id) return;
+
+      const result = await updateEntryTags(item.page_id, [...(item.tags || []), tag]);
+      if (result.status !== 'success') {
+        showError(result.error || 'Failed to add tag');
+        return;
+      }
+      updateItem(index, {
+        tags: result.tags,
+        suggested_tags: (item.suggested_tags || []).filter(t => t !== tag),
+      });
+    },
+    [confirmation, updateItem, showError]
   );
 
   const handleDismiss = useCallback(() => {
     setConfirmation(null);
   }, []);
 
+  // Items shared from other apps arrive via /share as query params (Web Share Target)
+  useEffect(() => {
+    if (handledShare.current) return;
+    handledShare.current = true;
+
+    const params = new URLSearchParams(window.location.search);
+    const sharedUrl = params.get('share_url');
+    const sharedText = params.get('share_text');
+    const sharedEntry = params.get('shared_entry');
+    if (!sharedUrl && !sharedText && !sharedEntry && !params.has('share_error')) return;
+
+    // Drop the params so a reload doesn't capture the same share twice
+    window.history.replaceState(null, '', window.location.pathname);
+
+    if (sharedUrl) {
+      handleUrlCapture(sharedUrl);
+    } else if (sharedText) {
+      handleCapture(sharedText);
+    } else if (sharedEntry) {
+      const title = params.get('shared_title') || '';
+      setConfirmation({
+        show: true,
+        text: title,
+        items: [{ text: title, title, category: 'Idea', confidence: 0.9, page_id: sharedEntry }],
+      });
+    } else {
+      setShareError(params.get('share_error'));
+    }
+  }, [handleCapture, handleUrlCapture]);
+
   return (
     <div className="mx-auto max-w-lg px-5 pt-12">
       {/* Offline sync banner */}
@@ -198,6 +375,16 @@ export default function CapturePage() {
         </div>
       )}
 
+      {/* Share target failure */}
+      {shareError && (
+        <button
+          onClick={() => setShareError(null)}
+          className="mb-4 w-full rounded-lg bg-[var(--accent-red)]/10 border border-[var(--accent-red)]/20 px-4 py-2.5 text-left text-sm text-[var(--accent-red)]"
+        >
+          {shareError}
+        </button>
+      )}
+
       {/* Header - zen styling */}
       <header className="mb-10 animate-fade-up">
         <h1 className="text-2xl font-semibold tracking-tight text-[var(--text-primary)]">
@@ -213,6 +400,8 @@ export default function CapturePage() {
         <CaptureInput
           onSubmit={handleCapture}
           onUrlSubmit={handleUrlCapture}
+          onFileSubmit={handleDocumentCapture}
+          onVoiceSubmit={handleVoiceCapture}
           isLoading={isLoading}
         />
       </div>
@@ -262,12 +451,18 @@ export default function CapturePage() {
         <div className="mb-8">
           <ConfirmCard
             text={confirmation.text}
-            category={confirmation.category}
-            confidence={confirmation.confidence}
-            pageId={confirmation.page_id}
+            items={confirmation.items}
             onRecategorize={handleRecategorize}
+            onUndo={handleUndo}
+            onMerge={handleMerge}
+            onAddPerson={handleAddPerson}
+            onAddTag={handleAddTag}
             onDismiss={handleDismiss}
-            autoDismiss={5000}
+            autoDismiss={
+              5000 + (confirmation.items.length - 1) * 3000
+              // Give a merge or add-person offer time to be read
+              + (confirmation.items.some(item => item.duplicate_of || item.new_people) ? 5000 : 0)
+            }
           />
         </div>
       )}
@@ -1,71 +1,93 @@
 'use client';
 
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import type { ReadingItem } from '@/lib/types';
 import { formatRelativeDate } from '@/lib/utils/date';
 import { ReadingSummaryCard } from '@/features/reading/components/ReadingSummaryCard';
 import { PullToRefresh } from '@/features/tasks/components/PullToRefresh';
 
-// Fetch ideas with source URL
-async function fetchReadingItems(): Promise<ReadingItem[]> {
+type ReadingFilter = 'all' | 'today' | 'week';
+
+interface ReadingPage {
+  items: ReadingItem[];
+  total: number;
+  nextCursor: string | null;
+}
+
+const PAGE_SIZE = 20;
+
+// Start of the filter's window, as an ISO timestamp in local time
+function createdAfter(filter: ReadingFilter): string | null {
+  if (filter === 'all') return null;
+  const now = new Date();
+  if (filter === 'today') return new Date(now.getFullYear(), now.getMonth(), now.getDate()).toISOString();
+  return new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000).toISOString();
+}
+
+// Fetch a page of saved articles, newest first
+async function fetchReadingItems(filter: ReadingFilter, cursor?: string): Promise<ReadingPage> {
   try {
-    const response = await fetch('/api/reading');
+    const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+    const after = createdAfter(filter);
+    if (after) params.append('created_after', after);
+    if (cursor) params.append('cursor', cursor);
+
+    const response = await fetch(`/api/reading?${params.toString()}`);
     if (!response.ok) throw new Error('Failed to fetch');
     const data = await response.json();
-    return data.items || [];
+    return { items: data.items || [], total: data.total || 0, nextCursor: data.nextCursor || null };
   } catch (error) {
     console.error('Fetch reading items error:', error);
-    return [];
+    return { items: [], total: 0, nextCursor: null };
   }
 }
 
 export default function ReadingPage() {
   const [items, setItems] = useState<ReadingItem[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [expandedId, setExpandedId] = useState<string | null>(null);
-  const [filter, setFilter] = useState<'all' | 'today' | 'week'>('all');
-  const hasFetched = useRef(false);
-
-  const loadItems = useCallback(async (showLoadingState = true) => {
-    if (showLoadingState) setIsLoading(true);
-    const data = await fetchReadingItems();
-    setItems(data);
-    if (showLoadingState) setIsLoading(false);
+  const [filter, setFilter] = useState<ReadingFilter>('all');
+
+  const showPage = useCallback((page: ReadingPage) => {
+    setItems(page.items);
+    setTotal(page.total);
+    setNextCursor(page.nextCursor);
   }, []);
 
   const handleRefresh = useCallback(async () => {
-    await loadItems(false);
-  }, [loadItems]);
+    showPage(await fetchReadingItems(filter));
+  }, [filter, showPage]);
 
-  // Initial data fetch - only runs once
+  // Reload from the first page whenever the filter changes
   useEffect(() => {
-    if (hasFetched.current) return;
-    hasFetched.current = true;
-
-    fetchReadingItems().then((data) => {
-      setItems(data);
+    let cancelled = false;
+    fetchReadingItems(filter).then((page) => {
+      if (cancelled) return;
+      showPage(page);
       setIsLoading(false);
     });
-  }, []);
-
-  // Filter items by date
-  const filteredItems = items.filter((item) => {
-    if (filter === 'all') return true;
-
-    const itemDate = new Date(item.created_time);
-    const now = new Date();
-
-    if (filter === 'today') {
-      return itemDate.toDateString() === now.toDateString();
-    }
-
-    if (filter === 'week') {
-      const weekAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-      return itemDate >= weekAgo;
-    }
+    return () => {
+      cancelled = true;
+    };
+  }, [filter, showPage]);
+
+  const handleFilter = (next: ReadingFilter) => {
+    if (next === filter) return;
+    setIsLoading(true);
+    setFilter(next);
+  };
 
-    return true;
-  });
+  const loadMore = async () => {
+    if (!nextCursor) return;
+    setIsLoadingMore(true);
+    const page = await fetchReadingItems(filter, nextCursor);
+    setItems((prev) => [...prev, ...page.items]);
+    setNextCursor(page.nextCursor);
+    setIsLoadingMore(false);
+  };
 
   // Zen styling - neutral category colors
   const getCategoryColor = () => {
@@ -90,7 +112,7 @@ export default function ReadingPage() {
         <div className="flex items-center justify-between">
           <div>
             <h1 className="text-xl font-semibold text-[var(--text-primary)]">Reading</h1>
-            <p className="text-sm text-[var(--text-muted)]/70">{items.length} saved</p>
+            <p className="text-sm text-[var(--text-muted)]/70">{total} saved</p>
           </div>
         </div>
 
@@ -99,7 +121,7 @@ export default function ReadingPage() {
           {(['all', 'today', 'week'] as const).map((f) => (
             <button
               key={f}
-              onClick={() => setFilter(f)}
+              onClick={() => handleFilter(f)}
               className={`rounded-lg px-3 py-1.5 text-sm font-medium transition-colors ${
                 filter === f
                   ? 'text-[var(--text-primary)]'
@@ -126,7 +148,7 @@ export default function ReadingPage() {
       )}
 
       {/* Empty state - zen styling */}
-      {!isLoading && filteredItems.length === 0 && (
+      {!isLoading && items.length === 0 && (
         <div className="flex flex-col items-center justify-center py-16">
           <span className="text-base text-[var(--text-secondary)]/70">No articles yet</span>
           <span className="mt-1 text-sm text-[var(--text-muted)]/60">Paste a URL to save articles</span>
@@ -134,9 +156,9 @@ export default function ReadingPage() {
       )}
 
       {/* Article list */}
-      {!isLoading && filteredItems.length > 0 && (
+      {!isLoading && items.length > 0 && (
         <div className="space-y-4">
-          {filteredItems.map((item) => (
+          {items.map((item) => (
             <article
               key={item.id}
               className="rounded-xl bg-[var(--bg-surface)]/50 border border-[var(--border-subtle)]/50 overflow-hidden transition-all duration-200"
@@ -212,6 +234,16 @@ export default function ReadingPage() {
               )}
             </article>
           ))}
+
+          {nextCursor && (
+            <button
+              onClick={loadMore}
+              disabled={isLoadingMore}
+              className="w-full py-2.5 text-center text-sm text-[var(--text-muted)]/70 transition-colors hover:text-[var(--text-secondary)] disabled:opacity-50"
+            >
+              {isLoadingMore ? 'Loading...' : `Show more · ${total - items.length} left`}
+            </button>
+          )}
         </div>
       )}
     </div>
@@ -4,6 +4,7 @@ import { useState, useEffect, useCallback, useRef } from 'react';
 import { markDone, deleteEntry, snoozeEntry } from '@/lib/api';
 import { useToast } from '@/shared/components/Toast';
 import { CATEGORY_ICONS, CATEGORY_GRADIENTS } from '@/config/ui';
+import { useCategories, findCategoryInfo } from '@/shared/hooks/useCategories';
 
 interface ReviewItem {
   id: string;
@@ -34,6 +35,7 @@ export default function ReviewPage() {
   const startXRef = useRef(0);
   const currentXRef = useRef(0);
   const { showSuccess, showError } = useToast();
+  const categories = useCategories();
 
   // Fetch recent items
   useEffect(() => {
@@ -62,6 +64,9 @@ export default function ReviewPage() {
   }, []);
 
   const currentItem = items[currentIndex];
+  const currentDefinition = currentItem
+    ? categories.find((c) => c.db_name === currentItem.category || c.name === currentItem.category)
+    : undefined;
   const progress = items.length > 0 ? ((currentIndex) / items.length) * 100 : 0;
   const isComplete = currentIndex >= items.length;
 
@@ -115,7 +120,7 @@ export default function ReviewPage() {
     try {
       const db = CATEGORY_TO_DB[currentItem.category] || 'admin';
       if (currentItem.category === 'Admin' && currentItem.status !== 'Done') {
-        await markDone(currentItem.id, db);
+        await markDone(currentItem.id, db, findCategoryInfo(categories, currentItem.category)?.done_status);
         setStats(s => ({ ...s, completed: s.completed + 1 }));
         showSuccess('Marked as done!');
       } else {
@@ -128,7 +133,7 @@ export default function ReviewPage() {
     } finally {
       setActionLoading(false);
     }
-  }, [currentItem, actionLoading, showSuccess, showError]);
+  }, [currentItem, actionLoading, categories, showSuccess, showError]);
 
   const handleArchive = useCallback(async () => {
     if (!currentItem || actionLoading) return;
@@ -272,8 +277,8 @@ export default function ReviewPage() {
       >
         {/* Category badge */}
         <div className="flex items-center gap-2 mb-4">
-          <div className={`flex h-10 w-10 items-center justify-center rounded-lg bg-gradient-to-br ${CATEGORY_GRADIENTS[currentItem.category] || 'from-gray-500 to-gray-600'}`}>
-            <span className="text-lg">{CATEGORY_ICONS[currentItem.category] || '📄'}</span>
+          <div className={`flex h-10 w-10 items-center justify-center rounded-lg bg-gradient-to-br ${currentDefinition?.gradient || CATEGORY_GRADIENTS[currentItem.category] || 'from-gray-500 to-gray-600'}`}>
+            <span className="text-lg">{currentDefinition?.icon || CATEGORY_ICONS[currentItem.category] || '📄'}</span>
           </div>
           <div>
             <span className="text-sm text-[var(--text-muted)]">{currentItem.category}</span>
@@ -5,7 +5,9 @@ import { searchEntries, markDone, snoozeEntry, updateEntry } from '@/lib/api';
 import type { SearchResult, Category, SavedSearch } from '@/lib/types';
 import { useToast } from '@/shared/components/Toast';
 import { SearchDetailModal } from '@/features/search/components/SearchDetailModal';
+import { BulkActionBar } from '@/features/tasks/components/BulkActionBar';
 import { formatRelativeDate } from '@/lib/utils/date';
+import { useCategories, findCategoryInfo } from '@/shared/hooks/useCategories';
 
 // Zen styling - muted, neutral colors
 const CATEGORY_COLORS: Record<Category, string> = {
@@ -109,13 +111,14 @@ function SearchResultCard({ result, onAction, onViewDetails, formatDate }: Searc
   const [isExpanded, setIsExpanded] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const { showSuccess, showError } = useToast();
+  const categories = useCategories();
 
   const database = CATEGORY_TO_DB[result.category] || 'admin';
 
   const handleComplete = async () => {
     setIsLoading(true);
     try {
-      await markDone(result.id, database);
+      await markDone(result.id, database, findCategoryInfo(categories, result.category)?.done_status);
       showSuccess('Marked as done!');
       onAction();
     } catch {
@@ -293,6 +296,8 @@ export default function SearchPage() {
   const [showSaveDialog, setShowSaveDialog] = useState(false);
   const [saveName, setSaveName] = useState('');
   const [selectedEntry, setSelectedEntry] = useState<{ id: string; category: Category } | null>(null);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
 
   const { savedSearches, saveSearch, removeSearch } = useSavedSearches();
   const { showSuccess } = useToast();
@@ -324,6 +329,28 @@ export default function SearchPage() {
     }
   }, [query, isSearching]);
 
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const stopSelecting = () => {
+    setIsSelecting(false);
+    setSelectedIds(new Set());
+  };
+
+  const handleBulkApplied = () => {
+    setSelectedIds(new Set());
+    handleSearch();
+  };
+
   const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
     if (e.key === 'Enter') {
       e.preventDefault();
@@ -495,31 +522,74 @@ export default function SearchPage() {
             </div>
           )}
 
-          {/* Category breakdown - zen styling */}
-          {grouped && results.length > 0 && (
-            <div className="flex gap-3 text-sm text-[var(--text-muted)]/70">
-              {(Object.entries(grouped) as [Category, number][])
+          {/* Category breakdown and select toggle - zen styling */}
+          {results.length > 0 && (
+            <div className="flex items-center gap-3 text-sm text-[var(--text-muted)]/70">
+              {grouped && (Object.entries(grouped) as [Category, number][])
                 .filter(([, count]) => count > 0)
                 .map(([category, count]) => (
                   <span key={category}>
                     {category} · {count}
                   </span>
                 ))}
+              <button
+                onClick={() => (isSelecting ? stopSelecting() : setIsSelecting(true))}
+                className="ml-auto text-xs text-[var(--text-muted)]/60 transition-colors hover:text-[var(--text-muted)]"
+              >
+                {isSelecting ? 'Done' : 'Select'}
+              </button>
             </div>
           )}
 
           {/* Results list with quick actions */}
           {results.length > 0 ? (
             <div className="space-y-3">
-              {results.map((result) => (
-                <SearchResultCard
-                  key={result.id}
-                  result={result}
-                  onAction={() => handleSearch()}
-                  onViewDetails={() => setSelectedEntry({ id: result.id, category: result.category })}
-                  formatDate={formatDate}
-                />
-              ))}
+              {results.map((result) => {
+                const card = (
+                  <SearchResultCard
+                    key={result.id}
+                    result={result}
+                    onAction={() => handleSearch()}
+                    onViewDetails={() => setSelectedEntry({ id: result.id, category: result.category })}
+                    formatDate={formatDate}
+                  />
+                );
+                if (!isSelecting) return card;
+
+                // In select mode a tap toggles the result instead of acting on it
+                const isSelected = selectedIds.has(result.id);
+                return (
+                  <div
+                    key={result.id}
+                    role="checkbox"
+                    aria-checked={isSelected}
+                    tabIndex={0}
+                    onClick={() => toggleSelected(result.id)}
+                    onKeyDown={(e) => {
+                      if (e.key === ' ' || e.key === 'Enter') {
+                        e.preventDefault();
+                        toggleSelected(result.id);
+                      }
+                    }}
+                    className="flex cursor-pointer items-center gap-3"
+                  >
+                    <span
+                      className={`flex h-5 w-5 shrink-0 items-center justify-center rounded-md border transition-colors ${
+                        isSelected
+                          ? 'border-[var(--text-primary)] bg-[var(--text-primary)] text-[var(--bg-deep)]'
+                          : 'border-[var(--border-subtle)]'
+                      }`}
+                    >
+                      {isSelected && (
+                        <svg className="h-3 w-3" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3">
+                          <path d="M5 13l4 4L19 7" strokeLinecap="round" strokeLinejoin="round" />
+                        </svg>
+                      )}
+                    </span>
+                    <div className={`min-w-0 flex-1 pointer-events-none ${isSelected ? '' : 'opacity-70'}`}>{card}</div>
+                  </div>
+                );
+              })}
             </div>
           ) : (
             <div className="flex flex-col items-center justify-center py-16">
@@ -530,6 +600,15 @@ export default function SearchPage() {
         </div>
       )}
 
+      {isSelecting && selectedIds.size > 0 && (
+        <BulkActionBar
+          selectedIds={[...selectedIds]}
+          categories={results.filter((r) => selectedIds.has(r.id)).map((r) => r.category)}
+          onApplied={handleBulkApplied}
+          onCancel={stopSelecting}
+        />
+      )}
+
       {/* Detail Modal */}
       <SearchDetailModal
         isOpen={!!selectedEntry}
@@ -18,6 +18,15 @@ interface TaskListInfo {
   enabled: boolean;
 }
 
+interface EmbeddingStatus {
+  model: string;
+  total: number;
+  missing: number;
+  outdated_model: number;
+  stale: number;
+  outdated_examples: number;
+}
+
 export default function SettingsPage() {
   const { theme, setTheme } = useTheme();
   const [googleConnected, setGoogleConnected] = useState<GoogleStatus>(null);
@@ -26,6 +35,9 @@ export default function SettingsPage() {
   const [calendarsLoading, setCalendarsLoading] = useState(false);
   const [taskLists, setTaskLists] = useState<TaskListInfo[]>([]);
   const [taskListsLoading, setTaskListsLoading] = useState(false);
+  const [embeddingStatus, setEmbeddingStatus] = useState<EmbeddingStatus | null>(null);
+  const [isReindexing, setIsReindexing] = useState(false);
+  const [reindexError, setReindexError] = useState<string | null>(null);
 
   useEffect(() => {
     fetch('/api/google/status')
@@ -34,6 +46,13 @@ export default function SettingsPage() {
       .catch(() => setGoogleConnected(false));
   }, []);
 
+  useEffect(() => {
+    fetch('/api/embeddings')
+      .then((r) => r.json())
+      .then((data) => setEmbeddingStatus(data.status === 'success' ? data : null))
+      .catch(() => setEmbeddingStatus(null));
+  }, []);
+
   // Fetch calendars and task lists when connected
   useEffect(() => {
     if (googleConnected !== true) return;
@@ -97,6 +116,31 @@ export default function SettingsPage() {
     }
   };
 
+  // Each POST is one bounded pass; keep going until nothing is left
+  const handleReindex = async () => {
+    setIsReindexing(true);
+    setReindexError(null);
+    try {
+      for (;;) {
+        const res = await fetch('/api/embeddings', { method: 'POST' });
+        const data = await res.json();
+        if (data.status !== 'success') throw new Error(data.error || 'Re-index failed');
+        if (data.failed > 0) throw new Error(`${data.failed} entries could not be embedded`);
+        if (!data.remaining) break;
+      }
+    } catch (err) {
+      setReindexError(err instanceof Error ? err.message : 'Re-index failed');
+    } finally {
+      const data = await fetch('/api/embeddings').then((r) => r.json()).catch(() => null);
+      setEmbeddingStatus(data?.status === 'success' ? data : null);
+      setIsReindexing(false);
+    }
+  };
+
+  const outdatedEmbeddings = embeddingStatus
+    ? embeddingStatus.missing + embeddingStatus.outdated_model + embeddingStatus.stale + embeddingStatus.outdated_examples
+    : 0;
+
   const handleDisconnect = async () => {
     setIsDisconnecting(true);
     try {
@@ -143,6 +187,128 @@ export default function SettingsPage() {
         </div>
       </section>
 
+      {/* Data */}
+      <section className="mb-10 animate-fade-up delay-2">
+        <p className="text-xs font-medium text-[var(--text-muted)] uppercase tracking-wider mb-3">
+          Data
+        </p>
+        <div className="rounded-xl bg-[var(--bg-elevated)] overflow-hidden">
+          <a
+            href="/categories"
+            className="flex items-center justify-between px-4 py-3 text-sm text-[var(--text-primary)] hover:bg-[var(--bg-surface)] transition-colors"
+          >
+            Categories
+            <svg
+              className="h-4 w-4 text-[var(--text-muted)]/50"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="1.5"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            >
+              <polyline points="9 18 15 12 9 6" />
+            </svg>
+          </a>
+          <div className="mx-4 border-t border-[var(--border-subtle)]" />
+          <a
+            href="/inbox"
+            className="flex items-center justify-between px-4 py-3 text-sm text-[var(--text-primary)] hover:bg-[var(--bg-surface)] transition-colors"
+          >
+            Needs Review
+            <svg
+              className="h-4 w-4 text-[var(--text-muted)]/50"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="1.5"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            >
+              <polyline points="9 18 15 12 9 6" />
+            </svg>
+          </a>
+          <div className="mx-4 border-t border-[var(--border-subtle)]" />
+          <a
+            href="/trash"
+            className="flex items-center justify-between px-4 py-3 text-sm text-[var(--text-primary)] hover:bg-[var(--bg-surface)] transition-colors"
+          >
+            Trash
+            <svg
+              className="h-4 w-4 text-[var(--text-muted)]/50"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="1.5"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            >
+              <polyline points="9 18 15 12 9 6" />
+            </svg>
+          </a>
+          <div className="mx-4 border-t border-[var(--border-subtle)]" />
+          <a
+            href="/api/export?format=markdown"
+            download
+            className="flex items-center justify-between px-4 py-3 text-sm text-[var(--text-primary)] hover:bg-[var(--bg-surface)] transition-colors"
+          >
+            Export as Markdown (Obsidian)
+            <svg
+              className="h-4 w-4 text-[var(--text-muted)]/50"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="1.5"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            >
+              <polyline points="9 18 15 12 9 6" />
+            </svg>
+          </a>
+          <div className="mx-4 border-t border-[var(--border-subtle)]" />
+          <a
+            href="/api/export?format=json&include_archived=true"
+            download
+            className="flex items-center justify-between px-4 py-3 text-sm text-[var(--text-primary)] hover:bg-[var(--bg-surface)] transition-colors"
+          >
+            Export as JSON backup
+            <svg
+              className="h-4 w-4 text-[var(--text-muted)]/50"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="1.5"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            >
+              <polyline points="9 18 15 12 9 6" />
+            </svg>
+          </a>
+          <div className="mx-4 border-t border-[var(--border-subtle)]" />
+          <div className="flex items-center justify-between gap-3 px-4 py-3">
+            <div className="min-w-0">
+              <p className="text-sm text-[var(--text-primary)]">Search index</p>
+              <p className="text-xs text-[var(--text-muted)]/70 mt-0.5 truncate">
+                {reindexError
+                  ? reindexError
+                  : !embeddingStatus
+                    ? 'Checking...'
+                    : outdatedEmbeddings === 0
+                      ? `Up to date · ${embeddingStatus.model}`
+                      : `${outdatedEmbeddings} to re-index · ${embeddingStatus.model}`}
+              </p>
+            </div>
+            <button
+              onClick={handleReindex}
+              disabled={isReindexing || !embeddingStatus || outdatedEmbeddings === 0}
+              className="shrink-0 rounded-lg px-3 py-1.5 text-xs font-medium text-[var(--accent-cyan)] hover:bg-[var(--bg-surface)] transition-colors disabled:opacity-50"
+            >
+              {isReindexing ? 'Re-indexing...' : 'Re-index'}
+            </button>
+          </div>
+        </div>
+      </section>
+
       {/* Connections */}
       <section className="animate-fade-up delay-2">
         <p className="text-xs font-medium text-[var(--text-muted)] uppercase tracking-wider mb-3">
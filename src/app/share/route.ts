@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { capture, fromPhoto } from '@/services/capture';
+import { describeImage, imageDataUrl } from '@/services/vision';
+import { saveAttachment, attachmentKind } from '@/services/attachments';
+import { parseSharedContent } from '@/lib/utils/share';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('share');
+
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+/** 303 back to the capture page, which picks the share up from the query string */
+function redirectHome(request: NextRequest, params: Record<string, string> = {}) {
+  const url = new URL('/', request.url);
+  for (const [key, value] of Object.entries(params)) {
+    url.searchParams.set(key, value);
+  }
+  return NextResponse.redirect(url, 303);
+}
+
+/**
+ * POST /share — Web Share Target (see share_target in manifest.json)
+ *
+ * Links go to the capture page's URL summary flow and text to its capture flow,
+ * so the usual preview / confirm card appears. An image with no text is described
+ * by the vision model and saved as an Idea here (original kept as an attachment),
+ * like a Telegram photo.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const form = await request.formData();
+    const field = (name: string) => {
+      const value = form.get(name);
+      return typeof value === 'string' ? value : null;
+    };
+
+    const shared = parseSharedContent({ title: field('title'), text: field('text'), url: field('url') });
+    if (shared?.kind === 'url') {
+      return redirectHome(request, { share_url: shared.url });
+    }
+    if (shared && shared.text.length >= 3) {
+      return redirectHome(request, { share_text: shared.text });
+    }
+
+    const image = form.get('image');
+    if (!(image instanceof File) || image.size === 0) {
+      return redirectHome(request);
+    }
+    if (attachmentKind(image.type) !== 'image' || image.size > MAX_IMAGE_BYTES) {
+      return redirectHome(request, { share_error: 'Only photos (JPEG, PNG, GIF, WebP…) up to 10 MB can be shared' });
+    }
+
+    const data = new Uint8Array(await image.arrayBuffer());
+    const description = await describeImage(imageDataUrl(data, image.type));
+    if (!description) {
+      return redirectHome(request, { share_error: 'Could not describe that image' });
+    }
+
+    const { items: [{ entry }] } = await capture(fromPhoto('web', description));
+    try {
+      await saveAttachment({ entryId: entry.id, fileName: image.name || 'shared-image', mimeType: image.type, data, description });
+    } catch (attachError) {
+      log.error('Failed to store shared image', attachError);
+    }
+    return redirectHome(request, { shared_entry: entry.id, shared_title: description });
+  } catch (error) {
+    log.error('Share target failed', error);
+    return redirectHome(request, { share_error: 'Failed to capture shared item' });
+  }
+}
@@ -0,0 +1,199 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { fetchTrash, restoreFromTrash, purgeFromTrash, setTrashRetention } from '@/lib/api';
+import type { TrashItem } from '@/lib/types';
+import { formatRelativeDate } from '@/lib/utils/date';
+import { CATEGORY_BADGE_COLORS } from '@/config/ui';
+import { useToast } from '@/shared/components/Toast';
+
+const RETENTION_OPTIONS = [7, 30, 90];
+
+function daysUntil(dateStr: string): number {
+  return Math.max(0, Math.ceil((new Date(dateStr).getTime() - Date.now()) / (24 * 60 * 60 * 1000)));
+}
+
+export default function TrashPage() {
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [confirmPurgeId, setConfirmPurgeId] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const { showSuccess, showError } = useToast();
+
+  useEffect(() => {
+    fetchTrash()
+      .then((result) => {
+        if (result.status === 'success') {
+          setItems(result.items || []);
+          setRetentionDays(result.retention_days ?? null);
+        }
+      })
+      .finally(() => setIsLoading(false));
+  }, [reloadKey]);
+
+  const handleRestore = async (item: TrashItem) => {
+    setBusyId(item.id);
+    const result = await restoreFromTrash(item.id);
+    setBusyId(null);
+
+    if (result.status === 'restored') {
+      setItems((prev) => prev.filter((i) => i.id !== item.id));
+      showSuccess(`Restored "${item.title}"`);
+    } else {
+      showError(result.error || 'Failed to restore');
+    }
+  };
+
+  const handlePurge = async (item: TrashItem) => {
+    setBusyId(item.id);
+    setConfirmPurgeId(null);
+    const result = await purgeFromTrash(item.id);
+    setBusyId(null);
+
+    if (result.status === 'purged') {
+      setItems((prev) => prev.filter((i) => i.id !== item.id));
+      showSuccess('Deleted forever');
+    } else {
+      showError(result.error || 'Failed to delete');
+    }
+  };
+
+  const handleRetentionChange = async (days: number) => {
+    const previous = retentionDays;
+    setRetentionDays(days);
+    const result = await setTrashRetention(days);
+    if (result.status === 'success') {
+      // Purge dates depend on retention — reload them
+      setReloadKey((k) => k + 1);
+    } else {
+      setRetentionDays(previous);
+      showError(result.error || 'Failed to update retention');
+    }
+  };
+
+  return (
+    <div className="mx-auto max-w-lg px-5 pt-8 pb-24">
+      {/* Header */}
+      <header className="mb-8 animate-fade-up">
+        <div className="flex items-center gap-3 mb-2">
+          <div className="flex h-10 w-10 items-center justify-center rounded-xl bg-gradient-to-br from-gray-500 to-gray-700 text-lg">
+            🗑️
+          </div>
+          <h1 className="text-3xl font-bold tracking-tight text-[var(--text-primary)]">
+            Trash
+          </h1>
+        </div>
+        <p className="text-base text-[var(--text-muted)] ml-[52px]">
+          Deleted entries, kept until they&apos;re purged
+        </p>
+      </header>
+
+      {/* Retention */}
+      <div className="mb-6 animate-fade-up delay-1">
+        <p className="text-xs font-medium text-[var(--text-muted)] uppercase tracking-wider mb-3">
+          Delete forever after
+        </p>
+        <div className="flex rounded-xl bg-[var(--bg-elevated)] p-1 gap-1">
+          {RETENTION_OPTIONS.map((days) => {
+            const isActive = retentionDays === days;
+            return (
+              <button
+                key={days}
+                onClick={() => handleRetentionChange(days)}
+                disabled={retentionDays === null}
+                className={`flex-1 rounded-lg py-2 text-sm font-medium transition-all disabled:opacity-50 ${
+                  isActive
+                    ? 'bg-[var(--bg-surface)] text-[var(--text-primary)] shadow-sm'
+                    : 'text-[var(--text-muted)] hover:text-[var(--text-secondary)]'
+                }`}
+              >
+                {days} days
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Trashed entries */}
+      <div className="space-y-3 animate-fade-up delay-2">
+        {isLoading ? (
+          <div className="flex flex-col items-center justify-center py-12">
+            <div className="spinner mb-3" />
+            <span className="text-sm text-[var(--text-muted)]">Loading trash...</span>
+          </div>
+        ) : items.length === 0 ? (
+          <div className="flex flex-col items-center justify-center rounded-xl bg-[var(--bg-elevated)] py-12">
+            <span className="text-4xl mb-3">✨</span>
+            <span className="text-sm text-[var(--text-muted)]">Trash is empty</span>
+          </div>
+        ) : (
+          items.map((item) => {
+            const colors = CATEGORY_BADGE_COLORS[item.category] || CATEGORY_BADGE_COLORS.Admin;
+            const daysLeft = daysUntil(item.purge_at);
+
+            return (
+              <div key={item.id} className={`glass-card p-4 ${busyId === item.id ? 'opacity-50' : ''}`}>
+                <div className="flex items-start justify-between gap-3">
+                  <div className="flex-1 min-w-0">
+                    <h3 className="text-sm font-medium text-[var(--text-primary)] truncate">
+                      {item.title}
+                    </h3>
+                    <div className="mt-2 flex flex-wrap items-center gap-2">
+                      <span className={`rounded-md border px-2 py-0.5 text-xs ${colors.bg} ${colors.text} ${colors.border}`}>
+                        {item.category}
+                      </span>
+                      <span className="text-xs text-[var(--text-muted)]">
+                        Deleted {formatRelativeDate(item.archived_at)}
+                      </span>
+                    </div>
+                    <p className="mt-1 text-xs text-[var(--text-muted)]/70">
+                      {daysLeft === 0 ? 'Purged at next cleanup' : `Purged in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 gap-2">
+                    <button
+                      onClick={() => handleRestore(item)}
+                      disabled={busyId !== null}
+                      className="rounded-lg bg-cyan-900/50 px-3 py-1.5 text-xs font-medium text-cyan-400 hover:bg-cyan-900/70 disabled:opacity-50"
+                    >
+                      Restore
+                    </button>
+                    <button
+                      onClick={() => setConfirmPurgeId(confirmPurgeId === item.id ? null : item.id)}
+                      disabled={busyId !== null}
+                      className="rounded-lg bg-[var(--bg-elevated)] px-3 py-1.5 text-xs text-red-400 hover:bg-red-500/10 disabled:opacity-50"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+
+                {confirmPurgeId === item.id && (
+                  <div className="mt-3 p-3 rounded-lg bg-red-500/10 border border-red-500/30">
+                    <p className="text-sm text-red-400 mb-2">Delete forever? This can&apos;t be undone.</p>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => handlePurge(item)}
+                        className="flex-1 rounded-lg bg-red-500 px-3 py-1.5 text-sm font-medium text-white hover:bg-red-600"
+                      >
+                        Delete Forever
+                      </button>
+                      <button
+                        onClick={() => setConfirmPurgeId(null)}
+                        className="flex-1 rounded-lg bg-[var(--bg-elevated)] px-3 py-1.5 text-sm text-[var(--text-muted)] hover:bg-[var(--bg-surface)]"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
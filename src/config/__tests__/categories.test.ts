@@ -4,6 +4,7 @@ import {
   isValidStatus,
   getDoneStatus,
   STATUS_OPTIONS,
+  BUILTIN_CATEGORIES,
   PRIORITY_OPTIONS,
   IDEA_CATEGORIES,
 } from '../categories';
@@ -32,6 +33,16 @@ describe('getStatusOptions', () => {
   it('returns empty array for unknown database', () => {
     expect(getStatusOptions('Unknown')).toEqual([]);
   });
+
+  it('reads user-defined categories from the given definitions', () => {
+    const definitions = [
+      ...BUILTIN_CATEGORIES,
+      { ...BUILTIN_CATEGORIES[0], name: 'Trip', dbName: 'Trips', statuses: ['Planning', 'Booked', 'Done'], doneStatus: 'Done' },
+    ];
+    expect(getStatusOptions('Trips', definitions)).toEqual(['Planning', 'Booked', 'Done']);
+    expect(isValidStatus('Trip', 'Booked', definitions)).toBe(true);
+    expect(getDoneStatus('Trips', definitions)).toBe('Done');
+  });
 });
 
 describe('isValidStatus', () => {
@@ -1,14 +1,147 @@
 // Category and status definitions
-// Previously hardcoded in multiple components and API routes
+// Built-in categories; the live set (including user-defined ones) is stored in
+// the categories table and loaded via services/db/categories
 
-// Status options per database
-export const STATUS_OPTIONS: Record<string, readonly string[]> = {
-  Admin: ['Todo', 'Done'],
-  Projects: ['Not Started', 'Active', 'Waiting', 'Complete'],
-  People: ['New', 'Active', 'Dormant'],
-  Ideas: ['Spark', 'Developing', 'Actionable'],
-  Reading: ['Unread', 'Read'],
-} as const;
+import type { CategoryInfo } from '@/lib/types';
+
+// A field the capture classifier extracts into entry content
+export interface CategoryField {
+  key: string;         // key in the classifier's extracted_data, e.g. 'next_action'
+  contentKey: string;  // key in entries.content, e.g. 'nextAction'
+  description: string; // hint shown to the classifier
+}
+
+export interface CategoryDefinition {
+  name: string;              // capture/API name, singular ('Project')
+  dbName: string;            // stored entries.category value ('Projects')
+  description: string;       // classifier rule: what belongs here
+  statuses: string[];
+  defaultStatus: string;
+  doneStatus: string | null; // null = no "done" state (e.g. Ideas)
+  icon: string;
+  gradient: string;          // Tailwind gradient stops, e.g. 'from-green-500 to-emerald-500'
+  titleField: string;        // extracted_data key used as the entry title
+  fields: CategoryField[];
+  defaultContent: Record<string, string>; // '$today' is replaced with the capture date
+  defaultPriority: string | null;
+  sortOrder: number;
+}
+
+export const BUILTIN_CATEGORIES: CategoryDefinition[] = [
+  {
+    name: 'People',
+    dbName: 'People',
+    description: 'names, contacts, networking, follow-ups, meetings with individuals',
+    statuses: ['New', 'Active', 'Dormant'],
+    defaultStatus: 'New',
+    doneStatus: 'Dormant',
+    icon: '👤',
+    gradient: 'from-blue-500 to-cyan-500',
+    titleField: 'name',
+    fields: [
+      { key: 'company', contentKey: 'company', description: 'Company, if mentioned' },
+      { key: 'context', contentKey: 'context', description: 'How you know them or why it matters' },
+    ],
+    defaultContent: { lastContact: '$today' },
+    defaultPriority: null,
+    sortOrder: 0,
+  },
+  {
+    name: 'Project',
+    dbName: 'Projects',
+    description: 'tasks with deliverables, multi-step work, deadlines',
+    statuses: ['Not Started', 'Active', 'Waiting', 'Complete'],
+    defaultStatus: 'Active',
+    doneStatus: 'Complete',
+    icon: '🚀',
+    gradient: 'from-green-500 to-emerald-500',
+    titleField: 'name',
+    fields: [
+      { key: 'next_action', contentKey: 'nextAction', description: 'The very next physical step' },
+    ],
+    defaultContent: { area: 'Work' },
+    defaultPriority: 'Medium',
+    sortOrder: 1,
+  },
+  {
+    name: 'Idea',
+    dbName: 'Ideas',
+    description: 'insights, quotes, observations, "shower thoughts", learnings',
+    statuses: ['Spark', 'Developing', 'Actionable'],
+    defaultStatus: 'Spark',
+    doneStatus: null,
+    icon: '💡',
+    gradient: 'from-purple-500 to-pink-500',
+    titleField: 'title',
+    fields: [
+      { key: 'raw_insight', contentKey: 'rawInsight', description: 'The insight in the user\'s words' },
+    ],
+    defaultContent: { ideaCategory: 'Life' },
+    defaultPriority: null,
+    sortOrder: 2,
+  },
+  {
+    name: 'Admin',
+    dbName: 'Admin',
+    description: 'errands, appointments, logistics, bills, personal tasks',
+    statuses: ['Todo', 'Done'],
+    defaultStatus: 'Todo',
+    doneStatus: 'Done',
+    icon: '📋',
+    gradient: 'from-orange-500 to-amber-500',
+    titleField: 'task',
+    fields: [],
+    defaultContent: { adminCategory: 'Home' },
+    defaultPriority: 'Medium',
+    sortOrder: 3,
+  },
+  {
+    name: 'Reading',
+    dbName: 'Reading',
+    description: 'articles, links, URLs, reference material, "read later" items, bookmarks',
+    statuses: ['Unread', 'Read'],
+    defaultStatus: 'Unread',
+    doneStatus: 'Read',
+    icon: '📖',
+    gradient: 'from-sky-500 to-indigo-500',
+    titleField: 'title',
+    fields: [
+      { key: 'source', contentKey: 'source', description: 'URL if present' },
+    ],
+    defaultContent: { ideaCategory: 'Tech' },
+    defaultPriority: null,
+    sortOrder: 4,
+  },
+];
+
+// Match a category by capture name ('Project') or stored name ('Projects'), case-insensitive
+export function findCategory(definitions: CategoryDefinition[], name: string): CategoryDefinition | undefined {
+  const key = name.trim().toLowerCase();
+  return definitions.find(c => c.name.toLowerCase() === key || c.dbName.toLowerCase() === key);
+}
+
+// A definition in the shape /api/categories returns it
+export function toCategoryInfo(c: CategoryDefinition): CategoryInfo {
+  return {
+    name: c.name,
+    db_name: c.dbName,
+    description: c.description,
+    statuses: c.statuses,
+    default_status: c.defaultStatus,
+    done_status: c.doneStatus,
+    icon: c.icon,
+    gradient: c.gradient,
+    title_field: c.titleField,
+    fields: c.fields.map(f => ({ key: f.key, content_key: f.contentKey, description: f.description })),
+    default_content: c.defaultContent,
+    default_priority: c.defaultPriority,
+  };
+}
+
+// Status options per built-in database; user-defined categories carry their own
+export const STATUS_OPTIONS: Record<string, readonly string[]> = Object.fromEntries(
+  BUILTIN_CATEGORIES.map(c => [c.dbName, c.statuses])
+);
 
 // Priority options (shared across databases)
 export const PRIORITY_OPTIONS = ['High', 'Medium', 'Low'] as const;
@@ -34,27 +167,21 @@ export type ProjectArea = (typeof PROJECT_AREAS)[number];
 export const INBOX_LOG_STATUS = ['Processed', 'Needs Review', 'Fixed', 'Ignored'] as const;
 export type InboxLogStatus = (typeof INBOX_LOG_STATUS)[number];
 
-// Get status options for a database
-export function getStatusOptions(database: string): readonly string[] {
-  return STATUS_OPTIONS[database] || [];
+// Capture sources (provenance on entries and inbox log rows)
+export const CAPTURE_SOURCES = ['web', 'telegram', 'agent', 'research', 'import'] as const;
+export type CaptureSource = (typeof CAPTURE_SOURCES)[number];
+
+// Get status options for a database from the given definitions
+export function getStatusOptions(database: string, definitions: CategoryDefinition[] = BUILTIN_CATEGORIES): readonly string[] {
+  return findCategory(definitions, database)?.statuses || [];
 }
 
 // Check if a status is valid for a database
-export function isValidStatus(database: string, status: string): boolean {
-  const options = getStatusOptions(database);
-  return options.includes(status);
+export function isValidStatus(database: string, status: string, definitions: CategoryDefinition[] = BUILTIN_CATEGORIES): boolean {
+  return getStatusOptions(database, definitions).includes(status);
 }
 
 // Get the "done" status for a database
-export function getDoneStatus(database: string): string {
-  switch (database) {
-    case 'Projects':
-      return 'Complete';
-    case 'People':
-      return 'Dormant';
-    case 'Reading':
-      return 'Read';
-    default:
-      return 'Done';
-  }
+export function getDoneStatus(database: string, definitions: CategoryDefinition[] = BUILTIN_CATEGORIES): string {
+  return findCategory(definitions, database)?.doneStatus || 'Done';
 }
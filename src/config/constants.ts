@@ -1,8 +0,0 @@
-// Default status for each category when creating new entries
-export const DEFAULT_STATUS: Record<string, string> = {
-  People: 'New',
-  Project: 'Active',
-  Idea: 'Spark',
-  Admin: 'Todo',
-  Reading: 'Unread',
-};
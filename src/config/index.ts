@@ -1,6 +1,5 @@
 // Config barrel export
 // Import from '@/config' for all configuration
 
-export * from './constants';
 export * from './categories';
 export * from './ui';
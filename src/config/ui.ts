@@ -27,3 +27,18 @@ export const CATEGORY_BADGE_COLORS: Record<string, { bg: string; text: string; b
   Projects: { bg: 'bg-green-500/10', text: 'text-green-400', border: 'border-green-500/30' },
   Ideas: { bg: 'bg-purple-500/10', text: 'text-purple-400', border: 'border-purple-500/30' },
 };
+
+// Gradients offered for user-defined categories. Listed literally so Tailwind
+// generates the classes — arbitrary strings from the database would not be.
+export const CATEGORY_GRADIENT_PRESETS = [
+  'from-blue-500 to-cyan-500',
+  'from-green-500 to-emerald-500',
+  'from-purple-500 to-pink-500',
+  'from-orange-500 to-amber-500',
+  'from-sky-500 to-indigo-500',
+  'from-rose-500 to-red-500',
+  'from-teal-500 to-lime-500',
+  'from-fuchsia-500 to-violet-500',
+  'from-yellow-500 to-orange-500',
+  'from-slate-500 to-gray-600',
+] as const;
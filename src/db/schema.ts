@@ -1,4 +1,4 @@
-import { pgTable, uuid, text, real, timestamp, jsonb, index, uniqueIndex } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, text, real, integer, timestamp, jsonb, index, uniqueIndex } from 'drizzle-orm/pg-core';
 import { sql } from 'drizzle-orm';
 
 // ============= Custom pgvector type =============
@@ -20,6 +20,13 @@ const vector = customType<{ data: number[]; driverParam: string }>({
   },
 });
 
+// Postgres full-text search vector (read-only; populated by a generated column)
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return 'tsvector';
+  },
+});
+
 // ============= Entries =============
 // Unified table for all 4 categories: People, Projects, Ideas, Admin
 export const entries = pgTable('entries', {
@@ -31,7 +38,16 @@ export const entries = pgTable('entries', {
   priority: text('priority'),
   content: jsonb('content').$type<Record<string, unknown>>().default({}),
   embedding: vector('embedding'),
+  embeddingModel: text('embedding_model'), // Model that produced `embedding`
+  embeddingHash: text('embedding_hash'), // SHA-256 of the text `embedding` was built from
+  textHash: text('text_hash'), // SHA-256 of the current title and content, set on every write; differs from embeddingHash when the vector is stale
+  // Weighted full-text index: title (A) + string values inside content (B)
+  searchVector: tsvector('search_vector').generatedAlwaysAs(
+    sql`setweight(to_tsvector('english', coalesce(title, '')), 'A') || setweight(jsonb_to_tsvector('english', coalesce(content, '{}'::jsonb), '["string"]'), 'B')`
+  ),
   dueDate: timestamp('due_date', { withTimezone: true }),
+  recurrence: text('recurrence'), // RRULE (e.g. FREQ=WEEKLY;BYDAY=MO); next occurrence is created on completion
+  source: text('source'), // Where it was captured: 'web' | 'telegram' | 'agent' | 'research' | 'import'
   archived: timestamp('archived_at', { withTimezone: true }),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
@@ -42,6 +58,8 @@ export const entries = pgTable('entries', {
   index('entries_created_at_idx').on(table.createdAt),
   index('entries_priority_idx').on(table.priority),
   uniqueIndex('entries_notion_id_idx').on(table.notionId),
+  index('entries_search_vector_idx').using('gin', table.searchVector),
+  index('entries_source_idx').on(table.source),
 ]);
 
 // ============= Entry Relations =============
@@ -57,6 +75,87 @@ export const entryRelations = pgTable('entry_relations', {
   index('relations_target_idx').on(table.targetId),
 ]);
 
+// ============= Tags =============
+// Free-form labels shared across categories; names are stored normalized ('q3-launch')
+export const tags = pgTable('tags', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  name: text('name').notNull().unique(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+// Many-to-many link between entries and tags
+export const entryTags = pgTable('entry_tags', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  entryId: uuid('entry_id').notNull().references(() => entries.id, { onDelete: 'cascade' }),
+  tagId: uuid('tag_id').notNull().references(() => tags.id, { onDelete: 'cascade' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('entry_tags_entry_tag_idx').on(table.entryId, table.tagId),
+  index('entry_tags_tag_id_idx').on(table.tagId),
+]);
+
+// ============= Entry Revisions =============
+// Version history: snapshot of an entry's previous state, taken on every change
+export const entryRevisions = pgTable('entry_revisions', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  entryId: uuid('entry_id').notNull().references(() => entries.id, { onDelete: 'cascade' }),
+  action: text('action').notNull(), // 'updated' | 'recategorized' | 'archived' | 'restored' | 'merged'
+  changedFields: jsonb('changed_fields').$type<string[]>().default([]),
+  snapshot: jsonb('snapshot').$type<{
+    category: string;
+    title: string;
+    status: string | null;
+    priority: string | null;
+    content: Record<string, unknown>;
+    dueDate: string | null;
+    archived: string | null;
+    recurrence?: string | null; // Missing from revisions taken before recurrence was snapshotted
+  }>().notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  index('entry_revisions_entry_id_idx').on(table.entryId),
+  index('entry_revisions_created_at_idx').on(table.createdAt),
+]);
+
+// ============= Attachments =============
+// Original files (photos, PDFs, audio) kept alongside an entry; bytes live in the storage backend
+export const attachments = pgTable('attachments', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  entryId: uuid('entry_id').references(() => entries.id, { onDelete: 'set null' }), // null once the entry is purged; files are then deleted
+  kind: text('kind').notNull(), // 'image' | 'pdf' | 'audio' | 'file'
+  fileName: text('file_name').notNull(),
+  mimeType: text('mime_type').notNull(),
+  size: integer('size').notNull(), // Bytes
+  storageBackend: text('storage_backend').notNull(), // 'local'
+  storageKey: text('storage_key').notNull(),
+  description: text('description'), // Vision description / extracted text; re-processable
+  processedAt: timestamp('processed_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  index('attachments_entry_id_idx').on(table.entryId),
+]);
+
+// ============= Categories =============
+// User-defined categories and their status workflows (seeded with the built-ins)
+export const categories = pgTable('categories', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  name: text('name').notNull().unique(),       // capture/API name, e.g. 'Project'
+  dbName: text('db_name').notNull().unique(),  // stored entries.category, e.g. 'Projects'
+  description: text('description').notNull(), // classifier rule
+  statuses: jsonb('statuses').$type<string[]>().notNull(),
+  defaultStatus: text('default_status').notNull(),
+  doneStatus: text('done_status'),
+  icon: text('icon').notNull(),
+  gradient: text('gradient').notNull(),
+  titleField: text('title_field').notNull().default('title'),
+  fields: jsonb('fields').$type<Array<{ key: string; contentKey: string; description: string }>>().default([]),
+  defaultContent: jsonb('default_content').$type<Record<string, string>>().default({}),
+  defaultPriority: text('default_priority'),
+  sortOrder: integer('sort_order').notNull().default(0),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
 // ============= Inbox Log =============
 // Capture audit trail
 export const inboxLog = pgTable('inbox_log', {
@@ -67,11 +166,30 @@ export const inboxLog = pgTable('inbox_log', {
   confidence: real('confidence'),
   destinationId: text('destination_id'),
   status: text('status'), // 'Processed' | 'Needs Review' | 'Fixed' | 'Ignored'
+  fixedCategory: text('fixed_category'), // Category chosen when a capture was recategorized
+  source: text('source'), // Capture source, as on entries
   slackThread: text('slack_thread'),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
 }, (table) => [
   index('inbox_log_created_at_idx').on(table.createdAt),
   index('inbox_log_category_idx').on(table.category),
+  index('inbox_log_status_idx').on(table.status),
+  index('inbox_log_destination_id_idx').on(table.destinationId),
+]);
+
+// ============= Classifier Examples =============
+// Recategorized captures kept as labelled few-shot examples for the classifier
+export const classifierExamples = pgTable('classifier_examples', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  rawInput: text('raw_input').notNull(),
+  category: text('category').notNull(), // Category the capture was moved to (singular name)
+  previousCategory: text('previous_category'), // What the classifier picked
+  source: text('source'), // 'web' | 'telegram'
+  embedding: vector('embedding'),
+  embeddingModel: text('embedding_model'), // Model that produced `embedding`
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('classifier_examples_raw_input_idx').on(table.rawInput),
 ]);
 
 // ============= Chat Sessions =============
@@ -89,7 +207,7 @@ export const chatSessions = pgTable('chat_sessions', {
 export const activityLog = pgTable('activity_log', {
   id: uuid('id').defaultRandom().primaryKey(),
   entryId: uuid('entry_id').references(() => entries.id, { onDelete: 'set null' }),
-  action: text('action').notNull(), // 'created' | 'status_changed' | 'snoozed' | 'completed' | 'archived' | 'recategorized' | 'note_added' | 'saved_reading' | 'searched'
+  action: text('action').notNull(), // 'created' | 'status_changed' | 'priority_changed' | 'snoozed' | 'completed' | 'archived' | 'recategorized' | 'note_added' | 'saved_reading' | 'searched' | 'restored' | 'attachment_added' | 'attachment_removed' | 'merged' | 'tagged' | 'bulk_action'
   metadata: jsonb('metadata').$type<Record<string, unknown>>().default({}),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
 }, (table) => [
@@ -114,7 +232,12 @@ export type Entry = typeof entries.$inferSelect;
 export type NewEntry = typeof entries.$inferInsert;
 export type EntryRelation = typeof entryRelations.$inferSelect;
 export type NewEntryRelation = typeof entryRelations.$inferInsert;
+export type Tag = typeof tags.$inferSelect;
+export type EntryRevision = typeof entryRevisions.$inferSelect;
+export type Attachment = typeof attachments.$inferSelect;
+export type CategoryRow = typeof categories.$inferSelect;
 export type InboxLogEntry = typeof inboxLog.$inferSelect;
+export type ClassifierExample = typeof classifierExamples.$inferSelect;
 export type ActivityLogEntry = typeof activityLog.$inferSelect;
 export type ChatSession = typeof chatSessions.$inferSelect;
 export type ConfigEntry = typeof config.$inferSelect;
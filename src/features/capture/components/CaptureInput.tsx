@@ -1,10 +1,13 @@
 'use client';
 
 import { useState, useCallback, useEffect, useRef, KeyboardEvent } from 'react';
+import { useVoiceRecorder, formatRecordingTime } from '@/shared/hooks/useVoiceRecorder';
 
 interface CaptureInputProps {
   onSubmit: (text: string, reminderDate?: string) => Promise<void>;
   onUrlSubmit?: (url: string) => Promise<void>;
+  onFileSubmit?: (file: File) => Promise<void>; // PDF / text / Markdown to summarize
+  onVoiceSubmit?: (audio: Blob, reminderDate?: string) => Promise<void>; // Recorded voice note, transcribed server-side
   isLoading?: boolean;
   placeholder?: string;
 }
@@ -61,6 +64,8 @@ const URL_REGEX = /https?:\/\/[^\s]+/;
 export function CaptureInput({
   onSubmit,
   onUrlSubmit,
+  onFileSubmit,
+  onVoiceSubmit,
   isLoading = false,
   placeholder = "What's on your mind?",
 }: CaptureInputProps) {
@@ -73,6 +78,7 @@ export function CaptureInput({
   const [reminderTime, setReminderTime] = useState<string>('09:00');
   const [showDatePicker, setShowDatePicker] = useState(false);
   const recognitionRef = useRef<SpeechRecognition | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Time options for reminder (30-minute intervals)
   const TIME_OPTIONS = [
@@ -178,6 +184,29 @@ export function CaptureInput({
     setSpeechSupported(!!SpeechRecognition);
   }, []);
 
+  // Combine date and time into ISO datetime string with timezone offset
+  const getReminderDateTime = useCallback((): string | undefined => {
+    if (!reminderDate) return undefined;
+    // Get local timezone offset (e.g., -05:00 for EST)
+    const offset = -new Date().getTimezoneOffset();
+    const offsetHours = Math.floor(Math.abs(offset) / 60).toString().padStart(2, '0');
+    const offsetMinutes = (Math.abs(offset) % 60).toString().padStart(2, '0');
+    const offsetSign = offset >= 0 ? '+' : '-';
+    const tzString = `${offsetSign}${offsetHours}:${offsetMinutes}`;
+    return `${reminderDate}T${reminderTime}:00${tzString}`;
+  }, [reminderDate, reminderTime]);
+
+  // With onVoiceSubmit the mic records audio for Whisper; otherwise it dictates into the textarea
+  const recorder = useVoiceRecorder({
+    onRecorded: async (audio) => {
+      await onVoiceSubmit?.(audio, getReminderDateTime());
+      clearReminder();
+    },
+  });
+  const recordsAudio = !!onVoiceSubmit && recorder.isSupported;
+  const micSupported = recordsAudio || speechSupported;
+  const micActive = recordsAudio ? recorder.isRecording : isListening;
+
   const handleSubmit = useCallback(async () => {
     const trimmed = text.trim();
     if (!trimmed || isLoading) return;
@@ -189,24 +218,13 @@ export function CaptureInput({
       await onUrlSubmit(urlMatch[0]);
     } else {
       // Normal text capture (with optional reminder)
-      // Combine date and time into ISO datetime string with timezone offset
-      let reminderDateTime: string | undefined;
-      if (reminderDate) {
-        // Get local timezone offset (e.g., -05:00 for EST)
-        const offset = -new Date().getTimezoneOffset();
-        const offsetHours = Math.floor(Math.abs(offset) / 60).toString().padStart(2, '0');
-        const offsetMinutes = (Math.abs(offset) % 60).toString().padStart(2, '0');
-        const offsetSign = offset >= 0 ? '+' : '-';
-        const tzString = `${offsetSign}${offsetHours}:${offsetMinutes}`;
-        reminderDateTime = `${reminderDate}T${reminderTime}:00${tzString}`;
-      }
-      await onSubmit(trimmed, reminderDateTime);
+      await onSubmit(trimmed, getReminderDateTime());
     }
     setText('');
     setReminderDate(null);
     setReminderTime('09:00');
     setShowDatePicker(false);
-  }, [text, isLoading, onSubmit, onUrlSubmit, reminderDate, reminderTime]);
+  }, [text, isLoading, onSubmit, onUrlSubmit, getReminderDateTime]);
 
   const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
     if ((e.metaKey || e.ctrlKey) && e.key === 'Enter') {
@@ -269,25 +287,29 @@ export function CaptureInput({
   }, []);
 
   const toggleListening = useCallback(() => {
-    if (isListening) {
+    if (recordsAudio) {
+      recorder.toggle();
+    } else if (isListening) {
       stopListening();
     } else {
       startListening();
     }
-  }, [isListening, startListening, stopListening]);
+  }, [recordsAudio, recorder, isListening, startListening, stopListening]);
 
-  const dynamicPlaceholder = isListening
-    ? 'Listening...'
-    : hasUrl
-      ? 'Link detected! Press send to analyze...'
-      : placeholder;
+  const dynamicPlaceholder = recorder.isRecording
+    ? `Recording ${formatRecordingTime(recorder.seconds)} — tap stop to capture`
+    : isListening
+      ? 'Listening...'
+      : hasUrl
+        ? 'Link detected! Press send to analyze...'
+        : placeholder;
 
   return (
     <div className="relative">
       {/* Animated border glow when focused, listening, or URL detected */}
       <div
         className={`pointer-events-none absolute -inset-[1px] rounded-2xl bg-gradient-to-r opacity-0 blur-sm transition-opacity duration-500 ${
-          isListening
+          micActive
             ? 'from-[var(--accent-red)] via-[var(--accent-purple)] to-[var(--accent-red)] opacity-80'
             : hasUrl
               ? 'from-[var(--accent-green)] via-[var(--accent-green)] to-[var(--accent-green)] opacity-70'
@@ -297,7 +319,7 @@ export function CaptureInput({
         }`}
         style={{
           backgroundSize: '200% 100%',
-          animation: isFocused || isListening || hasUrl ? 'border-flow 3s linear infinite' : 'none',
+          animation: isFocused || micActive || hasUrl ? 'border-flow 3s linear infinite' : 'none',
         }}
       />
 
@@ -311,26 +333,55 @@ export function CaptureInput({
           placeholder={dynamicPlaceholder}
           disabled={isLoading}
           rows={3}
-          className="w-full resize-none rounded-xl bg-[var(--bg-elevated)] px-4 py-4 pr-28 text-lg text-[var(--text-primary)] placeholder-[var(--text-muted)] transition-all duration-300 focus:outline-none disabled:opacity-50"
+          className={`w-full resize-none rounded-xl bg-[var(--bg-elevated)] px-4 py-4 ${onFileSubmit ? 'pr-40' : 'pr-28'} text-lg text-[var(--text-primary)] placeholder-[var(--text-muted)] transition-all duration-300 focus:outline-none disabled:opacity-50`}
           style={{ fontFamily: 'var(--font-sans)' }}
         />
 
         {/* Action buttons container */}
         <div className="absolute bottom-4 right-4 flex items-center gap-2">
+          {/* Document button */}
+          {onFileSubmit && (
+            <>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isLoading}
+                className="flex h-10 w-10 items-center justify-center rounded-xl bg-[var(--bg-surface)] text-[var(--text-secondary)] transition-all duration-200 hover:bg-[var(--bg-elevated)] hover:text-[var(--text-primary)] disabled:opacity-30"
+                aria-label="Summarize a document"
+                title="Summarize a PDF or text file"
+              >
+                <svg className="h-5 w-5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                  <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z" />
+                  <path d="M14 2v6h6M8 13h8M8 17h5" />
+                </svg>
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="application/pdf,text/plain,text/markdown,.md,.txt"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = '';
+                  if (file) onFileSubmit(file);
+                }}
+                className="hidden"
+              />
+            </>
+          )}
+
           {/* Voice button */}
-          {speechSupported && (
+          {micSupported && (
             <button
               onClick={toggleListening}
               disabled={isLoading}
               className={`flex h-10 w-10 items-center justify-center rounded-xl transition-all duration-200 ${
-                isListening
+                micActive
                   ? 'bg-[var(--accent-red)] text-white shadow-lg shadow-red-500/30 animate-pulse'
                   : 'bg-[var(--bg-surface)] text-[var(--text-secondary)] hover:bg-[var(--bg-elevated)] hover:text-[var(--text-primary)]'
               } disabled:opacity-30`}
-              aria-label={isListening ? 'Stop listening' : 'Start voice input'}
-              title={isListening ? 'Stop listening' : 'Voice input'}
+              aria-label={micActive ? (recordsAudio ? 'Stop recording' : 'Stop listening') : (recordsAudio ? 'Record a voice note' : 'Start voice input')}
+              title={micActive ? (recordsAudio ? 'Stop and capture' : 'Stop listening') : (recordsAudio ? 'Record a voice note' : 'Voice input')}
             >
-              {isListening ? (
+              {micActive ? (
                 <svg className="h-5 w-5" viewBox="0 0 24 24" fill="currentColor">
                   <rect x="6" y="6" width="12" height="12" rx="2" />
                 </svg>
@@ -469,7 +520,7 @@ export function CaptureInput({
           </kbd>
           <span className="ml-1">to send</span>
         </div>
-        {speechSupported && (
+        {micSupported && (
           <>
             <span className="text-[var(--border-subtle)]">•</span>
             <div className="flex items-center gap-1">
@@ -1,21 +1,15 @@
 'use client';
 
-import type { Category } from '@/lib/types';
+import { useCategories } from '@/shared/hooks/useCategories';
 
 interface CategoryButtonsProps {
-  selected?: Category;
-  onSelect: (category: Category | 'Ignore') => void;
+  selected?: string;
+  onSelect: (category: string) => void; // A category name, or 'Ignore'
   disabled?: boolean;
   showIgnore?: boolean;
 }
 
-const CATEGORIES: { value: Category | 'Ignore'; label: string; icon: string }[] = [
-  { value: 'People', label: 'People', icon: '👤' },
-  { value: 'Project', label: 'Project', icon: '🚀' },
-  { value: 'Idea', label: 'Idea', icon: '💡' },
-  { value: 'Admin', label: 'Admin', icon: '📋' },
-  { value: 'Ignore', label: 'Ignore', icon: '✕' },
-];
+const IGNORE = { value: 'Ignore', label: 'Ignore', icon: '✕' };
 
 export function CategoryButtons({
   selected,
@@ -23,13 +17,17 @@ export function CategoryButtons({
   disabled = false,
   showIgnore = true,
 }: CategoryButtonsProps) {
-  const buttons = showIgnore ? CATEGORIES : CATEGORIES.filter((c) => c.value !== 'Ignore');
+  const categories = useCategories();
+  const buttons = [
+    ...categories.map((c) => ({ value: c.name, label: c.name, icon: c.icon })),
+    ...(showIgnore ? [IGNORE] : []),
+  ];
 
   return (
     <div className="flex flex-wrap gap-2">
       {buttons.map((category) => {
         const isSelected = selected === category.value;
-        const categoryClass = category.value.toLowerCase();
+        const categoryClass = category.value.toLowerCase().replace(/\s+/g, '-');
 
         return (
           <button
@@ -1,29 +1,63 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-import type { Category } from '@/lib/types';
+import type { ConfirmationItem, MentionedPerson } from '@/lib/types';
+import { useCategories, findCategoryInfo } from '@/shared/hooks/useCategories';
 import { CategoryButtons } from './CategoryButtons';
 
 interface ConfirmCardProps {
   text: string;
-  category: Category;
-  confidence: number;
-  pageId?: string;
-  onRecategorize: (newCategory: Category | 'Ignore') => Promise<void>;
+  items: ConfirmationItem[];
+  onRecategorize: (index: number, newCategory: string) => Promise<void>; // A category name, or 'Ignore'
+  onUndo: (index: number) => Promise<void>;
+  onMerge?: (index: number) => Promise<void>; // Fold the item into its duplicate_of entry
+  onAddPerson?: (index: number, person: MentionedPerson) => Promise<void>; // Create a mentioned person and link it
+  onAddTag?: (index: number, tag: string) => Promise<void>; // Apply a suggested tag that isn't in use yet
   onDismiss: () => void;
   autoDismiss?: number;
 }
 
+/** 'Fri, Jul 18' or 'Fri, Jul 18, 3:00 PM' in the device's locale time */
+function formatDue(dueDate: string): string {
+  if (!dueDate.includes('T')) {
+    const [year, month, day] = dueDate.split('-').map(Number);
+    return new Date(year, month - 1, day).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+  }
+  return new Date(dueDate).toLocaleString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+function confidenceStyle(confidence: number) {
+  const level = confidence >= 0.8 ? 'high' : confidence >= 0.6 ? 'medium' : 'low';
+  const color = {
+    high: 'text-[var(--accent-green)]',
+    medium: 'text-yellow-400',
+    low: 'text-[var(--accent-red)]',
+  }[level];
+  return { level, color, percent: Math.round(confidence * 100) };
+}
+
 export function ConfirmCard({
   text,
-  category,
-  confidence,
+  items,
   onRecategorize,
+  onUndo,
+  onMerge,
+  onAddPerson,
+  onAddTag,
   onDismiss,
   autoDismiss = 5000,
 }: ConfirmCardProps) {
-  const [isLoading, setIsLoading] = useState(false);
+  const [busyIndex, setBusyIndex] = useState<number | null>(null);
   const [timeLeft, setTimeLeft] = useState(autoDismiss / 1000);
+  const isSplit = items.length > 1;
+  const categories = useCategories();
+  const iconFor = (category: string) => findCategoryInfo(categories, category)?.icon || '📝';
 
   // Countdown timer
   useEffect(() => {
@@ -43,72 +77,166 @@ export function ConfirmCard({
     }
   }, [timeLeft, autoDismiss, onDismiss]);
 
-  const handleRecategorize = async (newCategory: Category | 'Ignore') => {
-    if (newCategory === category) {
-      onDismiss();
-      return;
-    }
-
-    setIsLoading(true);
+  const run = async (index: number, action: () => Promise<void>) => {
+    setBusyIndex(index);
     try {
-      await onRecategorize(newCategory);
+      await action();
     } finally {
-      setIsLoading(false);
+      setBusyIndex(null);
     }
   };
 
-  const confidencePercent = Math.round(confidence * 100);
-  const confidenceLevel = confidence >= 0.8 ? 'high' : confidence >= 0.6 ? 'medium' : 'low';
-  const confidenceColor = {
-    high: 'text-[var(--accent-green)]',
-    medium: 'text-yellow-400',
-    low: 'text-[var(--accent-red)]',
-  }[confidenceLevel];
+  const handleRecategorize = async (index: number, newCategory: string) => {
+    if (newCategory === items[index].category) {
+      if (!isSplit) onDismiss();
+      return;
+    }
+    await run(index, () => onRecategorize(index, newCategory));
+  };
+
+  const countdown = autoDismiss > 0 && (
+    <button
+      onClick={onDismiss}
+      className="flex h-8 w-8 items-center justify-center rounded-full bg-[var(--bg-elevated)] text-xs font-mono text-[var(--text-secondary)] transition-colors hover:bg-[var(--bg-surface)] hover:text-[var(--text-primary)]"
+    >
+      {timeLeft}
+    </button>
+  );
 
-  const categoryIcon: string = {
-    People: '👤',
-    Project: '🚀',
-    Idea: '💡',
-    Admin: '📋',
-    Reading: '📖',
-  }[category];
+  const undoButton = (index: number) => (
+    <button
+      onClick={() => run(index, () => onUndo(index))}
+      disabled={busyIndex !== null || !items[index].page_id}
+      className="rounded-lg px-2.5 py-1.5 text-xs font-medium text-[var(--text-muted)] transition-colors hover:bg-[var(--bg-surface)] hover:text-[var(--text-primary)] disabled:opacity-40"
+    >
+      Undo
+    </button>
+  );
+
+  // "Looks like a repeat" notice with a merge button (or the merged state)
+  const duplicateNotice = (index: number) => {
+    const { duplicate_of: duplicate, merged, undone } = items[index];
+    if (!duplicate || !onMerge || undone) return null;
+    return merged ? (
+      <p className="text-xs text-[var(--accent-green)]">
+        ✓ Merged into &ldquo;{duplicate.title}&rdquo;
+      </p>
+    ) : (
+      <div className="flex items-center justify-between gap-2 rounded-lg bg-amber-500/10 px-3 py-2">
+        <p className="min-w-0 truncate text-xs text-amber-400">
+          🔁 Looks like &ldquo;{duplicate.title}&rdquo;
+        </p>
+        <button
+          onClick={() => run(index, () => onMerge(index))}
+          disabled={busyIndex !== null}
+          className="shrink-0 rounded-lg bg-amber-500/20 px-2.5 py-1 text-xs font-medium text-amber-300 transition-colors hover:bg-amber-500/30 disabled:opacity-40"
+        >
+          Merge into existing
+        </button>
+      </div>
+    );
+  };
+
+  // Linked people as chips, unknown names as "+ add" buttons
+  const peopleRow = (index: number) => {
+    const { people = [], new_people: newPeople = [], undone } = items[index];
+    if (undone || (people.length === 0 && newPeople.length === 0)) return null;
+    return (
+      <div className="flex flex-wrap items-center gap-1.5">
+        {people.map((person) => (
+          <span
+            key={person.id}
+            className="rounded-full bg-blue-500/10 px-2.5 py-1 text-xs text-blue-300"
+          >
+            👤 {person.name}
+          </span>
+        ))}
+        {onAddPerson && newPeople.map((person) => (
+          <button
+            key={person.name}
+            onClick={() => run(index, () => onAddPerson(index, person))}
+            disabled={busyIndex !== null}
+            className="rounded-full border border-dashed border-[var(--border-subtle)] px-2.5 py-1 text-xs text-[var(--text-secondary)] transition-colors hover:bg-[var(--bg-surface)] hover:text-[var(--text-primary)] disabled:opacity-40"
+          >
+            + {person.name}{person.company && ` (${person.company})`}
+          </button>
+        ))}
+      </div>
+    );
+  };
+
+  // Applied tags as chips, suggested new tags as "+ #tag" buttons
+  const tagsRow = (index: number) => {
+    const { tags = [], suggested_tags: suggested = [], undone } = items[index];
+    if (undone || (tags.length === 0 && suggested.length === 0)) return null;
+    return (
+      <div className="flex flex-wrap items-center gap-1.5">
+        {tags.map((tag) => (
+          <span
+            key={tag}
+            className="rounded-full bg-[var(--bg-elevated)] px-2.5 py-1 text-xs text-[var(--text-secondary)]"
+          >
+            #{tag}
+          </span>
+        ))}
+        {onAddTag && suggested.map((tag) => (
+          <button
+            key={tag}
+            onClick={() => run(index, () => onAddTag(index, tag))}
+            disabled={busyIndex !== null}
+            className="rounded-full border border-dashed border-[var(--border-subtle)] px-2.5 py-1 text-xs text-[var(--text-secondary)] transition-colors hover:bg-[var(--bg-surface)] hover:text-[var(--text-primary)] disabled:opacity-40"
+          >
+            + #{tag}
+          </button>
+        ))}
+      </div>
+    );
+  };
+
+  const item = items[0];
+  const single = confidenceStyle(item.confidence);
 
   return (
     <div className="animate-scale-in glass-card aurora-border p-5">
       {/* Header */}
       <div className="mb-4 flex items-center justify-between">
-        <div className="flex items-center gap-3">
-          <div className="flex h-10 w-10 items-center justify-center rounded-xl bg-[var(--bg-elevated)] text-xl">
-            {categoryIcon}
+        {isSplit ? (
+          <div className="flex items-center gap-3">
+            <div className="flex h-10 w-10 items-center justify-center rounded-xl bg-[var(--bg-elevated)] text-xl">
+              ✂️
+            </div>
+            <div>
+              <span className="text-sm font-medium text-[var(--text-secondary)]">Split into</span>{' '}
+              <span className="font-semibold text-[var(--text-primary)]">{items.length} entries</span>
+            </div>
           </div>
-          <div>
-            <div className="flex items-center gap-2">
-              <span className="text-sm font-medium text-[var(--text-secondary)]">Captured as</span>
-              <span className="font-semibold text-[var(--text-primary)]">{category}</span>
+        ) : (
+          <div className="flex items-center gap-3">
+            <div className="flex h-10 w-10 items-center justify-center rounded-xl bg-[var(--bg-elevated)] text-xl">
+              {iconFor(item.category)}
             </div>
-            <div className="flex items-center gap-2 mt-0.5">
-              <div className="confidence-meter w-16">
-                <div
-                  className={`confidence-fill confidence-${confidenceLevel}`}
-                  style={{ width: `${confidencePercent}%` }}
-                />
+            <div>
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium text-[var(--text-secondary)]">Captured as</span>
+                <span className="font-semibold text-[var(--text-primary)]">{item.category}</span>
+              </div>
+              <div className="flex items-center gap-2 mt-0.5">
+                <div className="confidence-meter w-16">
+                  <div
+                    className={`confidence-fill confidence-${single.level}`}
+                    style={{ width: `${single.percent}%` }}
+                  />
+                </div>
+                <span className={`text-xs font-medium ${single.color}`}>
+                  {single.percent}%
+                </span>
               </div>
-              <span className={`text-xs font-medium ${confidenceColor}`}>
-                {confidencePercent}%
-              </span>
             </div>
           </div>
-        </div>
+        )}
 
         {/* Countdown timer */}
-        {autoDismiss > 0 && (
-          <button
-            onClick={onDismiss}
-            className="flex h-8 w-8 items-center justify-center rounded-full bg-[var(--bg-elevated)] text-xs font-mono text-[var(--text-secondary)] transition-colors hover:bg-[var(--bg-surface)] hover:text-[var(--text-primary)]"
-          >
-            {timeLeft}
-          </button>
-        )}
+        {countdown}
       </div>
 
       {/* Original text */}
@@ -118,17 +246,84 @@ export function ConfirmCard({
         </p>
       </div>
 
-      {/* Category buttons */}
-      <div className="flex items-center justify-between">
-        <CategoryButtons
-          selected={category}
-          onSelect={handleRecategorize}
-          disabled={isLoading}
-        />
-      </div>
+      {/* Due date resolved from the text */}
+      {!isSplit && item.due_date && (
+        <p className="-mt-3 mb-4 text-xs text-[var(--text-secondary)]">
+          📅 Due {formatDue(item.due_date)}
+        </p>
+      )}
+
+      {isSplit ? (
+        /* One row per split item, each with its own recategorize / undo */
+        <ul className="space-y-4">
+          {items.map((splitItem, index) => {
+            const style = confidenceStyle(splitItem.confidence);
+            return (
+              <li key={splitItem.page_id || index} className={busyIndex === index ? 'opacity-50' : ''}>
+                <div className="mb-2 flex items-center gap-2">
+                  <span className="text-base">{iconFor(splitItem.category)}</span>
+                  <span className={`flex-1 min-w-0 truncate text-sm ${splitItem.undone ? 'line-through text-[var(--text-muted)]' : 'text-[var(--text-primary)]'}`}>
+                    {splitItem.title || splitItem.text}
+                  </span>
+                  {splitItem.due_date && !splitItem.undone && (
+                    <span className="shrink-0 text-xs text-[var(--text-muted)]">📅 {formatDue(splitItem.due_date)}</span>
+                  )}
+                  {splitItem.undone ? (
+                    <span className="text-xs text-[var(--text-muted)]">Removed</span>
+                  ) : (
+                    <span className={`text-xs font-medium ${style.color}`}>
+                      {splitItem.needs_review && '🤔 '}{style.percent}%
+                    </span>
+                  )}
+                </div>
+                {splitItem.duplicate_of && <div className="mb-2">{duplicateNotice(index)}</div>}
+                {!splitItem.merged && <div className="mb-2 space-y-1.5 empty:hidden">{peopleRow(index)}{tagsRow(index)}</div>}
+                {!splitItem.undone && !splitItem.merged && (
+                  <div className="flex items-center justify-between gap-2">
+                    <CategoryButtons
+                      selected={splitItem.category}
+                      onSelect={(category) => handleRecategorize(index, category)}
+                      disabled={busyIndex !== null}
+                      showIgnore={false}
+                    />
+                    {undoButton(index)}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <>
+          {/* Low confidence — also waiting in the review inbox */}
+          {item.needs_review && (
+            <p className="-mt-3 mb-4 text-xs text-yellow-400/80">
+              Not sure about this one — pick a category or triage it later in Settings → Needs Review
+            </p>
+          )}
+
+          {/* Likely repeat of an open entry */}
+          {item.duplicate_of && <div className="-mt-2 mb-4">{duplicateNotice(0)}</div>}
+
+          {/* People the capture mentioned */}
+          {!item.merged && <div className="-mt-2 mb-4 space-y-1.5 empty:hidden">{peopleRow(0)}{tagsRow(0)}</div>}
+
+          {/* Category buttons */}
+          {!item.merged && (
+            <div className="flex items-center justify-between gap-2">
+              <CategoryButtons
+                selected={item.category}
+                onSelect={(category) => handleRecategorize(0, category)}
+                disabled={busyIndex !== null}
+              />
+              {undoButton(0)}
+            </div>
+          )}
+        </>
+      )}
 
       {/* Loading overlay */}
-      {isLoading && (
+      {busyIndex !== null && !isSplit && (
         <div className="absolute inset-0 flex items-center justify-center rounded-2xl bg-[var(--bg-deep)]/80 backdrop-blur-sm">
           <div className="flex items-center gap-3 text-sm text-[var(--text-secondary)]">
             <div className="spinner" />
@@ -3,8 +3,9 @@
 import { useState, useRef, useEffect } from 'react';
 import { createPortal } from 'react-dom';
 import { usePathname } from 'next/navigation';
-import { captureThought, processUrl, isUrl } from '@/lib/api';
+import { captureThought, captureVoice, processUrl, isUrl } from '@/lib/api';
 import { useToast } from '@/shared/components/Toast';
+import { useVoiceRecorder, formatRecordingTime } from '@/shared/hooks/useVoiceRecorder';
 
 interface QuickCaptureProps {
   onCapture?: () => void;
@@ -129,7 +130,20 @@ export function QuickCapture({ onCapture }: QuickCaptureProps) {
     };
   }, [showError]);
 
+  // Recorded voice notes go to Whisper; browsers without MediaRecorder fall back to dictation
+  const recorder = useVoiceRecorder({
+    onRecorded: (audio) => handleRecorded(audio),
+    onError: showError,
+  });
+
+  const micActive = isListening || recorder.isRecording;
+
   const toggleListening = () => {
+    if (recorder.isSupported) {
+      recorder.toggle();
+      return;
+    }
+
     if (!recognitionRef.current) {
       showError('Voice capture not supported in this browser');
       return;
@@ -153,6 +167,7 @@ export function QuickCapture({ onCapture }: QuickCaptureProps) {
     if (isListening && recognitionRef.current) {
       recognitionRef.current.stop();
     }
+    recorder.stop();
     setIsOpen(false);
     setText('');
     setIsListening(false);
@@ -216,6 +231,39 @@ export function QuickCapture({ onCapture }: QuickCaptureProps) {
     return `${dateStr} at ${formatTimeDisplay(reminderTime)}`;
   };
 
+  // Combine date and time into ISO datetime string with timezone offset
+  const getReminderDateTime = (): string | undefined => {
+    if (!reminderDate) return undefined;
+    // Get local timezone offset (e.g., -05:00 for EST)
+    const offset = -new Date().getTimezoneOffset();
+    const offsetHours = Math.floor(Math.abs(offset) / 60).toString().padStart(2, '0');
+    const offsetMinutes = (Math.abs(offset) % 60).toString().padStart(2, '0');
+    const offsetSign = offset >= 0 ? '+' : '-';
+    const tzString = `${offsetSign}${offsetHours}:${offsetMinutes}`;
+    return `${reminderDate}T${reminderTime}:00${tzString}`;
+  };
+
+  const handleRecorded = async (audio: Blob) => {
+    setIsSubmitting(true);
+    try {
+      const result = await captureVoice(audio, getReminderDateTime());
+      if ('offline' in result && result.offline) {
+        showSuccess('Voice note saved offline — it will sync when you reconnect');
+        handleClose();
+      } else if (result.status === 'captured') {
+        showSuccess(`Captured as ${result.category}: "${result.transcript}"`);
+        handleClose();
+        onCapture?.();
+      } else {
+        showError(result.error || 'Failed to capture voice note');
+      }
+    } catch {
+      showError('Failed to capture voice note');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   const handleSubmit = async () => {
     if (!text.trim()) return;
 
@@ -253,18 +301,7 @@ export function QuickCapture({ onCapture }: QuickCaptureProps) {
       }
 
       // Regular text capture (with optional reminder)
-      // Combine date and time into ISO datetime string with timezone offset
-      let reminderDateTime: string | undefined;
-      if (reminderDate) {
-        // Get local timezone offset (e.g., -05:00 for EST)
-        const offset = -new Date().getTimezoneOffset();
-        const offsetHours = Math.floor(Math.abs(offset) / 60).toString().padStart(2, '0');
-        const offsetMinutes = (Math.abs(offset) % 60).toString().padStart(2, '0');
-        const offsetSign = offset >= 0 ? '+' : '-';
-        const tzString = `${offsetSign}${offsetHours}:${offsetMinutes}`;
-        reminderDateTime = `${reminderDate}T${reminderTime}:00${tzString}`;
-      }
-      const result = await captureThought(trimmed, reminderDateTime);
+      const result = await captureThought(trimmed, getReminderDateTime());
       if (result.status === 'captured') {
         const reminderText = reminderDate ? ` (reminder set for ${formatTimeDisplay(reminderTime)})` : '';
         showSuccess(`Captured as ${result.category}${reminderText}`);
@@ -333,15 +370,16 @@ export function QuickCapture({ onCapture }: QuickCaptureProps) {
                   {/* Voice Button */}
                   <button
                     onClick={toggleListening}
-                    className={`flex h-10 w-10 items-center justify-center rounded-full transition-all ${
-                      isListening
+                    disabled={isSubmitting}
+                    className={`flex h-10 w-10 items-center justify-center rounded-full transition-all disabled:opacity-50 ${
+                      micActive
                         ? 'bg-red-500 animate-pulse'
                         : 'bg-[var(--bg-elevated)] hover:bg-[var(--bg-surface)]'
                     }`}
-                    aria-label={isListening ? 'Stop recording' : 'Start voice capture'}
+                    aria-label={micActive ? 'Stop recording' : 'Start voice capture'}
                   >
                     <svg
-                      className={`h-5 w-5 ${isListening ? 'text-white' : 'text-[var(--text-muted)]'}`}
+                      className={`h-5 w-5 ${micActive ? 'text-white' : 'text-[var(--text-muted)]'}`}
                       viewBox="0 0 24 24"
                       fill="none"
                       stroke="currentColor"
@@ -375,6 +413,20 @@ export function QuickCapture({ onCapture }: QuickCaptureProps) {
                 </div>
               )}
 
+              {/* Recording indicator */}
+              {recorder.isRecording && (
+                <div className="mb-3 flex items-center gap-2 text-sm text-red-400">
+                  <span className="h-2 w-2 rounded-full bg-red-500 animate-pulse" />
+                  Recording {formatRecordingTime(recorder.seconds)} — tap the mic to stop and capture
+                </div>
+              )}
+              {isSubmitting && !text.trim() && (
+                <div className="mb-3 flex items-center gap-2 text-sm text-[var(--text-muted)]">
+                  <div className="spinner" />
+                  Transcribing voice note...
+                </div>
+              )}
+
               {/* URL detected indicator */}
               {hasUrl && (
                 <div className="mb-3 flex items-center gap-2 text-sm text-emerald-400">
@@ -392,7 +444,7 @@ export function QuickCapture({ onCapture }: QuickCaptureProps) {
                 value={text}
                 onChange={(e) => setText(e.target.value)}
                 onKeyDown={handleKeyDown}
-                placeholder="What's on your mind? Type or tap the mic to speak..."
+                placeholder={recorder.isSupported ? "What's on your mind? Type or tap the mic to record a voice note..." : "What's on your mind? Type or tap the mic to speak..."}
                 className={`w-full h-32 resize-none rounded-xl bg-[var(--bg-elevated)] p-3 text-[var(--text-primary)] placeholder-[var(--text-muted)] focus:outline-none focus:ring-1 ${
                   hasUrl ? 'ring-1 ring-emerald-500/50 focus:ring-emerald-500' : 'focus:ring-[var(--accent-cyan)]'
                 }`}
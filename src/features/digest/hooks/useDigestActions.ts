@@ -1,10 +1,11 @@
 'use client';
 
 import { useState, useCallback } from 'react';
-import { fetchEntries, markDone, snoozeEntry, updateEntry, recategorize, deleteEntry } from '@/lib/api';
+import { fetchEntryPage, markDone, snoozeEntry, updateEntry, recategorize, deleteEntry } from '@/lib/api';
 import type { Category, Entry } from '@/lib/types';
 import type { StaleItem, DueTodayItem, InsightsData } from '../types';
 import { CATEGORY_SINGULAR, CATEGORY_TO_DB } from '../types';
+import { useCategories, findCategoryInfo } from '@/shared/hooks/useCategories';
 
 interface UseDigestActionsOptions {
   setInsights: React.Dispatch<React.SetStateAction<InsightsData | null>>;
@@ -12,6 +13,7 @@ interface UseDigestActionsOptions {
 
 export function useDigestActions({ setInsights }: UseDigestActionsOptions) {
   const [actionLoading, setActionLoading] = useState<string | null>(null);
+  const categories = useCategories();
   const [expandedItem, setExpandedItem] = useState<string | null>(null);
   const [revisitNote, setRevisitNote] = useState('');
   const [drillDownCategory, setDrillDownCategory] = useState<string | null>(null);
@@ -27,14 +29,14 @@ export function useDigestActions({ setInsights }: UseDigestActionsOptions) {
     if (!db) return;
     setActionLoading(item.id);
     try {
-      await markDone(item.id, db);
+      await markDone(item.id, db, findCategoryInfo(categories, item.category)?.done_status);
       removeStaleItem(item.id);
     } catch (err) {
       console.warn('Failed to complete item:', err);
     } finally {
       setActionLoading(null);
     }
-  }, [removeStaleItem]);
+  }, [removeStaleItem, categories]);
 
   const handleSnooze = useCallback(async (item: StaleItem) => {
     const db = CATEGORY_TO_DB[item.category];
@@ -57,14 +59,14 @@ export function useDigestActions({ setInsights }: UseDigestActionsOptions) {
     if (!db) return;
     setActionLoading(item.id);
     try {
-      await markDone(item.id, db);
+      await markDone(item.id, db, findCategoryInfo(categories, item.category)?.done_status);
       setInsights(prev => prev ? { ...prev, dueToday: prev.dueToday.filter(i => i.id !== item.id) } : null);
     } catch (err) {
       console.warn('Failed to complete item:', err);
     } finally {
       setActionLoading(null);
     }
-  }, [setInsights]);
+  }, [setInsights, categories]);
 
   const handleCategoryDrillDown = useCallback(async (category: string) => {
     if (drillDownCategory === category) {
@@ -74,13 +76,13 @@ export function useDigestActions({ setInsights }: UseDigestActionsOptions) {
     setDrillDownCategory(category);
     setDrillDownLoading(true);
     try {
-      const items = await fetchEntries(category.toLowerCase());
       const oneWeekAgo = new Date();
       oneWeekAgo.setDate(oneWeekAgo.getDate() - 7);
-      const recentItems = items.filter(item =>
-        item.created && new Date(item.created) >= oneWeekAgo
-      );
-      setDrillDownItems(recentItems);
+      const page = await fetchEntryPage({
+        database: [category.toLowerCase()],
+        created_after: oneWeekAgo.toISOString(),
+      });
+      setDrillDownItems(page.items);
     } catch {
       setDrillDownItems([]);
     }
@@ -58,6 +58,7 @@ export function LinkSummaryCard({ result, onDismiss, onSave }: LinkSummaryCardPr
   };
 
   const hostname = (() => {
+    if (!result.url) return result.file_name || 'Uploaded document';
     try {
       return new URL(result.url).hostname.replace('www.', '');
     } catch {
@@ -79,6 +80,13 @@ export function LinkSummaryCard({ result, onDismiss, onSave }: LinkSummaryCardPr
             <path d="M18.244 2.25h3.308l-7.227 8.26 8.502 11.24H16.17l-5.214-6.817L4.99 21.75H1.68l7.73-8.835L1.254 2.25H8.08l4.713 6.231zm-1.161 17.52h1.833L7.084 4.126H5.117z"/>
           </svg>
         );
+      case 'document':
+        return (
+          <svg className="h-5 w-5 text-[var(--accent-cyan)]" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z" strokeLinecap="round" strokeLinejoin="round"/>
+            <path d="M14 2v6h6M8 13h8M8 17h5" strokeLinecap="round" strokeLinejoin="round"/>
+          </svg>
+        );
       default:
         return (
           <svg className="h-5 w-5 text-[var(--accent-cyan)]" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
@@ -179,6 +187,7 @@ export function LinkSummaryCard({ result, onDismiss, onSave }: LinkSummaryCardPr
             <h3 className="text-lg font-semibold text-[var(--text-primary)] leading-tight">{result.title}</h3>
             <div className="mt-1.5 flex flex-wrap items-center gap-2 text-sm">
               <span className="text-[var(--text-muted)]">{hostname}</span>
+              {result.page_count && <><span className="text-[var(--text-muted)]">•</span><span className="text-[var(--text-muted)]">{result.page_count} pages</span></>}
               {result.readTime && <><span className="text-[var(--text-muted)]">•</span><span className="text-[var(--text-muted)]">{result.readTime}</span></>}
               {result.author && <><span className="text-[var(--text-muted)]">•</span><span className="text-[var(--text-secondary)]">{result.author}</span></>}
             </div>
@@ -401,15 +410,17 @@ export function LinkSummaryCard({ result, onDismiss, onSave }: LinkSummaryCardPr
       {/* Actions Footer */}
       <div className="border-t border-[var(--border-subtle)] bg-[var(--bg-surface)] p-4">
         <div className="flex flex-wrap items-center gap-2">
-          <a href={result.url} target="_blank" rel="noopener noreferrer"
-            className="flex items-center gap-1.5 rounded-lg bg-[var(--bg-elevated)] px-4 py-2 text-sm text-[var(--text-secondary)] hover:text-[var(--text-primary)]">
-            <svg className="h-4 w-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-              <path d="M18 13v6a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V8a2 2 0 0 1 2-2h6" strokeLinecap="round" strokeLinejoin="round"/>
-              <path d="M15 3h6v6" strokeLinecap="round" strokeLinejoin="round"/>
-              <path d="M10 14L21 3" strokeLinecap="round" strokeLinejoin="round"/>
-            </svg>
-            Read Original
-          </a>
+          {result.url && (
+            <a href={result.url} target="_blank" rel="noopener noreferrer"
+              className="flex items-center gap-1.5 rounded-lg bg-[var(--bg-elevated)] px-4 py-2 text-sm text-[var(--text-secondary)] hover:text-[var(--text-primary)]">
+              <svg className="h-4 w-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <path d="M18 13v6a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V8a2 2 0 0 1 2-2h6" strokeLinecap="round" strokeLinejoin="round"/>
+                <path d="M15 3h6v6" strokeLinecap="round" strokeLinejoin="round"/>
+                <path d="M10 14L21 3" strokeLinecap="round" strokeLinejoin="round"/>
+              </svg>
+              Read Original
+            </a>
+          )}
           {onSave && saveState !== 'saved' && (
             <button
               onClick={async () => {
@@ -4,7 +4,11 @@ import { useEffect, useState } from 'react';
 import { createPortal } from 'react-dom';
 import { fetchEntry, markDone, snoozeEntry, deleteEntry, captureThought } from '@/lib/api';
 import { useToast } from '@/shared/components/Toast';
+import { useCategories, findCategoryInfo } from '@/shared/hooks/useCategories';
 import { NotesEditor } from '@/features/tasks/components/NotesEditor';
+import { RevisionHistory } from '@/features/tasks/components/RevisionHistory';
+import { AttachmentList } from '@/features/tasks/components/AttachmentList';
+import { TagEditor } from '@/features/tasks/components/TagEditor';
 import type { StructuredSummary, Category } from '@/lib/types';
 
 interface EntryDetails {
@@ -80,9 +84,12 @@ export function SearchDetailModal({
   const [mounted, setMounted] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [showNotesEditor, setShowNotesEditor] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
   const [showSourceInput, setShowSourceInput] = useState(false);
   const [sourceUrl, setSourceUrl] = useState('');
   const { showSuccess, showError } = useToast();
+  const categories = useCategories();
 
   useEffect(() => {
     setMounted(true);
@@ -124,7 +131,7 @@ export function SearchDetailModal({
         })
         .finally(() => setIsLoading(false));
     }
-  }, [isOpen, entryId]);
+  }, [isOpen, entryId, reloadKey]);
 
   const database = CATEGORY_TO_DB[entryCategory] || 'admin';
 
@@ -132,7 +139,7 @@ export function SearchDetailModal({
     if (!entry) return;
     setActionLoading(true);
     try {
-      await markDone(entry.id, database);
+      await markDone(entry.id, database, findCategoryInfo(categories, entryCategory)?.done_status);
       showSuccess('Marked as done!');
       onAction?.();
       onClose();
@@ -627,6 +634,15 @@ export function SearchDetailModal({
                 </div>
               )}
 
+              {/* Tags */}
+              <div>
+                <p className="text-xs text-[var(--text-muted)] mb-1.5">Tags</p>
+                <TagEditor entryId={entry.id} />
+              </div>
+
+              {/* Attachments */}
+              <AttachmentList entryId={entry.id} />
+
               {/* Quick Actions - Row 1: Mark Done + Snooze */}
               <div className="pt-4 border-t border-[var(--border-subtle)] space-y-3">
                 <div className="flex flex-wrap gap-2">
@@ -676,8 +692,8 @@ export function SearchDetailModal({
                   ))}
                 </div>
 
-                {/* New Actions Row: Copy, Notes, Task, Delete */}
-                <div className="grid grid-cols-4 gap-2 pt-2">
+                {/* New Actions Row: Copy, Notes, Task, History, Delete */}
+                <div className="grid grid-cols-5 gap-2 pt-2">
                   {/* Copy */}
                   <button
                     onClick={handleCopy}
@@ -716,6 +732,21 @@ export function SearchDetailModal({
                     <span className="text-xs">Task</span>
                   </button>
 
+                  {/* Version history */}
+                  <button
+                    onClick={() => setShowHistory(!showHistory)}
+                    disabled={actionLoading}
+                    className={`flex flex-col items-center gap-1 rounded-lg p-2 hover:bg-[var(--bg-surface)] disabled:opacity-50 ${
+                      showHistory ? 'bg-cyan-900/50 text-cyan-400' : 'bg-[var(--bg-elevated)] text-[var(--text-secondary)]'
+                    }`}
+                  >
+                    <svg className="h-5 w-5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                      <path d="M3 12a9 9 0 1 0 3-6.7L3 8" strokeLinecap="round" strokeLinejoin="round" />
+                      <path d="M3 3v5h5M12 7v5l3 3" strokeLinecap="round" strokeLinejoin="round" />
+                    </svg>
+                    <span className="text-xs">History</span>
+                  </button>
+
                   {/* Delete */}
                   <button
                     onClick={() => setShowDeleteConfirm(true)}
@@ -730,6 +761,18 @@ export function SearchDetailModal({
                   </button>
                 </div>
 
+                {/* Revision History */}
+                {showHistory && (
+                  <RevisionHistory
+                    entryId={entry.id}
+                    onRestored={() => {
+                      setShowHistory(false);
+                      setReloadKey((k) => k + 1);
+                      onAction?.();
+                    }}
+                  />
+                )}
+
                 {/* Delete Confirmation */}
                 {showDeleteConfirm && (
                   <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/30">
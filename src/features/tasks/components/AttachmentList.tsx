@@ -0,0 +1,172 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { fetchAttachments, uploadAttachment, deleteAttachment, reprocessAttachment } from '@/lib/api';
+import { useToast } from '@/shared/components/Toast';
+import type { EntryAttachment } from '@/lib/types';
+
+interface AttachmentListProps {
+  entryId: string;
+}
+
+const KIND_ICONS: Record<EntryAttachment['kind'], string> = {
+  image: '🖼️',
+  pdf: '📄',
+  audio: '🎙️',
+  file: '📎',
+};
+
+// Kinds the server can re-describe from the stored file
+const REPROCESSABLE: EntryAttachment['kind'][] = ['image', 'pdf', 'audio'];
+
+function formatSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+export function AttachmentList({ entryId }: AttachmentListProps) {
+  const [attachments, setAttachments] = useState<EntryAttachment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUploading, setIsUploading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { showSuccess, showError } = useToast();
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchAttachments(entryId)
+      .then((res) => {
+        if (!cancelled && res.status === 'success') {
+          setAttachments(res.attachments || []);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [entryId]);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsUploading(true);
+    const result = await uploadAttachment(entryId, file);
+    setIsUploading(false);
+
+    if (result.status === 'success' && result.attachment) {
+      setAttachments((prev) => [...prev, result.attachment!]);
+      showSuccess('File attached');
+    } else {
+      showError(result.error || 'Failed to attach file');
+    }
+  };
+
+  const handleDelete = async (attachment: EntryAttachment) => {
+    setBusyId(attachment.id);
+    const result = await deleteAttachment(attachment.id);
+    setBusyId(null);
+
+    if (result.status === 'deleted') {
+      setAttachments((prev) => prev.filter((a) => a.id !== attachment.id));
+    } else {
+      showError(result.error || 'Failed to delete attachment');
+    }
+  };
+
+  const handleReprocess = async (attachment: EntryAttachment) => {
+    setBusyId(attachment.id);
+    const result = await reprocessAttachment(attachment.id);
+    setBusyId(null);
+
+    if (result.status === 'success' && result.attachment) {
+      setAttachments((prev) => prev.map((a) => (a.id === attachment.id ? result.attachment! : a)));
+      showSuccess('Description updated');
+    } else {
+      showError(result.error || 'Failed to reprocess attachment');
+    }
+  };
+
+  if (isLoading) return null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-[var(--text-muted)]">
+          Attachments{attachments.length > 0 && ` (${attachments.length})`}
+        </p>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isUploading}
+          className="rounded-lg bg-[var(--bg-elevated)] px-2.5 py-1 text-xs font-medium text-[var(--text-secondary)] hover:bg-[var(--bg-surface)] disabled:opacity-50"
+        >
+          {isUploading ? 'Uploading…' : '+ Attach'}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*,application/pdf,audio/*,text/plain,text/markdown,.md"
+          onChange={handleUpload}
+          className="hidden"
+        />
+      </div>
+
+      {attachments.length > 0 && (
+        <ul className="max-h-72 space-y-2 overflow-y-auto">
+          {attachments.map((attachment) => (
+            <li key={attachment.id} className="rounded-lg bg-[var(--bg-elevated)] p-2.5">
+              {attachment.kind === 'image' && (
+                <a href={attachment.url} target="_blank" rel="noopener noreferrer">
+                  {/* eslint-disable-next-line @next/next/no-img-element -- served from our own API, sized by CSS */}
+                  <img
+                    src={attachment.url}
+                    alt={attachment.description || attachment.file_name}
+                    className="mb-2 max-h-40 w-full rounded-md object-cover"
+                  />
+                </a>
+              )}
+              {attachment.kind === 'audio' && (
+                <audio controls src={attachment.url} className="mb-2 w-full" />
+              )}
+
+              <div className="flex items-center justify-between gap-2">
+                <a
+                  href={`${attachment.url}?download=true`}
+                  className="min-w-0 flex-1 truncate text-xs font-medium text-[var(--text-secondary)] hover:text-cyan-400"
+                >
+                  {KIND_ICONS[attachment.kind]} {attachment.file_name}
+                  <span className="ml-1.5 font-normal text-[var(--text-muted)]">{formatSize(attachment.size)}</span>
+                </a>
+                {REPROCESSABLE.includes(attachment.kind) && (
+                  <button
+                    onClick={() => handleReprocess(attachment)}
+                    disabled={busyId !== null}
+                    className="shrink-0 rounded-lg bg-cyan-900/50 px-2.5 py-1 text-xs font-medium text-cyan-400 hover:bg-cyan-900/70 disabled:opacity-50"
+                  >
+                    {busyId === attachment.id ? '…' : 'Reprocess'}
+                  </button>
+                )}
+                <button
+                  onClick={() => handleDelete(attachment)}
+                  disabled={busyId !== null}
+                  aria-label={`Delete ${attachment.file_name}`}
+                  className="shrink-0 rounded-lg px-2 py-1 text-xs text-red-400 hover:bg-red-500/10 disabled:opacity-50"
+                >
+                  ✕
+                </button>
+              </div>
+
+              {attachment.description && (
+                <p className="mt-1 text-xs text-[var(--text-muted)]">{attachment.description}</p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+'use client';
+
+import { useState } from 'react';
+import { bulkAction } from '@/lib/api';
+import { useToast } from '@/shared/components/Toast';
+import { useCategories } from '@/shared/hooks/useCategories';
+import { localDateInTimezone } from '@/lib/utils/date';
+import type { BulkAction, BulkResponse } from '@/lib/types';
+
+type Panel = 'status' | 'priority' | 'snooze' | 'tag' | 'move';
+
+const PANELS: { id: Panel; label: string }[] = [
+  { id: 'status', label: 'Status' },
+  { id: 'priority', label: 'Priority' },
+  { id: 'snooze', label: 'Snooze' },
+  { id: 'tag', label: 'Tag' },
+  { id: 'move', label: 'Move' },
+];
+
+const SNOOZE_DAYS = [1, 3, 7];
+
+interface BulkActionBarProps {
+  selectedIds: string[];
+  categories: string[]; // Categories of the selected entries, by name ('Admin') or stored name ('Projects')
+  onApplied: (result: BulkResponse) => void;
+  onCancel: () => void;
+}
+
+// YYYY-MM-DD in the browser's timezone, `days` from today
+function daysFromToday(days: number): string {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return localDateInTimezone(Intl.DateTimeFormat().resolvedOptions().timeZone, date);
+}
+
+// "3 updated · 1 skipped · 1 failed"
+function summarize(result: BulkResponse): string {
+  const results = result.results || [];
+  const skipped = results.filter((r) => r.result === 'skipped').length;
+  const failed = results.filter((r) => r.result === 'failed').length;
+  return [`${result.updated || 0} updated`, skipped && `${skipped} skipped`, failed && `${failed} failed`]
+    .filter(Boolean)
+    .join(' · ');
+}
+
+export function BulkActionBar({ selectedIds, categories, onApplied, onCancel }: BulkActionBarProps) {
+  const [panel, setPanel] = useState<Panel | null>(null);
+  const [tagDraft, setTagDraft] = useState('');
+  const [isApplying, setIsApplying] = useState(false);
+  const definitions = useCategories();
+  const { showSuccess, showError } = useToast();
+
+  // Statuses only make sense when every selected entry shares one category
+  const selectedDefinitions = [...new Set(categories)].map((name) =>
+    definitions.find((c) => c.name === name || c.db_name === name)
+  );
+  const statuses = selectedDefinitions.length === 1 ? selectedDefinitions[0]?.statuses || [] : [];
+
+  const apply = async (action: BulkAction) => {
+    setIsApplying(true);
+    const result = await bulkAction(selectedIds, action);
+    setIsApplying(false);
+
+    if (result.status !== 'success') {
+      showError(result.error || 'Bulk action failed');
+      return;
+    }
+    const failed = (result.results || []).find((r) => r.result === 'failed');
+    if (failed) showError(`${summarize(result)} — ${failed.reason}`);
+    else showSuccess(summarize(result));
+    setPanel(null);
+    setTagDraft('');
+    onApplied(result);
+  };
+
+  const optionClass = 'rounded-lg bg-[var(--bg-surface)] px-2.5 py-1.5 text-xs text-[var(--text-secondary)] hover:bg-[var(--bg-deep)] disabled:opacity-40';
+  const disabled = isApplying || selectedIds.length === 0;
+
+  return (
+    <div className="fixed inset-x-4 bottom-24 z-50 mx-auto max-w-lg glass-card p-3 animate-fade-up">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-medium text-[var(--text-primary)]">
+          {selectedIds.length} selected
+        </span>
+        <div className="flex items-center gap-2">
+          {isApplying && <div className="spinner" />}
+          <button
+            onClick={() => apply({ type: 'archive' })}
+            disabled={disabled}
+            className="rounded-lg px-2.5 py-1.5 text-xs font-medium text-red-400 hover:bg-red-400/10 disabled:opacity-40"
+          >
+            Archive
+          </button>
+          <button
+            onClick={onCancel}
+            className="rounded-lg px-2.5 py-1.5 text-xs text-[var(--text-muted)] hover:text-[var(--text-secondary)]"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+
+      <div className="mt-2 flex flex-wrap gap-1.5">
+        {PANELS.filter((p) => p.id !== 'status' || statuses.length > 0).map((p) => (
+          <button
+            key={p.id}
+            onClick={() => setPanel(panel === p.id ? null : p.id)}
+            disabled={disabled}
+            className={`rounded-lg px-2.5 py-1.5 text-xs font-medium transition-colors disabled:opacity-40 ${
+              panel === p.id
+                ? 'bg-[var(--text-primary)] text-[var(--bg-deep)]'
+                : 'bg-[var(--bg-elevated)] text-[var(--text-secondary)] hover:bg-[var(--bg-surface)]'
+            }`}
+          >
+            {p.label}
+          </button>
+        ))}
+      </div>
+
+      {panel && (
+        <div className="mt-2 flex flex-wrap items-center gap-1.5 border-t border-[var(--border-subtle)] pt-2">
+          {panel === 'status' && statuses.map((status) => (
+            <button key={status} onClick={() => apply({ type: 'status', status })} disabled={disabled} className={optionClass}>
+              {status}
+            </button>
+          ))}
+
+          {panel === 'priority' && (['High', 'Medium', 'Low'] as const).map((priority) => (
+            <button key={priority} onClick={() => apply({ type: 'priority', priority })} disabled={disabled} className={optionClass}>
+              {priority}
+            </button>
+          ))}
+
+          {panel === 'snooze' && (
+            <>
+              {SNOOZE_DAYS.map((days) => (
+                <button
+                  key={days}
+                  onClick={() => apply({ type: 'snooze', due_date: daysFromToday(days) })}
+                  disabled={disabled}
+                  className={optionClass}
+                >
+                  {days}d
+                </button>
+              ))}
+              <button onClick={() => apply({ type: 'snooze', due_date: null })} disabled={disabled} className={optionClass}>
+                No date
+              </button>
+            </>
+          )}
+
+          {panel === 'tag' && (
+            <>
+              <input
+                type="text"
+                value={tagDraft}
+                onChange={(e) => setTagDraft(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && tagDraft.trim()) apply({ type: 'tag', tag: tagDraft.trim() });
+                }}
+                placeholder="Tag name..."
+                autoFocus
+                className="flex-1 min-w-0 rounded-lg bg-[var(--bg-elevated)] px-2.5 py-1.5 text-xs text-[var(--text-primary)] border border-[var(--border-subtle)] focus:outline-none focus:border-[var(--accent-cyan)]"
+              />
+              <button
+                onClick={() => apply({ type: 'tag', tag: tagDraft.trim() })}
+                disabled={disabled || !tagDraft.trim()}
+                className={optionClass}
+              >
+                Add
+              </button>
+            </>
+          )}
+
+          {panel === 'move' && definitions.map((category) => (
+            <button
+              key={category.name}
+              onClick={() => apply({ type: 'recategorize', category: category.name })}
+              disabled={disabled}
+              className={optionClass}
+            >
+              {category.icon} {category.name}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
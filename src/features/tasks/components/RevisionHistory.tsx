@@ -0,0 +1,133 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { fetchEntryHistory, restoreEntryRevision } from '@/lib/api';
+import { useToast } from '@/shared/components/Toast';
+import type { EntryRevision } from '@/lib/types';
+
+interface RevisionHistoryProps {
+  entryId: string;
+  onRestored?: () => void;
+}
+
+const ACTION_LABELS: Record<EntryRevision['action'], string> = {
+  updated: 'Before edit',
+  recategorized: 'Before move',
+  archived: 'Before delete',
+  restored: 'Before restore',
+  merged: 'Before merge',
+};
+
+function formatRevisionTime(iso: string) {
+  return new Date(iso).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+export function RevisionHistory({ entryId, onRestored }: RevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<EntryRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const { showSuccess, showError } = useToast();
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchEntryHistory(entryId)
+      .then((res) => {
+        if (!cancelled && res.status === 'success') {
+          setRevisions(res.revisions || []);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [entryId]);
+
+  const handleRestore = async (revision: EntryRevision) => {
+    setRestoringId(revision.id);
+    const result = await restoreEntryRevision(entryId, revision.id);
+    setRestoringId(null);
+
+    if (result.status === 'restored') {
+      showSuccess('Version restored');
+      onRestored?.();
+    } else {
+      showError(result.error || 'Failed to restore version');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <div className="spinner" />
+      </div>
+    );
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <p className="py-3 text-center text-xs text-[var(--text-muted)]">No earlier versions yet</p>
+    );
+  }
+
+  return (
+    <ul className="max-h-64 space-y-2 overflow-y-auto">
+      {revisions.map((revision) => {
+        const isExpanded = expandedId === revision.id;
+        return (
+          <li
+            key={revision.id}
+            className="rounded-lg bg-[var(--bg-elevated)] p-2.5"
+          >
+            <div className="flex items-center justify-between gap-2">
+              <button
+                onClick={() => setExpandedId(isExpanded ? null : revision.id)}
+                className="min-w-0 flex-1 text-left"
+              >
+                <p className="text-xs font-medium text-[var(--text-secondary)]">
+                  {ACTION_LABELS[revision.action] || revision.action}
+                  <span className="ml-1.5 font-normal text-[var(--text-muted)]">
+                    {formatRevisionTime(revision.created_time)}
+                  </span>
+                </p>
+                {revision.changed_fields.length > 0 && (
+                  <p className="truncate text-xs text-[var(--text-muted)]">
+                    Changed: {revision.changed_fields.join(', ')}
+                  </p>
+                )}
+              </button>
+              <button
+                onClick={() => handleRestore(revision)}
+                disabled={restoringId !== null}
+                className="shrink-0 rounded-lg bg-cyan-900/50 px-2.5 py-1 text-xs font-medium text-cyan-400 hover:bg-cyan-900/70 disabled:opacity-50"
+              >
+                {restoringId === revision.id ? 'Restoring…' : 'Restore'}
+              </button>
+            </div>
+
+            {isExpanded && (
+              <div className="mt-2 space-y-1 border-t border-[var(--border-subtle)] pt-2 text-xs text-[var(--text-muted)]">
+                <p><span className="text-[var(--text-secondary)]">{revision.title}</span></p>
+                <p>
+                  {[revision.category, revision.status, revision.priority, revision.due_date]
+                    .filter(Boolean)
+                    .join(' · ')}
+                </p>
+                {revision.notes && (
+                  <p className="whitespace-pre-wrap">{revision.notes}</p>
+                )}
+              </div>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,124 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { fetchSubtasks, addSubtask, toggleSubtask, reorderSubtasks, removeSubtask } from '@/lib/api';
+import { useToast } from '@/shared/components/Toast';
+import type { SubtaskInfo, SubtasksResponse } from '@/lib/types';
+
+interface SubtaskChecklistProps {
+  entryId: string;
+  onChange?: (result: SubtasksResponse) => void;
+}
+
+export function SubtaskChecklist({ entryId, onChange }: SubtaskChecklistProps) {
+  const [subtasks, setSubtasks] = useState<SubtaskInfo[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [draft, setDraft] = useState('');
+  const { showError } = useToast();
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchSubtasks(entryId)
+      .then((res) => {
+        if (!cancelled && res.status === 'success') {
+          setSubtasks(res.subtasks || []);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [entryId]);
+
+  const apply = async (request: Promise<SubtasksResponse>) => {
+    setIsSaving(true);
+    const result = await request;
+    setIsSaving(false);
+
+    if (result.status === 'success') {
+      setSubtasks(result.subtasks || []);
+      onChange?.(result);
+    } else {
+      showError(result.error || 'Failed to update subtasks');
+    }
+  };
+
+  const handleAdd = async (asEntry: boolean) => {
+    const text = draft.trim();
+    if (!text) return;
+    setDraft('');
+    await apply(addSubtask(entryId, text, asEntry));
+  };
+
+  const handleMove = async (index: number, delta: number) => {
+    const order = subtasks.map((s) => s.id);
+    const [moved] = order.splice(index, 1);
+    order.splice(index + delta, 0, moved);
+    await apply(reorderSubtasks(entryId, order));
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-2">
+        <div className="spinner" />
+      </div>
+    );
+  }
+
+  return (
+    <div className={isSaving ? 'opacity-60 pointer-events-none' : ''}>
+      {subtasks.length > 0 && (
+        <ul className="mb-2 max-h-48 space-y-1 overflow-y-auto">
+          {subtasks.map((s, i) => (
+            <li key={s.id} className="group flex items-center gap-2 rounded-lg px-1 py-0.5">
+              <input
+                type="checkbox"
+                checked={s.done}
+                onChange={(e) => apply(toggleSubtask(entryId, s.id, e.target.checked))}
+                className="h-3.5 w-3.5 shrink-0 accent-emerald-500"
+              />
+              <span className={`flex-1 min-w-0 truncate text-xs ${s.done ? 'line-through text-[var(--text-muted)]' : 'text-[var(--text-secondary)]'}`}>
+                {s.entry_id && <span className="mr-1" title="Linked task">↗</span>}
+                {s.text}
+                {s.due_date && !s.done && <span className="ml-1 text-[var(--text-muted)]/70">· {s.due_date}</span>}
+              </span>
+              <div className="flex shrink-0 items-center gap-1 opacity-0 transition-opacity group-hover:opacity-100">
+                {i > 0 && (
+                  <button onClick={() => handleMove(i, -1)} className="px-1 text-xs text-[var(--text-muted)] hover:text-[var(--text-primary)]" aria-label="Move up">↑</button>
+                )}
+                {i < subtasks.length - 1 && (
+                  <button onClick={() => handleMove(i, 1)} className="px-1 text-xs text-[var(--text-muted)] hover:text-[var(--text-primary)]" aria-label="Move down">↓</button>
+                )}
+                <button onClick={() => apply(removeSubtask(entryId, s.id))} className="px-1 text-xs text-red-400/70 hover:text-red-400" aria-label="Remove">×</button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex gap-1.5">
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleAdd(false);
+          }}
+          placeholder="Add a step..."
+          className="flex-1 min-w-0 rounded-lg bg-[var(--bg-elevated)] px-2.5 py-1.5 text-xs text-[var(--text-primary)] border border-[var(--border-subtle)] focus:outline-none focus:border-[var(--accent-cyan)]"
+        />
+        <button
+          onClick={() => handleAdd(true)}
+          disabled={!draft.trim()}
+          title="Add as a task in Admin"
+          className="rounded-lg bg-[var(--bg-elevated)] px-2.5 py-1.5 text-xs font-medium text-[var(--text-secondary)] hover:bg-[var(--bg-surface)] disabled:opacity-40"
+        >
+          + Task
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+'use client';
+
+import { useEffect, useId, useState } from 'react';
+import { fetchEntryTags, updateEntryTags, fetchAllTags } from '@/lib/api';
+import { useToast } from '@/shared/components/Toast';
+import type { TagCount } from '@/lib/types';
+
+interface TagEditorProps {
+  entryId: string;
+  onChange?: (tags: string[]) => void;
+}
+
+export function TagEditor({ entryId, onChange }: TagEditorProps) {
+  const [tags, setTags] = useState<string[]>([]);
+  const [known, setKnown] = useState<TagCount[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [draft, setDraft] = useState('');
+  const listId = useId();
+  const { showError } = useToast();
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([fetchEntryTags(entryId), fetchAllTags()])
+      .then(([res, all]) => {
+        if (cancelled) return;
+        if (res.status === 'success') setTags(res.tags || []);
+        setKnown(all);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [entryId]);
+
+  const save = async (next: string[]) => {
+    setIsSaving(true);
+    const result = await updateEntryTags(entryId, next);
+    setIsSaving(false);
+
+    if (result.status === 'success') {
+      setTags(result.tags || []);
+      onChange?.(result.tags || []);
+    } else {
+      showError(result.error || 'Failed to update tags');
+    }
+  };
+
+  const handleAdd = async () => {
+    const names = draft.split(',').map((name) => name.trim().replace(/^#+/, '')).filter(Boolean);
+    setDraft('');
+    if (names.length > 0) await save([...tags, ...names]);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-2">
+        <div className="spinner" />
+      </div>
+    );
+  }
+
+  return (
+    <div className={isSaving ? 'opacity-60 pointer-events-none' : ''}>
+      {tags.length > 0 && (
+        <div className="mb-2 flex flex-wrap gap-1.5">
+          {tags.map((tag) => (
+            <span
+              key={tag}
+              className="flex items-center gap-1 rounded-full bg-[var(--bg-elevated)] py-0.5 pl-2.5 pr-1 text-xs text-[var(--text-secondary)]"
+            >
+              #{tag}
+              <button
+                onClick={() => save(tags.filter((t) => t !== tag))}
+                className="px-1 text-[var(--text-muted)] hover:text-red-400"
+                aria-label={`Remove tag ${tag}`}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-1.5">
+        <input
+          type="text"
+          value={draft}
+          list={listId}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleAdd();
+          }}
+          placeholder="Add a tag..."
+          className="flex-1 min-w-0 rounded-lg bg-[var(--bg-elevated)] px-2.5 py-1.5 text-xs text-[var(--text-primary)] border border-[var(--border-subtle)] focus:outline-none focus:border-[var(--accent-cyan)]"
+        />
+        <datalist id={listId}>
+          {known
+            .filter((tag) => !tags.includes(tag.name))
+            .map((tag) => (
+              <option key={tag.name} value={tag.name}>{`${tag.count} entries`}</option>
+            ))}
+        </datalist>
+        <button
+          onClick={handleAdd}
+          disabled={!draft.trim()}
+          className="rounded-lg bg-[var(--bg-elevated)] px-2.5 py-1.5 text-xs font-medium text-[var(--text-secondary)] hover:bg-[var(--bg-surface)] disabled:opacity-40"
+        >
+          Add
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,14 @@
 'use client';
 
 import { useState, useRef, useEffect } from 'react';
-import type { Entry, Category } from '@/lib/types';
+import type { Entry } from '@/lib/types';
 import { FloatingCard } from './FloatingCard';
 import { NotesEditor } from './NotesEditor';
+import { SubtaskChecklist } from './SubtaskChecklist';
+import { TagEditor } from './TagEditor';
 import { fetchEntry } from '@/lib/api';
+import { useCategories, findCategoryInfo } from '@/shared/hooks/useCategories';
+import { describeRecurrence, normalizeRecurrence, RECURRENCE_PRESETS } from '@/lib/utils/rrule';
 
 interface TaskCardProps {
   task: Entry;
@@ -12,32 +16,19 @@ interface TaskCardProps {
   onStatusChange: (taskId: string, newStatus: string) => Promise<void>;
   onComplete: (taskId: string) => Promise<void>;
   onSnooze: (taskId: string, date: Date) => Promise<void>;
-  onRecategorize: (taskId: string, newCategory: Category) => Promise<void>;
+  onRecategorize: (taskId: string, newCategory: string) => Promise<void>;
   onDelete: (taskId: string) => Promise<void>;
   onTaskUpdate?: () => Promise<void>;
 }
 
-const CATEGORY_OPTIONS: { value: Category; label: string; icon: string }[] = [
-  { value: 'People', label: 'People', icon: '👤' },
-  { value: 'Project', label: 'Project', icon: '🚀' },
-  { value: 'Idea', label: 'Idea', icon: '💡' },
-  { value: 'Admin', label: 'Admin', icon: '📋' },
+// Quick picks for the Repeat section; anything else is entered as an RRULE
+const REPEAT_OPTIONS = [
+  { label: 'Daily', value: 'daily' },
+  { label: 'Weekdays', value: 'weekdays' },
+  { label: 'Weekly', value: 'weekly' },
+  { label: 'Monthly', value: 'monthly' },
 ];
 
-const DATABASE_TO_CATEGORY: Record<string, Category> = {
-  admin: 'Admin',
-  projects: 'Project',
-  people: 'People',
-  ideas: 'Idea',
-};
-
-const STATUS_OPTIONS: Record<string, string[]> = {
-  admin: ['Todo', 'Done'],
-  projects: ['Not Started', 'Active', 'Waiting', 'Complete'],
-  people: ['New', 'Active', 'Dormant'],
-  ideas: ['Spark', 'Developing', 'Actionable'],
-};
-
 // Priority dot colors (zen aesthetic - muted tones)
 const PRIORITY_DOT_COLORS: Record<string, string> = {
   High: 'bg-red-400/80',
@@ -64,19 +55,27 @@ export function TaskCard({
   const [showCustomDate, setShowCustomDate] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [showDueDatePicker, setShowDueDatePicker] = useState(false);
+  const [showCustomRepeat, setShowCustomRepeat] = useState(false);
   const [swipeOffset, setSwipeOffset] = useState(0);
   const [localDueDate, setLocalDueDate] = useState(task.due_date || '');
+  const [localRecurrence, setLocalRecurrence] = useState(task.recurrence || '');
   const [localNotes, setLocalNotes] = useState(task.notes || '');
   const [localContext, setLocalContext] = useState(task.context || '');
   const [localNextAction, setLocalNextAction] = useState('');
+  const [localProgress, setLocalProgress] = useState(
+    task.subtasks_total ? { done: task.subtasks_done || 0, total: task.subtasks_total } : null
+  );
   const [localOneLiner, setLocalOneLiner] = useState('');
+  const [localTags, setLocalTags] = useState(task.tags || []);
   const startX = useRef(0);
   const currentX = useRef(0);
   const contextFetchedRef = useRef(false);
 
-  const currentCategory = DATABASE_TO_CATEGORY[database];
-  const statusOptions = STATUS_OPTIONS[database] || ['Todo', 'Done'];
-  const completedStatus = database === 'ideas' ? null : database === 'projects' ? 'Complete' : database === 'people' ? 'Dormant' : 'Done';
+  const categories = useCategories();
+  const definition = findCategoryInfo(categories, database);
+  const currentCategory = definition?.name;
+  const statusOptions = definition?.statuses || [];
+  const completedStatus = definition?.done_status ?? null;
   const isCompleted = completedStatus ? task.status === completedStatus : false;
 
   // Fetch context for People entries on mount (for display in list)
@@ -211,7 +210,7 @@ export function TaskCard({
     setIsLoading(false);
   };
 
-  const handleRecategorize = async (newCategory: Category) => {
+  const handleRecategorize = async (newCategory: string) => {
     if (newCategory === currentCategory) return;
     setIsLoading(true);
     setShowFloatingCard(false);
@@ -288,12 +287,34 @@ export function TaskCard({
     }
   };
 
+  const handleRecurrenceChange = async (rule: string) => {
+    setShowCustomRepeat(false);
+    const response = await fetch('/api/update', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        page_id: task.id,
+        database,
+        updates: { recurrence: rule },
+      }),
+    });
+    if (!response.ok) {
+      console.error('Failed to save repeat rule:', await response.text());
+      return;
+    }
+    setLocalRecurrence(rule ? normalizeRecurrence(rule) || '' : '');
+    if (onTaskUpdate) {
+      await onTaskUpdate();
+    }
+  };
+
   const closeFloatingCard = () => {
     setShowFloatingCard(false);
     setShowSnooze(false);
     setShowCustomDate(false);
     setShowDeleteConfirm(false);
     setShowDueDatePicker(false);
+    setShowCustomRepeat(false);
   };
 
   // Parse date string as local time (not UTC)
@@ -443,6 +464,21 @@ export function TaskCard({
                   </p>
                 )}
 
+                {/* Subtask progress for Project entries */}
+                {database === 'projects' && localProgress && localProgress.total > 0 && (
+                  <div className="mt-1.5 flex items-center gap-2">
+                    <div className="h-1 flex-1 max-w-[120px] overflow-hidden rounded-full bg-[var(--bg-elevated)]">
+                      <div
+                        className="h-full rounded-full bg-emerald-500/60 transition-all"
+                        style={{ width: `${Math.round((localProgress.done / localProgress.total) * 100)}%` }}
+                      />
+                    </div>
+                    <span className="text-[11px] text-[var(--text-muted)]/70">
+                      {localProgress.done}/{localProgress.total}
+                    </span>
+                  </div>
+                )}
+
                 {/* One-liner for Idea entries */}
                 {database === 'ideas' && localOneLiner && (
                   <p className="mt-0.5 text-[13px] text-[var(--text-secondary)] line-clamp-1">
@@ -451,7 +487,7 @@ export function TaskCard({
                 )}
 
                 {/* Subtle metadata row */}
-                <div className="mt-1 flex items-center gap-3">
+                <div className="mt-1 flex flex-wrap items-center gap-x-3">
                   {/* Due date - subtle styling */}
                   {effectiveDueDate && (
                     <span className={`text-xs ${isOverdue ? 'text-red-400/90 font-medium' : 'text-[var(--text-muted)]/70'}`}>
@@ -459,6 +495,23 @@ export function TaskCard({
                     </span>
                   )}
 
+                  {/* Repeat indicator */}
+                  {localRecurrence && (
+                    <span className="text-xs text-[var(--text-muted)]/70" title={describeRecurrence(localRecurrence)}>
+                      🔁
+                    </span>
+                  )}
+
+                  {/* Tags */}
+                  {localTags.slice(0, 3).map((tag) => (
+                    <span key={tag} className="text-xs text-[var(--accent-cyan)]/70">
+                      #{tag}
+                    </span>
+                  ))}
+                  {localTags.length > 3 && (
+                    <span className="text-xs text-[var(--text-muted)]/70">+{localTags.length - 3}</span>
+                  )}
+
                   {/* Notes indicator - subtle */}
                   {(localNotes || task.notes) && (
                     <svg className="h-3.5 w-3.5 text-[var(--text-muted)]/50" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
@@ -538,6 +591,33 @@ export function TaskCard({
           </div>
         )}
 
+        {/* Subtasks section — projects only */}
+        {database === 'projects' && showFloatingCard && (
+          <div className="mb-3">
+            <p className="mb-2 text-xs text-[var(--text-muted)]">
+              Subtasks{localProgress && localProgress.total > 0 && ` · ${localProgress.done}/${localProgress.total}`}
+            </p>
+            <SubtaskChecklist
+              entryId={task.id}
+              onChange={(result) => {
+                setLocalNextAction(result.next_action || '');
+                setLocalProgress(result.progress || null);
+                if (result.project_status && result.project_status !== task.status) {
+                  onTaskUpdate?.();
+                }
+              }}
+            />
+          </div>
+        )}
+
+        {/* Tags section */}
+        {showFloatingCard && (
+          <div className="mb-3">
+            <p className="mb-2 text-xs text-[var(--text-muted)]">Tags</p>
+            <TagEditor entryId={task.id} onChange={setLocalTags} />
+          </div>
+        )}
+
         {/* Due Date section (hidden for ideas — no date field) */}
         {database !== 'ideas' && <div className="mb-3">
           <p className="mb-2 text-xs text-[var(--text-muted)]">Due Date</p>
@@ -576,19 +656,67 @@ export function TaskCard({
           )}
         </div>}
 
+        {/* Repeat section (hidden for ideas — nothing to complete) */}
+        {database !== 'ideas' && <div className="mb-3">
+          <p className="mb-2 text-xs text-[var(--text-muted)]">
+            Repeat{localRecurrence && ` · ${describeRecurrence(localRecurrence)}`}
+          </p>
+          <div className="flex flex-wrap gap-1.5">
+            {REPEAT_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => handleRecurrenceChange(option.value)}
+                disabled={isLoading}
+                className={`rounded-lg px-2.5 py-1 text-xs font-medium transition-all ${
+                  localRecurrence === RECURRENCE_PRESETS[option.value]
+                    ? 'bg-[var(--accent-cyan)] text-[var(--bg-deep)]'
+                    : 'bg-[var(--bg-elevated)] text-[var(--text-secondary)] hover:bg-[var(--bg-surface)]'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+            <button
+              onClick={() => setShowCustomRepeat(!showCustomRepeat)}
+              className="rounded-lg bg-[var(--bg-elevated)] px-2.5 py-1 text-xs font-medium text-[var(--text-secondary)] hover:bg-[var(--bg-surface)] transition-all"
+            >
+              Custom
+            </button>
+            {localRecurrence && (
+              <button
+                onClick={() => handleRecurrenceChange('')}
+                className="px-1 text-xs text-red-400/70 hover:text-red-400 transition-colors"
+              >
+                Stop
+              </button>
+            )}
+          </div>
+          {showCustomRepeat && (
+            <input
+              type="text"
+              defaultValue={localRecurrence}
+              placeholder="FREQ=WEEKLY;BYDAY=MO,TH"
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleRecurrenceChange(e.currentTarget.value.trim());
+              }}
+              className="mt-2 w-full rounded-lg bg-[var(--bg-elevated)] px-3 py-2 font-mono text-xs text-[var(--text-primary)] border border-[var(--border-subtle)] focus:outline-none focus:border-[var(--accent-cyan)]"
+            />
+          )}
+        </div>}
+
         {/* Move to section */}
         <div className="mb-3">
           <p className="mb-2 text-xs text-[var(--text-muted)]">Move to</p>
           <div className="flex flex-wrap gap-1.5">
-            {CATEGORY_OPTIONS.filter(cat => cat.value !== currentCategory).map((cat) => (
+            {categories.filter(cat => cat.name !== currentCategory).map((cat) => (
               <button
-                key={cat.value}
-                onClick={() => handleRecategorize(cat.value)}
+                key={cat.name}
+                onClick={() => handleRecategorize(cat.name)}
                 disabled={isLoading}
                 className="flex items-center gap-1 rounded-lg bg-[var(--bg-elevated)] px-2.5 py-1 text-xs font-medium text-[var(--text-secondary)] hover:bg-[var(--bg-surface)] transition-all"
               >
                 <span>{cat.icon}</span>
-                <span>{cat.label}</span>
+                <span>{cat.name}</span>
               </button>
             ))}
           </div>
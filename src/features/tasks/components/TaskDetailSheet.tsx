@@ -1,7 +1,10 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import type { Entry, Category } from '@/lib/types';
+import type { Entry } from '@/lib/types';
+import { useCategories, findCategoryInfo } from '@/shared/hooks/useCategories';
+import { RevisionHistory } from './RevisionHistory';
+import { AttachmentList } from './AttachmentList';
 
 interface TaskDetailSheetProps {
   task: Entry | null;
@@ -11,33 +14,11 @@ interface TaskDetailSheetProps {
   onStatusChange: (taskId: string, newStatus: string) => Promise<void>;
   onComplete: (taskId: string) => Promise<void>;
   onSnooze: (taskId: string, date: Date) => Promise<void>;
-  onRecategorize: (taskId: string, newCategory: Category) => Promise<void>;
+  onRecategorize: (taskId: string, newCategory: string) => Promise<void>;
   onDelete: (taskId: string) => Promise<void>;
+  onRestored?: (taskId: string) => void;
 }
 
-const CATEGORY_OPTIONS: { value: Category; label: string; icon: string }[] = [
-  { value: 'People', label: 'People', icon: '👤' },
-  { value: 'Project', label: 'Project', icon: '🚀' },
-  { value: 'Idea', label: 'Idea', icon: '💡' },
-  { value: 'Admin', label: 'Admin', icon: '📋' },
-  { value: 'Reading', label: 'Reading', icon: '📖' },
-];
-
-const DATABASE_TO_CATEGORY: Record<string, Category> = {
-  admin: 'Admin',
-  projects: 'Project',
-  people: 'People',
-  ideas: 'Idea',
-  reading: 'Reading',
-};
-
-const STATUS_OPTIONS: Record<string, string[]> = {
-  admin: ['Todo', 'Done'],
-  projects: ['Not Started', 'Active', 'Waiting', 'Complete'],
-  people: ['New', 'Active', 'Dormant'],
-  reading: ['Unread', 'Read'],
-};
-
 const PRIORITY_COLORS: Record<string, string> = {
   High: 'text-red-400',
   Medium: 'text-yellow-400',
@@ -54,16 +35,20 @@ export function TaskDetailSheet({
   onSnooze,
   onRecategorize,
   onDelete,
+  onRestored,
 }: TaskDetailSheetProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [showSnoozeOptions, setShowSnoozeOptions] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
   const [isVisible, setIsVisible] = useState(false);
   const [isAnimating, setIsAnimating] = useState(false);
 
-  const currentCategory = DATABASE_TO_CATEGORY[database];
-  const statusOptions = STATUS_OPTIONS[database] || ['Todo', 'Done'];
-  const completedStatus = database === 'projects' ? 'Complete' : database === 'people' ? 'Dormant' : database === 'reading' ? 'Read' : 'Done';
+  const categories = useCategories();
+  const definition = findCategoryInfo(categories, database);
+  const currentCategory = definition?.name;
+  const statusOptions = definition?.statuses || [];
+  const completedStatus = definition?.done_status ?? null;
 
   // Handle open/close animation
   useEffect(() => {
@@ -120,7 +105,7 @@ export function TaskDetailSheet({
     return dueDate < today;
   })();
 
-  const isCompleted = task.status === completedStatus;
+  const isCompleted = completedStatus ? task.status === completedStatus : false;
 
   const formatDate = (dateStr?: string) => {
     if (!dateStr) return null;
@@ -156,7 +141,7 @@ export function TaskDetailSheet({
     onClose();
   };
 
-  const handleRecategorize = async (newCategory: Category) => {
+  const handleRecategorize = async (newCategory: string) => {
     if (newCategory === currentCategory) return;
     setIsLoading(true);
     await onRecategorize(task.id, newCategory);
@@ -240,6 +225,11 @@ export function TaskDetailSheet({
             ))}
           </div>
 
+          {/* Attachments */}
+          <div className="mt-4">
+            <AttachmentList entryId={task.id} />
+          </div>
+
           {/* Divider */}
           <div className="mt-4 border-t border-gray-700" />
 
@@ -247,14 +237,14 @@ export function TaskDetailSheet({
           <div className="mt-4">
             <p className="text-xs text-gray-500 mb-2">Move to</p>
             <div className="flex flex-wrap gap-2">
-              {CATEGORY_OPTIONS.filter(c => c.value !== currentCategory).map((c) => (
+              {categories.filter(c => c.name !== currentCategory).map((c) => (
                 <button
-                  key={c.value}
-                  onClick={() => handleRecategorize(c.value)}
+                  key={c.name}
+                  onClick={() => handleRecategorize(c.name)}
                   className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-gray-800 text-gray-300 text-sm hover:bg-gray-700 transition-colors"
                 >
                   <span>{c.icon}</span>
-                  <span>{c.label}</span>
+                  <span>{c.name}</span>
                 </button>
               ))}
             </div>
@@ -283,6 +273,17 @@ export function TaskDetailSheet({
               <span className="text-sm">Done</span>
             </button>
 
+            <button
+              onClick={() => setShowHistory(!showHistory)}
+              className="flex-1 flex items-center justify-center gap-2 px-3 py-2.5 rounded-xl bg-gray-800 text-gray-300 hover:bg-gray-700 transition-colors"
+            >
+              <svg className="h-4 w-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <path d="M3 12a9 9 0 1 0 3-6.7L3 8" strokeLinecap="round" strokeLinejoin="round"/>
+                <path d="M3 3v5h5M12 7v5l3 3" strokeLinecap="round" strokeLinejoin="round"/>
+              </svg>
+              <span className="text-sm">History</span>
+            </button>
+
             <button
               onClick={() => setShowDeleteConfirm(!showDeleteConfirm)}
               className="flex-1 flex items-center justify-center gap-2 px-3 py-2.5 rounded-xl bg-gray-800 text-gray-300 hover:bg-red-900/30 hover:text-red-400 transition-colors"
@@ -309,6 +310,20 @@ export function TaskDetailSheet({
             </div>
           )}
 
+          {/* Revision History */}
+          {showHistory && (
+            <div className="mt-3">
+              <RevisionHistory
+                entryId={task.id}
+                onRestored={() => {
+                  setShowHistory(false);
+                  onRestored?.(task.id);
+                  onClose();
+                }}
+              />
+            </div>
+          )}
+
           {/* Delete Confirmation */}
           {showDeleteConfirm && (
             <div className="mt-3 p-3 rounded-xl bg-red-900/20 border border-red-900/50">
@@ -3,37 +3,24 @@
 import { useState, useEffect, useCallback, useMemo } from 'react';
 import { TaskCard } from './TaskCard';
 import { PullToRefresh } from './PullToRefresh';
+import { BulkActionBar } from './BulkActionBar';
 import { TaskListSkeleton } from '@/shared/components/Skeleton';
-import { fetchEntries, markDone, snoozeEntry, updateEntry, recategorize, deleteEntry } from '@/lib/api';
+import { fetchEntryPage, markDone, snoozeEntry, updateEntry, recategorize, deleteEntry } from '@/lib/api';
 import { useToast } from '@/shared/components/Toast';
-import type { Entry, Category } from '@/lib/types';
-
-// Map database names to Category type
-const DATABASE_TO_CATEGORY: Record<string, Category> = {
-  admin: 'Admin',
-  projects: 'Project',
-  people: 'People',
-  ideas: 'Idea',
-};
+import { useCategories, findCategoryInfo } from '@/shared/hooks/useCategories';
+import type { Entry, EntryPage } from '@/lib/types';
 
-type TabType = 'admin' | 'projects' | 'people' | 'ideas';
-
-// Zen tabs - no emoji, clean labels
-const TABS: { id: TabType; label: string; activeStatus: string }[] = [
-  { id: 'admin', label: 'Tasks', activeStatus: 'Todo' },
-  { id: 'projects', label: 'Projects', activeStatus: 'Active' },
-  { id: 'people', label: 'People', activeStatus: 'Active' },
-  { id: 'ideas', label: 'Ideas', activeStatus: 'Spark' },
-];
-
-// Zen tab colors - muted, calm
-const TAB_COLORS: Record<TabType, string> = {
-  admin: 'bg-[var(--text-primary)]',
-  projects: 'bg-[var(--text-primary)]',
-  people: 'bg-[var(--text-primary)]',
-  ideas: 'bg-[var(--text-primary)]',
+// Zen tabs - one per category, keyed by lower-cased stored name; no emoji, clean labels
+const TAB_LABELS: Record<string, string> = {
+  admin: 'Tasks',
 };
 
+// Active tasks are grouped client-side, so they load in large pages
+const ACTIVE_PAGE_SIZE = 100;
+const COMPLETED_PAGE_SIZE = 20;
+
+const EMPTY_PAGE: EntryPage = { items: [], total: 0, nextCursor: null };
+
 // Priority order for sorting
 const PRIORITY_ORDER: Record<string, number> = {
   'High': 0,
@@ -242,18 +229,38 @@ function groupIdeasTasks(tasks: Entry[]): GroupedTasks {
 }
 
 export function TaskList() {
-  const [activeTab, setActiveTab] = useState<TabType>('admin');
+  const [activeTab, setActiveTab] = useState('admin');
   const [tasks, setTasks] = useState<Entry[]>([]);
+  const [tasksCursor, setTasksCursor] = useState<string | null>(null);
+  const [completedTasks, setCompletedTasks] = useState<Entry[]>([]);
+  const [completedTotal, setCompletedTotal] = useState(0);
+  const [completedCursor, setCompletedCursor] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [showCompleted, setShowCompleted] = useState(false);
   const [collapsedSections, setCollapsedSections] = useState<Set<Section>>(
     new Set(['this_week', 'upcoming', 'backlog'])
   );
   const [fullyExpandedSections, setFullyExpandedSections] = useState<Set<Section>>(new Set());
-  const { showError } = useToast();
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const { showSuccess, showError } = useToast();
+  const categories = useCategories();
+  const tabs = categories.map((c) => {
+    const id = c.db_name.toLowerCase();
+    return { id, label: TAB_LABELS[id] || c.db_name };
+  });
 
   const SECTION_ITEM_LIMIT = 5;
 
+  // Open statuses are fetched as the active list and the done status as the completed list
+  const definition = findCategoryInfo(categories, activeTab);
+  const completedStatus = definition?.done_status ?? null;
+  const openStatusKey = (definition?.statuses || [])
+    .filter((status) => status !== completedStatus)
+    .join('|');
+  const openStatuses = completedStatus ? openStatusKey.split('|') : undefined; // Ideas: every status is open
+
   const toggleSection = (key: Section) => {
     setCollapsedSections(prev => {
       const next = new Set(prev);
@@ -269,21 +276,47 @@ export function TaskList() {
   const loadTasks = useCallback(async (showLoadingState = true) => {
     if (showLoadingState) setIsLoading(true);
     try {
-      if (activeTab === 'ideas') {
-        // Fetch ideas from our own API route (returns maturity in status field)
-        const response = await fetch('/api/ideas');
-        const data = await response.json();
-        setTasks(data.items || []);
-      } else {
-        const data = await fetchEntries(activeTab);
-        setTasks(data);
-      }
+      const [open, done] = await Promise.all([
+        fetchEntryPage({
+          database: [activeTab],
+          status: completedStatus ? openStatusKey.split('|') : undefined, // Rebuilt from the key so loadTasks stays stable
+          limit: ACTIVE_PAGE_SIZE,
+        }),
+        completedStatus
+          ? fetchEntryPage({ database: [activeTab], status: [completedStatus], limit: COMPLETED_PAGE_SIZE })
+          : Promise.resolve(EMPTY_PAGE),
+      ]);
+      setTasks(open.items);
+      setTasksCursor(open.nextCursor);
+      setCompletedTasks(done.items);
+      setCompletedTotal(done.total);
+      setCompletedCursor(done.nextCursor);
     } catch (error) {
       console.error('Failed to load tasks:', error);
     } finally {
       if (showLoadingState) setIsLoading(false);
     }
-  }, [activeTab]);
+  }, [activeTab, completedStatus, openStatusKey]);
+
+  const loadMore = async () => {
+    const cursor = showCompleted ? completedCursor : tasksCursor;
+    if (!cursor) return;
+    setIsLoadingMore(true);
+    const page = await fetchEntryPage({
+      database: [activeTab],
+      status: showCompleted && completedStatus ? [completedStatus] : openStatuses,
+      limit: showCompleted ? COMPLETED_PAGE_SIZE : ACTIVE_PAGE_SIZE,
+      cursor,
+    });
+    if (showCompleted) {
+      setCompletedTasks((prev) => [...prev, ...page.items]);
+      setCompletedCursor(page.nextCursor);
+    } else {
+      setTasks((prev) => [...prev, ...page.items]);
+      setTasksCursor(page.nextCursor);
+    }
+    setIsLoadingMore(false);
+  };
 
   const handleRefresh = useCallback(async () => {
     await loadTasks(false);
@@ -311,10 +344,13 @@ export function TaskList() {
   };
 
   const handleComplete = async (taskId: string) => {
-    if (activeTab === 'ideas') {
-      await deleteEntry(taskId); // Ideas don't have "done" — archive instead
+    if (!completedStatus) {
+      await deleteEntry(taskId); // No "done" state (Ideas) — archive instead
     } else {
-      await markDone(taskId, activeTab);
+      const result = await markDone(taskId, activeTab, definition?.done_status);
+      if (result.next_occurrence?.due_date) {
+        showSuccess(`Repeats — next due ${result.next_occurrence.due_date}`);
+      }
     }
     await loadTasks();
   };
@@ -324,15 +360,36 @@ export function TaskList() {
     await loadTasks();
   };
 
-  const handleRecategorize = async (taskId: string, newCategory: Category) => {
+  const handleRecategorize = async (taskId: string, newCategory: string) => {
     const task = tasks.find((t) => t.id === taskId);
-    if (!task) return;
+    if (!task || !definition) return;
 
-    const currentCategory = DATABASE_TO_CATEGORY[activeTab];
-    await recategorize(taskId, currentCategory, newCategory, task.title);
+    await recategorize(taskId, definition.name, newCategory, task.title);
     await loadTasks();
   };
 
+  const toggleSelected = (taskId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(taskId)) {
+        next.delete(taskId);
+      } else {
+        next.add(taskId);
+      }
+      return next;
+    });
+  };
+
+  const stopSelecting = () => {
+    setIsSelecting(false);
+    setSelectedIds(new Set());
+  };
+
+  const handleBulkApplied = async () => {
+    setSelectedIds(new Set());
+    await loadTasks(false);
+  };
+
   const handleDelete = async (taskId: string) => {
     try {
       const result = await deleteEntry(taskId);
@@ -346,10 +403,8 @@ export function TaskList() {
     }
   };
 
-  // Filter tasks by completion status (ideas have no completed state)
-  const completedStatus = activeTab === 'ideas' ? null : activeTab === 'projects' ? 'Complete' : activeTab === 'people' ? 'Dormant' : 'Done';
-  const activeTasks = completedStatus ? tasks.filter((t) => t.status !== completedStatus) : tasks;
-  const completedTasks = completedStatus ? tasks.filter((t) => t.status === completedStatus) : [];
+  // Active and completed tasks are fetched separately (ideas have no completed state)
+  const activeTasks = tasks;
 
   // Group active tasks by urgency/priority
   const groupedTasks = useMemo(() => {
@@ -386,18 +441,70 @@ export function TaskList() {
     return groupedTasks.overdue.length + groupedTasks.today.length;
   }, [groupedTasks]);
 
+  // In select mode a tap toggles the card instead of opening it
+  const renderTask = (task: Entry) => {
+    const card = (
+      <TaskCard
+        key={task.id}
+        task={task}
+        database={activeTab}
+        onStatusChange={handleStatusChange}
+        onComplete={handleComplete}
+        onSnooze={handleSnooze}
+        onRecategorize={handleRecategorize}
+        onDelete={handleDelete}
+      />
+    );
+    if (!isSelecting) return card;
+
+    const isSelected = selectedIds.has(task.id);
+    return (
+      <div
+        key={task.id}
+        role="checkbox"
+        aria-checked={isSelected}
+        tabIndex={0}
+        onClick={() => toggleSelected(task.id)}
+        onKeyDown={(e) => {
+          if (e.key === ' ' || e.key === 'Enter') {
+            e.preventDefault();
+            toggleSelected(task.id);
+          }
+        }}
+        className="flex cursor-pointer items-center gap-3"
+      >
+        <span
+          className={`flex h-5 w-5 shrink-0 items-center justify-center rounded-md border transition-colors ${
+            isSelected
+              ? 'border-[var(--text-primary)] bg-[var(--text-primary)] text-[var(--bg-deep)]'
+              : 'border-[var(--border-subtle)]'
+          }`}
+        >
+          {isSelected && (
+            <svg className="h-3 w-3" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3">
+              <path d="M5 13l4 4L19 7" strokeLinecap="round" strokeLinejoin="round" />
+            </svg>
+          )}
+        </span>
+        <div className={`min-w-0 flex-1 pointer-events-none ${isSelected ? '' : 'opacity-70'}`}>{card}</div>
+      </div>
+    );
+  };
+
   return (
     <PullToRefresh onRefresh={handleRefresh}>
       <div className="space-y-6">
         {/* Tab navigation - zen styling */}
       <div className="flex gap-1 overflow-x-auto pb-2">
-        {TABS.map((tab) => {
+        {tabs.map((tab) => {
           const isActive = activeTab === tab.id;
-          const tabActiveTasks = tasks.filter((t) => t.status !== completedStatus);
           return (
             <button
               key={tab.id}
-              onClick={() => setActiveTab(tab.id)}
+              onClick={() => {
+                setActiveTab(tab.id);
+                setSelectedIds(new Set());
+              }}
               className={`flex items-center gap-2 whitespace-nowrap rounded-lg px-4 py-2 text-sm font-medium transition-all ${
                 isActive
                   ? 'text-[var(--text-primary)]'
@@ -418,9 +525,17 @@ export function TaskList() {
       {/* Active tab indicator */}
       <div className="h-px bg-gradient-to-r from-transparent via-[var(--border-subtle)] to-transparent mb-4" />
 
-      {/* Toggle completed - subtle (hidden for Ideas tab, no completed state) */}
-      {activeTab !== 'ideas' && (
-      <div className="flex items-center justify-end">
+      {/* Select mode and completed toggle - subtle (no completed state for Ideas) */}
+      <div className="flex items-center justify-end gap-4">
+        {!isLoading && displayTasks.length > 0 && (
+          <button
+            onClick={() => (isSelecting ? stopSelecting() : setIsSelecting(true))}
+            className="text-xs text-[var(--text-muted)]/60 transition-colors hover:text-[var(--text-muted)]"
+          >
+            {isSelecting ? 'Done' : 'Select'}
+          </button>
+        )}
+        {completedStatus && (
         <button
           onClick={() => setShowCompleted(!showCompleted)}
           className="flex items-center gap-1.5 text-xs text-[var(--text-muted)]/60 transition-colors hover:text-[var(--text-muted)]"
@@ -432,17 +547,17 @@ export function TaskList() {
               </svg>
               Show Active
             </>
-          ) : completedTasks.length > 0 ? (
+          ) : completedTotal > 0 ? (
             <>
               <svg className="h-3.5 w-3.5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
                 <path d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" strokeLinecap="round" />
               </svg>
-              Completed · {completedTasks.length}
+              Completed · {completedTotal}
             </>
           ) : null}
         </button>
+        )}
       </div>
-      )}
 
       {/* Task list */}
       {isLoading ? (
@@ -456,18 +571,7 @@ export function TaskList() {
       ) : showCompleted ? (
         // Completed tasks - flat list
         <div className="space-y-2">
-          {completedTasks.map((task) => (
-            <TaskCard
-              key={task.id}
-              task={task}
-              database={activeTab}
-              onStatusChange={handleStatusChange}
-              onComplete={handleComplete}
-              onSnooze={handleSnooze}
-              onRecategorize={handleRecategorize}
-              onDelete={handleDelete}
-            />
-          ))}
+          {completedTasks.map(renderTask)}
         </div>
       ) : groupedTasks ? (
         // Active tasks - grouped by urgency
@@ -514,18 +618,7 @@ export function TaskList() {
                 >
                   <div className="overflow-hidden">
                     <div className="space-y-2">
-                      {visibleTasks.map((task) => (
-                        <TaskCard
-                          key={task.id}
-                          task={task}
-                          database={activeTab}
-                          onStatusChange={handleStatusChange}
-                          onComplete={handleComplete}
-                          onSnooze={handleSnooze}
-                          onRecategorize={handleRecategorize}
-                          onDelete={handleDelete}
-                        />
-                      ))}
+                      {visibleTasks.map(renderTask)}
 
                       {/* Show more button */}
                       {hiddenCount > 0 && (
@@ -546,27 +639,35 @@ export function TaskList() {
       ) : (
         // Fallback flat list
         <div className="space-y-2">
-          {displayTasks.map((task) => (
-            <TaskCard
-              key={task.id}
-              task={task}
-              database={activeTab}
-              onStatusChange={handleStatusChange}
-              onComplete={handleComplete}
-              onSnooze={handleSnooze}
-              onRecategorize={handleRecategorize}
-              onDelete={handleDelete}
-            />
-          ))}
+          {displayTasks.map(renderTask)}
         </div>
       )}
 
+        {!isLoading && (showCompleted ? completedCursor : tasksCursor) && (
+          <button
+            onClick={loadMore}
+            disabled={isLoadingMore}
+            className="w-full py-2.5 text-center text-xs text-[var(--text-muted)]/60 hover:text-[var(--text-muted)] transition-colors disabled:opacity-50"
+          >
+            {isLoadingMore ? 'Loading...' : 'Load more'}
+          </button>
+        )}
+
         {/* Swipe hint - very subtle */}
-        {!showCompleted && activeTasks.length > 0 && (
+        {!showCompleted && !isSelecting && activeTasks.length > 0 && (
           <p className="text-center text-[11px] text-[var(--text-muted)]/40 pt-4">
             Swipe right to complete · Tap to expand
           </p>
         )}
+
+        {isSelecting && selectedIds.size > 0 && (
+          <BulkActionBar
+            selectedIds={[...selectedIds]}
+            categories={definition ? [definition.name] : []}
+            onApplied={handleBulkApplied}
+            onCancel={stopSelecting}
+          />
+        )}
       </div>
     </PullToRefresh>
   );
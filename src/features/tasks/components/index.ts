@@ -4,4 +4,9 @@ export * from './TaskList';
 export * from './TaskDetailSheet';
 export * from './FloatingCard';
 export * from './NotesEditor';
+export * from './RevisionHistory';
+export * from './AttachmentList';
+export * from './SubtaskChecklist';
+export * from './TagEditor';
 export * from './PullToRefresh';
+export * from './BulkActionBar';
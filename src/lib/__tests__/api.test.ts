@@ -4,6 +4,7 @@ import {
   recategorize,
   updateEntry,
   fetchEntries,
+  fetchEntryPage,
   markDone,
   snoozeEntry,
   searchEntries,
@@ -13,6 +14,8 @@ import {
   fetchDigest,
   isUrl,
   extractUrl,
+  fetchEntryHistory,
+  restoreEntryRevision,
 } from '../api';
 
 // Mock global.fetch before each test
@@ -165,6 +168,25 @@ describe('fetchEntries', () => {
   });
 });
 
+describe('fetchEntryPage', () => {
+  it('joins list filters and returns the page with its cursor', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ items: [{ id: '1', title: 'Task 1', status: 'Todo' }], total: 12, nextCursor: 'abc' }),
+    } as Response);
+
+    const page = await fetchEntryPage({ database: ['admin', 'projects'], status: [], has_relation: true, limit: 1 });
+    expect(page).toEqual({ items: [{ id: '1', title: 'Task 1', status: 'Todo' }], total: 12, nextCursor: 'abc' });
+    expect(mockFetch.mock.calls[0][0]).toBe('/api/entries?database=admin%2Cprojects&has_relation=true&limit=1');
+  });
+
+  it('returns an empty page on error', async () => {
+    mockFetch.mockRejectedValueOnce(new Error('offline'));
+
+    expect(await fetchEntryPage()).toEqual({ items: [], total: 0, nextCursor: null });
+  });
+});
+
 // ---------------------------------------------------------------------------
 // 5. markDone
 // ---------------------------------------------------------------------------
@@ -201,6 +223,17 @@ describe('markDone', () => {
     const body = JSON.parse(mockFetch.mock.calls[0][1]!.body as string);
     expect(body.updates.status).toBe('Done');
   });
+
+  it('sends the done status configured for the category when given', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ status: 'updated', page_id: 'p4' }),
+    } as Response);
+
+    await markDone('p4', 'chores', 'Finished');
+    const body = JSON.parse(mockFetch.mock.calls[0][1]!.body as string);
+    expect(body.updates.status).toBe('Finished');
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -420,3 +453,61 @@ describe('extractUrl', () => {
     expect(extractUrl('no links here')).toBeNull();
   });
 });
+
+// ---------------------------------------------------------------------------
+// 14. fetchEntryHistory
+// ---------------------------------------------------------------------------
+describe('fetchEntryHistory', () => {
+  it('returns revisions on success', async () => {
+    const revisions = [{ id: 'rev-1', action: 'updated', changed_fields: ['notes'] }];
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ status: 'success', revisions }),
+    } as Response);
+
+    const result = await fetchEntryHistory('entry-1');
+    expect(result.status).toBe('success');
+    expect(result.revisions).toEqual(revisions);
+    expect(mockFetch).toHaveBeenCalledWith('/api/entry/entry-1/history', expect.objectContaining({ method: 'GET' }));
+  });
+
+  it('returns error on HTTP failure', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 404 } as Response);
+
+    const result = await fetchEntryHistory('missing');
+    expect(result.status).toBe('error');
+    expect(result.error).toContain('404');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 15. restoreEntryRevision
+// ---------------------------------------------------------------------------
+describe('restoreEntryRevision', () => {
+  it('posts the revision id and returns restored status', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ status: 'restored', page_id: 'entry-1' }),
+    } as Response);
+
+    const result = await restoreEntryRevision('entry-1', 'rev-1');
+    expect(result.status).toBe('restored');
+    expect(mockFetch).toHaveBeenCalledWith('/api/entry/entry-1/history', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ revision_id: 'rev-1' }),
+    });
+  });
+
+  it('returns error from API response', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      status: 404,
+      json: async () => ({ status: 'error', error: 'Revision not found' }),
+    } as Response);
+
+    const result = await restoreEntryRevision('entry-1', 'rev-x');
+    expect(result.status).toBe('error');
+    expect(result.error).toBe('Revision not found');
+  });
+});
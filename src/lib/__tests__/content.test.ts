@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { contentKeys, validateContent, refitContent, toContentKey, toContent, normalizeContent } from '../content';
+import { BUILTIN_CATEGORIES, findCategory, type CategoryDefinition } from '@/config/categories';
+
+const PROJECT = findCategory(BUILTIN_CATEGORIES, 'Project')!;
+const READING = findCategory(BUILTIN_CATEGORIES, 'Reading')!;
+
+const RECIPE: CategoryDefinition = {
+  name: 'Recipe',
+  dbName: 'Recipes',
+  description: 'recipes, dishes to cook',
+  statuses: ['To Try', 'Cooked'],
+  defaultStatus: 'To Try',
+  doneStatus: 'Cooked',
+  icon: '🍲',
+  gradient: 'from-rose-500 to-red-500',
+  titleField: 'title',
+  fields: [{ key: 'ingredients', contentKey: 'ingredientList', description: 'Ingredient list' }],
+  defaultContent: { cuisine: 'Any' },
+  defaultPriority: null,
+  sortOrder: 5,
+};
+
+describe('contentKeys', () => {
+  it('lists the built-in keys for a built-in category', () => {
+    expect(contentKeys(PROJECT)).toEqual(['notes', 'nextAction', 'area', 'subtasks']);
+  });
+
+  it('adds the fields and defaults of a user-defined category to notes', () => {
+    expect(contentKeys(RECIPE)).toEqual(['notes', 'ingredientList', 'cuisine']);
+  });
+});
+
+describe('validateContent', () => {
+  it('accepts sparse content', () => {
+    expect(validateContent(PROJECT, { nextAction: 'Buy domain' })).toEqual({ success: true, data: { nextAction: 'Buy domain' } });
+  });
+
+  it('rejects keys the category does not have', () => {
+    const result = validateContent(PROJECT, { rawInsight: 'x' });
+    expect(result.success).toBe(false);
+    if (!result.success) expect(result.error).toContain('Invalid Project content');
+  });
+
+  it('rejects wrong types with the offending key', () => {
+    const result = validateContent(PROJECT, { subtasks: [{ id: 'a', text: 'Write copy', done: 'no' }] });
+    expect(result).toEqual({ success: false, error: expect.stringContaining('subtasks.0.done') });
+  });
+
+  it('accepts a structured summary on Reading entries', () => {
+    expect(validateContent(READING, { structuredSummary: { tldr: 'Short' } }).success).toBe(true);
+  });
+});
+
+describe('refitContent', () => {
+  it('keeps accepted keys and folds other text into notes', () => {
+    const content = { notes: 'Met at the meetup', nextAction: 'Draft outline', subtasks: [{ id: 's1', text: 'Call', done: false }] };
+
+    expect(refitContent(READING, content)).toEqual({ notes: 'Met at the meetup\n\nnextAction: Draft outline' });
+    expect(refitContent(PROJECT, content)).toEqual(content);
+  });
+});
+
+describe('toContentKey', () => {
+  it('maps API field names to stored keys', () => {
+    expect(toContentKey(PROJECT, 'next_action')).toBe('nextAction');
+    expect(toContentKey(RECIPE, 'ingredients')).toBe('ingredientList');
+  });
+
+  it('returns undefined for fields of other categories', () => {
+    expect(toContentKey(PROJECT, 'raw_insight')).toBeUndefined();
+  });
+});
+
+describe('toContent', () => {
+  it('maps and checks a set of API fields', () => {
+    expect(toContent(PROJECT, { next_action: 'Call Sam', notes: 'Re: pricing' })).toEqual({
+      success: true,
+      data: { nextAction: 'Call Sam', notes: 'Re: pricing' },
+    });
+  });
+
+  it('names the first unknown field', () => {
+    expect(toContent(PROJECT, { one_liner: 'x' })).toEqual({ success: false, error: 'Project has no field "one_liner"' });
+  });
+});
+
+describe('normalizeContent', () => {
+  it('renames API-style keys, converts numbers and drops nulls', () => {
+    const result = normalizeContent(READING, { one_liner: 'Worth it', source: 'https://x.dev', structuredSummary: null, notes: 42 });
+
+    expect(result.error).toBeUndefined();
+    expect(result.content).toEqual({ oneLiner: 'Worth it', source: 'https://x.dev', notes: '42' });
+    expect(result.changes).toEqual(['renamed one_liner → oneLiner', 'dropped empty structuredSummary', 'converted notes to text']);
+  });
+
+  it('leaves content that already fits untouched', () => {
+    expect(normalizeContent(PROJECT, { nextAction: 'Ship' })).toEqual({ content: { nextAction: 'Ship' }, changes: [] });
+  });
+
+  it('reports keys that do not fit instead of dropping them', () => {
+    const result = normalizeContent(PROJECT, { nextAction: 'Ship', next_action: 'Ship it', mood: 'great' });
+
+    expect(result.error).toContain('Invalid Project content');
+    expect(result.content).toEqual({ nextAction: 'Ship', next_action: 'Ship it', mood: 'great' });
+  });
+});
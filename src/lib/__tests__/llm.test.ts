@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const { constructed } = vi.hoisted(() => ({ constructed: vi.fn() }));
+
+vi.mock('openai', () => ({
+  default: class MockOpenAI {
+    constructor(options: unknown) {
+      constructed(options);
+    }
+  },
+}));
+
+import { providerConfig, isLLMConfigured, getLLM } from '../llm';
+
+const LLM_VARS = [
+  'OPENAI_API_KEY', 'LLM_API_KEY', 'LLM_BASE_URL', 'EMBEDDING_MODEL', 'RESEARCH_AGENT_MODEL',
+  'LLM_CLASSIFICATION_MODEL', 'LLM_CLASSIFICATION_BASE_URL', 'LLM_CLASSIFICATION_API_KEY',
+  'LLM_EMBEDDING_MODEL', 'LLM_RESEARCH_MODEL',
+];
+
+describe('llm providers', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    for (const name of LLM_VARS) vi.stubEnv(name, undefined);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe('providerConfig', () => {
+    it('uses OpenAI defaults with the shared key', () => {
+      vi.stubEnv('OPENAI_API_KEY', 'sk-test');
+
+      expect(providerConfig('classification')).toEqual({ model: 'gpt-4o-mini', baseURL: undefined, apiKey: 'sk-test' });
+      expect(providerConfig('research').model).toBe('gpt-4o');
+      expect(providerConfig('transcription').model).toBe('whisper-1');
+      expect(providerConfig('embedding').model).toBe('text-embedding-3-small');
+    });
+
+    it('prefers task settings over shared ones', () => {
+      vi.stubEnv('OPENAI_API_KEY', 'sk-test');
+      vi.stubEnv('LLM_BASE_URL', 'https://gateway.example.com/v1');
+      vi.stubEnv('LLM_CLASSIFICATION_MODEL', 'llama3.1:8b');
+      vi.stubEnv('LLM_CLASSIFICATION_BASE_URL', 'http://localhost:11434/v1');
+      vi.stubEnv('LLM_CLASSIFICATION_API_KEY', 'ollama');
+
+      expect(providerConfig('classification')).toEqual({
+        model: 'llama3.1:8b',
+        baseURL: 'http://localhost:11434/v1',
+        apiKey: 'ollama',
+      });
+      expect(providerConfig('summarization')).toEqual({
+        model: 'gpt-4o-mini',
+        baseURL: 'https://gateway.example.com/v1',
+        apiKey: 'sk-test',
+      });
+    });
+
+    it('still honours the older single-purpose model variables', () => {
+      vi.stubEnv('RESEARCH_AGENT_MODEL', 'o3-mini');
+      vi.stubEnv('EMBEDDING_MODEL', 'text-embedding-3-large');
+      vi.stubEnv('LLM_EMBEDDING_MODEL', 'nomic-embed-text');
+
+      expect(providerConfig('research').model).toBe('o3-mini');
+      expect(providerConfig('embedding').model).toBe('nomic-embed-text');
+    });
+  });
+
+  describe('getLLM', () => {
+    it('counts a custom endpoint without a key as configured', () => {
+      expect(isLLMConfigured('chat')).toBe(false);
+      expect(() => getLLM('chat')).toThrow('No LLM configured for chat');
+
+      vi.stubEnv('LLM_BASE_URL', 'http://localhost:11434/v1');
+      expect(isLLMConfigured('chat')).toBe(true);
+      expect(getLLM('chat').model).toBe('gpt-4o-mini');
+      expect(constructed).toHaveBeenCalledWith({ apiKey: 'not-needed', baseURL: 'http://localhost:11434/v1' });
+    });
+
+    it('shares one client between tasks on the same endpoint and key', () => {
+      vi.stubEnv('OPENAI_API_KEY', 'sk-shared');
+      vi.stubEnv('LLM_CLASSIFICATION_BASE_URL', 'http://localhost:11434/v1');
+
+      const chat = getLLM('chat');
+      const summarization = getLLM('summarization');
+      const classification = getLLM('classification');
+
+      expect(summarization.client).toBe(chat.client);
+      expect(classification.client).not.toBe(chat.client);
+      expect(constructed).toHaveBeenCalledTimes(2);
+    });
+  });
+});
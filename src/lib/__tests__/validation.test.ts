@@ -5,11 +5,20 @@ import {
   updateSchema,
   deleteSchema,
   searchSchema,
+  entriesQuerySchema,
   recategorizeSchema,
   agentSchema,
   saveResearchSchema,
   processUrlSchema,
   saveReadingSchema,
+  trashRetentionSchema,
+  inboxResolveSchema,
+  reviewThresholdSchema,
+  buildRecategorizeSchema,
+  categorySchema,
+  addSubtaskSchema,
+  updateSubtaskSchema,
+  bulkActionSchema,
 } from '../validation';
 
 describe('captureSchema', () => {
@@ -103,6 +112,26 @@ describe('searchSchema', () => {
   });
 });
 
+describe('entriesQuerySchema', () => {
+  it('fills defaults and coerces the limit', () => {
+    const result = validate(entriesQuerySchema, { database: ['admin'], limit: '20' });
+    expect(result).toEqual({
+      success: true,
+      data: expect.objectContaining({ database: ['admin'], status: [], sort: 'created_at', order: 'desc', limit: 20 }),
+    });
+  });
+
+  it('rejects unknown sources and limits over 100', () => {
+    expect(validate(entriesQuerySchema, { source: ['fax'] })).toEqual({ success: false, error: 'Unknown source' });
+    expect(validate(entriesQuerySchema, { limit: '500' }).success).toBe(false);
+  });
+
+  it('rejects dates that do not parse', () => {
+    expect(validate(entriesQuerySchema, { due_before: '2026-02-30T99:00' }).success).toBe(false);
+    expect(validate(entriesQuerySchema, { created_after: '2026-02-01T08:00:00.000Z' }).success).toBe(true);
+  });
+});
+
 describe('recategorizeSchema', () => {
   it('accepts valid recategorize', () => {
     const result = validate(recategorizeSchema, {
@@ -207,6 +236,14 @@ describe('saveReadingSchema', () => {
     expect(result.success).toBe(true);
   });
 
+  it('accepts uploaded documents without a URL', () => {
+    const result = validate(saveReadingSchema, {
+      title: 'State of AI Report',
+      oneLiner: 'Summary of an uploaded PDF',
+    });
+    expect(result.success).toBe(true);
+  });
+
   it('rejects missing title', () => {
     const result = validate(saveReadingSchema, {
       url: 'https://example.com',
@@ -239,3 +276,122 @@ describe('processUrlSchema', () => {
     expect(result.success).toBe(false);
   });
 });
+
+describe('trashRetentionSchema', () => {
+  it('accepts whole days within range', () => {
+    expect(validate(trashRetentionSchema, { retention_days: 30 }).success).toBe(true);
+  });
+
+  it('rejects zero, fractional and overly long retention', () => {
+    expect(validate(trashRetentionSchema, { retention_days: 0 }).success).toBe(false);
+    expect(validate(trashRetentionSchema, { retention_days: 1.5 }).success).toBe(false);
+    expect(validate(trashRetentionSchema, { retention_days: 400 }).success).toBe(false);
+  });
+});
+
+describe('bulkActionSchema', () => {
+  const id = '7d9f3c1e-2b4a-4c8e-9f1d-0a2b3c4d5e6f';
+
+  it('accepts entry IDs with an action', () => {
+    expect(validate(bulkActionSchema, { ids: [id], action: { type: 'archive' } }).success).toBe(true);
+  });
+
+  it('rejects IDs that are not UUIDs', () => {
+    expect(validate(bulkActionSchema, { ids: [id, 'e1'], action: { type: 'archive' } })).toMatchObject({
+      success: false,
+      error: expect.stringContaining('Invalid entry ID'),
+    });
+  });
+});
+
+describe('inboxResolveSchema', () => {
+  it('accepts confirm and ignore', () => {
+    expect(validate(inboxResolveSchema, { id: 'log-1', action: 'confirm' }).success).toBe(true);
+    expect(validate(inboxResolveSchema, { id: 'log-1', action: 'ignore' }).success).toBe(true);
+  });
+
+  it('rejects unknown actions and missing IDs', () => {
+    expect(validate(inboxResolveSchema, { id: 'log-1', action: 'delete' }).success).toBe(false);
+    expect(validate(inboxResolveSchema, { action: 'confirm' }).success).toBe(false);
+  });
+});
+
+describe('reviewThresholdSchema', () => {
+  it('accepts thresholds between 0 and 1', () => {
+    expect(validate(reviewThresholdSchema, { threshold: 0 }).success).toBe(true);
+    expect(validate(reviewThresholdSchema, { threshold: 0.75 }).success).toBe(true);
+  });
+
+  it('rejects out-of-range thresholds', () => {
+    const result = validate(reviewThresholdSchema, { threshold: 60 });
+    expect(result.success).toBe(false);
+    if (!result.success) expect(result.error).toBe('Threshold must be between 0 and 1');
+  });
+});
+
+describe('buildRecategorizeSchema', () => {
+  it('accepts user-defined category names', () => {
+    const schema = buildRecategorizeSchema(['Admin', 'Recipe']);
+    expect(validate(schema, { page_id: 'abc', new_category: 'Recipe', raw_text: 'Dal' }).success).toBe(true);
+  });
+
+  it('lists the allowed names when rejecting', () => {
+    const result = validate(buildRecategorizeSchema(['Admin', 'Idea', 'Recipe']), {
+      page_id: 'abc',
+      new_category: 'Project',
+      raw_text: 'test',
+    });
+    expect(result).toEqual({ success: false, error: 'Category must be Admin, Idea, or Recipe' });
+  });
+});
+
+describe('categorySchema', () => {
+  const recipe = {
+    name: 'Recipe',
+    db_name: 'Recipes',
+    description: 'recipes, dishes to cook, ingredient lists',
+    statuses: ['To Try', 'Cooked'],
+    default_status: 'To Try',
+    done_status: 'Cooked',
+    icon: '🍲',
+    gradient: 'from-rose-500 to-red-500',
+    fields: [{ key: 'ingredients', content_key: 'ingredients', description: 'Ingredient list' }],
+  };
+
+  it('accepts a valid definition', () => {
+    expect(validate(categorySchema, recipe).success).toBe(true);
+  });
+
+  it('requires default and done statuses to be in the workflow', () => {
+    expect(validate(categorySchema, { ...recipe, default_status: 'New' })).toEqual({
+      success: false,
+      error: 'Default status must be one of the statuses',
+    });
+    expect(validate(categorySchema, { ...recipe, done_status: 'Eaten' }).success).toBe(false);
+  });
+
+  it('rejects names that would break Telegram callback data', () => {
+    expect(validate(categorySchema, { ...recipe, name: 'Recipe:Dinner' }).success).toBe(false);
+    expect(validate(categorySchema, { ...recipe, name: 'A'.repeat(21) }).success).toBe(false);
+  });
+
+  it('only accepts preset gradients', () => {
+    expect(validate(categorySchema, { ...recipe, gradient: 'from-[#123] to-black' }).success).toBe(false);
+  });
+});
+
+describe('subtask schemas', () => {
+  it('needs text or an entry to add', () => {
+    expect(validate(addSubtaskSchema, { text: 'Write copy', as_entry: true }).success).toBe(true);
+    expect(validate(addSubtaskSchema, { entry_id: '123e4567-e89b-12d3-a456-426614174000' }).success).toBe(true);
+    expect(validate(addSubtaskSchema, {})).toEqual({ success: false, error: 'Subtask text or entry_id is required' });
+    expect(validate(addSubtaskSchema, { text: '   ' }).success).toBe(false);
+  });
+
+  it('accepts a tick, a rename or a reorder', () => {
+    expect(validate(updateSubtaskSchema, { subtask_id: 's1', done: true }).success).toBe(true);
+    expect(validate(updateSubtaskSchema, { subtask_id: 's1', text: 'Deploy' }).success).toBe(true);
+    expect(validate(updateSubtaskSchema, { order: ['s2', 's1'] }).success).toBe(true);
+    expect(validate(updateSubtaskSchema, { subtask_id: 's1' }).success).toBe(false);
+  });
+});
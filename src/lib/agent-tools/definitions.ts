@@ -19,8 +19,13 @@ export const searchBrainTool: OpenAI.ChatCompletionTool = {
         },
         categories: {
           type: 'array',
-          items: { type: 'string', enum: ['People', 'Projects', 'Ideas', 'Admin'] },
-          description: 'Limit search to specific categories. Omit to search all.',
+          items: { type: 'string' },
+          description: 'Limit search to specific categories by name (e.g. ["Projects"]), including user-defined ones. Omit to search all.',
+        },
+        tags: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Only return items carrying all of these tags (e.g. ["q3-launch"]). Omit unless the user mentions a tag or #hashtag.',
         },
       },
       required: ['query'],
@@ -225,6 +230,28 @@ export const getTasksTool: OpenAI.ChatCompletionTool = {
   },
 };
 
+export const restoreFromTrashTool: OpenAI.ChatCompletionTool = {
+  type: 'function',
+  function: {
+    name: 'restore_from_trash',
+    description: 'Restore a deleted (archived) item from the trash. Use when the user asks to undelete, bring back, or restore something, e.g. "restore the dentist task". If several items match, ask the user which one and call again with its item_id.',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Words from the deleted item\'s title',
+        },
+        item_id: {
+          type: 'string',
+          description: 'Exact ID of the archived item, when known from a previous call',
+        },
+      },
+      required: ['query'],
+    },
+  },
+};
+
 export const getRecentActivityTool: OpenAI.ChatCompletionTool = {
   type: 'function',
   function: {
@@ -240,7 +267,7 @@ export const getRecentActivityTool: OpenAI.ChatCompletionTool = {
         },
         action_filter: {
           type: 'string',
-          enum: ['created', 'status_changed', 'snoozed', 'completed', 'archived', 'recategorized', 'note_added', 'saved_reading', 'searched'],
+          enum: ['created', 'status_changed', 'snoozed', 'completed', 'archived', 'recategorized', 'note_added', 'saved_reading', 'searched', 'restored'],
           description: 'Filter to a specific action type. Omit for all actions.',
         },
       },
@@ -294,6 +321,7 @@ export const agentTools: OpenAI.ChatCompletionTool[] = [
   getItemDetailsTool,
   createTaskTool,
   saveIdeaTool,
+  restoreFromTrashTool,
   getRecentActivityTool,
   readCalendarTool,
   createCalendarEventTool,
@@ -1,8 +1,12 @@
 // Shared agent handler functions
 // Core logic for brain search and item details used by both agents
 
-import { searchEntries, getEntry, getEntryByLegacyId } from '@/services/db/entries';
-import { getRecentActivity, getActivitySummary, type ActionType } from '@/services/db/activity';
+import { searchEntries, getEntry, getEntryByLegacyId, restoreEntry } from '@/services/db/entries';
+import { getRecentActivity, getActivitySummary, logActivity, type ActionType } from '@/services/db/activity';
+import { listTrash } from '@/services/db/trash';
+import { getTagsForEntries, getEntryTags } from '@/services/db/tags';
+import { getCategories } from '@/services/db/categories';
+import { findCategory } from '@/config/categories';
 
 // ============= Types =============
 
@@ -14,6 +18,7 @@ export interface BrainSearchResult {
   status?: string;
   priority?: string;
   dueDate?: string;
+  tags?: string[];
 }
 
 export interface ItemDetails {
@@ -28,33 +33,24 @@ export interface ItemDetails {
 
 // ============= Brain Search =============
 
-/** Search database using hybrid vector + keyword search */
+/** Search database using hybrid full-text + vector search (rank-fused), optionally limited to tagged items */
 export async function searchBrainEntries(
   query: string,
-  categories?: string[]
+  categories?: string[],
+  tags?: string[]
 ): Promise<BrainSearchResult[]> {
-  // Map category names to DB category format
+  // Any name the agent uses ('Project', 'projects') resolves to the stored category name
+  const definitions = await getCategories();
   const categoryFilter = categories?.length === 1
-    ? ({
-        People: 'People',
-        Projects: 'Projects',
-        Ideas: 'Ideas',
-        Admin: 'Admin',
-      }[categories[0]] || undefined)
+    ? findCategory(definitions, categories[0])?.dbName
     : undefined;
 
   const results = await searchEntries(query, {
     category: categoryFilter,
+    tags,
     limit: 20,
   });
-
-  // Map DB category names to display names
-  const categoryMap: Record<string, string> = {
-    People: 'People',
-    Projects: 'Projects',
-    Ideas: 'Ideas',
-    Admin: 'Admin',
-  };
+  const tagsByEntry = await getTagsForEntries(results.map(r => r.id));
 
   return results.map(r => {
     const content = (r.content as Record<string, unknown>) || {};
@@ -65,11 +61,12 @@ export async function searchBrainEntries(
     return {
       id: r.id,
       title: r.title,
-      category: categoryMap[r.category] || r.category,
+      category: r.category,
       snippet: contentText.slice(0, 200) || r.title,
       status: r.status || undefined,
       priority: r.priority || undefined,
       dueDate: r.dueDate?.toISOString().split('T')[0],
+      tags: tagsByEntry.get(r.id),
     };
   });
 }
@@ -115,6 +112,11 @@ export async function getItemDetailsCore(itemId: string): Promise<ItemDetails |
       fields[dateField] = entry.dueDate.toISOString().split('T')[0];
     }
 
+    const tags = await getEntryTags(entry.id);
+    if (tags.length > 0) {
+      fields.Tags = tags.map(tag => `#${tag}`).join(' ');
+    }
+
     return {
       id: entry.id,
       title: entry.title,
@@ -163,7 +165,7 @@ export async function getRecentActivityCore(
       break;
   }
 
-  const validActions: ActionType[] = ['created', 'status_changed', 'snoozed', 'completed', 'archived', 'recategorized', 'note_added', 'saved_reading', 'searched'];
+  const validActions: ActionType[] = ['created', 'status_changed', 'snoozed', 'completed', 'archived', 'recategorized', 'note_added', 'saved_reading', 'searched', 'restored'];
   const typedAction = actionFilter && validActions.includes(actionFilter as ActionType)
     ? (actionFilter as ActionType)
     : undefined;
@@ -195,3 +197,45 @@ export async function getRecentActivityCore(
     totalActions: summaryArr.reduce((sum, s) => sum + s.count, 0),
   };
 }
+
+// ============= Trash =============
+
+export interface TrashRestoreResult {
+  restored?: { id: string; title: string; category: string };
+  candidates: Array<{ id: string; title: string; category: string; archivedAt: string }>;
+}
+
+/**
+ * Restore an archived entry by ID, or by title search when the match is unambiguous.
+ * Multiple matches are returned as candidates so the agent can ask which one.
+ */
+export async function restoreFromTrashCore(query: string, itemId?: string): Promise<TrashRestoreResult> {
+  let targetId = itemId;
+  let candidates: TrashRestoreResult['candidates'] = [];
+
+  if (!targetId) {
+    const matches = await listTrash({ search: query, limit: 5 });
+    candidates = matches.map(e => ({
+      id: e.id,
+      title: e.title,
+      category: e.category,
+      archivedAt: e.archived!.toISOString(),
+    }));
+
+    const exact = matches.filter(e => e.title.toLowerCase() === query.toLowerCase());
+    if (matches.length === 1) targetId = matches[0].id;
+    else if (exact.length === 1) targetId = exact[0].id;
+  }
+
+  if (!targetId) return { candidates };
+
+  const restored = await restoreEntry(targetId);
+  if (!restored) return { candidates };
+
+  logActivity(restored.id, 'restored', { title: restored.title, category: restored.category, from: 'trash' });
+
+  return {
+    restored: { id: restored.id, title: restored.title, category: restored.category },
+    candidates: [],
+  };
+}
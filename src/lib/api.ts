@@ -1,5 +1,6 @@
-import type { CaptureResponse, UpdateResponse, Category, Entry, SearchResponse, AgentResponse, DigestResponse, DailyDigestResponse, WeeklyDigestResponse, UrlProcessResult, ResearchAgentResponse } from './types';
-import { addToQueue } from './offline-queue';
+import type { CaptureResponse, UpdateResponse, PersonRef, MentionedPerson, Entry, EntryQuery, EntryPage, EntryRevision, AttachmentsResponse, TrashItem, ReviewInboxItem, ClassifierAccuracy, CategoryInfo, SubtasksResponse, TagsResponse, TagCount, BulkAction, BulkResponse, SearchResponse, AgentResponse, DigestResponse, DailyDigestResponse, WeeklyDigestResponse, UrlProcessResult, ResearchAgentResponse } from './types';
+import { addToQueue, addVoiceToQueue } from './offline-queue';
+import { getDoneStatus } from '@/config/categories';
 
 // API endpoints (all local — no external dependencies)
 const ENDPOINTS = {
@@ -44,11 +45,55 @@ export async function captureThought(text: string, reminderDate?: string): Promi
   }
 }
 
+// Capture a voice recording — transcribed and classified server-side, queued when offline
+export async function captureVoice(audio: Blob, reminderDate?: string): Promise<CaptureResponse> {
+  try {
+    const form = new FormData();
+    form.append('audio', audio, 'recording');
+    if (reminderDate) form.append('reminderDate', reminderDate);
+
+    const response = await fetch('/api/capture/voice', {
+      method: 'POST',
+      body: form,
+    });
+
+    const data = await response.json();
+    if (!response.ok || data.status === 'error') {
+      return {
+        status: 'error',
+        error: data.error || `HTTP error: ${response.status}`,
+      };
+    }
+
+    return data;
+  } catch (error) {
+    // Network error — keep the recording in the offline queue
+    if (error instanceof TypeError && typeof indexedDB !== 'undefined') {
+      try {
+        await addVoiceToQueue(audio, reminderDate);
+        return {
+          status: 'captured',
+          category: 'Admin',
+          confidence: 0,
+          offline: true,
+        } as CaptureResponse & { offline: boolean };
+      } catch {
+        // IndexedDB failed too
+      }
+    }
+    console.error('Voice capture error:', error);
+    return {
+      status: 'error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
 // Recategorize an entry
 export async function recategorize(
   pageId: string,
-  currentCategory: Category,
-  newCategory: Category,
+  currentCategory: string,
+  newCategory: string,
   rawText: string
 ): Promise<CaptureResponse> {
   try {
@@ -123,14 +168,18 @@ export async function updateEntry(
   }
 }
 
-// Fetch entries by database and status (reads from Neon via local API)
-export async function fetchEntries(
-  database: string,
-  status?: string
-): Promise<Entry[]> {
+// Fetch one page of entries matching a query (reads from Neon via local API)
+export async function fetchEntryPage(query: EntryQuery = {}): Promise<EntryPage> {
   try {
-    const params = new URLSearchParams({ database });
-    if (status) params.append('status', status);
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+      if (value === undefined) continue;
+      if (Array.isArray(value)) {
+        if (value.length > 0) params.append(key, value.join(','));
+      } else {
+        params.append(key, String(value));
+      }
+    }
 
     const response = await fetch(`/api/entries?${params.toString()}`, {
       method: 'GET',
@@ -142,24 +191,30 @@ export async function fetchEntries(
     }
 
     const data = await response.json();
-    return data.items || [];
+    return { items: data.items || [], total: data.total || 0, nextCursor: data.nextCursor || null };
   } catch (error) {
     console.error('Fetch error:', error);
-    return [];
+    return { items: [], total: 0, nextCursor: null };
   }
 }
 
-// Mark entry as done
-export async function markDone(pageId: string, database: string): Promise<UpdateResponse> {
-  let statusValue: string;
-  if (database === 'projects') {
-    statusValue = 'Complete';
-  } else if (database === 'people') {
-    statusValue = 'Dormant';
-  } else {
-    statusValue = 'Done';
-  }
-  return updateEntry(pageId, database, { status: statusValue });
+// Fetch the first page of entries by database and status
+export async function fetchEntries(
+  database: string,
+  status?: string,
+  source?: string
+): Promise<Entry[]> {
+  const page = await fetchEntryPage({
+    database: [database],
+    status: status ? [status] : undefined,
+    source: source ? [source] : undefined,
+  });
+  return page.items;
+}
+
+// Mark entry as done with its category's done status (the built-in one when not given)
+export async function markDone(pageId: string, database: string, doneStatus?: string | null): Promise<UpdateResponse> {
+  return updateEntry(pageId, database, { status: doneStatus || getDoneStatus(database) });
 }
 
 // Snooze entry to a specific date
@@ -389,6 +444,37 @@ export async function processUrl(url: string): Promise<UrlProcessResult> {
   }
 }
 
+// Process an uploaded PDF / text / Markdown file into the same summary as a URL
+export async function processDocument(file: File): Promise<UrlProcessResult> {
+  try {
+    const form = new FormData();
+    form.append('file', file);
+    const response = await fetch('/api/process-url', {
+      method: 'POST',
+      body: form,
+    });
+
+    const data = await response.json();
+    if (!response.ok || data.status === 'error') {
+      throw new Error(data.error || `HTTP error! status: ${response.status}`);
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Process document error:', error);
+    return {
+      status: 'error',
+      url: '',
+      urlType: 'document',
+      title: file.name,
+      file_name: file.name,
+      one_liner: '',
+      category: 'Tech',
+      error: error instanceof Error ? error.message : 'Failed to process document',
+    };
+  }
+}
+
 // Fetch a single entry's full details
 export async function fetchEntry(entryId: string): Promise<{
   status: 'success' | 'error';
@@ -415,6 +501,517 @@ export async function fetchEntry(entryId: string): Promise<{
   }
 }
 
+// Fetch an entry's revision history (newest first)
+export async function fetchEntryHistory(entryId: string): Promise<{
+  status: 'success' | 'error';
+  revisions?: EntryRevision[];
+  error?: string;
+}> {
+  try {
+    const response = await fetch(`/api/entry/${entryId}/history`, {
+      method: 'GET',
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Fetch history error:', error);
+    return {
+      status: 'error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+// Restore an entry to a previous revision
+export async function restoreEntryRevision(
+  entryId: string,
+  revisionId: string
+): Promise<{ status: 'restored' | 'error'; page_id?: string; error?: string }> {
+  try {
+    const response = await fetch(`/api/entry/${entryId}/history`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ revision_id: revisionId }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok || data.status === 'error') {
+      return {
+        status: 'error',
+        error: data.error || `HTTP error: ${response.status}`,
+      };
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Restore revision error:', error);
+    return {
+      status: 'error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+// Merge a duplicate entry into an existing one; the duplicate moves to the trash
+export async function mergeEntry(
+  entryId: string,
+  intoId: string
+): Promise<{ status: 'merged' | 'error'; page_id?: string; title?: string; error?: string }> {
+  try {
+    const response = await fetch(`/api/entry/${entryId}/merge`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ into_id: intoId }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok || data.status === 'error') {
+      return {
+        status: 'error',
+        error: data.error || `HTTP error: ${response.status}`,
+      };
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Merge entry error:', error);
+    return {
+      status: 'error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+// Create a People entry for someone a capture mentioned, linked to that capture
+export async function addMentionedPerson(
+  entryId: string,
+  person: MentionedPerson
+): Promise<{ status: 'created' | 'error'; person?: PersonRef; error?: string }> {
+  try {
+    const response = await fetch(`/api/entry/${entryId}/people`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(person),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok || data.status === 'error') {
+      return {
+        status: 'error',
+        error: data.error || `HTTP error: ${response.status}`,
+      };
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Add person error:', error);
+    return {
+      status: 'error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+// List the files attached to an entry (oldest first)
+export async function fetchAttachments(entryId: string): Promise<AttachmentsResponse> {
+  return attachmentsRequest(`/api/entry/${entryId}/attachments`, { method: 'GET' });
+}
+
+// Upload a file to an entry; images are described on upload
+export async function uploadAttachment(entryId: string, file: File): Promise<AttachmentsResponse> {
+  const form = new FormData();
+  form.append('file', file);
+  return attachmentsRequest(`/api/entry/${entryId}/attachments`, { method: 'POST', body: form });
+}
+
+// Delete an attachment and its stored file
+export async function deleteAttachment(attachmentId: string): Promise<AttachmentsResponse> {
+  return attachmentsRequest(`/api/attachments/${attachmentId}`, { method: 'DELETE' });
+}
+
+// Re-run description extraction on an attachment's stored file
+export async function reprocessAttachment(attachmentId: string): Promise<AttachmentsResponse> {
+  return attachmentsRequest(`/api/attachments/${attachmentId}/reprocess`, { method: 'POST' });
+}
+
+async function attachmentsRequest(url: string, init: RequestInit): Promise<AttachmentsResponse> {
+  try {
+    const response = await fetch(url, init);
+    const data = await response.json();
+
+    if (!response.ok || data.status === 'error') {
+      return {
+        status: 'error',
+        error: data.error || `HTTP error: ${response.status}`,
+      };
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Attachments request error:', error);
+    return {
+      status: 'error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+// Fetch a project's subtasks with progress
+export async function fetchSubtasks(entryId: string): Promise<SubtasksResponse> {
+  return subtasksRequest(entryId, 'GET');
+}
+
+// Add a checklist line, or a linked Admin task when asEntry is set
+export async function addSubtask(entryId: string, text: string, asEntry = false): Promise<SubtasksResponse> {
+  return subtasksRequest(entryId, 'POST', { text, as_entry: asEntry });
+}
+
+// Tick or untick a subtask (advances the project's next action)
+export async function toggleSubtask(entryId: string, subtaskId: string, done: boolean): Promise<SubtasksResponse> {
+  return subtasksRequest(entryId, 'PUT', { subtask_id: subtaskId, done });
+}
+
+// Reorder subtasks by ID
+export async function reorderSubtasks(entryId: string, order: string[]): Promise<SubtasksResponse> {
+  return subtasksRequest(entryId, 'PUT', { order });
+}
+
+// Remove a subtask (linked entries are kept)
+export async function removeSubtask(entryId: string, subtaskId: string): Promise<SubtasksResponse> {
+  return subtasksRequest(entryId, 'DELETE', { subtask_id: subtaskId });
+}
+
+async function subtasksRequest(
+  entryId: string,
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE',
+  body?: Record<string, unknown>
+): Promise<SubtasksResponse> {
+  try {
+    const response = await fetch(`/api/entry/${entryId}/subtasks`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+    const data = await response.json();
+
+    if (!response.ok || data.status === 'error') {
+      return {
+        status: 'error',
+        error: data.error || `HTTP error: ${response.status}`,
+      };
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Subtasks request error:', error);
+    return {
+      status: 'error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+// Fetch an entry's tags
+export async function fetchEntryTags(entryId: string): Promise<TagsResponse> {
+  return tagsRequest(entryId, 'GET');
+}
+
+// Replace an entry's tags (names are normalized server-side)
+export async function updateEntryTags(entryId: string, tags: string[]): Promise<TagsResponse> {
+  return tagsRequest(entryId, 'PUT', { tags });
+}
+
+async function tagsRequest(
+  entryId: string,
+  method: 'GET' | 'PUT',
+  body?: Record<string, unknown>
+): Promise<TagsResponse> {
+  try {
+    const response = await fetch(`/api/entry/${entryId}/tags`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+    const data = await response.json();
+
+    if (!response.ok || data.status === 'error') {
+      return {
+        status: 'error',
+        error: data.error || `HTTP error: ${response.status}`,
+      };
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Tags request error:', error);
+    return {
+      status: 'error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+// Tags in use, most used first (for suggestions)
+export async function fetchAllTags(): Promise<TagCount[]> {
+  try {
+    const response = await fetch('/api/tags');
+    const data = await response.json();
+    return response.ok && data.status === 'success' ? data.tags : [];
+  } catch (error) {
+    console.error('Tags fetch error:', error);
+    return [];
+  }
+}
+
+// Apply one action to several entries; each gets its own result
+export async function bulkAction(ids: string[], action: BulkAction): Promise<BulkResponse> {
+  try {
+    const response = await fetch('/api/bulk', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ids, action }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok || data.status === 'error') {
+      return {
+        status: 'error',
+        error: data.error || `HTTP error: ${response.status}`,
+      };
+    }
+
+    return data;
+  } catch (error) {
+    return {
+      status: 'error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+// Fetch archived entries in the trash (optionally filtered by title)
+export async function fetchTrash(query?: string): Promise<{
+  status: 'success' | 'error';
+  retention_days?: number;
+  items?: TrashItem[];
+  error?: string;
+}> {
+  try {
+    const params = query ? `?q=${encodeURIComponent(query)}` : '';
+    const response = await fetch(`/api/trash${params}`, {
+      method: 'GET',
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Fetch trash error:', error);
+    return {
+      status: 'error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+// Restore an archived entry from the trash
+export async function restoreFromTrash(pageId: string): Promise<{ status: 'restored' | 'error'; error?: string }> {
+  return trashRequest('POST', { page_id: pageId });
+}
+
+// Permanently delete an archived entry
+export async function purgeFromTrash(pageId: string): Promise<{ status: 'purged' | 'error'; error?: string }> {
+  return trashRequest('DELETE', { page_id: pageId });
+}
+
+// Set how many days archived entries are kept before purge
+export async function setTrashRetention(days: number): Promise<{ status: 'success' | 'error'; error?: string }> {
+  return trashRequest('PUT', { retention_days: days });
+}
+
+async function trashRequest<T extends { status: string; error?: string }>(
+  method: 'POST' | 'PUT' | 'DELETE',
+  body: Record<string, unknown>
+): Promise<T> {
+  try {
+    const response = await fetch('/api/trash', {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok || data.status === 'error') {
+      return {
+        status: 'error',
+        error: data.error || `HTTP error: ${response.status}`,
+      } as T;
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Trash request error:', error);
+    return {
+      status: 'error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    } as T;
+  }
+}
+
+// Fetch low-confidence captures waiting for triage, with classifier accuracy
+export async function fetchReviewInbox(): Promise<{
+  status: 'success' | 'error';
+  threshold?: number;
+  accuracy?: ClassifierAccuracy;
+  items?: ReviewInboxItem[];
+  error?: string;
+}> {
+  try {
+    const response = await fetch('/api/inbox', {
+      method: 'GET',
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Fetch review inbox error:', error);
+    return {
+      status: 'error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+// Confirm the classifier's category for a review item, or dismiss it
+export async function resolveReviewItem(id: string, action: 'confirm' | 'ignore'): Promise<{ status: 'success' | 'error'; error?: string }> {
+  return inboxRequest('POST', { id, action });
+}
+
+// Set the confidence below which captures are parked for review
+export async function setReviewThreshold(threshold: number): Promise<{ status: 'success' | 'error'; error?: string }> {
+  return inboxRequest('PUT', { threshold });
+}
+
+async function inboxRequest<T extends { status: string; error?: string }>(
+  method: 'POST' | 'PUT',
+  body: Record<string, unknown>
+): Promise<T> {
+  try {
+    const response = await fetch('/api/inbox', {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok || data.status === 'error') {
+      return {
+        status: 'error',
+        error: data.error || `HTTP error: ${response.status}`,
+      } as T;
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Inbox request error:', error);
+    return {
+      status: 'error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    } as T;
+  }
+}
+
+// Fetch category definitions (statuses, icon, gradient, extraction fields)
+export async function fetchCategories(): Promise<{
+  status: 'success' | 'error';
+  categories?: CategoryInfo[];
+  error?: string;
+}> {
+  try {
+    const response = await fetch('/api/categories', {
+      method: 'GET',
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Fetch categories error:', error);
+    return {
+      status: 'error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+// Create a category, or update the one currently named originalName
+export async function saveCategory(
+  category: Omit<CategoryInfo, 'db_name'> & { db_name?: string },
+  originalName?: string
+): Promise<{ status: 'success' | 'error'; category?: CategoryInfo; error?: string }> {
+  return originalName
+    ? categoriesRequest('PUT', { ...category, original_name: originalName })
+    : categoriesRequest('POST', category);
+}
+
+// Delete a category (refused while entries still use it)
+export async function deleteCategory(name: string): Promise<{ status: 'deleted' | 'error'; error?: string }> {
+  return categoriesRequest('DELETE', { name });
+}
+
+async function categoriesRequest<T extends { status: string; error?: string }>(
+  method: 'POST' | 'PUT' | 'DELETE',
+  body: Record<string, unknown>
+): Promise<T> {
+  try {
+    const response = await fetch('/api/categories', {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok || data.status === 'error') {
+      return {
+        status: 'error',
+        error: data.error || `HTTP error: ${response.status}`,
+      } as T;
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Categories request error:', error);
+    return {
+      status: 'error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    } as T;
+  }
+}
+
 // URL detection helper
 export function isUrl(text: string): boolean {
   const urlRegex = /https?:\/\/[^\s]+/;
@@ -431,7 +1028,7 @@ export function extractUrl(text: string): string | null {
 // Save a reading entry (from URL preview)
 export async function saveReading(data: {
   title: string;
-  url: string;
+  url?: string; // Absent for uploaded documents
   oneLiner?: string;
   tldr?: string;
   category?: string;
@@ -0,0 +1,208 @@
+/**
+ * Entry content — the shape of entries.content per category
+ *
+ * Built-in categories have a fixed set of keys; fields and defaults added in a
+ * category definition extend it as optional strings. Every key is optional
+ * (content is sparse) and unknown keys are rejected. API field names
+ * ('next_action') and stored keys ('nextAction') are mapped here and nowhere else.
+ */
+
+import { z } from 'zod';
+import type { CategoryDefinition } from '@/config/categories';
+
+// ============= Schemas =============
+
+const subtaskSchema = z.object({
+  id: z.string(),
+  text: z.string(),
+  done: z.boolean(),
+  entryId: z.string().optional(),
+});
+
+const peopleContentSchema = z.strictObject({
+  notes: z.string(),
+  company: z.string(),
+  role: z.string(),
+  context: z.string(),
+  lastContact: z.string(),
+}).partial();
+
+const projectContentSchema = z.strictObject({
+  notes: z.string(),
+  nextAction: z.string(),
+  area: z.string(),
+  subtasks: z.array(subtaskSchema),
+}).partial();
+
+const ideaContentSchema = z.strictObject({
+  notes: z.string(),
+  rawInsight: z.string(),
+  oneLiner: z.string(),
+  ideaCategory: z.string(),
+  source: z.string(),
+  structuredSummary: z.record(z.string(), z.unknown()), // Saved before Reading split off from Ideas
+}).partial();
+
+const adminContentSchema = z.strictObject({
+  notes: z.string(),
+  adminCategory: z.string(),
+}).partial();
+
+const readingContentSchema = z.strictObject({
+  notes: z.string(),
+  oneLiner: z.string(),
+  rawInsight: z.string(),
+  source: z.string(),
+  ideaCategory: z.string(),
+  structuredSummary: z.record(z.string(), z.unknown()),
+}).partial();
+
+// User-defined categories start from notes only
+const customContentSchema = z.strictObject({
+  notes: z.string(),
+}).partial();
+
+// Keyed by stored category name
+const BUILTIN_SCHEMAS: Record<string, z.ZodObject> = {
+  People: peopleContentSchema,
+  Projects: projectContentSchema,
+  Ideas: ideaContentSchema,
+  Admin: adminContentSchema,
+  Reading: readingContentSchema,
+};
+
+export type PeopleContent = z.infer<typeof peopleContentSchema>;
+export type ProjectContent = z.infer<typeof projectContentSchema>;
+export type IdeaContent = z.infer<typeof ideaContentSchema>;
+export type AdminContent = z.infer<typeof adminContentSchema>;
+export type ReadingContent = z.infer<typeof readingContentSchema>;
+
+/** Schema for a category's content: the built-in keys plus the definition's fields and defaults */
+export function contentSchema(definition: CategoryDefinition) {
+  const base = BUILTIN_SCHEMAS[definition.dbName] || customContentSchema;
+  const extra = [...definition.fields.map(f => f.contentKey), ...Object.keys(definition.defaultContent)]
+    .filter(key => !(key in base.shape));
+  if (extra.length === 0) return base;
+  return base.extend(Object.fromEntries(extra.map(key => [key, z.string().optional()])));
+}
+
+/** Stored keys a category accepts */
+export function contentKeys(definition: CategoryDefinition): string[] {
+  return Object.keys(contentSchema(definition).shape);
+}
+
+export type ContentResult =
+  | { success: true; data: Record<string, unknown> }
+  | { success: false; error: string };
+
+/** Check content (or the part of it being updated) against the category's schema */
+export function validateContent(definition: CategoryDefinition, content: Record<string, unknown>): ContentResult {
+  const result = contentSchema(definition).safeParse(content);
+  if (result.success) return { success: true, data: result.data };
+
+  const issue = result.error.issues[0];
+  const path = issue.path.length > 0 ? `${issue.path.join('.')}: ` : '';
+  return { success: false, error: `Invalid ${definition.name} content: ${path}${issue.message}` };
+}
+
+/**
+ * Content for an entry moved to another category: keys the category accepts
+ * are kept, other text is folded into notes as "key: value" lines, and
+ * anything else (a checklist, a saved summary) is left to the entry's revision.
+ */
+export function refitContent(definition: CategoryDefinition, content: Record<string, unknown>): Record<string, unknown> {
+  const keys = contentKeys(definition);
+  const kept: Record<string, unknown> = {};
+  const extras: string[] = [];
+
+  for (const [key, value] of Object.entries(content)) {
+    if (key === 'notes') continue;
+    if (keys.includes(key)) kept[key] = value;
+    else if (typeof value === 'string' && value.trim()) extras.push(`${key}: ${value.trim()}`);
+  }
+
+  const notes = [typeof content.notes === 'string' ? content.notes : '', extras.join('\n')].filter(Boolean).join('\n\n');
+  if (notes) kept.notes = notes;
+  return kept;
+}
+
+// ============= API field names =============
+
+// API field name → stored key for the built-in keys; definition fields carry their own pair
+const API_FIELDS: Record<string, string> = {
+  notes: 'notes',
+  company: 'company',
+  role: 'role',
+  context: 'context',
+  last_contact: 'lastContact',
+  next_action: 'nextAction',
+  area: 'area',
+  subtasks: 'subtasks',
+  raw_insight: 'rawInsight',
+  one_liner: 'oneLiner',
+  idea_category: 'ideaCategory',
+  source: 'source',
+  structured_summary: 'structuredSummary',
+  admin_category: 'adminCategory',
+};
+
+/** Stored key for an API field name, or undefined when the category has no such field */
+export function toContentKey(definition: CategoryDefinition, field: string): string | undefined {
+  const key = definition.fields.find(f => f.key === field)?.contentKey || API_FIELDS[field] || field;
+  return contentKeys(definition).includes(key) ? key : undefined;
+}
+
+/** API fields → stored content, checked against the category's schema */
+export function toContent(definition: CategoryDefinition, fields: Record<string, unknown>): ContentResult {
+  const content: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(fields)) {
+    const key = toContentKey(definition, field);
+    if (!key) return { success: false, error: `${definition.name} has no field "${field}"` };
+    content[key] = value;
+  }
+  return validateContent(definition, content);
+}
+
+// ============= Normalisation =============
+
+export interface NormalizedContent {
+  content: Record<string, unknown>;
+  changes: string[]; // What was renamed, converted or dropped
+  error?: string; // Set when the content still doesn't fit the schema
+}
+
+/**
+ * Bring content written before the schemas into shape: API-style keys are
+ * renamed to stored keys, numbers and booleans in text fields become strings,
+ * and nulls are dropped. Anything else that doesn't fit is reported, not fixed.
+ */
+export function normalizeContent(definition: CategoryDefinition, content: Record<string, unknown>): NormalizedContent {
+  const shape = contentSchema(definition).shape as Record<string, z.ZodType>;
+  const normalized: Record<string, unknown> = {};
+  const changes: string[] = [];
+
+  for (const [original, value] of Object.entries(content)) {
+    if (value === null || value === undefined) {
+      changes.push(`dropped empty ${original}`);
+      continue;
+    }
+
+    // Both spellings present: keep both so the clash is reported rather than guessed
+    const renamed = toContentKey(definition, original);
+    const key = renamed && !(renamed !== original && renamed in content) ? renamed : original;
+    if (key !== original) changes.push(`renamed ${original} → ${key}`);
+
+    const expectsText = shape[key]?.safeParse('').success;
+    if (expectsText && (typeof value === 'number' || typeof value === 'boolean')) {
+      normalized[key] = String(value);
+      changes.push(`converted ${key} to text`);
+    } else {
+      normalized[key] = value;
+    }
+  }
+
+  const result = validateContent(definition, normalized);
+  return result.success
+    ? { content: result.data, changes }
+    : { content: normalized, changes, error: result.error };
+}
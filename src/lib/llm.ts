@@ -0,0 +1,98 @@
+/**
+ * LLM provider — one place that decides which model, endpoint and key each
+ * kind of AI work uses
+ *
+ * Every task reads its own settings first and falls back to the shared ones:
+ *   LLM_<TASK>_MODEL     e.g. LLM_CLASSIFICATION_MODEL=llama3.1:8b
+ *   LLM_<TASK>_BASE_URL  else LLM_BASE_URL, else api.openai.com
+ *   LLM_<TASK>_API_KEY   else LLM_API_KEY, else OPENAI_API_KEY
+ * Any OpenAI-compatible server works as a base URL, e.g. a local Ollama at
+ * http://localhost:11434/v1 (which needs no key). Settings are read on each
+ * call, so clients are cached per endpoint and key rather than per module.
+ */
+
+import OpenAI from 'openai';
+
+// ============= Types =============
+
+export type LLMTask =
+  | 'classification' // Capture routing, query parsing, domain detection
+  | 'summarization' // Digests, insights, article and document summaries
+  | 'chat' // Agent conversation with tools
+  | 'research' // Research agent loop
+  | 'vision' // Image description
+  | 'transcription' // Voice notes
+  | 'embedding'; // Semantic search vectors
+
+export interface ProviderConfig {
+  model: string;
+  baseURL?: string;
+  apiKey?: string;
+}
+
+export interface LLM {
+  client: OpenAI;
+  model: string;
+}
+
+// ============= Config =============
+
+const DEFAULT_MODELS: Record<LLMTask, string> = {
+  classification: 'gpt-4o-mini',
+  summarization: 'gpt-4o-mini',
+  chat: 'gpt-4o-mini',
+  research: 'gpt-4o',
+  vision: 'gpt-4o-mini',
+  transcription: 'whisper-1',
+  embedding: 'text-embedding-3-small',
+};
+
+// Single-purpose variables from before per-task settings; still honoured
+const LEGACY_MODEL_VARS: Partial<Record<LLMTask, string>> = {
+  research: 'RESEARCH_AGENT_MODEL',
+  embedding: 'EMBEDDING_MODEL',
+};
+
+/** Model, endpoint and key for a task, after fallbacks */
+export function providerConfig(task: LLMTask): ProviderConfig {
+  const env = process.env;
+  const prefix = `LLM_${task.toUpperCase()}`;
+  const legacy = LEGACY_MODEL_VARS[task];
+
+  return {
+    model: env[`${prefix}_MODEL`] || (legacy && env[legacy]) || DEFAULT_MODELS[task],
+    baseURL: env[`${prefix}_BASE_URL`] || env.LLM_BASE_URL || undefined,
+    apiKey: env[`${prefix}_API_KEY`] || env.LLM_API_KEY || env.OPENAI_API_KEY || undefined,
+  };
+}
+
+/** A task can run with a key, or against a custom endpoint that may not need one */
+export function isLLMConfigured(task: LLMTask): boolean {
+  const { baseURL, apiKey } = providerConfig(task);
+  return Boolean(apiKey || baseURL);
+}
+
+// ============= Clients =============
+
+const clients = new Map<string, OpenAI>();
+
+/**
+ * Client and model for a task. Throws when the task has neither a key nor a
+ * custom endpoint; callers with a fallback check isLLMConfigured first.
+ */
+export function getLLM(task: LLMTask): LLM {
+  const { model, baseURL, apiKey } = providerConfig(task);
+  if (!apiKey && !baseURL) {
+    throw new Error(`No LLM configured for ${task}: set OPENAI_API_KEY, LLM_API_KEY or LLM_BASE_URL`);
+  }
+
+  const cacheKey = `${baseURL || ''}\n${apiKey || ''}`;
+  let client = clients.get(cacheKey);
+  if (!client) {
+    // The SDK insists on a key; local servers ignore it
+    client = new OpenAI({ apiKey: apiKey || 'not-needed', baseURL });
+    clients.set(cacheKey, client);
+  }
+
+  return { client, model };
+}
@@ -1,6 +1,7 @@
 /**
  * Offline capture queue using IndexedDB.
- * When /api/capture fails due to network error, items are saved here.
+ * When /api/capture (or /api/capture/voice) fails due to network error, items
+ * are saved here — voice recordings as the audio Blob itself.
  * On reconnect, the queue replays and syncs.
  */
 
@@ -10,7 +11,8 @@ const DB_VERSION = 1;
 
 export interface QueuedCapture {
   id: string;
-  text: string;
+  text: string; // Empty for voice recordings until transcribed
+  audio?: Blob; // Voice recording, replayed through /api/capture/voice
   reminderDate?: string;
   timestamp: number;
   synced: boolean;
@@ -31,11 +33,18 @@ function openDB(): Promise<IDBDatabase> {
 }
 
 export async function addToQueue(text: string, reminderDate?: string): Promise<QueuedCapture> {
+  return putItem({ text, reminderDate });
+}
+
+export async function addVoiceToQueue(audio: Blob, reminderDate?: string): Promise<QueuedCapture> {
+  return putItem({ text: '', audio, reminderDate });
+}
+
+async function putItem(fields: Pick<QueuedCapture, 'text' | 'audio' | 'reminderDate'>): Promise<QueuedCapture> {
   const db = await openDB();
   const item: QueuedCapture = {
     id: `offline-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
-    text,
-    reminderDate,
+    ...fields,
     timestamp: Date.now(),
     synced: false,
   };
@@ -87,6 +96,22 @@ export async function removeFromQueue(id: string): Promise<void> {
   });
 }
 
+// Same request the capture would have made online
+function replay(item: QueuedCapture): Promise<Response> {
+  if (item.audio) {
+    const form = new FormData();
+    form.append('audio', item.audio, 'recording');
+    if (item.reminderDate) form.append('reminderDate', item.reminderDate);
+    return fetch('/api/capture/voice', { method: 'POST', body: form });
+  }
+
+  return fetch('/api/capture', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ text: item.text, reminderDate: item.reminderDate }),
+  });
+}
+
 export async function syncQueue(): Promise<{ synced: number; failed: number }> {
   const pending = await getPendingItems();
   let synced = 0;
@@ -94,11 +119,7 @@ export async function syncQueue(): Promise<{ synced: number; failed: number }> {
 
   for (const item of pending) {
     try {
-      const response = await fetch('/api/capture', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ text: item.text, reminderDate: item.reminderDate }),
-      });
+      const response = await replay(item);
 
       if (response.ok) {
         await removeFromQueue(item.id);
@@ -1,7 +1,8 @@
 // Research Agent Core - ReAct-style research loop
 // Implements: Think → Act → Observe → Repeat → Answer
 
-import OpenAI from 'openai';
+import type OpenAI from 'openai';
+import { getLLM } from '@/lib/llm';
 import { CitationTracker, Citation } from './citations';
 import { detectDomainHybrid, getResearchSystemPrompt, ExpertDomain, classifyQueryIntent, CASUAL_SYSTEM_PROMPT, FOLLOW_UP_SYSTEM_PROMPT } from './personas';
 import { searchWeb, isWebSearchAvailable, SearchFocus } from './web-search';
@@ -36,7 +37,6 @@ export interface ResearchResponse {
 // ============= Constants =============
 
 const MAX_RESEARCH_ITERATIONS = 5;
-const RESEARCH_MODEL = process.env.RESEARCH_AGENT_MODEL || 'gpt-4o';
 
 // ============= Tool Handlers =============
 
@@ -45,9 +45,10 @@ type ToolResult = { result: string; citations: Omit<Citation, 'number'>[] };
 async function handleSearchBrain(
   query: string,
   categories?: string[],
+  tags?: string[],
   citationTracker?: CitationTracker
 ): Promise<ToolResult> {
-  const results = await searchBrainEntries(query, categories);
+  const results = await searchBrainEntries(query, categories, tags);
   const citations: Omit<Citation, 'number'>[] = [];
 
   if (results.length === 0) {
@@ -363,8 +364,7 @@ async function handleGetTasks(
 
 export async function runResearchLoop(
   query: string,
-  conversationHistory: Array<{ role: string; content: string }>,
-  openai: OpenAI
+  conversationHistory: Array<{ role: string; content: string }>
 ): Promise<ResearchResponse> {
   // Check if this is casual, follow-up, or research
   const hasHistory = conversationHistory.length > 0;
@@ -372,8 +372,9 @@ export async function runResearchLoop(
 
   // Handle casual conversation (greetings, thanks, etc.)
   if (queryIntent === 'casual') {
-    const casualResponse = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
+    const { client, model } = getLLM('chat');
+    const casualResponse = await client.chat.completions.create({
+      model,
       temperature: 0.7,
       max_tokens: 300,
       messages: [
@@ -401,8 +402,9 @@ export async function runResearchLoop(
   if (queryIntent === 'follow_up') {
     const recentHistory = conversationHistory.slice(-6);
 
-    const followUpResponse = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
+    const { client, model } = getLLM('chat');
+    const followUpResponse = await client.chat.completions.create({
+      model,
       temperature: 0.7,
       max_tokens: 800,
       messages: [
@@ -430,8 +432,10 @@ export async function runResearchLoop(
   const researchSteps: ResearchStep[] = [];
   const toolsUsed: Set<string> = new Set();
 
+  const research = getLLM('research');
+
   // Detect domain and get system prompt
-  const domain = await detectDomainHybrid(query, openai);
+  const domain = await detectDomainHybrid(query);
   const today = new Date().toLocaleDateString();
   const systemPrompt = getResearchSystemPrompt(domain, today);
 
@@ -451,8 +455,8 @@ export async function runResearchLoop(
   while (iteration < MAX_RESEARCH_ITERATIONS && !isComplete) {
     iteration++;
 
-    const completion = await openai.chat.completions.create({
-      model: RESEARCH_MODEL,
+    const completion = await research.client.chat.completions.create({
+      model: research.model,
       temperature: 0.3,
       max_tokens: 1500,
       messages,
@@ -495,7 +499,7 @@ export async function runResearchLoop(
 
       switch (toolName) {
         case 'search_brain':
-          toolResult = await handleSearchBrain(args.query, args.categories, citationTracker);
+          toolResult = await handleSearchBrain(args.query, args.categories, args.tags, citationTracker);
           break;
         case 'search_web':
           toolResult = await handleSearchWeb(args.query, args.focus, citationTracker);
@@ -578,8 +582,8 @@ export async function runResearchLoop(
     content: 'Based on all the research gathered, please provide your comprehensive answer now. Remember to cite your sources using [1], [2], etc.',
   });
 
-  const finalCompletion = await openai.chat.completions.create({
-    model: RESEARCH_MODEL,
+  const finalCompletion = await research.client.chat.completions.create({
+    model: research.model,
     temperature: 0.5,
     max_tokens: 2000,
     messages,
@@ -1,6 +1,6 @@
 // Dynamic expert personas for research agent
 
-import OpenAI from 'openai';
+import { getLLM } from '@/lib/llm';
 
 export type ExpertDomain = 'tech' | 'business' | 'investment' | 'personal' | 'research';
 export type QueryIntent = 'casual' | 'follow_up' | 'research';
@@ -127,13 +127,11 @@ You're thorough but concise, always backing claims with evidence.`,
 /**
  * Detect the appropriate domain based on the query
  */
-export async function detectDomain(
-  query: string,
-  openai: OpenAI
-): Promise<ExpertDomain> {
+export async function detectDomain(query: string): Promise<ExpertDomain> {
   try {
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
+    const { client, model } = getLLM('classification');
+    const response = await client.chat.completions.create({
+      model,
       temperature: 0,
       max_tokens: 20,
       messages: [
@@ -236,10 +234,7 @@ export function detectDomainFromKeywords(query: string): ExpertDomain | null {
 /**
  * Hybrid domain detection - try keywords first, fall back to AI
  */
-export async function detectDomainHybrid(
-  query: string,
-  openai: OpenAI
-): Promise<ExpertDomain> {
+export async function detectDomainHybrid(query: string): Promise<ExpertDomain> {
   // Try fast keyword detection first
   const keywordDomain = detectDomainFromKeywords(query);
   if (keywordDomain) {
@@ -247,7 +242,7 @@ export async function detectDomainHybrid(
   }
 
   // Fall back to AI detection
-  return detectDomain(query, openai);
+  return detectDomain(query);
 }
 
 /**
@@ -9,13 +9,52 @@ export type IdeaMaturity = 'Spark' | 'Developing' | 'Actionable';
 export type ReadingStatus = 'Unread' | 'Read';
 
 // API Response types
+// One entry created by a capture (compound input is split into several)
+export interface CaptureItem {
+  category: string; // Category name ('Project'), built-in or user-defined
+  confidence: number;
+  needs_review?: boolean; // Below the confidence threshold — waiting in the review inbox
+  page_id?: string;
+  title?: string;
+  text: string; // The part of the input this entry came from
+  due_date?: string; // Resolved from the text ("next Friday 3pm") or the reminder picker
+  people?: PersonRef[]; // People entries the text mentioned, already linked
+  new_people?: MentionedPerson[]; // Mentioned names with no People entry yet — offered for creation
+  tags?: string[]; // Existing tags the classifier applied
+  suggested_tags?: string[]; // New tag names the classifier proposed — applied only if accepted
+  duplicate_of?: DuplicateMatch; // Likely repeat of an open entry — offered as a merge
+}
+
+export interface PersonRef {
+  id: string;
+  name: string;
+  company?: string;
+}
+
+export interface MentionedPerson {
+  name: string;
+  company?: string;
+}
+
+export interface DuplicateMatch {
+  id: string;
+  title: string;
+  category: string;
+  similarity: number;
+}
+
 export interface CaptureResponse {
   status: 'captured' | 'needs_clarification' | 'error';
-  category?: Category;
+  category?: string; // First item, for single-entry clients
   confidence?: number;
+  needs_review?: boolean;
   page_id?: string;
+  due_date?: string;
+  timezone?: string; // Timezone due dates were resolved in
+  items?: CaptureItem[];
   needs_clarification?: boolean;
   entry?: Record<string, unknown>;
+  transcript?: string; // Voice captures: what Whisper heard
   error?: string;
 }
 
@@ -23,6 +62,7 @@ export interface UpdateResponse {
   status: 'updated' | 'error';
   page_id?: string;
   updates_applied?: string[];
+  next_occurrence?: { page_id: string; due_date: string | null };
   error?: string;
 }
 
@@ -39,6 +79,7 @@ export interface SearchResult {
   relevanceScore?: number;
   relatedTo?: string[];
   source?: string;
+  tags?: string[];
 }
 
 export interface ParsedQueryFilters {
@@ -46,6 +87,7 @@ export interface ParsedQueryFilters {
   statuses?: string[];
   dateRange?: { start?: string; end?: string };
   priority?: string[];
+  tags?: string[]; // Results must carry all of these
   hasRelation?: string;
 }
 
@@ -84,9 +126,12 @@ export interface SavedSearch {
 export interface Entry {
   id: string;
   title: string;
+  category?: string; // Category name ('Project'), from /api/entries
   status: string;
   priority?: string;
   due_date?: string;
+  recurrence?: string;
+  source?: string; // Where it was captured: 'web', 'telegram', 'agent', 'research' or 'import'
   created?: string;
   url?: string;
   notes?: string;
@@ -97,6 +142,90 @@ export interface Entry {
   // Ideas-specific fields
   one_liner?: string;
   maturity?: string;
+  // Projects-specific fields
+  subtasks_done?: number;
+  subtasks_total?: number;
+  tags?: string[];
+}
+
+// Filters and paging for /api/entries; lists match any of their values, tags must all match
+export interface EntryQuery {
+  database?: string[];
+  status?: string[];
+  priority?: string[];
+  source?: string[];
+  tags?: string[];
+  due_after?: string; // Ranges are [after, before): dates or ISO timestamps
+  due_before?: string;
+  created_after?: string;
+  created_before?: string;
+  updated_after?: string;
+  updated_before?: string;
+  has_relation?: boolean;
+  sort?: 'created_at' | 'updated_at' | 'title';
+  order?: 'asc' | 'desc';
+  limit?: number; // 1–100, default 50
+  cursor?: string; // nextCursor of the previous page
+}
+
+export interface EntryPage {
+  items: Entry[];
+  total: number; // Matching entries across all pages
+  nextCursor: string | null;
+}
+
+export interface SubtaskInfo {
+  id: string;
+  text: string;
+  done: boolean;
+  entry_id?: string; // Linked entry (Admin task) rather than a checklist line
+  status?: string;
+  due_date?: string;
+}
+
+export interface SubtasksResponse {
+  status: 'success' | 'error';
+  entry_id?: string;
+  project_status?: string;
+  next_action?: string;
+  progress?: { done: number; total: number };
+  subtasks?: SubtaskInfo[];
+  error?: string;
+}
+
+export interface TagsResponse {
+  status: 'success' | 'error';
+  entry_id?: string;
+  tags?: string[];
+  error?: string;
+}
+
+export interface TagCount {
+  name: string;
+  count: number;
+}
+
+// One action applied to a selection of entries (/api/bulk)
+export type BulkAction =
+  | { type: 'status'; status: string }
+  | { type: 'priority'; priority: 'High' | 'Medium' | 'Low' | null }
+  | { type: 'archive' }
+  | { type: 'recategorize'; category: string }
+  | { type: 'snooze'; due_date: string | null }
+  | { type: 'tag'; tag: string };
+
+export interface BulkItemResult {
+  id: string;
+  result: 'updated' | 'skipped' | 'failed';
+  reason?: string;
+}
+
+export interface BulkResponse {
+  status: 'success' | 'error';
+  batch_id?: string;
+  updated?: number;
+  results?: BulkItemResult[];
+  error?: string;
 }
 
 // Detailed Entry types
@@ -152,13 +281,93 @@ export interface IdeaEntry extends BaseEntry {
 
 export type DetailedEntry = AdminEntry | ProjectEntry | PeopleEntry | IdeaEntry;
 
+// Version history for an entry (snapshot of the state before each change)
+export interface EntryRevision {
+  id: string;
+  action: 'updated' | 'recategorized' | 'archived' | 'restored' | 'merged';
+  changed_fields: string[];
+  created_time: string;
+  title: string;
+  status?: string | null;
+  priority?: string | null;
+  category: string;
+  due_date?: string;
+  notes?: string;
+  archived: boolean;
+}
+
+// Original file kept with an entry (photo, PDF, voice note)
+export interface EntryAttachment {
+  id: string;
+  kind: 'image' | 'pdf' | 'audio' | 'file';
+  file_name: string;
+  mime_type: string;
+  size: number;
+  description: string | null;
+  processed_time: string | null;
+  created_time: string;
+  url: string;
+}
+
+export interface AttachmentsResponse {
+  status: 'success' | 'deleted' | 'error';
+  attachments?: EntryAttachment[];
+  attachment?: EntryAttachment;
+  error?: string;
+}
+
+export interface TrashItem {
+  id: string;
+  title: string;
+  category: string;
+  status: string;
+  archived_at: string;
+  purge_at: string;
+}
+
+export interface ReviewInboxItem {
+  id: string;
+  raw_input: string;
+  category: string;
+  confidence: number;
+  created_time: string;
+  entry_id: string | null;
+  entry_title: string | null;
+}
+
+export interface ClassifierAccuracy {
+  processed: number;
+  fixed: number;
+  needsReview: number;
+  ignored: number;
+  accuracy: number | null;
+}
+
+export interface CategoryInfo {
+  name: string;
+  db_name: string;
+  description: string;
+  statuses: string[];
+  default_status: string;
+  done_status: string | null;
+  icon: string;
+  gradient: string;
+  title_field: string;
+  fields: Array<{ key: string; content_key: string; description: string }>;
+  default_content: Record<string, string>;
+  default_priority: string | null;
+}
+
 // UI State types
+export interface ConfirmationItem extends CaptureItem {
+  undone?: boolean; // Removed from the confirm card (entry moved to trash)
+  merged?: boolean; // Folded into its duplicate_of entry
+}
+
 export interface ConfirmationState {
   show: boolean;
   text: string;
-  category: Category;
-  confidence: number;
-  page_id?: string;
+  items: ConfirmationItem[];
 }
 
 // Google Calendar types
@@ -296,7 +505,7 @@ export interface WeeklyDigestResponse {
 export type DigestResponse = DailyDigestResponse | WeeklyDigestResponse;
 
 // URL Processing types
-export type UrlType = 'youtube' | 'twitter' | 'article' | 'generic';
+export type UrlType = 'youtube' | 'twitter' | 'article' | 'generic' | 'document';
 export type Complexity = 'Beginner' | 'Intermediate' | 'Advanced';
 
 // Main idea structure with details
@@ -335,6 +544,9 @@ export interface UrlProcessResult {
   readTime?: string;
   page_id?: string;
   error?: string;
+  // Documents (PDF / text / Markdown)
+  file_name?: string;
+  page_count?: number;
   // Core summary
   one_liner: string;
   tldr?: string;
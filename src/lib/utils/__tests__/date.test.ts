@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { formatRelativeDate } from '../date';
+import { formatRelativeDate, localDateInTimezone, timezoneOffset, resolveDueDate } from '../date';
 
 describe('formatRelativeDate', () => {
   const FIXED_NOW = new Date('2025-06-15T12:00:00Z');
@@ -53,3 +53,30 @@ describe('formatRelativeDate', () => {
     expect(result).toBe('Apr 16');
   });
 });
+
+describe('timezone due dates', () => {
+  it('reads the local date in a timezone', () => {
+    const instant = new Date('2025-06-15T02:00:00Z');
+    expect(localDateInTimezone('America/New_York', instant)).toBe('2025-06-14');
+    expect(localDateInTimezone('Europe/Berlin', instant)).toBe('2025-06-15');
+  });
+
+  it('uses the offset in effect on the due day', () => {
+    expect(timezoneOffset('America/New_York', new Date('2025-01-15T12:00:00Z'))).toBe('-05:00');
+    expect(timezoneOffset('America/New_York', new Date('2025-07-15T12:00:00Z'))).toBe('-04:00');
+    expect(timezoneOffset('Asia/Kolkata', new Date('2025-07-15T12:00:00Z'))).toBe('+05:30');
+    expect(timezoneOffset('UTC')).toBe('+00:00');
+  });
+
+  it('resolves timed due dates with an offset and keeps date-only ones plain', () => {
+    expect(resolveDueDate('2025-07-18', '15:00', 'America/New_York')).toBe('2025-07-18T15:00:00-04:00');
+    expect(resolveDueDate('2025-07-18', undefined, 'America/New_York')).toBe('2025-07-18');
+    expect(resolveDueDate('2025-07-18', '3pm', 'America/New_York')).toBe('2025-07-18');
+  });
+
+  it('rejects malformed or impossible dates', () => {
+    expect(resolveDueDate('next friday', undefined, 'UTC')).toBeNull();
+    expect(resolveDueDate('2025-02-30', undefined, 'UTC')).toBeNull();
+    expect(resolveDueDate(undefined, '15:00', 'UTC')).toBeNull();
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseRRule,
+  normalizeRecurrence,
+  nextOccurrence,
+  firstOccurrence,
+  describeRecurrence,
+} from '../rrule';
+
+// 2025-01-13 is a Monday
+const MONDAY = '2025-01-13';
+
+describe('parseRRule', () => {
+  it('parses the supported parts', () => {
+    expect(parseRRule('RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=-1FR;COUNT=3')).toEqual({
+      freq: 'MONTHLY',
+      interval: 2,
+      byDay: [{ weekday: 5, ordinal: -1 }],
+      byMonthDay: [],
+      count: 3,
+    });
+  });
+
+  it('rejects unknown or unsupported rules', () => {
+    expect(parseRRule('')).toBeNull();
+    expect(parseRRule('INTERVAL=2')).toBeNull();
+    expect(parseRRule('FREQ=HOURLY')).toBeNull();
+    expect(parseRRule('FREQ=WEEKLY;BYSETPOS=1')).toBeNull();
+    expect(parseRRule('FREQ=WEEKLY;BYDAY=1MO')).toBeNull();
+  });
+});
+
+describe('normalizeRecurrence', () => {
+  it('expands presets and canonicalises RRULE text', () => {
+    expect(normalizeRecurrence('Weekly')).toBe('FREQ=WEEKLY');
+    expect(normalizeRecurrence('weekdays')).toBe('FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR');
+    expect(normalizeRecurrence('rrule:freq=weekly;byday=mo;until=2025-06-30')).toBe('FREQ=WEEKLY;BYDAY=MO;UNTIL=20250630');
+    expect(normalizeRecurrence('every so often')).toBeNull();
+  });
+});
+
+describe('nextOccurrence', () => {
+  it('steps daily and weekly rules from the anchor', () => {
+    expect(nextOccurrence('FREQ=DAILY;INTERVAL=3', MONDAY, MONDAY)?.dueDate).toBe('2025-01-16');
+    expect(nextOccurrence('FREQ=WEEKLY', MONDAY, MONDAY)?.dueDate).toBe('2025-01-20');
+    expect(nextOccurrence('FREQ=WEEKLY;BYDAY=MO,TH', MONDAY, MONDAY)?.dueDate).toBe('2025-01-16');
+  });
+
+  it('keeps the week interval when several days are listed', () => {
+    // Thursday of an every-other-week Mon/Thu rule jumps to Monday two weeks on
+    expect(nextOccurrence('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH', '2025-01-16', '2025-01-16')?.dueDate).toBe('2025-01-27');
+  });
+
+  it('handles monthly day numbers, ordinals and short months', () => {
+    expect(nextOccurrence('FREQ=MONTHLY', '2025-01-31', '2025-01-31')?.dueDate).toBe('2025-02-28');
+    expect(nextOccurrence('FREQ=MONTHLY;BYMONTHDAY=-1', '2025-01-31', '2025-01-31')?.dueDate).toBe('2025-02-28');
+    expect(nextOccurrence('FREQ=MONTHLY;BYDAY=1MO', MONDAY, MONDAY)?.dueDate).toBe('2025-02-03');
+    expect(nextOccurrence('FREQ=MONTHLY;BYDAY=-1FR', '2025-01-31', '2025-01-31')?.dueDate).toBe('2025-02-28');
+  });
+
+  it('skips occurrences that are already in the past', () => {
+    expect(nextOccurrence('FREQ=WEEKLY', MONDAY, '2025-02-05')?.dueDate).toBe('2025-02-10');
+  });
+
+  it('decrements COUNT and stops at the end of the series', () => {
+    expect(nextOccurrence('FREQ=DAILY;COUNT=3', MONDAY, MONDAY)).toEqual({ dueDate: '2025-01-14', rule: 'FREQ=DAILY;COUNT=2' });
+    expect(nextOccurrence('FREQ=DAILY;COUNT=1', MONDAY, MONDAY)).toBeNull();
+    expect(nextOccurrence('FREQ=WEEKLY;UNTIL=20250119', MONDAY, MONDAY)).toBeNull();
+  });
+
+  it('rolls yearly rules over leap days', () => {
+    expect(nextOccurrence('FREQ=YEARLY', '2024-02-29', '2024-02-29')?.dueDate).toBe('2025-02-28');
+  });
+});
+
+describe('firstOccurrence', () => {
+  it('starts on the given day when it fits', () => {
+    expect(firstOccurrence('FREQ=WEEKLY;BYDAY=MO', MONDAY)).toBe(MONDAY);
+    expect(firstOccurrence('FREQ=DAILY', '2025-01-15')).toBe('2025-01-15');
+  });
+
+  it('moves forward to the first matching day', () => {
+    expect(firstOccurrence('FREQ=WEEKLY;BYDAY=FR', MONDAY)).toBe('2025-01-17');
+    expect(firstOccurrence('FREQ=MONTHLY;BYMONTHDAY=1', MONDAY)).toBe('2025-02-01');
+  });
+});
+
+describe('describeRecurrence', () => {
+  it('summarises rules for display', () => {
+    expect(describeRecurrence('FREQ=DAILY')).toBe('Daily');
+    expect(describeRecurrence('FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR')).toBe('Every weekday');
+    expect(describeRecurrence('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH')).toBe('Every 2 weeks on Mon, Thu');
+    expect(describeRecurrence('FREQ=MONTHLY;BYDAY=-1FR')).toBe('Monthly on the last Fri');
+    expect(describeRecurrence('FREQ=MONTHLY;BYMONTHDAY=15;COUNT=4')).toBe('Monthly on day 15 (4 left)');
+  });
+});
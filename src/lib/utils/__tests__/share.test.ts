@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { parseSharedContent } from '../share';
+
+describe('parseSharedContent', () => {
+  it('uses the url field when present', () => {
+    expect(parseSharedContent({ title: 'Post', url: 'https://example.com/a' }))
+      .toEqual({ kind: 'url', url: 'https://example.com/a' });
+  });
+
+  it('finds a link inside shared text', () => {
+    expect(parseSharedContent({ text: 'Great read https://example.com/post?x=1 via app' }))
+      .toEqual({ kind: 'url', url: 'https://example.com/post?x=1' });
+  });
+
+  it('captures plain text, keeping a distinct title', () => {
+    expect(parseSharedContent({ title: 'Groceries', text: 'eggs, milk' }))
+      .toEqual({ kind: 'text', text: 'Groceries\neggs, milk' });
+    expect(parseSharedContent({ title: 'Call mum', text: 'Call mum tonight' }))
+      .toEqual({ kind: 'text', text: 'Call mum tonight' });
+  });
+
+  it('returns null for an empty share', () => {
+    expect(parseSharedContent({ title: ' ', text: null, url: '' })).toBeNull();
+  });
+});
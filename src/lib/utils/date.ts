@@ -17,3 +17,37 @@ export function formatRelativeDate(dateStr?: string): string {
   if (diffDays < 30) return `${Math.floor(diffDays / 7)}w ago`;
   return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
 }
+
+// ============= Timezone-aware due dates =============
+
+/** Today's date (YYYY-MM-DD) in an IANA timezone */
+export function localDateInTimezone(timeZone: string, now: Date = new Date()): string {
+  return new Intl.DateTimeFormat('en-CA', { timeZone }).format(now);
+}
+
+/** UTC offset of a timezone at an instant, e.g. '-05:00' */
+export function timezoneOffset(timeZone: string, at: Date = new Date()): string {
+  const name = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'longOffset' })
+    .formatToParts(at)
+    .find(p => p.type === 'timeZoneName')?.value || 'GMT';
+  const match = name.match(/GMT([+-]\d{2}):?(\d{2})?/);
+  return match ? `${match[1]}:${match[2] || '00'}` : '+00:00';
+}
+
+/**
+ * Turn a date (YYYY-MM-DD) and optional wall-clock time (HH:MM) in the
+ * user's timezone into a dueDate value. Date-only due dates stay plain
+ * dates; timed ones get the timezone's offset on that day. Null if invalid.
+ */
+export function resolveDueDate(date: string | undefined, time: string | undefined, timeZone: string): string | null {
+  if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) return null;
+  const [year, month, day] = date.split('-').map(Number);
+  const parsed = new Date(Date.UTC(year, month - 1, day));
+  if (parsed.getUTCMonth() !== month - 1 || parsed.getUTCDate() !== day) return null;
+
+  if (!time || !/^([01]\d|2[0-3]):[0-5]\d$/.test(time)) return date;
+
+  const [hours, minutes] = time.split(':').map(Number);
+  const offset = timezoneOffset(timeZone, new Date(Date.UTC(year, month - 1, day, hours, minutes)));
+  return `${date}T${time}:00${offset}`;
+}
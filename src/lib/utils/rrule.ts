@@ -0,0 +1,293 @@
+// Recurrence rules for repeating entries
+// A pragmatic subset of RFC 5545 RRULE (FREQ, INTERVAL, BYDAY, BYMONTHDAY,
+// COUNT, UNTIL) working on date-only YYYY-MM-DD strings in UTC.
+
+export type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface WeekdayRule {
+  weekday: number; // 0 = Sunday … 6 = Saturday
+  ordinal?: number; // MONTHLY only: 1 = first, -1 = last
+}
+
+export interface RecurrenceRule {
+  freq: Frequency;
+  interval: number;
+  byDay: WeekdayRule[];
+  byMonthDay: number[]; // negative counts back from the end of the month
+  count?: number; // occurrences left, including the current one
+  until?: string; // YYYY-MM-DD, inclusive
+}
+
+/** Friendly names accepted anywhere a rule is */
+export const RECURRENCE_PRESETS: Record<string, string> = {
+  daily: 'FREQ=DAILY',
+  weekdays: 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR',
+  weekly: 'FREQ=WEEKLY',
+  biweekly: 'FREQ=WEEKLY;INTERVAL=2',
+  monthly: 'FREQ=MONTHLY',
+  yearly: 'FREQ=YEARLY',
+};
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const ORDINAL_NAMES: Record<number, string> = { 1: 'first', 2: 'second', 3: 'third', 4: 'fourth', [-1]: 'last' };
+const FREQUENCIES: Frequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Longest gap between two occurrences we search for (Feb 29 every N years)
+const MAX_SCAN_YEARS = 8;
+
+// ============= Parse / format =============
+
+/** Parse an RRULE string (with or without the "RRULE:" prefix). Null if invalid or unsupported. */
+export function parseRRule(input: string): RecurrenceRule | null {
+  const text = input.trim().replace(/^RRULE:/i, '');
+  if (!text) return null;
+
+  const rule: RecurrenceRule = { freq: 'DAILY', interval: 1, byDay: [], byMonthDay: [] };
+  let hasFreq = false;
+
+  for (const part of text.split(';')) {
+    const [rawKey, value] = part.split('=');
+    const key = rawKey?.trim().toUpperCase();
+    if (!key || value === undefined) return null;
+    const upper = value.trim().toUpperCase();
+
+    switch (key) {
+      case 'FREQ':
+        if (!FREQUENCIES.includes(upper as Frequency)) return null;
+        rule.freq = upper as Frequency;
+        hasFreq = true;
+        break;
+      case 'INTERVAL':
+        rule.interval = Number(upper);
+        if (!Number.isInteger(rule.interval) || rule.interval < 1) return null;
+        break;
+      case 'BYDAY':
+        for (const code of upper.split(',')) {
+          const match = code.match(/^([+-]?\d)?(SU|MO|TU|WE|TH|FR|SA)$/);
+          if (!match) return null;
+          const ordinal = match[1] ? Number(match[1]) : undefined;
+          if (ordinal !== undefined && (ordinal === 0 || ordinal < -1 || ordinal > 4)) return null;
+          rule.byDay.push({ weekday: WEEKDAY_CODES.indexOf(match[2]), ordinal });
+        }
+        break;
+      case 'BYMONTHDAY':
+        for (const day of upper.split(',')) {
+          const n = Number(day);
+          if (!Number.isInteger(n) || n === 0 || n < -31 || n > 31) return null;
+          rule.byMonthDay.push(n);
+        }
+        break;
+      case 'COUNT':
+        rule.count = Number(upper);
+        if (!Number.isInteger(rule.count) || rule.count < 1) return null;
+        break;
+      case 'UNTIL': {
+        const match = upper.match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+        if (!match) return null;
+        rule.until = `${match[1]}-${match[2]}-${match[3]}`;
+        break;
+      }
+      case 'WKST':
+        // Weeks always start on Monday here
+        if (upper !== 'MO') return null;
+        break;
+      default:
+        return null;
+    }
+  }
+
+  if (!hasFreq) return null;
+  // Ordinals ("last Friday") only make sense within a month
+  if (rule.freq !== 'MONTHLY' && rule.byDay.some(d => d.ordinal !== undefined)) return null;
+  if (rule.freq !== 'MONTHLY' && rule.byMonthDay.length > 0) return null;
+  return rule;
+}
+
+/** Canonical RRULE text (no prefix) for a parsed rule */
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay.length > 0) {
+    parts.push(`BYDAY=${rule.byDay.map(d => `${d.ordinal ?? ''}${WEEKDAY_CODES[d.weekday]}`).join(',')}`);
+  }
+  if (rule.byMonthDay.length > 0) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  return parts.join(';');
+}
+
+/**
+ * Accept a preset name ("weekly") or an RRULE and return canonical RRULE
+ * text, or null when it can't be understood.
+ */
+export function normalizeRecurrence(input: string): string | null {
+  const preset = RECURRENCE_PRESETS[input.trim().toLowerCase()];
+  const rule = parseRRule(preset || input);
+  return rule ? formatRRule(rule) : null;
+}
+
+// ============= Occurrences =============
+
+function toDay(date: string): number {
+  return Math.floor(Date.parse(`${date.slice(0, 10)}T00:00:00Z`) / DAY_MS);
+}
+
+function fromDay(day: number): string {
+  return new Date(day * DAY_MS).toISOString().split('T')[0];
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+// Monday-based week number since the epoch (1970-01-01 was a Thursday)
+function weekNumber(day: number): number {
+  return Math.floor((day + 3) / 7);
+}
+
+function matches(rule: RecurrenceRule, anchorDay: number, day: number): boolean {
+  const anchor = new Date(anchorDay * DAY_MS);
+  const date = new Date(day * DAY_MS);
+  const weekday = date.getUTCDay();
+  const monthDay = date.getUTCDate();
+  const monthLength = daysInMonth(date.getUTCFullYear(), date.getUTCMonth());
+  const onByDay = rule.byDay.length === 0 || rule.byDay.some(d => d.weekday === weekday && d.ordinal === undefined);
+
+  switch (rule.freq) {
+    case 'DAILY':
+      return (day - anchorDay) % rule.interval === 0 && onByDay;
+
+    case 'WEEKLY': {
+      if ((weekNumber(day) - weekNumber(anchorDay)) % rule.interval !== 0) return false;
+      return rule.byDay.length > 0 ? onByDay : weekday === anchor.getUTCDay();
+    }
+
+    case 'MONTHLY': {
+      const months = (date.getUTCFullYear() - anchor.getUTCFullYear()) * 12 + date.getUTCMonth() - anchor.getUTCMonth();
+      if (months % rule.interval !== 0) return false;
+
+      if (rule.byMonthDay.length > 0) {
+        return rule.byMonthDay.some(n => (n > 0 ? n : monthLength + n + 1) === monthDay);
+      }
+      if (rule.byDay.length > 0) {
+        return rule.byDay.some(d => {
+          if (d.weekday !== weekday) return false;
+          if (d.ordinal === undefined) return true;
+          return d.ordinal > 0
+            ? Math.ceil(monthDay / 7) === d.ordinal
+            : monthDay + 7 > monthLength;
+        });
+      }
+      // Same day as the anchor, clamped to short months
+      return monthDay === Math.min(anchor.getUTCDate(), monthLength);
+    }
+
+    case 'YEARLY': {
+      const years = date.getUTCFullYear() - anchor.getUTCFullYear();
+      if (years % rule.interval !== 0 || date.getUTCMonth() !== anchor.getUTCMonth()) return false;
+      return monthDay === Math.min(anchor.getUTCDate(), monthLength);
+    }
+  }
+}
+
+/**
+ * The occurrence after `anchor` (the current due date), skipping any that
+ * are already in the past relative to `today`. Returns the next due date and
+ * the rule to carry forward (COUNT decremented), or null when the series
+ * has ended or the rule is invalid.
+ */
+export function nextOccurrence(
+  ruleText: string,
+  anchor: string,
+  today: string = new Date().toISOString().split('T')[0]
+): { dueDate: string; rule: string } | null {
+  const rule = parseRRule(ruleText);
+  if (!rule) return null;
+  if (rule.count !== undefined && rule.count <= 1) return null;
+
+  const anchorDay = toDay(anchor);
+  const floor = Math.max(anchorDay, toDay(today));
+  const limit = floor + rule.interval * MAX_SCAN_YEARS * 366;
+
+  for (let day = anchorDay + 1; day <= limit; day++) {
+    if (day <= floor || !matches(rule, anchorDay, day)) continue;
+
+    const dueDate = fromDay(day);
+    if (rule.until && dueDate > rule.until) return null;
+
+    const next = rule.count !== undefined ? { ...rule, count: rule.count - 1 } : rule;
+    return { dueDate, rule: formatRRule(next) };
+  }
+  return null;
+}
+
+/**
+ * First due date for a newly captured recurring entry: `from` itself when it
+ * fits the rule, otherwise the next matching day.
+ */
+export function firstOccurrence(ruleText: string, from: string): string | null {
+  const rule = parseRRule(ruleText);
+  if (!rule) return null;
+
+  // Rules without explicit days anchor on `from`, so it always fits
+  const fromDayNumber = toDay(from);
+  const hasExplicitDays = rule.byDay.length > 0 || rule.byMonthDay.length > 0;
+  if (!hasExplicitDays || matches(rule, fromDayNumber, fromDayNumber)) return from.slice(0, 10);
+
+  for (let day = fromDayNumber + 1; day <= fromDayNumber + 366; day++) {
+    if (matches({ ...rule, interval: 1 }, fromDayNumber, day)) return fromDay(day);
+  }
+  return null;
+}
+
+// ============= Display =============
+
+function plural(n: number, unit: string): string {
+  return n === 1 ? unit : `${n} ${unit}s`;
+}
+
+/** Short human description, e.g. "Every 2 weeks on Mon, Thu" */
+export function describeRecurrence(ruleText: string): string {
+  const rule = parseRRule(ruleText);
+  if (!rule) return 'Repeats';
+
+  const days = rule.byDay.map(d => (d.ordinal !== undefined
+    ? `${ORDINAL_NAMES[d.ordinal]} ${WEEKDAY_NAMES[d.weekday]}`
+    : WEEKDAY_NAMES[d.weekday]));
+  const isWeekdays = days.join(',') === 'Mon,Tue,Wed,Thu,Fri';
+
+  let text: string;
+  switch (rule.freq) {
+    case 'DAILY':
+    case 'WEEKLY':
+      if (isWeekdays && rule.interval === 1) {
+        text = 'Every weekday';
+        break;
+      }
+      if (rule.freq === 'DAILY') {
+        text = rule.interval === 1 ? 'Daily' : `Every ${plural(rule.interval, 'day')}`;
+        if (days.length > 0) text += ` on ${days.join(', ')}`;
+        break;
+      }
+      text = rule.interval === 1 ? 'Weekly' : `Every ${plural(rule.interval, 'week')}`;
+      if (days.length > 0) text += ` on ${days.join(', ')}`;
+      break;
+    case 'MONTHLY':
+      text = rule.interval === 1 ? 'Monthly' : `Every ${plural(rule.interval, 'month')}`;
+      if (rule.byMonthDay.length > 0) {
+        text += ` on ${rule.byMonthDay.map(n => (n === -1 ? 'the last day' : `day ${n}`)).join(', ')}`;
+      } else if (days.length > 0) {
+        text += ` on the ${days.join(', ')}`;
+      }
+      break;
+    case 'YEARLY':
+      text = rule.interval === 1 ? 'Yearly' : `Every ${plural(rule.interval, 'year')}`;
+      break;
+  }
+
+  if (rule.until) text += ` until ${rule.until}`;
+  else if (rule.count !== undefined) text += ` (${rule.count} left)`;
+  return text;
+}
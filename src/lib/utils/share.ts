@@ -0,0 +1,25 @@
+// Web Share Target payloads (manifest share_target → POST /share)
+// Android puts links in `url`, `text` or both (often "Page title https://..."),
+// so the first URL anywhere in the share wins over plain text
+
+const URL_REGEX = /https?:\/\/[^\s]+/;
+
+export type SharedContent =
+  | { kind: 'url'; url: string }
+  | { kind: 'text'; text: string };
+
+/** What a share should become: a link to summarize, text to capture, or nothing */
+export function parseSharedContent(fields: { title?: string | null; text?: string | null; url?: string | null }): SharedContent | null {
+  const title = fields.title?.trim() || '';
+  const text = fields.text?.trim() || '';
+  const url = fields.url?.trim() || '';
+
+  const link = url.match(URL_REGEX)?.[0] || text.match(URL_REGEX)?.[0];
+  if (link) {
+    return { kind: 'url', url: link };
+  }
+
+  // Some apps send only a title (e.g. a note's name); prefix it when both are present
+  const combined = title && text && !text.startsWith(title) ? `${title}\n${text}` : text || title;
+  return combined ? { kind: 'text', text: combined } : null;
+}
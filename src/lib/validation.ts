@@ -1,10 +1,15 @@
 import { z } from 'zod';
+import { BUILTIN_CATEGORIES, PRIORITY_OPTIONS, CAPTURE_SOURCES } from '@/config/categories';
+import { CATEGORY_GRADIENT_PRESETS } from '@/config/ui';
 
 export const captureSchema = z.object({
   text: z.string().min(1, 'Text is required').max(5000, 'Text too long (max 5000 chars)'),
   reminderDate: z.string().regex(/^\d{4}-\d{2}-\d{2}/, 'Invalid date format').optional(),
 });
 
+// Form fields sent with a voice recording (the audio itself is the multipart `audio` file)
+export const voiceCaptureSchema = captureSchema.pick({ reminderDate: true });
+
 export const updateSchema = z.object({
   page_id: z.string().min(1, 'Entry ID is required'),
   database: z.string().min(1),
@@ -23,13 +28,153 @@ export const searchSchema = z.object({
   summarize: z.boolean().optional(),
 });
 
-export const recategorizeSchema = z.object({
-  page_id: z.string().min(1, 'Entry ID is required'),
-  current_category: z.string().optional(),
-  new_category: z.enum(['People', 'Project', 'Idea', 'Admin', 'Reading'], {
-    error: 'Category must be People, Project, Idea, Admin, or Reading',
-  }),
-  raw_text: z.string().min(1, 'Raw text is required'),
+// Date or timestamp bound of an /api/entries range
+const dateBound = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}/, 'Invalid date format')
+  .refine(value => !isNaN(Date.parse(value)), 'Invalid date')
+  .optional();
+
+// Query string of /api/entries; list params arrive comma-separated or repeated
+export const entriesQuerySchema = z.object({
+  database: z.array(z.string().min(1)).default([]),
+  status: z.array(z.string().min(1)).default([]),
+  priority: z.array(z.enum(PRIORITY_OPTIONS, 'Unknown priority')).default([]),
+  source: z.array(z.enum(CAPTURE_SOURCES, 'Unknown source')).default([]),
+  tags: z.array(z.string()).default([]),
+  due_after: dateBound,
+  due_before: dateBound,
+  created_after: dateBound,
+  created_before: dateBound,
+  updated_after: dateBound,
+  updated_before: dateBound,
+  has_relation: z.enum(['true', 'false'], 'has_relation must be true or false').optional(),
+  sort: z.enum(['created_at', 'updated_at', 'title'], 'Unknown sort').default('created_at'),
+  order: z.enum(['asc', 'desc'], 'order must be asc or desc').default('desc'),
+  limit: z.coerce.number().int().min(1, 'limit must be at least 1').max(100, 'limit must be at most 100').default(50),
+  cursor: z.string().min(1).optional(),
+});
+
+/** Recategorize schema for a given set of category names (from the categories table) */
+export function buildRecategorizeSchema(categoryNames: string[]) {
+  return z.object({
+    page_id: z.string().min(1, 'Entry ID is required'),
+    current_category: z.string().optional(),
+    new_category: z.string().refine(name => categoryNames.includes(name), {
+      message: `Category must be ${categoryNames.slice(0, -1).join(', ')}, or ${categoryNames[categoryNames.length - 1]}`,
+    }),
+    raw_text: z.string().min(1, 'Raw text is required'),
+  });
+}
+
+export const recategorizeSchema = buildRecategorizeSchema(BUILTIN_CATEGORIES.map(c => c.name));
+
+const categoryFieldSchema = z.object({
+  key: z.string().regex(/^[a-z][a-z0-9_]*$/, 'Field key must be snake_case'),
+  content_key: z.string().regex(/^[a-z][a-zA-Z0-9]*$/, 'Content key must be camelCase'),
+  description: z.string().max(200),
+});
+
+const categoryBaseSchema = z.object({
+  // Names end up in Telegram callback data ("recat:<id>:<name>", 64 bytes max)
+  name: z.string().min(1, 'Name is required').max(20, 'Name too long (max 20 chars)')
+    .regex(/^[A-Za-z][A-Za-z0-9 -]*$/, 'Name may only contain letters, numbers, spaces and dashes'),
+  db_name: z.string().max(30).regex(/^[A-Za-z][A-Za-z0-9 -]*$/, 'Stored name may only contain letters, numbers, spaces and dashes').optional(),
+  description: z.string().min(1, 'Description is required').max(300),
+  statuses: z.array(z.string().min(1).max(30)).min(1, 'At least one status is required').max(10),
+  default_status: z.string().min(1),
+  done_status: z.string().nullable().optional(),
+  icon: z.string().min(1, 'Icon is required').max(8),
+  gradient: z.enum(CATEGORY_GRADIENT_PRESETS),
+  title_field: z.string().regex(/^[a-z][a-z0-9_]*$/).optional(),
+  fields: z.array(categoryFieldSchema).max(10).optional(),
+  default_content: z.record(z.string(), z.string()).optional(),
+  default_priority: z.enum(PRIORITY_OPTIONS).nullable().optional(),
+});
+
+function checkCategoryStatuses(data: z.infer<typeof categoryBaseSchema>, ctx: z.RefinementCtx) {
+  if (!data.statuses.includes(data.default_status)) {
+    ctx.addIssue({ code: 'custom', path: ['default_status'], message: 'Default status must be one of the statuses' });
+  }
+  if (data.done_status && !data.statuses.includes(data.done_status)) {
+    ctx.addIssue({ code: 'custom', path: ['done_status'], message: 'Done status must be one of the statuses' });
+  }
+}
+
+export const categorySchema = categoryBaseSchema.superRefine(checkCategoryStatuses);
+
+export const updateCategorySchema = categoryBaseSchema
+  .extend({ original_name: z.string().min(1, 'Original name is required') })
+  .superRefine(checkCategoryStatuses);
+
+export const deleteCategorySchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+});
+
+export const restoreRevisionSchema = z.object({
+  revision_id: z.string().uuid('Invalid revision ID'),
+});
+
+export const mergeEntrySchema = z.object({
+  into_id: z.string().uuid('Invalid entry ID'),
+});
+
+// Tag names are normalized server-side; this only bounds the input
+export const updateTagsSchema = z.object({
+  tags: z.array(z.string().trim().min(1).max(50)).max(20, 'Too many tags'),
+});
+
+export const addPersonSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  company: z.string().trim().max(100).optional(),
+});
+
+// One action applied to a selection of entries (/api/bulk)
+export const bulkActionSchema = z.object({
+  ids: z.array(z.string().uuid('Invalid entry ID')).min(1, 'Select at least one entry').max(100, 'Too many entries (max 100)'),
+  action: z.discriminatedUnion('type', [
+    z.object({ type: z.literal('status'), status: z.string().min(1, 'Status is required') }),
+    z.object({ type: z.literal('priority'), priority: z.enum(PRIORITY_OPTIONS).nullable() }),
+    z.object({ type: z.literal('archive') }),
+    z.object({ type: z.literal('recategorize'), category: z.string().min(1, 'Category is required') }),
+    z.object({ type: z.literal('snooze'), due_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format').nullable() }),
+    z.object({ type: z.literal('tag'), tag: z.string().trim().min(1, 'Tag is required').max(50) }),
+  ]),
+});
+
+const subtaskText = z.string().trim().min(1, 'Subtask text is required').max(500, 'Subtask text too long');
+
+export const addSubtaskSchema = z.object({
+  text: subtaskText.optional(),
+  entry_id: z.string().uuid('Invalid entry ID').optional(),
+  as_entry: z.boolean().optional(),
+  category: z.string().min(1).optional(),
+}).refine(d => d.text || d.entry_id, { message: 'Subtask text or entry_id is required' });
+
+export const updateSubtaskSchema = z.object({
+  subtask_id: z.string().min(1).optional(),
+  done: z.boolean().optional(),
+  text: subtaskText.optional(),
+  order: z.array(z.string().min(1)).optional(),
+}).refine(
+  d => d.order || (d.subtask_id && (d.done !== undefined || d.text !== undefined)),
+  { message: 'Provide order, or subtask_id with done or text' }
+);
+
+export const deleteSubtaskSchema = z.object({
+  subtask_id: z.string().min(1, 'Subtask ID is required'),
+});
+
+export const trashRetentionSchema = z.object({
+  retention_days: z.number().int('Retention must be whole days').min(1, 'Retention must be at least 1 day').max(365, 'Retention cannot exceed 365 days'),
+});
+
+export const inboxResolveSchema = z.object({
+  id: z.string().min(1, 'Review item ID is required'),
+  action: z.enum(['confirm', 'ignore']),
+});
+
+export const reviewThresholdSchema = z.object({
+  threshold: z.number().min(0, 'Threshold must be between 0 and 1').max(1, 'Threshold must be between 0 and 1'),
 });
 
 export const agentSchema = z.object({
@@ -56,7 +201,7 @@ export const processUrlSchema = z.object({
 
 export const saveReadingSchema = z.object({
   title: z.string().min(1, 'Title is required').max(200),
-  url: z.string().url('Invalid URL format'),
+  url: z.string().url('Invalid URL format').optional(), // Absent for uploaded documents
   oneLiner: z.string().max(500).optional(),
   tldr: z.string().max(5000).optional(),
   category: z.string().max(50).optional(),
@@ -9,6 +9,8 @@ const EXEMPT_ROUTES = [
   '/api/google/callback',
   '/api/telegram/webhook',
   '/api/cron/daily-email',
+  '/api/cron/purge-trash',
+  '/api/cron/reindex-embeddings',
 ];
 
 // AI-heavy routes get stricter rate limits
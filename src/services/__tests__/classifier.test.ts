@@ -0,0 +1,252 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const mockChatCreate = vi.fn();
+vi.mock('openai', () => ({
+  default: class MockOpenAI {
+    chat = { completions: { create: mockChatCreate } };
+  },
+}));
+
+import { buildClassifierPrompt, classifyText, buildCaptureEntry, captureContext, MAX_CAPTURE_ITEMS } from '../classifier';
+import { BUILTIN_CATEGORIES, findCategory, type CategoryDefinition } from '@/config/categories';
+
+const RECIPE: CategoryDefinition = {
+  name: 'Recipe',
+  dbName: 'Recipes',
+  description: 'recipes, dishes to cook, ingredient lists',
+  statuses: ['To Try', 'Cooked'],
+  defaultStatus: 'To Try',
+  doneStatus: 'Cooked',
+  icon: '🍲',
+  gradient: 'from-rose-500 to-red-500',
+  titleField: 'title',
+  fields: [{ key: 'ingredients', contentKey: 'ingredients', description: 'Ingredient list' }],
+  defaultContent: {},
+  defaultPriority: null,
+  sortOrder: 5,
+};
+
+const CATEGORIES = [...BUILTIN_CATEGORIES, RECIPE];
+
+function reply(content: string) {
+  mockChatCreate.mockResolvedValue({ choices: [{ message: { content } }] });
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.stubEnv('OPENAI_API_KEY', 'test-key');
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('buildClassifierPrompt', () => {
+  it('lists every category with its rule and extraction shape', () => {
+    const prompt = buildClassifierPrompt(CATEGORIES);
+
+    expect(prompt).toContain('1. People = names, contacts, networking');
+    expect(prompt).toContain('6. Recipe = recipes, dishes to cook, ingredient lists');
+    expect(prompt).toContain('"category": "People" | "Project" | "Idea" | "Admin" | "Reading" | "Recipe"');
+    expect(prompt).toContain('For Recipe: {"title":"RecipeTitle","ingredients":"Ingredient list"}');
+    expect(prompt).toContain('For Admin: {"task":"AdminTitle","priority":"Medium"}');
+    expect(prompt).toContain('"recurrence"');
+  });
+
+  it('adds past corrections as few-shot examples, skipping unknown categories', () => {
+    const prompt = buildClassifierPrompt(CATEGORIES, [
+      { text: 'Grandma\'s  dal\nrecipe', category: 'recipes' },
+      { text: 'Standup notes', category: 'Meeting' },
+    ]);
+
+    expect(prompt).toContain('PAST CORRECTIONS');
+    expect(prompt).toContain('- "Grandma\'s dal recipe" → Recipe');
+    expect(prompt).not.toContain('Standup notes');
+  });
+
+  it('asks for due dates relative to today in the user timezone', () => {
+    const prompt = buildClassifierPrompt(CATEGORIES, [], captureContext('America/New_York', new Date('2025-07-12T02:00:00Z')));
+
+    expect(prompt).toContain('Today is Friday 2025-07-11 (America/New_York)');
+    expect(prompt).toContain('"due_date"');
+    expect(buildClassifierPrompt(CATEGORIES)).not.toContain('"due_date"');
+  });
+
+  it('omits the corrections section without examples', () => {
+    expect(buildClassifierPrompt(CATEGORIES)).not.toContain('PAST CORRECTIONS');
+  });
+
+  it('steers tag suggestions towards existing tags', () => {
+    const prompt = buildClassifierPrompt(CATEGORIES, [], undefined, ['q3-launch', 'health']);
+
+    expect(prompt).toContain('"tags"');
+    expect(prompt).toContain('Prefer these existing tags when they fit: q3-launch, health');
+    expect(buildClassifierPrompt(CATEGORIES)).not.toContain('Prefer these existing tags');
+  });
+});
+
+describe('classifyText', () => {
+  it('returns the canonical category name', async () => {
+    reply(JSON.stringify({ category: 'recipes', confidence: 0.9, extracted_data: { title: 'Dal' }, reasoning: 'Food' }));
+
+    const [result] = await classifyText('Dal: lentils, cumin', CATEGORIES);
+
+    expect(result).toMatchObject({ category: 'Recipe', confidence: 0.9, extracted_data: { title: 'Dal' }, text: 'Dal: lentils, cumin' });
+  });
+
+  it('falls back to Admin with low confidence for unknown categories', async () => {
+    reply(JSON.stringify({ category: 'Meeting', confidence: 0.95, extracted_data: {}, reasoning: '' }));
+
+    const [result] = await classifyText('Standup notes', CATEGORIES);
+
+    expect(result).toMatchObject({ category: 'Admin', confidence: 0.5 });
+  });
+
+  it('falls back to Admin when the reply is not JSON', async () => {
+    reply('not json');
+
+    const result = await classifyText('Buy milk', CATEGORIES);
+
+    expect(result).toEqual([{
+      category: 'Admin',
+      confidence: 0.5,
+      extracted_data: { task: 'Buy milk' },
+      reasoning: 'Parse error, defaulting to Admin',
+      text: 'Buy milk',
+    }]);
+  });
+
+  it('splits compound input into one result per item', async () => {
+    reply(JSON.stringify({
+      items: [
+        { category: 'People', confidence: 0.8, extracted_data: { name: 'Priya' }, reasoning: '', text: 'call Priya about the contract' },
+        { category: 'Admin', confidence: 0.9, extracted_data: { task: 'Buy printer ink' }, reasoning: '', text: ' buy printer ink' },
+        { category: 'Idea', confidence: 0.85, extracted_data: { title: 'Weekly demo day' }, reasoning: '', text: 'idea: weekly demo day' },
+      ],
+    }));
+
+    const result = await classifyText('call Priya about the contract, buy printer ink, idea: weekly demo day', CATEGORIES);
+
+    expect(result.map(r => [r.category, r.text])).toEqual([
+      ['People', 'call Priya about the contract'],
+      ['Admin', 'buy printer ink'],
+      ['Idea', 'idea: weekly demo day'],
+    ]);
+  });
+
+  it('treats a single-element items list as one capture of the whole input', async () => {
+    reply(JSON.stringify({ items: [{ category: 'Idea', confidence: 0.7, extracted_data: {}, reasoning: '', text: 'demo' }] }));
+
+    const result = await classifyText('idea: weekly demo day', CATEGORIES);
+
+    expect(result).toHaveLength(1);
+    expect(result[0]).toMatchObject({ category: 'Idea', text: 'idea: weekly demo day' });
+  });
+
+  it('keeps well-formed people mentions only', async () => {
+    reply(JSON.stringify({
+      category: 'Project',
+      confidence: 0.9,
+      extracted_data: { name: 'Q3 launch' },
+      reasoning: '',
+      people: [{ name: ' Dana ', company: 'Acme' }, 'Priya', { name: '' }, { company: 'Globex' }, { name: 'Sam', company: ' ' }],
+    }));
+
+    const [result] = await classifyText('Lunch with Dana from Acme and Priya, Sam about the Q3 launch', CATEGORIES);
+
+    expect(result.people).toEqual([{ name: 'Dana', company: 'Acme' }, { name: 'Priya' }, { name: 'Sam' }]);
+  });
+
+  it('keeps up to three suggested tags', async () => {
+    reply(JSON.stringify({
+      category: 'Idea',
+      confidence: 0.9,
+      extracted_data: { title: 'Bee hotel' },
+      reasoning: '',
+      tags: [' garden ', 42, '', 'pollinators', 'diy', 'weekend'],
+    }));
+
+    const [result] = await classifyText('Build a bee hotel', CATEGORIES);
+
+    expect(result.tags).toEqual(['garden', 'pollinators', 'diy']);
+  });
+
+  it('caps the number of split items', async () => {
+    const items = Array.from({ length: 8 }, (_, i) => ({ category: 'Admin', confidence: 0.9, extracted_data: {}, reasoning: '', text: `task ${i}` }));
+    reply(JSON.stringify({ items }));
+
+    expect(await classifyText('lots of tasks', CATEGORIES)).toHaveLength(MAX_CAPTURE_ITEMS);
+  });
+});
+
+describe('buildCaptureEntry', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('applies defaults and extracted fields from the definition', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-15T12:00:00Z'));
+    const people = findCategory(CATEGORIES, 'People')!;
+
+    expect(buildCaptureEntry(people, { name: 'Sarah', company: 'Acme', ignored: 'x' }, 'Met Sarah')).toEqual({
+      title: 'Sarah',
+      content: { lastContact: '2025-01-15', company: 'Acme' },
+      priority: undefined,
+    });
+  });
+
+  it('uses an extracted priority only when it is valid', () => {
+    const admin = findCategory(CATEGORIES, 'Admin')!;
+
+    expect(buildCaptureEntry(admin, { task: 'Pay rent', priority: 'High' }, '').priority).toBe('High');
+    expect(buildCaptureEntry(admin, { task: 'Pay rent', priority: 'Urgent' }, '').priority).toBe('Medium');
+  });
+
+  it('keeps a valid recurrence and schedules its first occurrence', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-15T12:00:00Z')); // Wednesday
+    const admin = findCategory(CATEGORIES, 'Admin')!;
+
+    expect(buildCaptureEntry(admin, { task: 'Bins out', recurrence: 'FREQ=WEEKLY;BYDAY=MO' }, '')).toMatchObject({
+      recurrence: 'FREQ=WEEKLY;BYDAY=MO',
+      dueDate: '2025-01-20',
+    });
+    expect(buildCaptureEntry(admin, { task: 'Bins out', recurrence: 'sometimes' }, '').recurrence).toBeUndefined();
+  });
+
+  it('resolves an extracted due date and time in the capture timezone', () => {
+    const admin = findCategory(CATEGORIES, 'Admin')!;
+    const context = { timezone: 'America/New_York', today: '2025-07-11' };
+
+    expect(buildCaptureEntry(admin, { task: 'Renew passport', due_date: '2025-07-18', due_time: '15:00' }, '', context).dueDate)
+      .toBe('2025-07-18T15:00:00-04:00');
+    expect(buildCaptureEntry(admin, { task: 'Renew passport', due_date: 'next friday' }, '', context).dueDate).toBeUndefined();
+  });
+
+  it('prefers an explicit due date over the first recurrence', () => {
+    const admin = findCategory(CATEGORIES, 'Admin')!;
+    const context = { timezone: 'UTC', today: '2025-01-15' };
+
+    expect(buildCaptureEntry(admin, { task: 'Bins out', recurrence: 'FREQ=WEEKLY;BYDAY=MO', due_date: '2025-01-27' }, '', context))
+      .toMatchObject({ recurrence: 'FREQ=WEEKLY;BYDAY=MO', dueDate: '2025-01-27' });
+  });
+
+  it('ignores due dates for categories without a done status', () => {
+    const idea = findCategory(CATEGORIES, 'Idea')!;
+    expect(buildCaptureEntry(idea, { title: 'Demo day', due_date: '2025-07-18' }, '').dueDate).toBeUndefined();
+  });
+
+  it('ignores recurrence for categories without a done status', () => {
+    const idea = findCategory(CATEGORIES, 'Idea')!;
+    expect(buildCaptureEntry(idea, { title: 'Journal', recurrence: 'FREQ=DAILY' }, '').recurrence).toBeUndefined();
+  });
+
+  it('maps user-defined fields and falls back to the raw text for the title', () => {
+    expect(buildCaptureEntry(RECIPE, { ingredients: 'lentils' }, 'Dal with lentils')).toEqual({
+      title: 'Dal with lentils',
+      content: { ingredients: 'lentils' },
+      priority: undefined,
+    });
+  });
+});
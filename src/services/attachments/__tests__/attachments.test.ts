@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+
+// ============= Mocks =============
+
+const { mockDescribeImage, mockTranscribe, mockSetDescription, mockReadData } = vi.hoisted(() => ({
+  mockDescribeImage: vi.fn(),
+  mockTranscribe: vi.fn(),
+  mockSetDescription: vi.fn(),
+  mockReadData: vi.fn(),
+}));
+
+vi.mock('@/db', () => ({ db: {} }));
+
+vi.mock('@/services/vision', () => ({
+  describeImage: mockDescribeImage,
+  imageDataUrl: (bytes: Uint8Array, mime: string) => `data:${mime};base64,${bytes.length}`,
+}));
+
+vi.mock('@/services/transcribe', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/services/transcribe')>()),
+  transcribeAudio: mockTranscribe,
+}));
+
+vi.mock('../store', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../store')>()),
+  readAttachmentData: mockReadData,
+  setAttachmentDescription: mockSetDescription,
+}));
+
+import { createLocalStorage } from '../storage';
+import { attachmentKind, safeAttachmentName, contentDisposition } from '../store';
+import { canProcessAttachment, processAttachment } from '../process';
+import type { Attachment } from '@/db/schema';
+
+const root = mkdtempSync(path.join(os.tmpdir(), 'attachments-'));
+afterAll(() => rmSync(root, { recursive: true, force: true }));
+
+function makeAttachment(overrides: Partial<Attachment> = {}): Attachment {
+  return {
+    id: 'a1',
+    entryId: 'e1',
+    kind: 'image',
+    fileName: 'photo.jpg',
+    mimeType: 'image/jpeg',
+    size: 3,
+    storageBackend: 'local',
+    storageKey: 'e1/a1-photo.jpg',
+    description: null,
+    processedAt: null,
+    createdAt: new Date('2024-01-01'),
+    ...overrides,
+  };
+}
+
+// ============= Tests =============
+
+describe('createLocalStorage', () => {
+  const storage = createLocalStorage(root);
+
+  it('round-trips bytes by key', async () => {
+    await storage.put('e1/a1-photo.jpg', new Uint8Array([1, 2, 3]), 'image/jpeg');
+    expect(Array.from((await storage.get('e1/a1-photo.jpg'))!)).toEqual([1, 2, 3]);
+
+    await storage.delete('e1/a1-photo.jpg');
+    expect(await storage.get('e1/a1-photo.jpg')).toBeNull();
+  });
+
+  it('returns null for missing keys and ignores deleting them', async () => {
+    expect(await storage.get('nope/missing.pdf')).toBeNull();
+    await expect(storage.delete('nope/missing.pdf')).resolves.toBeUndefined();
+  });
+
+  it('rejects keys that escape the root', async () => {
+    await expect(storage.put('../outside.txt', new Uint8Array([1]), 'text/plain')).rejects.toThrow('Invalid storage key');
+  });
+});
+
+describe('attachment helpers', () => {
+  it('derives the kind from the mime type', () => {
+    expect(attachmentKind('image/png')).toBe('image');
+    expect(attachmentKind('application/pdf')).toBe('pdf');
+    expect(attachmentKind('audio/webm')).toBe('audio');
+    expect(attachmentKind('text/plain')).toBe('file');
+    expect(attachmentKind('image/svg+xml')).toBe('file');
+  });
+
+  it('serves only raster images inline, with an escaped and RFC 5987 encoded name', () => {
+    expect(contentDisposition('photo.jpg', 'image/jpeg')).toBe(`inline; filename="photo.jpg"; filename*=UTF-8''photo.jpg`);
+    expect(contentDisposition('photo.jpg', 'image/jpeg', true)).toMatch(/^attachment;/);
+    expect(contentDisposition('logo.svg', 'image/svg+xml')).toMatch(/^attachment;/);
+    expect(contentDisposition('page.html', 'text/html')).toMatch(/^attachment;/);
+    expect(contentDisposition('Ré"sumé\r\n.pdf', 'application/pdf')).toBe(
+      `attachment; filename="R__sum___.pdf"; filename*=UTF-8''R%C3%A9%22sum%C3%A9%0D%0A.pdf`
+    );
+  });
+
+  it('makes file names safe as a path segment', () => {
+    expect(safeAttachmentName('My Photo (1).jpg')).toBe('My_Photo_-1-.jpg');
+    expect(safeAttachmentName('../../etc/passwd')).toBe('etc-passwd');
+    expect(safeAttachmentName('')).toBe('file');
+  });
+});
+
+describe('processAttachment', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSetDescription.mockImplementation(async (id: string, description: string | null) =>
+      makeAttachment({ id, description, processedAt: new Date() })
+    );
+  });
+
+  it('re-describes images from the stored bytes', async () => {
+    mockReadData.mockResolvedValue(new Uint8Array([1, 2, 3]));
+    mockDescribeImage.mockResolvedValue('A cat on a keyboard');
+
+    const result = await processAttachment(makeAttachment());
+
+    expect(mockDescribeImage).toHaveBeenCalledWith('data:image/jpeg;base64,3');
+    expect(mockSetDescription).toHaveBeenCalledWith('a1', 'A cat on a keyboard');
+    expect(result?.description).toBe('A cat on a keyboard');
+  });
+
+  it('re-transcribes voice notes with a file name Whisper recognizes', async () => {
+    mockReadData.mockResolvedValue(new Uint8Array([1, 2, 3]));
+    mockTranscribe.mockResolvedValue('Call the plumber about the boiler');
+
+    const result = await processAttachment(makeAttachment({ kind: 'audio', fileName: 'recording', mimeType: 'audio/webm;codecs=opus' }));
+
+    expect(mockTranscribe).toHaveBeenCalledWith(new Uint8Array([1, 2, 3]), 'voice.webm', 'audio/webm;codecs=opus');
+    expect(result?.description).toBe('Call the plumber about the boiler');
+  });
+
+  it('returns null when the bytes are gone', async () => {
+    mockReadData.mockResolvedValue(null);
+
+    expect(await processAttachment(makeAttachment())).toBeNull();
+    expect(mockDescribeImage).not.toHaveBeenCalled();
+  });
+
+  it('throws for kinds without a processor', async () => {
+    expect(canProcessAttachment('file')).toBe(false);
+    await expect(processAttachment(makeAttachment({ kind: 'file' }))).rejects.toThrow('No processor');
+  });
+});
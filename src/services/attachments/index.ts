@@ -0,0 +1,18 @@
+export { getStorage, createLocalStorage } from './storage';
+export {
+  saveAttachment,
+  setAttachmentDescription,
+  deleteAttachment,
+  purgeOrphanedAttachments,
+  listAttachments,
+  getAttachment,
+  readAttachmentData,
+  attachmentKind,
+  contentDisposition,
+  safeAttachmentName,
+  ATTACHMENT_KINDS,
+  MAX_ATTACHMENT_BYTES,
+} from './store';
+export { processAttachment, canProcessAttachment } from './process';
+export type { StorageBackend } from './storage';
+export type { AttachmentKind, SaveAttachmentInput } from './store';
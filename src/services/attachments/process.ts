@@ -0,0 +1,44 @@
+// Re-derive an attachment's description from its stored bytes
+// One processor per kind; kinds without one are stored but not processed
+
+import type { Attachment } from '@/db/schema';
+import { describeImage, imageDataUrl } from '@/services/vision';
+import { parseDocument } from '@/services/documents';
+import { transcribeAudio, audioFileName } from '@/services/transcribe';
+import { readAttachmentData, setAttachmentDescription, type AttachmentKind } from './store';
+
+type Processor = (data: Uint8Array, mimeType: string) => Promise<string | null>;
+
+/** PDF title, page count and opening text */
+async function describePdf(data: Uint8Array): Promise<string | null> {
+  const doc = await parseDocument(data, 'pdf');
+  const opening = doc.pages.find(page => page.length > 0)?.replace(/\s+/g, ' ').slice(0, 300) || '';
+  return `${doc.title} (${doc.pages.length} pages): ${opening}`;
+}
+
+const PROCESSORS: Partial<Record<AttachmentKind, Processor>> = {
+  image: (data, mimeType) => describeImage(imageDataUrl(data, mimeType)),
+  pdf: describePdf,
+  audio: (data, mimeType) => transcribeAudio(data, audioFileName(mimeType), mimeType),
+};
+
+export function canProcessAttachment(kind: string): boolean {
+  return kind in PROCESSORS;
+}
+
+/**
+ * Run the kind's processor again (e.g. after a model upgrade) and store the
+ * new description. Returns null if the bytes are missing from storage.
+ */
+export async function processAttachment(attachment: Attachment): Promise<Attachment | null> {
+  const processor = PROCESSORS[attachment.kind as AttachmentKind];
+  if (!processor) {
+    throw new Error(`No processor for ${attachment.kind} attachments`);
+  }
+
+  const data = await readAttachmentData(attachment);
+  if (!data) return null;
+
+  const description = await processor(data, attachment.mimeType);
+  return setAttachmentDescription(attachment.id, description);
+}
@@ -0,0 +1,85 @@
+// Pluggable byte storage for attachments
+// Rows record which backend holds their bytes, so a new backend can be added
+// (and made the default via ATTACHMENT_STORAGE) without migrating old files
+
+import { mkdir, readFile, writeFile, rm } from 'fs/promises';
+import path from 'path';
+
+// ============= Types =============
+
+export interface StorageBackend {
+  name: string;
+  put(key: string, data: Uint8Array, mimeType: string): Promise<void>;
+  /** Null when the object doesn't exist */
+  get(key: string): Promise<Uint8Array | null>;
+  /** No-op when the object doesn't exist */
+  delete(key: string): Promise<void>;
+}
+
+// ============= Local filesystem =============
+
+// Serverless hosts have a read-only (or throwaway) filesystem outside /tmp
+const isServerless = () => Boolean(process.env.VERCEL || process.env.AWS_LAMBDA_FUNCTION_NAME || process.env.NETLIFY);
+
+/**
+ * Files under ATTACHMENT_DIR; keys map to relative paths. Without it the root
+ * is ./.data/attachments, except on serverless hosts where that directory is
+ * not writable and files would vanish, so there the setting is required.
+ */
+function defaultLocalRoot(): string {
+  if (process.env.ATTACHMENT_DIR) return process.env.ATTACHMENT_DIR;
+  if (isServerless()) {
+    throw new Error('Local attachment storage needs ATTACHMENT_DIR on serverless hosts; set it to persistent storage or choose another ATTACHMENT_STORAGE backend');
+  }
+  return path.join(process.cwd(), '.data', 'attachments');
+}
+
+export function createLocalStorage(root: string = defaultLocalRoot()): StorageBackend {
+  const resolve = (key: string) => {
+    const file = path.resolve(root, key);
+    if (!file.startsWith(path.resolve(root) + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return file;
+  };
+
+  return {
+    name: 'local',
+    async put(key, data) {
+      const file = resolve(key);
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, data);
+    },
+    async get(key) {
+      try {
+        return new Uint8Array(await readFile(resolve(key)));
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw err;
+      }
+    },
+    async delete(key) {
+      await rm(resolve(key), { force: true });
+    },
+  };
+}
+
+// ============= Registry =============
+
+const BACKENDS: Record<string, () => StorageBackend> = {
+  local: () => createLocalStorage(),
+};
+
+const instances = new Map<string, StorageBackend>();
+
+/** A backend by name; defaults to ATTACHMENT_STORAGE (or 'local') for new files */
+export function getStorage(name: string = process.env.ATTACHMENT_STORAGE || 'local'): StorageBackend {
+  const factory = BACKENDS[name];
+  if (!factory) {
+    throw new Error(`Unknown attachment storage backend: ${name}`);
+  }
+  if (!instances.has(name)) {
+    instances.set(name, factory());
+  }
+  return instances.get(name)!;
+}
@@ -0,0 +1,145 @@
+// Attachment rows plus their bytes in the storage backend
+// Keys are `<entryId>/<attachmentId>-<fileName>` so a backend's layout stays browsable
+
+import { randomUUID } from 'crypto';
+import { eq, asc, isNull, inArray } from 'drizzle-orm';
+import { db } from '@/db';
+import { attachments, type Attachment } from '@/db/schema';
+import { createLogger } from '@/lib/logger';
+import { getStorage } from './storage';
+
+const log = createLogger('attachments');
+
+// ============= Types =============
+
+export const ATTACHMENT_KINDS = ['image', 'pdf', 'audio', 'file'] as const;
+export type AttachmentKind = (typeof ATTACHMENT_KINDS)[number];
+
+/** Upload limit for a single file */
+export const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+
+export interface SaveAttachmentInput {
+  entryId: string;
+  fileName: string;
+  mimeType: string;
+  data: Uint8Array;
+  description?: string | null; // Already extracted (e.g. the capture's vision description)
+}
+
+// Images that only ever render as pixels. SVG is left out: it can carry script.
+const RASTER_IMAGE_TYPES = new Set([
+  'image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp', 'image/avif', 'image/bmp', 'image/heic', 'image/heif',
+]);
+
+// ============= Helpers =============
+
+export function attachmentKind(mimeType: string): AttachmentKind {
+  if (RASTER_IMAGE_TYPES.has(mimeType.split(';')[0].trim().toLowerCase())) return 'image';
+  if (mimeType === 'application/pdf') return 'pdf';
+  if (mimeType.startsWith('audio/')) return 'audio';
+  return 'file';
+}
+
+/**
+ * Content-Disposition for serving a file. Only raster images are shown
+ * inline; everything else downloads, so uploaded HTML, SVG or PDFs never run
+ * on the app's origin. The name is quoted as ASCII with an RFC 5987 UTF-8 copy.
+ */
+export function contentDisposition(fileName: string, mimeType: string, download = false): string {
+  const type = !download && attachmentKind(mimeType) === 'image' ? 'inline' : 'attachment';
+  const ascii = fileName.replace(/[^\x20-\x7e]|["\\]/g, '_') || 'file';
+  const encoded = encodeURIComponent(fileName).replace(/['()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `${type}; filename="${ascii}"; filename*=UTF-8''${encoded}`;
+}
+
+/** Keep file names readable but safe as a path segment */
+export function safeAttachmentName(fileName: string): string {
+  const cleaned = fileName.replace(/[^\w.\- ]+/g, '-').replace(/\s+/g, '_').slice(-100);
+  return cleaned.replace(/^[.-]+/, '') || 'file';
+}
+
+// ============= WRITE =============
+
+export async function saveAttachment(input: SaveAttachmentInput): Promise<Attachment> {
+  const id = randomUUID();
+  const fileName = safeAttachmentName(input.fileName);
+  const storage = getStorage();
+  const storageKey = `${input.entryId}/${id}-${fileName}`;
+
+  await storage.put(storageKey, input.data, input.mimeType);
+
+  const [row] = await db
+    .insert(attachments)
+    .values({
+      id,
+      entryId: input.entryId,
+      kind: attachmentKind(input.mimeType),
+      fileName,
+      mimeType: input.mimeType,
+      size: input.data.byteLength,
+      storageBackend: storage.name,
+      storageKey,
+      description: input.description || null,
+      processedAt: input.description ? new Date() : null,
+    })
+    .returning();
+
+  return row;
+}
+
+export async function setAttachmentDescription(id: string, description: string | null): Promise<Attachment | null> {
+  const [row] = await db
+    .update(attachments)
+    .set({ description, processedAt: new Date() })
+    .where(eq(attachments.id, id))
+    .returning();
+  return row || null;
+}
+
+/** Delete the row and its bytes. Returns null if it doesn't exist. */
+export async function deleteAttachment(id: string): Promise<Attachment | null> {
+  const [row] = await db.delete(attachments).where(eq(attachments.id, id)).returning();
+  if (!row) return null;
+
+  await getStorage(row.storageBackend).delete(row.storageKey).catch(err => {
+    log.error('Failed to delete attachment bytes', err, { id, key: row.storageKey });
+  });
+  return row;
+}
+
+/**
+ * Remove attachments whose entry was purged from the trash (entry_id set null
+ * by the foreign key). Returns the number removed.
+ */
+export async function purgeOrphanedAttachments(): Promise<number> {
+  const orphans = await db.select().from(attachments).where(isNull(attachments.entryId));
+  if (orphans.length === 0) return 0;
+
+  for (const row of orphans) {
+    await getStorage(row.storageBackend).delete(row.storageKey).catch(err => {
+      log.error('Failed to delete attachment bytes', err, { id: row.id, key: row.storageKey });
+    });
+  }
+  await db.delete(attachments).where(inArray(attachments.id, orphans.map(r => r.id)));
+  return orphans.length;
+}
+
+// ============= READ =============
+
+export async function listAttachments(entryId: string): Promise<Attachment[]> {
+  return db
+    .select()
+    .from(attachments)
+    .where(eq(attachments.entryId, entryId))
+    .orderBy(asc(attachments.createdAt));
+}
+
+export async function getAttachment(id: string): Promise<Attachment | null> {
+  const [row] = await db.select().from(attachments).where(eq(attachments.id, id)).limit(1);
+  return row || null;
+}
+
+/** The attachment's bytes, or null if the backend no longer has them */
+export async function readAttachmentData(attachment: Pick<Attachment, 'storageBackend' | 'storageKey'>): Promise<Uint8Array | null> {
+  return getStorage(attachment.storageBackend).get(attachment.storageKey);
+}
@@ -0,0 +1,355 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ============= Mocks =============
+
+const {
+  mockCreateEntry,
+  mockCreateInboxLogEntry,
+  mockLogActivity,
+  mockSuggestRelations,
+  mockAddRelation,
+  mockClassifyText,
+  mockFindDuplicate,
+  mockLinkMentionedPeople,
+  mockListPeople,
+  mockGetRelatedEntries,
+  mockListTags,
+  mockAddEntryTags,
+} = vi.hoisted(() => ({
+  mockCreateEntry: vi.fn(),
+  mockCreateInboxLogEntry: vi.fn(),
+  mockLogActivity: vi.fn(),
+  mockSuggestRelations: vi.fn(),
+  mockAddRelation: vi.fn(),
+  mockClassifyText: vi.fn(),
+  mockFindDuplicate: vi.fn(),
+  mockLinkMentionedPeople: vi.fn(),
+  mockListPeople: vi.fn(),
+  mockGetRelatedEntries: vi.fn(),
+  mockListTags: vi.fn(),
+  mockAddEntryTags: vi.fn(),
+}));
+
+vi.mock('@/services/db/entries', () => ({
+  createEntry: mockCreateEntry,
+  createInboxLogEntry: mockCreateInboxLogEntry,
+}));
+
+vi.mock('@/services/db/activity', () => ({
+  logActivity: mockLogActivity,
+}));
+
+vi.mock('@/services/db/relations', () => ({
+  suggestRelations: mockSuggestRelations,
+  addRelation: mockAddRelation,
+  getRelatedEntries: mockGetRelatedEntries,
+}));
+
+vi.mock('@/services/db/merge', () => ({
+  findDuplicate: mockFindDuplicate,
+}));
+
+vi.mock('@/services/db/people', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/services/db/people')>()),
+  linkMentionedPeople: mockLinkMentionedPeople,
+  listPeople: mockListPeople,
+}));
+
+vi.mock('@/services/db/tags', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/services/db/tags')>()),
+  listTags: mockListTags,
+  addEntryTags: mockAddEntryTags,
+}));
+
+vi.mock('@/services/db/categories', async () => {
+  const { BUILTIN_CATEGORIES } = await import('@/config/categories');
+  return { getCategories: vi.fn().mockResolvedValue(BUILTIN_CATEGORIES) };
+});
+
+vi.mock('@/services/db/inbox', () => ({
+  DEFAULT_REVIEW_THRESHOLD: 0.6,
+  getReviewThreshold: vi.fn().mockResolvedValue(0.6),
+  captureLogStatus: (confidence: number, threshold: number) => (confidence < threshold ? 'Needs Review' : 'Processed'),
+}));
+
+vi.mock('@/services/db/classifier-examples', () => ({
+  findSimilarExamples: vi.fn().mockResolvedValue([]),
+}));
+
+vi.mock('@/services/google/calendar', () => ({
+  getUserTimezone: vi.fn().mockResolvedValue('America/New_York'),
+}));
+
+vi.mock('@/services/classifier', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/services/classifier')>()),
+  classifyText: mockClassifyText,
+}));
+
+import { capture, addMentionedPerson, fromWeb, fromVoice, fromTelegramCommand, fromAgentTask, fromImport } from '..';
+import type { Entry } from '@/db/schema';
+
+// ============= Tests =============
+
+describe('capture pipeline', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockCreateEntry.mockImplementation(async (input: { title: string; category: string }) => ({
+      id: `id-${input.title}`,
+      ...input,
+    }));
+    mockCreateInboxLogEntry.mockResolvedValue({});
+    mockSuggestRelations.mockResolvedValue([]);
+    mockFindDuplicate.mockResolvedValue(null);
+    mockLinkMentionedPeople.mockResolvedValue({ linked: [], unknown: [] });
+    mockListTags.mockResolvedValue([]);
+    mockAddEntryTags.mockImplementation(async (_id: string, names: string[]) => [...names].sort());
+  });
+
+  it('classifies free text and stamps the source on the entry and inbox log', async () => {
+    mockClassifyText.mockResolvedValue([
+      { category: 'Idea', confidence: 0.9, text: 'Bee hotel', extracted_data: { title: 'Bee hotel' }, reasoning: '' },
+    ]);
+
+    const result = await capture(fromWeb('Bee hotel'));
+
+    expect(result.timezone).toBe('America/New_York');
+    expect(result.items).toHaveLength(1);
+    expect(mockCreateEntry).toHaveBeenCalledWith(
+      expect.objectContaining({ category: 'Idea', title: 'Bee hotel', source: 'web' }),
+      { waitForEmbedding: true }
+    );
+    expect(mockCreateInboxLogEntry).toHaveBeenCalledWith({
+      rawInput: 'Bee hotel',
+      category: 'Idea',
+      confidence: 0.9,
+      destinationId: 'id-Bee hotel',
+      status: 'Processed',
+      source: 'web',
+    });
+    expect(mockLogActivity).toHaveBeenCalledWith('id-Bee hotel', 'created', { category: 'Idea', source: 'web', confidence: 0.9 });
+  });
+
+  it('parks low-confidence items and captures each split item separately', async () => {
+    mockClassifyText.mockResolvedValue([
+      { category: 'Admin', confidence: 0.9, text: 'buy ink', extracted_data: { task: 'Buy ink' }, reasoning: '' },
+      { category: 'Idea', confidence: 0.4, text: 'demo day', extracted_data: { title: 'Demo day' }, reasoning: '' },
+    ]);
+
+    const { items } = await capture(fromWeb('buy ink, demo day'));
+
+    expect(items.map(i => [i.category, i.text, i.logStatus])).toEqual([
+      ['Admin', 'buy ink', 'Processed'],
+      ['Idea', 'demo day', 'Needs Review'],
+    ]);
+    expect(mockLogActivity).toHaveBeenCalledWith('id-Demo day', 'created', expect.objectContaining({ split_from: 'buy ink, demo day' }));
+  });
+
+  it('lets a picked reminder date win over the extracted one', async () => {
+    mockClassifyText.mockResolvedValue([
+      { category: 'Admin', confidence: 0.9, text: 'x', extracted_data: { task: 'Dentist', due_date: '2025-07-18' }, reasoning: '' },
+    ]);
+
+    const { items } = await capture(fromWeb('Dentist friday', '2025-08-01'));
+
+    expect(items[0].dueDate).toBe('2025-08-01');
+  });
+
+  it('keeps a voice transcript in the first entry notes', async () => {
+    mockClassifyText.mockResolvedValue([
+      { category: 'Admin', confidence: 0.9, text: 'buy ink', extracted_data: { task: 'Buy ink' }, reasoning: '' },
+      { category: 'Idea', confidence: 0.9, text: 'demo day', extracted_data: { title: 'Demo day' }, reasoning: '' },
+    ]);
+
+    await capture(fromVoice('web', 'um, buy ink and demo day'));
+
+    expect(mockCreateEntry.mock.calls[0][0].content).toMatchObject({ notes: 'Transcript: um, buy ink and demo day' });
+    expect(mockCreateEntry.mock.calls[1][0].content.notes).toBeUndefined();
+  });
+
+  it('skips the classifier for preset requests', async () => {
+    const { items } = await capture(fromTelegramCommand('Buy milk', 'Admin'));
+
+    expect(mockClassifyText).not.toHaveBeenCalled();
+    expect(mockSuggestRelations).not.toHaveBeenCalled();
+    expect(items[0]).toMatchObject({ category: 'Admin', confidence: 1, logStatus: 'Processed' });
+    expect(mockCreateEntry).toHaveBeenCalledWith({
+      category: 'Admin',
+      title: 'Buy milk',
+      priority: 'Medium',
+      content: { adminCategory: 'Home' },
+      dueDate: undefined,
+      source: 'telegram',
+    }, { waitForEmbedding: false });
+  });
+
+  it('logs agent tool captures and links related entries', async () => {
+    mockSuggestRelations.mockResolvedValue([{ id: 'r1', title: 'Old task', category: 'Admin', similarity: 0.85 }]);
+
+    const { items } = await capture(fromAgentTask({ title: 'Renew passport', priority: 'High' }));
+
+    expect(mockCreateInboxLogEntry).toHaveBeenCalledWith(expect.objectContaining({ rawInput: 'Renew passport', source: 'agent' }));
+    expect(mockAddRelation).toHaveBeenCalledWith('id-Renew passport', 'r1', 'related_to');
+    expect(items[0].related).toEqual([{ id: 'r1', title: 'Old task', category: 'Admin', similarity: 0.85 }]);
+  });
+
+  it('offers a merge for a near-identical capture, embedding the entry before the check', async () => {
+    const match = { id: 'e-old', title: 'Buy printer ink', category: 'Admin', similarity: 0.97 };
+    const created = new Map<string, { embedding: number[] | null }>();
+    mockCreateEntry.mockImplementation(async (input: { title: string }, options?: { waitForEmbedding?: boolean }) => {
+      const entry = { id: `id-${input.title}`, ...input, embedding: options?.waitForEmbedding ? [0.1, 0.2] : null };
+      created.set(entry.id, entry);
+      return entry;
+    });
+    // Like the real check: an entry without a vector can't match anything
+    mockFindDuplicate.mockImplementation(async (id: string) => (created.get(id)?.embedding ? match : null));
+    mockClassifyText.mockResolvedValue([
+      { category: 'Admin', confidence: 0.9, text: 'x', extracted_data: { task: 'Buy printer ink' }, reasoning: '' },
+    ]);
+
+    const { items } = await capture(fromWeb('buy printer ink'));
+
+    expect(mockCreateEntry).toHaveBeenCalledWith(expect.anything(), { waitForEmbedding: true });
+    expect(items[0].duplicate).toEqual(match);
+  });
+
+  it('flags a likely repeat of an open entry without merging it', async () => {
+    const match = { id: 'e-old', title: 'Follow up with Sam re: pricing', category: 'Admin', similarity: 0.95 };
+    mockClassifyText.mockResolvedValue([
+      { category: 'Admin', confidence: 0.9, text: 'x', extracted_data: { task: 'Follow up with Sam about pricing' }, reasoning: '' },
+    ]);
+    mockFindDuplicate.mockResolvedValue(match);
+
+    const { items } = await capture(fromWeb('follow up with Sam about pricing'));
+
+    expect(mockFindDuplicate).toHaveBeenCalledWith('id-Follow up with Sam about pricing');
+    expect(items[0].duplicate).toEqual(match);
+    expect(mockCreateEntry).toHaveBeenCalledTimes(1);
+  });
+
+  it('still captures when the duplicate check fails', async () => {
+    mockClassifyText.mockResolvedValue([
+      { category: 'Idea', confidence: 0.9, text: 'x', extracted_data: { title: 'Bee hotel' }, reasoning: '' },
+    ]);
+    mockFindDuplicate.mockRejectedValue(new Error('vector index missing'));
+
+    const { items } = await capture(fromWeb('Bee hotel'));
+
+    expect(items[0].duplicate).toBeUndefined();
+  });
+
+  it('links mentioned people and records the unknown ones', async () => {
+    const dana = { id: 'p-dana', name: 'Dana Whitfield', company: 'Acme', score: 1 };
+    mockClassifyText.mockResolvedValue([{
+      category: 'Project',
+      confidence: 0.9,
+      text: 'x',
+      extracted_data: { name: 'Q3 launch' },
+      reasoning: '',
+      people: [{ name: 'Dana', company: 'Acme' }, { name: 'Priya' }],
+    }]);
+    mockLinkMentionedPeople.mockResolvedValue({ linked: [dana], unknown: [{ name: 'Priya' }] });
+
+    const { items } = await capture(fromWeb('Lunch with Dana from Acme and Priya about the Q3 launch'));
+
+    expect(mockLinkMentionedPeople).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'id-Q3 launch' }),
+      [{ name: 'Dana', company: 'Acme' }, { name: 'Priya' }]
+    );
+    expect(items[0].people).toEqual([dana]);
+    expect(items[0].newPeople).toEqual([{ name: 'Priya' }]);
+    expect(mockLogActivity).toHaveBeenCalledWith('id-Q3 launch', 'created', expect.objectContaining({
+      people: ['p-dana'],
+      new_people: [{ name: 'Priya' }],
+    }));
+  });
+
+  it('applies hashtags and known suggested tags, and only offers new ones', async () => {
+    mockListTags.mockResolvedValue([{ name: 'garden', count: 4 }]);
+    mockClassifyText.mockResolvedValue([{
+      category: 'Idea',
+      confidence: 0.9,
+      text: 'x',
+      extracted_data: { title: 'Bee hotel' },
+      reasoning: '',
+      tags: ['Garden', 'pollinators'],
+    }]);
+
+    const { items } = await capture(fromWeb('Build a bee hotel #weekend'));
+
+    expect(mockClassifyText).toHaveBeenCalledWith(
+      'Build a bee hotel #weekend',
+      expect.any(Array),
+      expect.objectContaining({ knownTags: ['garden'] })
+    );
+    expect(mockAddEntryTags).toHaveBeenCalledWith('id-Bee hotel', ['weekend', 'garden']);
+    expect(items[0].tags).toEqual(['garden', 'weekend']);
+    expect(items[0].suggestedTags).toEqual(['pollinators']);
+    expect(mockLogActivity).toHaveBeenCalledWith('id-Bee hotel', 'created', expect.objectContaining({
+      tags: ['garden', 'weekend'],
+    }));
+  });
+
+  it('does not look for people in preset captures', async () => {
+    const { items } = await capture(fromTelegramCommand('Call Dana', 'Admin'));
+
+    expect(mockLinkMentionedPeople).not.toHaveBeenCalled();
+    expect(items[0].people).toEqual([]);
+  });
+
+  it('keeps imports out of the inbox log', async () => {
+    await capture(fromImport({ category: 'Idea', title: 'Old note' }, [0.1]));
+
+    expect(mockCreateEntry).toHaveBeenCalledWith(
+      { category: 'Idea', title: 'Old note', embedding: [0.1], source: 'import' },
+      { waitForEmbedding: false }
+    );
+    expect(mockCreateInboxLogEntry).not.toHaveBeenCalled();
+    expect(mockLogActivity).toHaveBeenCalledWith('id-Old note', 'created', { category: 'Idea', source: 'import' });
+  });
+
+  it('still captures when the inbox log write fails', async () => {
+    mockCreateInboxLogEntry.mockRejectedValue(new Error('db down'));
+
+    const { items } = await capture(fromTelegramCommand('Buy milk', 'Admin'));
+
+    expect(items[0].entry.id).toBe('id-Buy milk');
+  });
+});
+
+describe('addMentionedPerson', () => {
+  const project = { id: 'e-project', category: 'Project', title: 'Q3 launch' } as Entry;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockCreateEntry.mockImplementation(async (input: { title: string; category: string }) => ({
+      id: `id-${input.title}`,
+      ...input,
+    }));
+    mockCreateInboxLogEntry.mockResolvedValue({});
+    mockListPeople.mockResolvedValue([]);
+    mockGetRelatedEntries.mockResolvedValue([]);
+  });
+
+  it('creates the person and relates them to the mentioning entry', async () => {
+    const person = await addMentionedPerson(project, { name: 'Priya', company: 'Globex' }, 'web');
+
+    expect(mockCreateEntry).toHaveBeenCalledWith({
+      category: 'People',
+      title: 'Priya',
+      content: { context: 'Mentioned in: Q3 launch', company: 'Globex' },
+      source: 'web',
+    }, { waitForEmbedding: false });
+    expect(mockAddRelation).toHaveBeenCalledWith('e-project', 'id-Priya', 'related_to');
+    expect(person).toEqual({ id: 'id-Priya', name: 'Priya', company: 'Globex' });
+  });
+
+  it('links an existing person instead of creating a twin', async () => {
+    mockListPeople.mockResolvedValue([{ id: 'p-priya', name: 'Priya Raman' }]);
+
+    const person = await addMentionedPerson(project, { name: 'Priya' }, 'telegram');
+
+    expect(mockCreateEntry).not.toHaveBeenCalled();
+    expect(mockAddRelation).toHaveBeenCalledWith('e-project', 'p-priya', 'related_to');
+    expect(person).toEqual({ id: 'p-priya', name: 'Priya Raman', company: undefined });
+  });
+});
@@ -0,0 +1,17 @@
+export { capture } from './pipeline';
+export { toCaptureResponse } from './response';
+export { addMentionedPerson } from './people';
+export {
+  fromWeb,
+  fromTelegram,
+  fromTelegramCommand,
+  fromPhoto,
+  fromVoice,
+  fromAgentTask,
+  fromAgentIdea,
+  fromResearch,
+  fromImport,
+  fromMentionedPerson,
+} from './sources';
+export type { CaptureRequest, ClassifyRequest, PresetRequest, CaptureResult, CapturedItem, RelatedItem } from './pipeline';
+export type { ResearchResult } from './sources';
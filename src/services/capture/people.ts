@@ -0,0 +1,34 @@
+// Creating the people a capture mentioned but who had no People entry yet
+// The new person goes through the capture pipeline like any other entry, then gets related
+
+import type { Entry } from '@/db/schema';
+import { addRelation, getRelatedEntries } from '@/services/db/relations';
+import { listPeople, matchPerson, type PersonCandidate } from '@/services/db/people';
+import type { MentionedPerson } from '@/services/classifier';
+import type { CaptureSource } from '@/config/categories';
+import { capture } from './pipeline';
+import { fromMentionedPerson } from './sources';
+
+/**
+ * Create a People entry for a mentioned name and relate it to the entry that
+ * mentioned it. If the person exists by now (a second tap, or added by hand in
+ * the meantime) the existing entry is linked instead of creating a twin.
+ */
+export async function addMentionedPerson(
+  entry: Entry,
+  person: MentionedPerson,
+  source: CaptureSource
+): Promise<PersonCandidate> {
+  const existing = matchPerson(person, (await listPeople()).filter(p => p.id !== entry.id));
+  if (existing && existing !== 'ambiguous') {
+    const related = await getRelatedEntries(entry.id);
+    if (!related.some(r => r.id === existing.id)) {
+      await addRelation(entry.id, existing.id, 'related_to');
+    }
+    return { id: existing.id, name: existing.name, company: existing.company };
+  }
+
+  const { items: [created] } = await capture(fromMentionedPerson(source, person, entry.title));
+  await addRelation(entry.id, created.entry.id, 'related_to');
+  return { id: created.entry.id, name: created.entry.title, company: person.company };
+}
@@ -0,0 +1,267 @@
+// Capture pipeline shared by every source (web, Telegram, agent, research, import)
+// Classify (or take a preset entry) → create entry → inbox log → tags → mentioned people
+// → activity → relations → duplicate check, stamping the source on the entry and its inbox log row
+
+import type { Entry } from '@/db/schema';
+import { createEntry, createInboxLogEntry, type CreateEntryInput } from '@/services/db/entries';
+import { suggestRelations, addRelation } from '@/services/db/relations';
+import { findDuplicate, type DuplicateCandidate } from '@/services/db/merge';
+import { linkMentionedPeople, type LinkedPerson } from '@/services/db/people';
+import { listTags, addEntryTags, normalizeTags, extractHashtags } from '@/services/db/tags';
+import { logActivity } from '@/services/db/activity';
+import { getCategories } from '@/services/db/categories';
+import { getReviewThreshold, captureLogStatus, DEFAULT_REVIEW_THRESHOLD } from '@/services/db/inbox';
+import { findSimilarExamples } from '@/services/db/classifier-examples';
+import { getUserTimezone } from '@/services/google/calendar';
+import { classifyText, buildCaptureEntry, captureContext, type MentionedPerson } from '@/services/classifier';
+import { findCategory, type CaptureSource, type InboxLogStatus } from '@/config/categories';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('capture');
+
+// ============= Types =============
+
+/** Free text the classifier sorts into one or more entries */
+export interface ClassifyRequest {
+  source: CaptureSource;
+  text: string;
+  reminderDate?: string; // Explicit due date (web reminder picker), wins over dates in the text
+  transcript?: boolean; // Voice note: the text is kept verbatim in the first entry's notes
+}
+
+/** An entry whose category the source already knows (/task, agent tools, research, import) */
+export interface PresetRequest {
+  source: CaptureSource;
+  text: string; // Raw input recorded in the inbox log
+  entry: Omit<CreateEntryInput, 'source'>;
+  confidence?: number; // Defaults to 1.0
+  inboxLog?: boolean; // Defaults to true
+  relate?: boolean; // Auto-link similar entries; defaults to false
+  tags?: string[]; // Applied as given (after normalising), e.g. an imported note's own tags
+  activity?: Record<string, unknown>; // Extra 'created' activity metadata
+}
+
+export type CaptureRequest = ClassifyRequest | PresetRequest;
+
+export interface RelatedItem {
+  id: string;
+  title: string;
+  category: string;
+  similarity: number;
+}
+
+export interface CapturedItem {
+  entry: Entry;
+  category: string; // Singular category name
+  confidence: number;
+  text: string; // The part of the input this entry came from
+  logStatus: InboxLogStatus | null; // null when no inbox log row was written
+  dueDate?: string;
+  recurrence?: string;
+  related: RelatedItem[];
+  people: LinkedPerson[]; // People entries the text mentioned, now related
+  newPeople: MentionedPerson[]; // Mentioned names with no People entry yet — offered for creation
+  tags: string[]; // Applied: #hashtags in the text plus suggestions that match existing tags
+  suggestedTags: string[]; // New tag names the classifier proposed — applied only if the user accepts
+  duplicate?: DuplicateCandidate; // Open entry this capture repeats; offered as a merge, never merged automatically
+}
+
+export interface CaptureResult {
+  items: CapturedItem[];
+  timezone?: string; // Timezone due dates were resolved in (classified captures)
+}
+
+interface PendingItem {
+  input: CreateEntryInput;
+  category: string;
+  confidence: number;
+  text: string;
+  logStatus: InboxLogStatus | null;
+  relate: boolean;
+  people: MentionedPerson[];
+  tags: string[];
+  suggestedTags: string[];
+  activity: Record<string, unknown>;
+}
+
+// ============= Steps =============
+
+function withTranscript(content: Record<string, unknown>, transcript: string): Record<string, unknown> {
+  const notes = typeof content.notes === 'string' ? content.notes.trim() : '';
+  return { ...content, notes: [notes, `Transcript: ${transcript}`].filter(Boolean).join('\n\n') };
+}
+
+async function classifyRequest(request: ClassifyRequest): Promise<{ pending: PendingItem[]; timezone: string }> {
+  const text = request.text.trim();
+
+  // Dates like "next Friday 3pm" resolve against today in the user's timezone;
+  // similar past corrections steer the classifier (best-effort)
+  const categories = await getCategories();
+  const context = captureContext(await getUserTimezone());
+  const examples = await findSimilarExamples(text).catch(() => []);
+  const knownTags = (await listTags().catch(() => [])).map(tag => tag.name);
+  const classifications = await classifyText(text, categories, { examples, context, knownTags });
+  const threshold = await getReviewThreshold().catch(() => DEFAULT_REVIEW_THRESHOLD);
+
+  // Compound input comes back as several items, each captured as its own entry
+  const split = classifications.length > 1;
+  const pending = classifications.map((classification, index) => {
+    const { category, confidence, extracted_data } = classification;
+    const definition = findCategory(categories, category)!;
+    const itemText = split ? classification.text : text;
+    const built = buildCaptureEntry(definition, extracted_data, itemText, context);
+    // The whole transcript lives on the entry, so it survives even if the recording can't be stored
+    const content = request.transcript && index === 0 ? withTranscript(built.content, text) : built.content;
+    // Suggestions matching the existing vocabulary are applied; new names wait for the user
+    const suggested = normalizeTags(classification.tags || []);
+
+    return {
+      input: {
+        category,
+        title: built.title,
+        priority: built.priority,
+        content,
+        dueDate: request.reminderDate || built.dueDate || null,
+        recurrence: built.recurrence,
+      },
+      category,
+      confidence,
+      text: itemText,
+      // Low-confidence captures are parked for triage
+      logStatus: captureLogStatus(confidence, threshold),
+      relate: true,
+      people: classification.people || [],
+      tags: normalizeTags([...extractHashtags(itemText), ...suggested.filter(tag => knownTags.includes(tag))]),
+      suggestedTags: suggested.filter(tag => !knownTags.includes(tag)),
+      activity: {
+        confidence,
+        ...(built.recurrence && { recurrence: built.recurrence }),
+        ...(split && { split_from: text }),
+      },
+    };
+  });
+
+  return { pending, timezone: context.timezone };
+}
+
+function presetRequest(request: PresetRequest): PendingItem {
+  return {
+    input: request.entry,
+    category: request.entry.category,
+    confidence: request.confidence ?? 1.0,
+    text: request.text,
+    logStatus: request.inboxLog === false ? null : 'Processed',
+    relate: !!request.relate,
+    people: [],
+    tags: normalizeTags(request.tags || []),
+    suggestedTags: [],
+    activity: request.activity || {},
+  };
+}
+
+async function store(item: PendingItem, source: CaptureSource): Promise<CapturedItem> {
+  // Relation and duplicate checks search by the new entry's vector, so it has to exist first
+  const entry = await createEntry({ ...item.input, source }, { waitForEmbedding: item.relate });
+
+  if (item.logStatus) {
+    try {
+      await createInboxLogEntry({
+        rawInput: item.text,
+        category: item.category,
+        confidence: item.confidence,
+        destinationId: entry.id,
+        status: item.logStatus,
+        source,
+      });
+    } catch (logError) {
+      log.error('Failed to log to Inbox Log', logError);
+    }
+  }
+
+  let tags: string[] = [];
+  if (item.tags.length > 0) {
+    try {
+      tags = await addEntryTags(entry.id, item.tags);
+    } catch (tagError) {
+      log.error('Failed to tag entry', tagError);
+    }
+  }
+
+  // Explicit links to mentioned people, made before similarity suggestions so those skip them
+  let people: LinkedPerson[] = [];
+  let newPeople: MentionedPerson[] = [];
+  if (item.people.length > 0) {
+    try {
+      const links = await linkMentionedPeople(entry, item.people);
+      people = links.linked;
+      newPeople = links.unknown;
+    } catch (peopleError) {
+      log.error('Failed to link mentioned people', peopleError);
+    }
+  }
+
+  logActivity(entry.id, 'created', {
+    category: item.category,
+    source,
+    ...item.activity,
+    ...(tags.length > 0 && { tags }),
+    ...(people.length > 0 && { people: people.map(p => p.id) }),
+    ...(newPeople.length > 0 && { new_people: newPeople }),
+  });
+
+  let related: RelatedItem[] = [];
+  let duplicate: DuplicateCandidate | undefined;
+  if (item.relate) {
+    try {
+      const suggestions = await suggestRelations(entry.id, { limit: 3, threshold: 0.8 });
+      for (const suggestion of suggestions) {
+        await addRelation(entry.id, suggestion.id, 'related_to');
+      }
+      related = suggestions.map(s => ({ id: s.id, title: s.title, category: s.category, similarity: s.similarity }));
+    } catch (relError) {
+      log.error('Failed to auto-suggest relations', relError);
+    }
+
+    try {
+      duplicate = (await findDuplicate(entry.id)) || undefined;
+    } catch (dupError) {
+      log.error('Failed to check for duplicates', dupError);
+    }
+  }
+
+  return {
+    entry,
+    category: item.category,
+    confidence: item.confidence,
+    text: item.text,
+    logStatus: item.logStatus,
+    dueDate: item.input.dueDate || undefined,
+    recurrence: item.input.recurrence || undefined,
+    related,
+    people,
+    newPeople,
+    tags,
+    suggestedTags: item.suggestedTags,
+    duplicate,
+  };
+}
+
+// ============= Capture =============
+
+/**
+ * Run a capture from any source. Free text is classified (and possibly split);
+ * preset requests skip the classifier. Inbox log, tagging, people linking, relation
+ * and duplicate-check failures don't fail the capture; classification and entry creation errors propagate.
+ */
+export async function capture(request: CaptureRequest): Promise<CaptureResult> {
+  if ('entry' in request) {
+    return { items: [await store(presetRequest(request), request.source)] };
+  }
+
+  const { pending, timezone } = await classifyRequest(request);
+  const items: CapturedItem[] = [];
+  for (const item of pending) {
+    items.push(await store(item, request.source));
+  }
+  return { items, timezone };
+}
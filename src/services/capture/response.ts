@@ -0,0 +1,39 @@
+// JSON body for web capture routes (/api/capture, /api/capture/voice)
+// Top-level fields describe the first item for single-entry clients
+
+import type { CaptureResult } from './pipeline';
+
+export function toCaptureResponse(result: CaptureResult, reminderDate?: string) {
+  const items = result.items.map(item => ({
+    category: item.category,
+    confidence: item.confidence,
+    needs_review: item.logStatus === 'Needs Review',
+    page_id: item.entry.id,
+    title: item.entry.title,
+    text: item.text,
+    due_date: item.dueDate,
+    recurrence: item.recurrence,
+    related: item.related.length > 0 ? item.related : undefined,
+    people: item.people.length > 0 ? item.people.map(({ id, name, company }) => ({ id, name, company })) : undefined,
+    new_people: item.newPeople.length > 0 ? item.newPeople : undefined,
+    tags: item.tags.length > 0 ? item.tags : undefined,
+    suggested_tags: item.suggestedTags.length > 0 ? item.suggestedTags : undefined,
+    duplicate_of: item.duplicate,
+  }));
+
+  const [first] = items;
+  return {
+    status: 'captured' as const,
+    category: first.category,
+    confidence: first.confidence,
+    needs_review: first.needs_review,
+    page_id: first.page_id,
+    reminder: reminderDate || null,
+    due_date: first.due_date,
+    timezone: result.timezone,
+    recurrence: first.recurrence,
+    related: first.related,
+    duplicate_of: first.duplicate_of,
+    items,
+  };
+}
@@ -0,0 +1,169 @@
+// Source adapters: turn each caller's input into a CaptureRequest
+// Free text is classified; commands, tools and saved results arrive with a known category
+
+import type { CreateEntryInput } from '@/services/db/entries';
+import type { CaptureSource } from '@/config/categories';
+import type { MentionedPerson } from '@/services/classifier';
+import type { ClassifyRequest, PresetRequest } from './pipeline';
+
+// ============= Web / Telegram =============
+
+/** Text from the web capture box; a picked reminder date wins over dates in the text */
+export function fromWeb(text: string, reminderDate?: string): ClassifyRequest {
+  return { source: 'web', text, reminderDate };
+}
+
+/** A plain Telegram message (or photo caption) */
+export function fromTelegram(text: string): ClassifyRequest {
+  return { source: 'telegram', text };
+}
+
+/** A voice note's transcript, also kept in the first entry's notes; the audio is attached by the caller */
+export function fromVoice(source: CaptureSource, transcript: string, reminderDate?: string): ClassifyRequest {
+  return { source, text: transcript, reminderDate, transcript: true };
+}
+
+/** Telegram /task, /idea and /remind — the command picks the category */
+export function fromTelegramCommand(
+  text: string,
+  category: 'Admin' | 'Idea',
+  options: { title?: string; dueDate?: string } = {}
+): PresetRequest {
+  const title = (options.title || text).slice(0, 100);
+  return {
+    source: 'telegram',
+    text,
+    entry: category === 'Admin'
+      ? { category, title, priority: 'Medium', content: { adminCategory: 'Home' }, dueDate: options.dueDate }
+      : { category, title, content: { ideaCategory: 'Life', rawInsight: text } },
+  };
+}
+
+/** An uncaptioned photo (Telegram, or an image shared to the PWA), described by the vision model */
+export function fromPhoto(source: CaptureSource, description: string): PresetRequest {
+  return {
+    source,
+    text: `[Photo] ${description}`,
+    entry: { category: 'Idea', title: description.slice(0, 100), content: { rawInsight: description, ideaCategory: 'Life' } },
+    confidence: 0.9,
+  };
+}
+
+// ============= People =============
+
+/** A person a capture mentioned who had no People entry, created when the user accepts the suggestion */
+export function fromMentionedPerson(
+  source: CaptureSource,
+  person: MentionedPerson,
+  mentionedIn: string
+): PresetRequest {
+  const content: Record<string, unknown> = { context: `Mentioned in: ${mentionedIn}`.slice(0, 200) };
+  if (person.company) {
+    content.company = person.company;
+  }
+
+  return {
+    source,
+    text: person.company ? `${person.name} (${person.company})` : person.name,
+    entry: { category: 'People', title: person.name.slice(0, 100), content },
+  };
+}
+
+// ============= Agent =============
+
+/** The agent's create_task tool */
+export function fromAgentTask(args: { title: string; priority?: string; dueDate?: string }): PresetRequest {
+  return {
+    source: 'agent',
+    text: args.title,
+    entry: {
+      category: 'Admin',
+      title: args.title,
+      priority: args.priority || undefined,
+      dueDate: args.dueDate || undefined,
+    },
+    relate: true,
+  };
+}
+
+/** The agent's save_idea tool */
+export function fromAgentIdea(args: { title: string; insight: string; category?: string }): PresetRequest {
+  const content: Record<string, unknown> = { rawInsight: args.insight };
+  if (args.category) {
+    content.ideaCategory = args.category;
+  }
+
+  return {
+    source: 'agent',
+    text: `${args.title}\n\n${args.insight}`,
+    entry: { category: 'Idea', title: args.title, content },
+    relate: true,
+  };
+}
+
+// ============= Research =============
+
+export interface ResearchResult {
+  question: string;
+  answer: string;
+  category: 'Idea' | 'Admin' | 'Reading';
+  citations?: Array<{ title: string; type?: string; url?: string; database?: string }>;
+  expertDomain?: string;
+}
+
+/** A research answer saved from the research agent, with its citations as text */
+export function fromResearch(result: ResearchResult): PresetRequest {
+  const { question, answer, category, citations = [], expertDomain } = result;
+
+  const citationsText = citations.length > 0
+    ? '\n\nSources:\n' + citations.map((c, i) =>
+        `${i + 1}. ${c.title}${c.type === 'web' && c.url ? ` (${c.url})` : c.database ? ` (${c.database})` : ''}`
+      ).join('\n')
+    : '';
+
+  const noteContent = `Q: ${question}\n\n${answer}${citationsText}`;
+  const title = question.length > 80 ? question.slice(0, 77) + '...' : question;
+
+  // Build content based on category
+  const content: Record<string, unknown> = {};
+
+  if (category === 'Idea') {
+    content.rawInsight = noteContent.slice(0, 2000);
+    content.oneLiner = `Research: ${expertDomain || 'general'}`;
+    content.ideaCategory = 'Tech';
+  } else if (category === 'Reading') {
+    content.rawInsight = noteContent.slice(0, 2000);
+    content.oneLiner = `Research: ${expertDomain || 'general'}`;
+    content.source = citations.find(c => c.type === 'web' && c.url)?.url || '';
+  } else {
+    content.notes = noteContent.slice(0, 2000);
+    content.adminCategory = 'Work';
+  }
+
+  return {
+    source: 'research',
+    text: question,
+    entry: {
+      category,
+      title,
+      priority: category === 'Admin' ? 'Medium' : undefined,
+      content,
+    },
+  };
+}
+
+// ============= Import =============
+
+/**
+ * A mapped record from an import plan. Imports skip the inbox log — a
+ * thousand-note vault would bury real captures and skew classifier accuracy.
+ */
+export function fromImport(input: Omit<CreateEntryInput, 'source'>, embedding?: number[], tags: string[] = []): PresetRequest {
+  return {
+    source: 'import',
+    text: input.title,
+    entry: { ...input, embedding },
+    inboxLog: false,
+    tags,
+  };
+}
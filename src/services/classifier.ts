@@ -0,0 +1,268 @@
+// Capture classifier shared by the web capture route and Telegram
+// The prompt and the entry mapping are both generated from category definitions
+
+import { getLLM } from '@/lib/llm';
+import { PRIORITY_OPTIONS, findCategory, type CategoryDefinition } from '@/config/categories';
+import { normalizeRecurrence, firstOccurrence } from '@/lib/utils/rrule';
+import { localDateInTimezone, resolveDueDate } from '@/lib/utils/date';
+
+/** Someone the input names, to be matched against People entries */
+export interface MentionedPerson {
+  name: string;
+  company?: string;
+}
+
+export interface ClassificationResult {
+  category: string;
+  confidence: number;
+  extracted_data: Record<string, string>;
+  reasoning: string;
+  text: string; // The part of the input this item came from
+  people?: MentionedPerson[];
+  tags?: string[]; // Suggested topic tags, not yet normalized
+}
+
+// Compound captures are split into at most this many entries
+export const MAX_CAPTURE_ITEMS = 5;
+
+// Mentions beyond this per item are ignored
+const MAX_MENTIONED_PEOPLE = 5;
+
+// Suggested tags per item
+const MAX_SUGGESTED_TAGS = 3;
+
+// Existing tags listed in the prompt so the model reuses them
+const MAX_PROMPT_TAGS = 50;
+
+/** When and where a capture happens, for resolving "tomorrow 3pm" */
+export interface CaptureContext {
+  timezone: string; // IANA name, e.g. 'America/New_York'
+  today: string; // YYYY-MM-DD in that timezone
+}
+
+export function captureContext(timezone: string, now: Date = new Date()): CaptureContext {
+  return { timezone, today: localDateInTimezone(timezone, now) };
+}
+
+/** A past capture and the category we moved it to */
+export interface FewShotExample {
+  text: string;
+  category: string;
+}
+
+// ============= Prompt =============
+
+function exampleShape(category: CategoryDefinition): string {
+  const shape: Record<string, string> = { [category.titleField]: `${category.name}Title` };
+  for (const field of category.fields) shape[field.key] = field.description;
+  if (category.defaultPriority) shape.priority = category.defaultPriority;
+  return JSON.stringify(shape);
+}
+
+function examplesSection(categories: CategoryDefinition[], examples: FewShotExample[]): string {
+  const lines = examples
+    .map(e => ({ text: e.text.replace(/\s+/g, ' ').slice(0, 200), category: findCategory(categories, e.category)?.name }))
+    .filter(e => e.category)
+    .map(e => `- ${JSON.stringify(e.text)} → ${e.category}`);
+  if (lines.length === 0) return '';
+
+  return `
+
+PAST CORRECTIONS (how this user files similar inputs — follow them over the rules above):
+${lines.join('\n')}`;
+}
+
+function dueDateSection(context?: CaptureContext): string {
+  if (!context) return '';
+  const weekday = new Date(`${context.today}T12:00:00Z`).toLocaleDateString('en-US', { weekday: 'long', timeZone: 'UTC' });
+
+  return `
+
+Today is ${weekday} ${context.today} (${context.timezone}). If the input says when something is due or should happen ("by next Friday 3pm", "tomorrow morning", "on the 12th"), add "due_date" (YYYY-MM-DD, resolved from today) and, only if a time is given, "due_time" (HH:MM, 24-hour) to extracted_data. Omit them otherwise.`;
+}
+
+function tagsSection(knownTags: string[]): string {
+  const known = knownTags.slice(0, MAX_PROMPT_TAGS);
+
+  return `
+
+Add "tags": up to ${MAX_SUGGESTED_TAGS} short lowercase topic tags (e.g. ["q3-launch", "health"]) next to extracted_data when the input has a clear topic or project. Omit it otherwise.${known.length > 0 ? ` Prefer these existing tags when they fit: ${known.join(', ')}` : ''}`;
+}
+
+/**
+ * Build the classifier system prompt from the current category definitions,
+ * plus any similar past corrections as few-shot examples. With a capture
+ * context the model also resolves due dates; `knownTags` steer tag suggestions.
+ */
+export function buildClassifierPrompt(
+  categories: CategoryDefinition[],
+  examples: FewShotExample[] = [],
+  context?: CaptureContext,
+  knownTags: string[] = []
+): string {
+  const names = categories.map(c => `"${c.name}"`).join(' | ');
+
+  return `You are a Second Brain classifier. Analyze the input and categorize it.
+
+RULES:
+${categories.map((c, i) => `${i + 1}. ${c.name} = ${c.description}`).join('\n')}
+
+OUTPUT STRICT JSON:
+{
+  "category": ${names},
+  "confidence": 0.0-1.0,
+  "extracted_data": { ... category-specific fields ... },
+  "reasoning": "Brief explanation"
+}
+
+${categories.map(c => `For ${c.name}: ${exampleShape(c)}`).join('\n')}
+
+If the input names other people ("lunch with Dana from Acme"), add "people": [{"name": "Dana", "company": "Acme"}] next to extracted_data, with the name as written and company only if stated. Omit it otherwise.
+
+If the input repeats on a schedule ("every Monday", "each month", "daily"), add "recurrence" to extracted_data as an RRULE, e.g. "FREQ=WEEKLY;BYDAY=MO". Omit it otherwise.
+
+If the input lists several separate things to capture (e.g. "call Priya about the contract, buy printer ink, idea: weekly demo day"), return {"items": [...]} instead, with one object per thing in the format above (at most ${MAX_CAPTURE_ITEMS}), each with a "text" field quoting its part of the input. One thought with several details is still a single item.${tagsSection(knownTags)}${dueDateSection(context)}${examplesSection(categories, examples)}`;
+}
+
+// ============= Classify =============
+
+/** Non-empty strings only — normalizing happens when the tags are stored */
+function suggestedTags(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((tag): tag is string => typeof tag === 'string' && tag.trim().length > 0)
+    .slice(0, MAX_SUGGESTED_TAGS)
+    .map(tag => tag.trim());
+}
+
+/** Keep well-formed mentions only — the model sometimes returns bare strings or empty names */
+function mentionedPeople(value: unknown): MentionedPerson[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map(p => (typeof p === 'string' ? { name: p } : p))
+    .filter((p): p is MentionedPerson => typeof p?.name === 'string' && p.name.trim().length >= 2)
+    .slice(0, MAX_MENTIONED_PEOPLE)
+    .map(p => ({
+      name: p.name.trim().slice(0, 100),
+      ...(typeof p.company === 'string' && p.company.trim() && { company: p.company.trim().slice(0, 100) }),
+    }));
+}
+
+/**
+ * Classify free text into one of the given categories. Compound input comes
+ * back as several items, each with the slice of text it was split from.
+ * Falls back to Admin (or the first category) when the model's answer can't
+ * be parsed or names a category that doesn't exist. `examples` are similar
+ * past corrections (see findSimilarExamples); `context` enables due dates.
+ * People the text names come back in `people` for linking; suggested topic
+ * tags in `tags`, steered towards `knownTags`.
+ */
+export async function classifyText(
+  text: string,
+  categories: CategoryDefinition[],
+  options: { examples?: FewShotExample[]; context?: CaptureContext; knownTags?: string[] } = {}
+): Promise<ClassificationResult[]> {
+  const { client, model } = getLLM('classification');
+  const fallback = findCategory(categories, 'Admin') || categories[0];
+
+  const response = await client.chat.completions.create({
+    model,
+    temperature: 0,
+    messages: [
+      { role: 'system', content: buildClassifierPrompt(categories, options.examples, options.context, options.knownTags) },
+      { role: 'user', content: text },
+    ],
+  });
+
+  const content = response.choices[0]?.message?.content || '';
+
+  // Unknown categories fall back with capped confidence
+  const normalize = (result: Partial<ClassificationResult>, itemText: string): ClassificationResult => {
+    const category = findCategory(categories, result.category || '');
+    const confidence = result.confidence ?? 0.5;
+    return {
+      ...result,
+      category: (category || fallback).name,
+      confidence: category ? confidence : Math.min(confidence, 0.5),
+      extracted_data: result.extracted_data || {},
+      reasoning: result.reasoning || '',
+      text: itemText,
+      people: mentionedPeople(result.people),
+      tags: suggestedTags(result.tags),
+    };
+  };
+
+  try {
+    const parsed = JSON.parse(content) as Partial<ClassificationResult> & { items?: Array<Partial<ClassificationResult>> };
+    const items = Array.isArray(parsed.items) ? parsed.items.slice(0, MAX_CAPTURE_ITEMS) : [];
+    if (items.length > 1) {
+      return items.map(item => normalize(item, item.text?.trim() || text));
+    }
+    return [normalize(items[0] || parsed, text)];
+  } catch {
+    return [{
+      category: fallback.name,
+      confidence: 0.5,
+      extracted_data: { [fallback.titleField]: text },
+      reasoning: `Parse error, defaulting to ${fallback.name}`,
+      text,
+    }];
+  }
+}
+
+// ============= Entry mapping =============
+
+export interface CaptureEntry {
+  title: string;
+  content: Record<string, unknown>;
+  priority?: string;
+  recurrence?: string; // Canonical RRULE, only for categories that can be completed
+  dueDate?: string; // Resolved due date/time, else the first occurrence of the recurrence
+}
+
+/**
+ * Turn a classification into createEntry fields using the category's
+ * definition. `context` supplies the user's "today" and timezone for
+ * defaults and extracted due dates.
+ */
+export function buildCaptureEntry(
+  category: CategoryDefinition,
+  extracted: Record<string, string>,
+  text: string,
+  context?: CaptureContext
+): CaptureEntry {
+  const today = context?.today || new Date().toISOString().split('T')[0];
+  const content: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(category.defaultContent)) {
+    content[key] = value === '$today' ? today : value;
+  }
+  // The model occasionally answers with a number ("role": 3); content fields are text
+  for (const field of category.fields) {
+    if (extracted[field.key]) content[field.contentKey] = String(extracted[field.key]);
+  }
+
+  const title = extracted[category.titleField] || extracted.name || extracted.title || extracted.task || text.slice(0, 100);
+  const priority = category.defaultPriority
+    ? PRIORITY_OPTIONS.find(p => p === extracted.priority) || category.defaultPriority
+    : undefined;
+
+  const entry: CaptureEntry = { title, content, priority };
+
+  // A rule the model got wrong is dropped rather than failing the capture
+  const recurrence = category.doneStatus && extracted.recurrence ? normalizeRecurrence(extracted.recurrence) : null;
+  if (recurrence) {
+    entry.recurrence = recurrence;
+    entry.dueDate = firstOccurrence(recurrence, today) || undefined;
+  }
+
+  // Due dates only apply to things that get done (Admin, Project, People follow-ups)
+  const dueDate = category.doneStatus
+    ? resolveDueDate(extracted.due_date, extracted.due_time, context?.timezone || 'UTC')
+    : null;
+  if (dueDate) {
+    entry.dueDate = dueDate;
+  }
+
+  return entry;
+}
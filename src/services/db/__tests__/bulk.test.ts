@@ -0,0 +1,208 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ============= Mocks =============
+
+const {
+  selectWhereMock,
+  updateSetMock,
+  insertValuesMock,
+  batchMock,
+  mockGetTagsForEntries,
+  mockEnsureTags,
+  mockSpawnNextOccurrence,
+  mockSyncParentSubtasks,
+  mockUpsertEmbedding,
+} = vi.hoisted(() => ({
+  selectWhereMock: vi.fn(),
+  updateSetMock: vi.fn(),
+  insertValuesMock: vi.fn(),
+  batchMock: vi.fn(),
+  mockGetTagsForEntries: vi.fn(),
+  mockEnsureTags: vi.fn(),
+  mockSpawnNextOccurrence: vi.fn(),
+  mockSyncParentSubtasks: vi.fn(),
+  mockUpsertEmbedding: vi.fn(),
+}));
+
+// select() → from() → where(); update() → set() → where(); insert() → values() [→ onConflictDoNothing()]
+vi.mock('@/db', () => ({
+  db: {
+    select: () => ({ from: () => ({ where: selectWhereMock }) }),
+    update: () => ({
+      set: (values: unknown) => {
+        updateSetMock(values);
+        return { where: () => ({ kind: 'update', values }) };
+      },
+    }),
+    insert: () => ({
+      values: (values: unknown) => {
+        insertValuesMock(values);
+        return { kind: 'insert', values, onConflictDoNothing: () => ({ kind: 'insert', values }) };
+      },
+    }),
+    batch: batchMock,
+  },
+}));
+
+vi.mock('../categories', async () => {
+  const { BUILTIN_CATEGORIES } = await import('@/config/categories');
+  return { getCategories: vi.fn().mockResolvedValue(BUILTIN_CATEGORIES) };
+});
+
+vi.mock('../tags', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../tags')>()),
+  getTagsForEntries: mockGetTagsForEntries,
+  ensureTags: mockEnsureTags,
+}));
+
+vi.mock('../revisions', () => ({
+  snapshotEntry: vi.fn(() => ({})),
+}));
+
+vi.mock('../recurrence', () => ({
+  spawnNextOccurrence: mockSpawnNextOccurrence,
+}));
+
+vi.mock('../subtasks', () => ({
+  syncParentSubtasks: mockSyncParentSubtasks,
+}));
+
+vi.mock('../embeddings', () => ({
+  upsertEmbedding: mockUpsertEmbedding,
+  buildEmbeddingText: (title: string) => title,
+  textHashColumn: (title: string) => ({ textHash: `hash:${title}` }),
+}));
+
+import { planChange, applyBulkAction } from '../bulk';
+import { BUILTIN_CATEGORIES } from '@/config/categories';
+import type { Entry } from '@/db/schema';
+
+function makeEntry(overrides: Partial<Entry> = {}): Entry {
+  return {
+    id: 'e1',
+    notionId: null,
+    category: 'Admin',
+    title: 'Renew passport',
+    status: 'Todo',
+    priority: null,
+    content: {},
+    embedding: null,
+    embeddingModel: null,
+    embeddingHash: null,
+    textHash: null,
+    searchVector: null,
+    dueDate: null,
+    recurrence: null,
+    source: 'web',
+    archived: null,
+    createdAt: new Date('2025-03-10'),
+    updatedAt: new Date('2025-03-10'),
+    ...overrides,
+  };
+}
+
+// ============= Tests =============
+
+describe('planChange', () => {
+  it('skips entries already in the requested status', () => {
+    expect(planChange(makeEntry(), { type: 'status', status: 'Todo' }, BUILTIN_CATEGORIES)).toEqual({ skip: 'Already Todo' });
+  });
+
+  it('fails a status the category does not have', () => {
+    expect(planChange(makeEntry(), { type: 'status', status: 'Active' }, BUILTIN_CATEGORIES)).toEqual({
+      fail: 'Admin has no status "Active"',
+    });
+  });
+
+  it('moves an entry to another category with its default status and refitted content', () => {
+    const entry = makeEntry({ content: { notes: 'Photos needed', adminCategory: 'Home' } });
+    const plan = planChange(entry, { type: 'recategorize', category: 'Project' }, BUILTIN_CATEGORIES);
+
+    expect(plan).toMatchObject({
+      set: { category: 'Projects', status: 'Active', content: { notes: 'Photos needed\n\nadminCategory: Home' } },
+      revision: 'recategorized',
+    });
+  });
+
+  it('skips tags an entry already has and fails past the tag limit', () => {
+    const entry = makeEntry();
+    expect(planChange(entry, { type: 'tag', tag: '#Travel' }, BUILTIN_CATEGORIES, ['travel'])).toEqual({ skip: 'Already tagged #travel' });
+    expect(planChange(entry, { type: 'tag', tag: 'travel' }, BUILTIN_CATEGORIES, Array.from({ length: 10 }, (_, i) => `t${i}`)))
+      .toEqual({ fail: 'Already has 10 tags' });
+  });
+});
+
+describe('applyBulkAction', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetTagsForEntries.mockResolvedValue(new Map());
+    batchMock.mockResolvedValue([]);
+  });
+
+  it('writes the passing entries and the batch row in one batch, with a result per entry', async () => {
+    selectWhereMock.mockResolvedValue([
+      makeEntry({ id: 'e1' }),
+      makeEntry({ id: 'e2', status: 'Done' }),
+      makeEntry({ id: 'e3', archived: new Date() }),
+    ]);
+
+    const result = await applyBulkAction(['e1', 'e2', 'e3', 'e4', 'e1'], { type: 'status', status: 'Done' });
+
+    expect(result.items).toEqual([
+      { id: 'e1', result: 'updated' },
+      { id: 'e2', result: 'skipped', reason: 'Already Done' },
+      { id: 'e3', result: 'failed', reason: 'Entry not found' },
+      { id: 'e4', result: 'failed', reason: 'Entry not found' },
+    ]);
+    expect(result.updated).toBe(1);
+
+    // Update, revision, entry activity, batch activity
+    expect(batchMock).toHaveBeenCalledTimes(1);
+    expect(batchMock.mock.calls[0][0]).toHaveLength(4);
+    expect(updateSetMock).toHaveBeenCalledWith(expect.objectContaining({ status: 'Done' }));
+    expect(insertValuesMock).toHaveBeenCalledWith(expect.objectContaining({
+      entryId: 'e1',
+      action: 'status_changed',
+      metadata: { from: 'Todo', to: 'Done', batch_id: result.batchId },
+    }));
+    expect(insertValuesMock).toHaveBeenCalledWith(expect.objectContaining({
+      entryId: null,
+      action: 'bulk_action',
+      metadata: expect.objectContaining({ batch_id: result.batchId, entry_ids: ['e1'], skipped: 1, failed: 2 }),
+    }));
+
+    expect(mockSpawnNextOccurrence).toHaveBeenCalledWith(expect.objectContaining({ id: 'e1', status: 'Done' }), 'Done');
+    expect(mockSyncParentSubtasks).toHaveBeenCalledTimes(1);
+  });
+
+  it('writes nothing when no entry passes', async () => {
+    selectWhereMock.mockResolvedValue([makeEntry({ priority: 'High' })]);
+
+    const result = await applyBulkAction(['e1'], { type: 'priority', priority: 'High' });
+
+    expect(result).toMatchObject({ updated: 0, items: [{ id: 'e1', result: 'skipped' }] });
+    expect(batchMock).not.toHaveBeenCalled();
+  });
+
+  it('links the tag to each entry without touching the entry row', async () => {
+    selectWhereMock.mockResolvedValue([makeEntry({ id: 'e1' }), makeEntry({ id: 'e2' })]);
+    mockEnsureTags.mockResolvedValue(['tag-1']);
+
+    const result = await applyBulkAction(['e1', 'e2'], { type: 'tag', tag: 'Travel' });
+
+    expect(result.updated).toBe(2);
+    expect(mockEnsureTags).toHaveBeenCalledWith(['travel']);
+    expect(updateSetMock).not.toHaveBeenCalled();
+    expect(insertValuesMock).toHaveBeenCalledWith({ entryId: 'e2', tagId: 'tag-1' });
+  });
+
+  it('does not fail the request when a follow-up fails after the batch', async () => {
+    selectWhereMock.mockResolvedValue([makeEntry()]);
+    mockUpsertEmbedding.mockRejectedValue(new Error('OpenAI down'));
+
+    const result = await applyBulkAction(['e1'], { type: 'recategorize', category: 'Ideas' });
+
+    expect(result.updated).toBe(1);
+    expect(batchMock).toHaveBeenCalledTimes(1);
+  });
+});
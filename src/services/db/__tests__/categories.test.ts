@@ -0,0 +1,171 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ============= Mocks =============
+
+const { orderByMock, countFromMock, returningMock, updateSetMock, updateWhereMock, deleteWhereMock, insertValuesMock, batchMock } = vi.hoisted(() => ({
+  orderByMock: vi.fn(),
+  countFromMock: vi.fn(),
+  returningMock: vi.fn(),
+  updateSetMock: vi.fn(),
+  updateWhereMock: vi.fn(),
+  deleteWhereMock: vi.fn(),
+  insertValuesMock: vi.fn(),
+  batchMock: vi.fn(),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  createLogger: () => ({ debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() }),
+}));
+
+// select() → from() → orderBy() for the list; select({count}) → from() [→ where()] for counts
+// update(table) → set() → where() [→ returning()], run through batch(), which resolves the first statement
+vi.mock('@/db', () => ({
+  db: {
+    select: (fields?: unknown) => ({
+      from: () => (fields
+        ? {
+          where: () => countFromMock(),
+          then: (resolve: (v: unknown) => unknown, reject: (e: unknown) => unknown) => countFromMock().then(resolve, reject),
+        }
+        : { orderBy: orderByMock }),
+    }),
+    insert: () => ({ values: insertValuesMock }),
+    update: (table: unknown) => ({
+      set: (values: unknown) => {
+        updateSetMock(table, values);
+        return { where: updateWhereMock };
+      },
+    }),
+    delete: () => ({ where: deleteWhereMock }),
+    batch: batchMock,
+  },
+}));
+
+import {
+  getCategories,
+  getCategory,
+  clearCategoryCache,
+  updateCategory,
+  deleteCategory,
+} from '../categories';
+import { BUILTIN_CATEGORIES } from '@/config/categories';
+import { entries, classifierExamples, inboxLog } from '@/db/schema';
+
+const recipeRow = {
+  id: 'c6',
+  ...BUILTIN_CATEGORIES[2],
+  name: 'Recipe',
+  dbName: 'Recipes',
+  statuses: ['To Try', 'Cooked'],
+  defaultStatus: 'To Try',
+  doneStatus: 'Cooked',
+  sortOrder: 5,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+// ============= Tests =============
+
+describe('categories service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    clearCategoryCache();
+    orderByMock.mockResolvedValue([]);
+    countFromMock.mockResolvedValue([{ count: 0 }]);
+    updateWhereMock.mockReturnValue({ returning: returningMock });
+    batchMock.mockImplementation(async (statements: unknown[]) => [await returningMock(), ...statements.slice(1).map(() => [])]);
+    insertValuesMock.mockReturnValue({ onConflictDoNothing: vi.fn().mockResolvedValue(undefined) });
+  });
+
+  describe('getCategories', () => {
+    it('falls back to the built-ins when the table is empty', async () => {
+      expect(await getCategories()).toBe(BUILTIN_CATEGORIES);
+    });
+
+    it('falls back to the built-ins when the query fails', async () => {
+      orderByMock.mockRejectedValue(new Error('relation "categories" does not exist'));
+      expect(await getCategories()).toBe(BUILTIN_CATEGORIES);
+    });
+
+    it('returns stored definitions and caches them', async () => {
+      orderByMock.mockResolvedValue([recipeRow]);
+
+      const first = await getCategories();
+      await getCategories();
+
+      expect(first.map(c => c.name)).toEqual(['Recipe']);
+      expect(orderByMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('getCategory', () => {
+    it('matches singular and stored names case-insensitively', async () => {
+      expect((await getCategory('project'))?.dbName).toBe('Projects');
+      expect((await getCategory('Projects'))?.name).toBe('Project');
+      expect(await getCategory('Recipes')).toBeUndefined();
+    });
+  });
+
+  describe('updateCategory', () => {
+    it('seeds the built-ins before the first edit', async () => {
+      returningMock.mockResolvedValue([{ ...recipeRow, ...BUILTIN_CATEGORIES[2], icon: '✨' }]);
+
+      await updateCategory('Idea', { icon: '✨' });
+
+      expect(insertValuesMock).toHaveBeenCalledWith(BUILTIN_CATEGORIES);
+    });
+
+    it('moves entries when the stored name changes', async () => {
+      countFromMock.mockResolvedValue([{ count: 5 }]);
+      returningMock.mockResolvedValue([{ ...recipeRow, ...BUILTIN_CATEGORIES[2], dbName: 'Thoughts' }]);
+
+      const updated = await updateCategory('Idea', { dbName: 'Thoughts' });
+
+      expect(updated?.dbName).toBe('Thoughts');
+      expect(updateWhereMock).toHaveBeenCalledTimes(2);
+      expect(updateSetMock).toHaveBeenCalledWith(entries, { category: 'Thoughts' });
+      expect(batchMock).toHaveBeenCalledTimes(1);
+      expect(insertValuesMock).not.toHaveBeenCalled();
+    });
+
+    it('moves classifier examples and the inbox log along with a new singular name, in the same batch', async () => {
+      countFromMock.mockResolvedValue([{ count: 5 }]);
+      returningMock.mockResolvedValue([{ ...recipeRow, ...BUILTIN_CATEGORIES[2], name: 'Thought', dbName: 'Thoughts' }]);
+
+      await updateCategory('Idea', { name: 'Thought', dbName: 'Thoughts' });
+
+      expect(batchMock).toHaveBeenCalledTimes(1);
+      expect(batchMock.mock.calls[0][0]).toHaveLength(6);
+      expect(updateSetMock).toHaveBeenCalledWith(entries, { category: 'Thoughts' });
+      expect(updateSetMock).toHaveBeenCalledWith(classifierExamples, { category: 'Thought' });
+      expect(updateSetMock).toHaveBeenCalledWith(classifierExamples, { previousCategory: 'Thought' });
+      expect(updateSetMock).toHaveBeenCalledWith(inboxLog, { category: 'Thought' });
+      expect(updateSetMock).toHaveBeenCalledWith(inboxLog, { fixedCategory: 'Thought' });
+    });
+
+    it('returns null for unknown categories', async () => {
+      countFromMock.mockResolvedValue([{ count: 5 }]);
+      expect(await updateCategory('Meeting', { icon: '📅' })).toBeNull();
+    });
+  });
+
+  describe('deleteCategory', () => {
+    it('refuses while entries still use the category', async () => {
+      countFromMock
+        .mockResolvedValueOnce([{ count: 5 }]) // categories table is seeded
+        .mockResolvedValueOnce([{ count: 3 }]); // entries in Ideas
+
+      expect(await deleteCategory('Idea')).toEqual({ deleted: false, inUse: 3 });
+      expect(deleteWhereMock).not.toHaveBeenCalled();
+    });
+
+    it('deletes unused categories', async () => {
+      countFromMock
+        .mockResolvedValueOnce([{ count: 5 }])
+        .mockResolvedValueOnce([{ count: 0 }]);
+
+      expect(await deleteCategory('Idea')).toEqual({ deleted: true, inUse: 0 });
+      expect(deleteWhereMock).toHaveBeenCalled();
+    });
+  });
+});
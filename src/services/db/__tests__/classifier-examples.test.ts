@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ============= Mocks =============
+
+const { mockGenerateEmbedding, insertValuesMock, onConflictMock, limitMock } = vi.hoisted(() => ({
+  mockGenerateEmbedding: vi.fn(),
+  insertValuesMock: vi.fn(),
+  onConflictMock: vi.fn(),
+  limitMock: vi.fn(),
+}));
+
+vi.mock('../embeddings', () => ({
+  EMBEDDING_MODEL: 'text-embedding-3-small',
+  generateEmbedding: mockGenerateEmbedding,
+}));
+
+vi.mock('@/db', () => ({
+  db: {
+    insert: () => ({
+      values: (...args: unknown[]) => {
+        insertValuesMock(...args);
+        return { onConflictDoUpdate: onConflictMock };
+      },
+    }),
+    select: () => ({
+      from: () => ({
+        where: () => ({
+          limit: limitMock,
+          orderBy: () => ({ limit: limitMock }),
+        }),
+      }),
+    }),
+  },
+}));
+
+import { recordCorrection, findSimilarExamples } from '../classifier-examples';
+
+// ============= Tests =============
+
+describe('classifier examples', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    onConflictMock.mockResolvedValue(undefined);
+  });
+
+  describe('recordCorrection', () => {
+    it('stores the raw input with its embedding and corrected category', async () => {
+      mockGenerateEmbedding.mockResolvedValue([0.1, 0.2]);
+
+      await recordCorrection({ rawInput: '  Dal recipe ', category: 'Idea', previousCategory: 'Admin', source: 'web' });
+
+      expect(mockGenerateEmbedding).toHaveBeenCalledWith('Dal recipe');
+      expect(insertValuesMock).toHaveBeenCalledWith({
+        rawInput: 'Dal recipe',
+        category: 'Idea',
+        previousCategory: 'Admin',
+        source: 'web',
+        embedding: [0.1, 0.2],
+        embeddingModel: 'text-embedding-3-small',
+      });
+    });
+
+    it('keeps the label when embedding fails', async () => {
+      mockGenerateEmbedding.mockRejectedValue(new Error('rate limited'));
+
+      await recordCorrection({ rawInput: 'Dal recipe', category: 'Idea', source: 'telegram' });
+
+      expect(insertValuesMock).toHaveBeenCalledWith(expect.objectContaining({ embedding: null }));
+    });
+
+    it('ignores moves to the same category', async () => {
+      await recordCorrection({ rawInput: 'Dal recipe', category: 'Idea', previousCategory: 'Idea', source: 'web' });
+      expect(insertValuesMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findSimilarExamples', () => {
+    it('skips the embedding call when there are no examples yet', async () => {
+      limitMock.mockResolvedValueOnce([]);
+
+      expect(await findSimilarExamples('Rye bread')).toEqual([]);
+      expect(mockGenerateEmbedding).not.toHaveBeenCalled();
+    });
+
+    it('returns the nearest corrections', async () => {
+      mockGenerateEmbedding.mockResolvedValue([0.1, 0.2]);
+      limitMock
+        .mockResolvedValueOnce([{ id: 'x1' }])
+        .mockResolvedValueOnce([{ text: 'Sourdough notes', category: 'Idea' }]);
+
+      expect(await findSimilarExamples('Rye bread')).toEqual([{ text: 'Sourdough notes', category: 'Idea' }]);
+      expect(mockGenerateEmbedding).toHaveBeenCalledWith('Rye bread');
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const { mockEmbeddingsCreate } = vi.hoisted(() => ({ mockEmbeddingsCreate: vi.fn() }));
+
+vi.mock('openai', () => ({
+  default: class MockOpenAI {
+    embeddings = { create: mockEmbeddingsCreate };
+  },
+}));
+
+vi.mock('@/db', () => ({ db: {} }));
+
+import { fitDimensions, generateEmbeddingsBatch, EMBEDDING_DIMENSIONS } from '../embeddings';
+
+describe('embeddings', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('OPENAI_API_KEY', 'test-key');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe('fitDimensions', () => {
+    it('zero-pads shorter vectors to the column size', () => {
+      const fitted = fitDimensions([0.5, -0.5, 1]);
+      expect(fitted).toHaveLength(EMBEDDING_DIMENSIONS);
+      expect(fitted.slice(0, 4)).toEqual([0.5, -0.5, 1, 0]);
+    });
+
+    it('rejects vectors longer than the column', () => {
+      expect(() => fitDimensions(new Array(3072).fill(0.1), 'text-embedding-3-large'))
+        .toThrow('text-embedding-3-large returns 3072-dimension vectors');
+    });
+  });
+
+  describe('generateEmbeddingsBatch', () => {
+    it('asks text-embedding-3 models for vectors the size of the column', async () => {
+      mockEmbeddingsCreate.mockResolvedValue({
+        data: [{ embedding: new Array(EMBEDDING_DIMENSIONS).fill(0.1) }, { embedding: [0.2, 0.3] }],
+      });
+
+      const vectors = await generateEmbeddingsBatch(['Renew passport', 'Dal recipe']);
+
+      expect(mockEmbeddingsCreate).toHaveBeenCalledWith({
+        model: 'text-embedding-3-small',
+        input: ['Renew passport', 'Dal recipe'],
+        dimensions: EMBEDDING_DIMENSIONS,
+      });
+      expect(vectors.map(v => v.length)).toEqual([EMBEDDING_DIMENSIONS, EMBEDDING_DIMENSIONS]);
+    });
+  });
+});
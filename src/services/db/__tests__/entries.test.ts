@@ -60,6 +60,8 @@ vi.mock('@/lib/logger', () => ({
 vi.mock('@/services/db/embeddings', () => ({
   generateEmbedding: mockGenerateEmbedding,
   buildEmbeddingText: mockBuildEmbeddingText,
+  hashEmbeddingText: () => 'text-hash',
+  textHashColumn: () => ({ textHash: 'text-hash' }),
 }));
 
 vi.mock('@/db', () => {
@@ -90,11 +92,16 @@ vi.mock('@/db/schema', () => {
       priority: col('priority'),
       content: col('content'),
       embedding: col('embedding'),
+      searchVector: col('search_vector'),
       dueDate: col('due_date'),
       archived: col('archived_at'),
       createdAt: col('created_at'),
       updatedAt: col('updated_at'),
     },
+    entryRelations: {
+      sourceId: col('source_id'),
+      targetId: col('target_id'),
+    },
     inboxLog: {
       id: col('id'),
       rawInput: col('raw_input'),
@@ -114,9 +121,14 @@ import {
   getEntryByLegacyId,
   queryEntries,
   countEntries,
+  listEntries,
+  encodeCursor,
+  decodeCursor,
   updateEntry,
   archiveEntry,
+  restoreEntry,
   searchEntries,
+  reciprocalRankFusion,
   createInboxLogEntry,
 } from '../entries';
 
@@ -228,6 +240,16 @@ describe('entries service', () => {
       );
       expect(result).toBeDefined();
     });
+
+    it('rejects content that does not fit the category', async () => {
+      await expect(createEntry({
+        category: 'Admin',
+        title: 'Pay rent',
+        content: { nextAction: 'Open the bank app' },
+      })).rejects.toThrow('Invalid Admin content');
+
+      expect(mockChainRef.current.insert).not.toHaveBeenCalled();
+    });
   });
 
   // ==================== getEntry ====================
@@ -291,15 +313,26 @@ describe('entries service', () => {
         content: { notes: 'updated' },
       });
 
-      // set() should have been called with merged content
+      // set() should have been called with merged content, and the hash of the new text
       expect(mockChainRef.current.set).toHaveBeenCalledWith(
         expect.objectContaining({
           content: { notes: 'updated', company: 'Acme' },
+          textHash: 'text-hash',
         }),
       );
       expect(result).toBeDefined();
     });
 
+    it('rejects a content update with the wrong type', async () => {
+      mockChainRef.current._result = [MOCK_ENTRY];
+
+      await expect(updateEntry(MOCK_ENTRY.id, {
+        content: { nextAction: 42 },
+      })).rejects.toThrow('Invalid Project content: nextAction');
+
+      expect(mockChainRef.current.update).not.toHaveBeenCalled();
+    });
+
     it('regenerates embedding when title changes', async () => {
       const updatedEntry = { ...MOCK_ENTRY, title: 'New Title' };
       mockChainRef.current.returning = vi.fn().mockResolvedValue([updatedEntry]);
@@ -352,6 +385,30 @@ describe('entries service', () => {
     });
   });
 
+  // ==================== restoreEntry ====================
+  describe('restoreEntry', () => {
+    it('clears archived timestamp for an archived entry', async () => {
+      mockChainRef.current._result = [{ ...MOCK_ENTRY, archived: new Date('2024-02-01') }];
+      mockChainRef.current.returning = vi.fn().mockResolvedValue([MOCK_ENTRY]);
+
+      const result = await restoreEntry(MOCK_ENTRY.id);
+
+      expect(result).toEqual(MOCK_ENTRY);
+      expect(mockChainRef.current.set).toHaveBeenCalledWith(
+        expect.objectContaining({ archived: null }),
+      );
+    });
+
+    it('returns null when the entry is not archived', async () => {
+      mockChainRef.current._result = [MOCK_ENTRY];
+
+      const result = await restoreEntry(MOCK_ENTRY.id);
+
+      expect(result).toBeNull();
+      expect(mockChainRef.current.update).not.toHaveBeenCalled();
+    });
+  });
+
   // ==================== searchEntries ====================
   describe('searchEntries', () => {
     it('uses vector search when embedding is generated successfully', async () => {
@@ -392,6 +449,72 @@ describe('entries service', () => {
       // where() should have been called (conditions include archived IS NULL + category)
       expect(mockChainRef.current.where).toHaveBeenCalled();
     });
+
+    it('runs both keyword and vector legs and dedupes shared hits', async () => {
+      mockGenerateEmbedding.mockResolvedValueOnce([0.4, 0.5, 0.6]);
+      // Both legs resolve to the same rows in this mock
+      mockChainRef.current._result = [{ ...MOCK_ENTRY, similarity: 0.9, textRank: 0.4 }];
+
+      const results = await searchEntries('Build MVP');
+
+      expect(mockChainRef.current.select).toHaveBeenCalledWith(
+        expect.objectContaining({ textRank: expect.anything() }),
+      );
+      expect(mockChainRef.current.select).toHaveBeenCalledWith(
+        expect.objectContaining({ similarity: expect.anything() }),
+      );
+      expect(results).toHaveLength(1);
+      expect(results[0].similarity).toBe(0.9);
+      expect(results[0].textRank).toBe(0.4);
+      // Found by both legs at rank 1 → 2 / (60 + 1)
+      expect(results[0].score).toBeCloseTo(2 / 61);
+    });
+
+    it('respects the limit after fusion', async () => {
+      mockGenerateEmbedding.mockResolvedValueOnce([0.4, 0.5, 0.6]);
+      mockChainRef.current._result = [
+        { ...MOCK_ENTRY, id: 'a' },
+        { ...MOCK_ENTRY, id: 'b' },
+        { ...MOCK_ENTRY, id: 'c' },
+      ];
+
+      const results = await searchEntries('anything', { limit: 2 });
+
+      expect(results).toHaveLength(2);
+    });
+  });
+
+  // ==================== reciprocalRankFusion ====================
+  describe('reciprocalRankFusion', () => {
+    it('ranks items found by both lists above single-list hits', () => {
+      const keyword = [{ id: 'exact' }, { id: 'both' }];
+      const vector = [{ id: 'semantic' }, { id: 'both' }];
+
+      const fused = reciprocalRankFusion([keyword, vector]);
+
+      expect(fused.map(f => f.id)).toEqual(['both', 'exact', 'semantic']);
+    });
+
+    it('scores each appearance as 1 / (k + rank)', () => {
+      const fused = reciprocalRankFusion([[{ id: 'a' }, { id: 'b' }]], 10);
+
+      expect(fused[0]).toEqual({ id: 'a', score: 1 / 11 });
+      expect(fused[1]).toEqual({ id: 'b', score: 1 / 12 });
+    });
+
+    it('keeps the first-seen item fields for duplicates', () => {
+      const fused = reciprocalRankFusion([
+        [{ id: 'a', title: 'from keyword' }],
+        [{ id: 'a', title: 'from vector' }],
+      ]);
+
+      expect(fused).toHaveLength(1);
+      expect(fused[0].title).toBe('from keyword');
+    });
+
+    it('returns an empty list when every input is empty', () => {
+      expect(reciprocalRankFusion([[], []])).toEqual([]);
+    });
   });
 
   // ==================== createInboxLogEntry ====================
@@ -459,6 +582,64 @@ describe('entries service', () => {
     });
   });
 
+  // ==================== listEntries ====================
+  describe('listEntries', () => {
+    // The page query and the count run side by side, so each select() gets its own chain
+    function mockPage(rows: unknown[], total: number) {
+      const chains: ReturnType<typeof createChain>[] = [];
+      mockChainRef.current.select = vi.fn((fields?: Record<string, unknown>) => {
+        const chain = createChain();
+        chain._result = fields && 'total' in fields ? [{ total }] : rows;
+        chains.push(chain);
+        return chain;
+      });
+      return chains;
+    }
+
+    const row = (id: string, sortValue: string) => ({ entry: { ...MOCK_ENTRY, id }, sortValue });
+
+    it('returns the page, the total and a cursor after the last entry', async () => {
+      const chains = mockPage([row('a', '2024-01-03 10:00:00.123456+00'), row('b', '2024-01-02 10:00:00+00'), row('c', '2024-01-01 10:00:00+00')], 7);
+
+      const page = await listEntries({ category: ['Projects', 'Admin'], status: ['Active', 'Waiting'] }, { limit: 2 });
+
+      expect(page.items.map(entry => entry.id)).toEqual(['a', 'b']);
+      expect(page.total).toBe(7);
+      expect(decodeCursor(page.nextCursor!, 'created_at')).toEqual({ sort: 'created_at', value: '2024-01-02 10:00:00+00', id: 'b' });
+      // One extra row is fetched to tell whether another page follows
+      expect(chains[0].limit).toHaveBeenCalledWith(3);
+    });
+
+    it('has no cursor on the last page', async () => {
+      mockPage([row('a', 'Alpha')], 1);
+
+      const page = await listEntries({ hasRelation: true }, { sort: 'title', order: 'asc', limit: 2, cursor: { sort: 'title', value: 'Aardvark', id: 'z' } });
+
+      expect(page.items).toHaveLength(1);
+      expect(page.nextCursor).toBeNull();
+    });
+
+    it('caps the page size', async () => {
+      const chains = mockPage([], 0);
+
+      await listEntries({}, { limit: 500 });
+
+      expect(chains[0].limit).toHaveBeenCalledWith(101);
+    });
+  });
+
+  describe('decodeCursor', () => {
+    it('reads back an encoded cursor', () => {
+      const cursor = { sort: 'updated_at' as const, value: '2024-01-01 10:00:00.5+00', id: 'abc' };
+      expect(decodeCursor(encodeCursor(cursor), 'updated_at')).toEqual(cursor);
+    });
+
+    it('rejects cursors made for another sort or not made here', () => {
+      expect(decodeCursor(encodeCursor({ sort: 'title', value: 'A', id: 'abc' }), 'created_at')).toBeNull();
+      expect(decodeCursor('not-a-cursor', 'created_at')).toBeNull();
+    });
+  });
+
   // ==================== countEntries ====================
   describe('countEntries', () => {
     it('counts with filters', async () => {
@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ============= Mocks =============
+
+const { mockFindConfigEntry, mockUpsertConfig, returningMock, groupByMock, updateSetMock } = vi.hoisted(() => ({
+  mockFindConfigEntry: vi.fn(),
+  mockUpsertConfig: vi.fn(),
+  returningMock: vi.fn(),
+  groupByMock: vi.fn(),
+  updateSetMock: vi.fn(),
+}));
+
+vi.mock('../config', () => ({
+  findConfigEntry: mockFindConfigEntry,
+  upsertConfig: mockUpsertConfig,
+}));
+
+vi.mock('@/db', () => ({
+  db: {
+    select: () => ({ from: () => ({ where: () => ({ groupBy: groupByMock }) }) }),
+    update: () => ({
+      set: (...args: unknown[]) => {
+        updateSetMock(...args);
+        return { where: () => ({ returning: returningMock }) };
+      },
+    }),
+  },
+}));
+
+import {
+  getReviewThreshold,
+  setReviewThreshold,
+  captureLogStatus,
+  getClassifierAccuracy,
+  markInboxFixed,
+  resolveReview,
+  DEFAULT_REVIEW_THRESHOLD,
+} from '../inbox';
+
+// ============= Tests =============
+
+describe('inbox service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('threshold', () => {
+    it('reads the threshold from config', async () => {
+      mockFindConfigEntry.mockResolvedValue({ id: 'c1', value: { data: 0.75 } });
+
+      expect(await getReviewThreshold()).toBe(0.75);
+      expect(mockFindConfigEntry).toHaveBeenCalledWith('review_confidence_threshold');
+    });
+
+    it('falls back to the default when unset or out of range', async () => {
+      mockFindConfigEntry.mockResolvedValue(undefined);
+      expect(await getReviewThreshold()).toBe(DEFAULT_REVIEW_THRESHOLD);
+
+      mockFindConfigEntry.mockResolvedValue({ id: 'c1', value: { data: 60 } });
+      expect(await getReviewThreshold()).toBe(DEFAULT_REVIEW_THRESHOLD);
+    });
+
+    it('stores the threshold in config', async () => {
+      await setReviewThreshold(0.5);
+      expect(mockUpsertConfig).toHaveBeenCalledWith('review_confidence_threshold', 0.5);
+    });
+
+    it('parks captures below the threshold', () => {
+      expect(captureLogStatus(0.4, 0.6)).toBe('Needs Review');
+      expect(captureLogStatus(0.6, 0.6)).toBe('Processed');
+      expect(captureLogStatus(0.95, 0.6)).toBe('Processed');
+    });
+  });
+
+  describe('getClassifierAccuracy', () => {
+    it('computes Processed / (Processed + Fixed)', async () => {
+      groupByMock.mockResolvedValue([
+        { status: 'Processed', count: 8 },
+        { status: 'Fixed', count: 2 },
+        { status: 'Needs Review', count: 3 },
+      ]);
+
+      expect(await getClassifierAccuracy()).toEqual({
+        processed: 8,
+        fixed: 2,
+        needsReview: 3,
+        ignored: 0,
+        accuracy: 0.8,
+      });
+    });
+
+    it('has no accuracy before anything is resolved', async () => {
+      groupByMock.mockResolvedValue([{ status: 'Needs Review', count: 1 }]);
+      expect((await getClassifierAccuracy()).accuracy).toBeNull();
+    });
+  });
+
+  describe('markInboxFixed', () => {
+    it('marks the capture row Fixed and points it at the new entry', async () => {
+      returningMock.mockResolvedValue([{ id: 'log-1', rawInput: 'bees', category: 'Admin' }]);
+
+      expect(await markInboxFixed('old-id', 'Idea', 'new-id')).toEqual([{ id: 'log-1', rawInput: 'bees', category: 'Admin' }]);
+      expect(updateSetMock).toHaveBeenCalledWith({ status: 'Fixed', fixedCategory: 'Idea', destinationId: 'new-id' });
+    });
+  });
+
+  describe('resolveReview', () => {
+    it('returns null when the row is not waiting for review', async () => {
+      returningMock.mockResolvedValue([]);
+      expect(await resolveReview('log-1', 'Processed')).toBeNull();
+    });
+
+    it('returns the resolved row', async () => {
+      returningMock.mockResolvedValue([{ id: 'log-1', status: 'Ignored' }]);
+      expect(await resolveReview('log-1', 'Ignored')).toEqual({ id: 'log-1', status: 'Ignored' });
+      expect(updateSetMock).toHaveBeenCalledWith({ status: 'Ignored' });
+    });
+  });
+});
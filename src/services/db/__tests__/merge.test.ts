@@ -0,0 +1,231 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ============= Mocks =============
+
+const {
+  mockGetEntry,
+  mockGetEntryTags,
+  mockEnsureTags,
+  mockUpsertEmbedding,
+  selectWhereMock,
+  batchMock,
+} = vi.hoisted(() => ({
+  mockGetEntry: vi.fn(),
+  mockGetEntryTags: vi.fn(),
+  mockEnsureTags: vi.fn(),
+  mockUpsertEmbedding: vi.fn(),
+  selectWhereMock: vi.fn(),
+  batchMock: vi.fn(),
+}));
+
+vi.mock('../entries', () => ({
+  getEntry: mockGetEntry,
+}));
+
+vi.mock('../categories', async () => {
+  const { BUILTIN_CATEGORIES, findCategory } = await import('@/config/categories');
+  return { getCategory: vi.fn(async (name: string) => findCategory(BUILTIN_CATEGORIES, name)) };
+});
+
+vi.mock('../tags', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../tags')>()),
+  getEntryTags: mockGetEntryTags,
+  ensureTags: mockEnsureTags,
+}));
+
+vi.mock('../embeddings', () => ({
+  upsertEmbedding: mockUpsertEmbedding,
+  buildEmbeddingText: (title: string) => title,
+  textHashColumn: (title: string) => ({ textHash: `hash:${title}` }),
+}));
+
+// Statements are recorded rather than run: update() → set() → where(); insert() → values()
+// [→ onConflictDoNothing()]; delete() → where(); select() → from() → where()
+vi.mock('@/db', () => ({
+  db: {
+    update: (table: unknown) => ({ set: (values: unknown) => ({ where: () => ({ kind: 'update', table, values }) }) }),
+    insert: (table: unknown) => ({
+      values: (values: unknown) => ({ kind: 'insert', table, values, onConflictDoNothing: () => ({ kind: 'insert', table, values }) }),
+    }),
+    delete: (table: unknown) => ({ where: () => ({ kind: 'delete', table }) }),
+    select: () => ({ from: () => ({ where: selectWhereMock }) }),
+    batch: batchMock,
+  },
+}));
+
+import { mergeContent, redundantRelations, mergeEntries } from '../merge';
+import { entries, entryRelations, entryRevisions, entryTags, activityLog, inboxLog } from '@/db/schema';
+import type { Entry, EntryRelation } from '@/db/schema';
+
+function makeEntry(overrides: Partial<Entry> = {}): Entry {
+  return {
+    id: 'target',
+    notionId: null,
+    category: 'Admin',
+    title: 'Follow up with Sam re: pricing',
+    status: 'Todo',
+    priority: null,
+    content: {},
+    embedding: null,
+    embeddingModel: null,
+    embeddingHash: null,
+    textHash: null,
+    searchVector: null,
+    dueDate: null,
+    recurrence: null,
+    source: 'web',
+    archived: null,
+    createdAt: new Date('2025-03-10'),
+    updatedAt: new Date('2025-03-10'),
+    ...overrides,
+  };
+}
+
+function makeRelation(id: string, sourceId: string, targetId: string, relationType = 'related_to'): EntryRelation {
+  return { id, sourceId, targetId, relationType, createdAt: new Date() };
+}
+
+// ============= Tests =============
+
+describe('mergeContent', () => {
+  it('combines notes and keeps the duplicate wording', () => {
+    const target = makeEntry({ content: { notes: 'Send the Q3 deck', adminCategory: 'Work' } });
+    const duplicate = makeEntry({ title: 'Ping Sam about pricing', content: { notes: 'He asked for tiers', adminCategory: 'Home' } });
+
+    expect(mergeContent(target, duplicate)).toEqual({
+      adminCategory: 'Work',
+      notes: 'Send the Q3 deck\n\nPing Sam about pricing\nHe asked for tiers',
+    });
+  });
+
+  it('leaves notes alone when the duplicate adds nothing', () => {
+    const target = makeEntry({ content: { notes: 'Send the Q3 deck' } });
+    expect(mergeContent(target, makeEntry())).toEqual({ notes: 'Send the Q3 deck' });
+  });
+});
+
+describe('redundantRelations', () => {
+  it('drops self-links and repeated pairs in either direction', () => {
+    const relations = [
+      makeRelation('r1', 'target', 'p1'),
+      makeRelation('r2', 'p1', 'target'),
+      makeRelation('r3', 'target', 'target'),
+      makeRelation('r4', 'target', 'p1', 'part_of'),
+    ];
+
+    expect(redundantRelations(relations)).toEqual(['r2', 'r3']);
+  });
+});
+
+describe('mergeEntries', () => {
+  const target = makeEntry();
+  const duplicate = makeEntry({
+    id: 'dup',
+    title: 'follow up with Sam about pricing',
+    dueDate: new Date('2025-04-01T00:00:00.000Z'),
+    createdAt: new Date('2025-03-01'),
+  });
+
+  type Statement = { kind: string; table: unknown; values?: Record<string, unknown> };
+  const statements = (): Statement[] => batchMock.mock.calls[0][0];
+  const find = (kind: string, table: unknown) => statements().filter(s => s.kind === kind && s.table === table);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetEntry.mockImplementation(async (id: string) => (id === 'dup' ? duplicate : id === 'target' ? target : null));
+    selectWhereMock.mockResolvedValue([makeRelation('r1', 'target', 'p1'), makeRelation('r2', 'dup', 'p1')]);
+    mockGetEntryTags.mockResolvedValue([]);
+    mockEnsureTags.mockImplementation(async (names: string[]) => names.map(name => `tag-${name}`));
+    batchMock.mockResolvedValue([]);
+  });
+
+  it('folds the duplicate into the target and archives it in one batch', async () => {
+    const merged = await mergeEntries('dup', 'target');
+
+    expect(batchMock).toHaveBeenCalledTimes(1);
+    const [targetUpdate, archive] = find('update', entries);
+    expect(targetUpdate.values).toMatchObject({
+      content: { notes: 'follow up with Sam about pricing' },
+      dueDate: duplicate.dueDate,
+      createdAt: duplicate.createdAt,
+    });
+    expect(archive.values).toEqual({ archived: expect.any(Date) });
+    expect(find('update', entryRelations).map(s => s.values)).toEqual([{ sourceId: 'target' }, { targetId: 'target' }]);
+    expect(find('update', activityLog)[0].values).toEqual({ entryId: 'target' });
+    expect(find('update', inboxLog)[0].values).toEqual({ destinationId: 'target' });
+    expect(find('insert', entryRevisions).map(s => [s.values?.entryId, s.values?.action])).toEqual([
+      ['target', 'updated'],
+      ['dup', 'merged'],
+    ]);
+    expect(find('insert', activityLog)[0].values).toEqual({
+      entryId: 'target',
+      action: 'merged',
+      metadata: { merged_id: 'dup', merged_title: duplicate.title },
+    });
+    expect(merged?.createdAt).toEqual(duplicate.createdAt);
+    expect(mockUpsertEmbedding).toHaveBeenCalledWith('target', target.title);
+  });
+
+  it('drops relations that repeat once both ends are the target', async () => {
+    await mergeEntries('dup', 'target');
+
+    expect(find('delete', entryRelations)).toHaveLength(1);
+  });
+
+  it('copies the duplicate tags onto the target', async () => {
+    mockGetEntryTags.mockImplementation(async (id: string) => (id === 'dup' ? ['pricing', 'sam'] : ['sam']));
+
+    await mergeEntries('dup', 'target');
+
+    expect(mockEnsureTags).toHaveBeenCalledWith(['pricing']);
+    expect(find('insert', entryTags)[0].values).toEqual([{ entryId: 'target', tagId: 'tag-pricing' }]);
+  });
+
+  it('keeps the target created date when it is older', async () => {
+    mockGetEntry.mockImplementation(async (id: string) =>
+      id === 'dup' ? { ...duplicate, createdAt: new Date('2025-05-01') } : target
+    );
+
+    await mergeEntries('dup', 'target');
+
+    expect(find('update', entries)[0].values).not.toHaveProperty('createdAt');
+  });
+
+  it('folds content the category does not accept into notes', async () => {
+    mockGetEntry.mockImplementation(async (id: string) =>
+      id === 'dup' ? { ...duplicate, content: { nextAction: 'Email Sam' } } : target
+    );
+
+    await mergeEntries('dup', 'target');
+
+    expect(find('update', entries)[0].values?.content).toEqual({
+      notes: 'follow up with Sam about pricing\n\nnextAction: Email Sam',
+    });
+  });
+
+  it('refuses entries from different categories without writing', async () => {
+    mockGetEntry.mockImplementation(async (id: string) => (id === 'dup' ? { ...duplicate, category: 'Projects' } : target));
+
+    await expect(mergeEntries('dup', 'target')).rejects.toThrow('Cannot merge a Projects entry into a Admin entry');
+    expect(batchMock).not.toHaveBeenCalled();
+  });
+
+  it('writes nothing else when the batch fails', async () => {
+    batchMock.mockRejectedValue(new Error('connection reset'));
+
+    await expect(mergeEntries('dup', 'target')).rejects.toThrow('connection reset');
+    expect(mockUpsertEmbedding).not.toHaveBeenCalled();
+  });
+
+  it('returns null when either entry is missing or archived', async () => {
+    expect(await mergeEntries('dup', 'missing')).toBeNull();
+
+    mockGetEntry.mockImplementation(async (id: string) => (id === 'dup' ? { ...duplicate, archived: new Date() } : target));
+    expect(await mergeEntries('dup', 'target')).toBeNull();
+    expect(batchMock).not.toHaveBeenCalled();
+  });
+
+  it('refuses to merge an entry into itself', async () => {
+    await expect(mergeEntries('target', 'target')).rejects.toThrow('into itself');
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ============= Mocks =============
+
+const { mockAddRelation, selectWhereMock } = vi.hoisted(() => ({
+  mockAddRelation: vi.fn(),
+  selectWhereMock: vi.fn(),
+}));
+
+vi.mock('../relations', () => ({
+  addRelation: mockAddRelation,
+}));
+
+// select() → from() → where()
+vi.mock('@/db', () => ({
+  db: {
+    select: () => ({ from: () => ({ where: selectWhereMock }) }),
+  },
+}));
+
+import { normalizeName, scorePersonMatch, matchPerson, linkMentionedPeople, PERSON_MATCH_THRESHOLD } from '../people';
+import type { Entry } from '@/db/schema';
+
+const DANA = { id: 'p-dana', name: 'Dana Whitfield', company: 'Acme Corp' };
+const DANA_GLOBEX = { id: 'p-dana-g', name: 'Dana Park', company: 'Globex' };
+const PRIYA = { id: 'p-priya', name: 'Priya Raman' };
+
+function makeEntry(overrides: Partial<Entry> = {}): Entry {
+  return {
+    id: 'e-lunch',
+    notionId: null,
+    category: 'Project',
+    title: 'Q3 launch',
+    status: 'Active',
+    priority: null,
+    content: {},
+    embedding: null,
+    embeddingModel: null,
+    embeddingHash: null,
+    textHash: null,
+    searchVector: null,
+    dueDate: null,
+    recurrence: null,
+    source: 'web',
+    archived: null,
+    createdAt: new Date('2025-03-10'),
+    updatedAt: new Date('2025-03-10'),
+    ...overrides,
+  };
+}
+
+function peopleRows(people: Array<{ id: string; name: string; company?: string }>) {
+  return people.map(p => ({ id: p.id, title: p.name, content: p.company ? { company: p.company } : {} }));
+}
+
+// ============= Tests =============
+
+describe('normalizeName', () => {
+  it('ignores case, accents and punctuation', () => {
+    expect(normalizeName('  José O\'Neil-Smith ')).toBe('jose oneil smith');
+  });
+});
+
+describe('scorePersonMatch', () => {
+  it('matches a first name against a full name', () => {
+    expect(scorePersonMatch({ name: 'Dana' }, DANA)).toBeGreaterThanOrEqual(PERSON_MATCH_THRESHOLD);
+  });
+
+  it('tolerates a small typo', () => {
+    expect(scorePersonMatch({ name: 'Dana Whitfeld' }, DANA)).toBeGreaterThanOrEqual(PERSON_MATCH_THRESHOLD);
+  });
+
+  it('counts a shortened company name as the same company', () => {
+    expect(scorePersonMatch({ name: 'Dana', company: 'Acme' }, DANA)).toBeCloseTo(0.95);
+  });
+
+  it('rules out a different company', () => {
+    expect(scorePersonMatch({ name: 'Dana', company: 'Initech' }, DANA)).toBeLessThan(PERSON_MATCH_THRESHOLD);
+  });
+
+  it('does not match unrelated names', () => {
+    expect(scorePersonMatch({ name: 'Sam' }, DANA)).toBeLessThan(PERSON_MATCH_THRESHOLD);
+  });
+});
+
+describe('matchPerson', () => {
+  it('uses the company to pick between people with the same first name', () => {
+    expect(matchPerson({ name: 'Dana', company: 'Acme' }, [DANA, DANA_GLOBEX])).toMatchObject({ id: 'p-dana' });
+  });
+
+  it('reports a tie without a company as ambiguous', () => {
+    expect(matchPerson({ name: 'Dana' }, [DANA, DANA_GLOBEX])).toBe('ambiguous');
+  });
+
+  it('returns null when nobody is close enough', () => {
+    expect(matchPerson({ name: 'Morgan' }, [DANA, PRIYA])).toBeNull();
+  });
+});
+
+describe('linkMentionedPeople', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    selectWhereMock.mockResolvedValue(peopleRows([DANA, DANA_GLOBEX, PRIYA]));
+  });
+
+  it('relates matched people and returns unknown names once', async () => {
+    const links = await linkMentionedPeople(makeEntry(), [
+      { name: 'Dana', company: 'Acme' },
+      { name: 'Dana Whitfield' },
+      { name: 'Morgan' },
+      { name: 'morgan' },
+    ]);
+
+    expect(mockAddRelation).toHaveBeenCalledTimes(1);
+    expect(mockAddRelation).toHaveBeenCalledWith('e-lunch', 'p-dana', 'related_to');
+    expect(links.linked.map(p => p.id)).toEqual(['p-dana']);
+    expect(links.unknown).toEqual([{ name: 'Morgan' }]);
+  });
+
+  it('neither links nor offers ambiguous names', async () => {
+    const links = await linkMentionedPeople(makeEntry(), [{ name: 'Dana' }]);
+
+    expect(mockAddRelation).not.toHaveBeenCalled();
+    expect(links).toEqual({ linked: [], unknown: [] });
+  });
+
+  it('skips a People entry mentioning itself', async () => {
+    const links = await linkMentionedPeople(
+      makeEntry({ id: 'p-new', category: 'People', title: 'Morgan Lee' }),
+      [{ name: 'Morgan Lee' }, { name: 'Priya' }]
+    );
+
+    expect(links.unknown).toEqual([]);
+    expect(mockAddRelation).toHaveBeenCalledWith('p-new', 'p-priya', 'related_to');
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Entry } from '@/db/schema';
+
+// ============= Mocks =============
+
+const { mockCreateEntry, mockLogActivity, mockUpdateWhere, mockGetUserTimezone } = vi.hoisted(() => ({
+  mockCreateEntry: vi.fn(),
+  mockLogActivity: vi.fn(),
+  mockUpdateWhere: vi.fn(),
+  mockGetUserTimezone: vi.fn(),
+}));
+
+vi.mock('@/db', () => ({
+  db: { update: () => ({ set: () => ({ where: mockUpdateWhere }) }) },
+}));
+
+vi.mock('../entries', () => ({
+  createEntry: (...args: unknown[]) => mockCreateEntry(...args),
+}));
+
+vi.mock('../activity', () => ({
+  logActivity: (...args: unknown[]) => mockLogActivity(...args),
+}));
+
+vi.mock('../categories', async () => {
+  const { BUILTIN_CATEGORIES, findCategory } = await import('@/config/categories');
+  return { getCategory: async (name: string) => findCategory(BUILTIN_CATEGORIES, name) };
+});
+
+vi.mock('@/services/google/calendar', () => ({
+  getUserTimezone: mockGetUserTimezone,
+}));
+
+vi.mock('@/lib/logger', () => ({
+  createLogger: () => ({ debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() }),
+}));
+
+import { spawnNextOccurrence } from '../recurrence';
+
+const entry: Entry = {
+  id: 'e1',
+  notionId: null,
+  category: 'Admin',
+  title: 'Bins out',
+  status: 'Todo',
+  priority: 'Medium',
+  content: { notes: 'Green bin too' },
+  embedding: null,
+  embeddingModel: null,
+  embeddingHash: null,
+  textHash: null,
+  searchVector: null,
+  dueDate: new Date('2025-01-13T00:00:00.000Z'), // Monday
+  recurrence: 'FREQ=WEEKLY;BYDAY=MO',
+  source: 'telegram',
+  archived: null,
+  createdAt: new Date('2025-01-01'),
+  updatedAt: new Date('2025-01-01'),
+};
+
+// ============= Tests =============
+
+describe('spawnNextOccurrence', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-13T18:00:00Z'));
+    mockUpdateWhere.mockResolvedValue(undefined);
+    mockGetUserTimezone.mockResolvedValue('UTC');
+    mockCreateEntry.mockImplementation(async input => ({ ...entry, id: 'e2', ...input }));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('creates the next occurrence and hands the rule over', async () => {
+    const next = await spawnNextOccurrence(entry, 'Done');
+
+    expect(next?.id).toBe('e2');
+    expect(mockCreateEntry).toHaveBeenCalledWith({
+      category: 'Admin',
+      title: 'Bins out',
+      priority: 'Medium',
+      content: { notes: 'Green bin too' },
+      dueDate: '2025-01-20',
+      recurrence: 'FREQ=WEEKLY;BYDAY=MO',
+      source: 'telegram',
+    });
+    expect(mockUpdateWhere).toHaveBeenCalledTimes(1);
+    expect(mockLogActivity).toHaveBeenCalledWith('e2', 'created', { category: 'Admin', recurrence_of: 'e1' });
+  });
+
+  it('ignores entries without a rule and statuses other than done', async () => {
+    expect(await spawnNextOccurrence({ ...entry, recurrence: null }, 'Done')).toBeNull();
+    expect(await spawnNextOccurrence(entry, 'Todo')).toBeNull();
+    expect(await spawnNextOccurrence({ ...entry, category: 'Ideas' }, 'Done')).toBeNull();
+    expect(mockCreateEntry).not.toHaveBeenCalled();
+    expect(mockUpdateWhere).not.toHaveBeenCalled();
+  });
+
+  it('ends the series after the last COUNT', async () => {
+    expect(await spawnNextOccurrence({ ...entry, recurrence: 'FREQ=WEEKLY;COUNT=1' }, 'Done')).toBeNull();
+    expect(mockUpdateWhere).toHaveBeenCalledTimes(1);
+    expect(mockCreateEntry).not.toHaveBeenCalled();
+  });
+
+  it('schedules from today when the entry has no due date', async () => {
+    await spawnNextOccurrence({ ...entry, dueDate: null, recurrence: 'FREQ=DAILY' }, 'Done');
+    expect(mockCreateEntry).toHaveBeenCalledWith(expect.objectContaining({ dueDate: '2025-01-14' }));
+  });
+
+  it("takes today and timed due dates in the user's timezone", async () => {
+    // 18:00 UTC on the 13th is already the 14th in Auckland
+    mockGetUserTimezone.mockResolvedValue('Pacific/Auckland');
+    await spawnNextOccurrence({ ...entry, dueDate: null, recurrence: 'FREQ=DAILY' }, 'Done');
+    expect(mockCreateEntry).toHaveBeenLastCalledWith(expect.objectContaining({ dueDate: '2025-01-15' }));
+
+    // 20:00 on Sunday the 12th in New York is Monday 01:00 UTC
+    vi.setSystemTime(new Date('2025-01-12T12:00:00Z'));
+    mockGetUserTimezone.mockResolvedValue('America/New_York');
+    await spawnNextOccurrence({ ...entry, dueDate: new Date('2025-01-13T01:00:00Z'), recurrence: 'FREQ=DAILY' }, 'Done');
+    expect(mockCreateEntry).toHaveBeenLastCalledWith(expect.objectContaining({ dueDate: '2025-01-13' }));
+  });
+
+  it('fits older content to the category schema', async () => {
+    await spawnNextOccurrence({ ...entry, content: { notes: 'Green bin too', admin_category: 'Home', bin: 'green', legacy: 3 } }, 'Done');
+
+    expect(mockCreateEntry).toHaveBeenCalledWith(expect.objectContaining({
+      content: { adminCategory: 'Home', notes: 'Green bin too\n\nbin: green' },
+    }));
+  });
+
+  it('keeps the rule on the entry when the next occurrence cannot be created', async () => {
+    mockCreateEntry.mockRejectedValue(new Error('Invalid Admin content'));
+
+    expect(await spawnNextOccurrence(entry, 'Done')).toBeNull();
+    expect(mockUpdateWhere).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,198 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ============= Mocks =============
+
+const { selectLimitMock, selectWhereMock, updateSetMock, batchMock, mockGenerateEmbeddingsBatch } = vi.hoisted(() => ({
+  selectLimitMock: vi.fn(),
+  selectWhereMock: vi.fn(),
+  updateSetMock: vi.fn(),
+  batchMock: vi.fn(),
+  mockGenerateEmbeddingsBatch: vi.fn(),
+}));
+
+// select() → from() → where() [→ orderBy() → limit()]; update() → set() → where()
+// A select awaited straight after where() resolves to selectWhereMock()
+vi.mock('@/db', () => {
+  const chain = {
+    from: () => chain,
+    where: () => chain,
+    orderBy: () => chain,
+    limit: selectLimitMock,
+    then: (resolve: (rows: unknown) => unknown, reject: (err: unknown) => unknown) =>
+      Promise.resolve(selectWhereMock()).then(resolve, reject),
+  };
+  return {
+    db: {
+      select: () => chain,
+      update: () => ({
+        set: (values: unknown) => {
+          updateSetMock(values);
+          return { where: () => ({ kind: 'update', values }) };
+        },
+      }),
+      batch: batchMock,
+    },
+  };
+});
+
+vi.mock('../embeddings', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../embeddings')>()),
+  generateEmbeddingsBatch: mockGenerateEmbeddingsBatch,
+}));
+
+import { embeddingState, getEmbeddingStatus, reindexEmbeddings } from '../reindex';
+import { EMBEDDING_MODEL, hashEmbeddingText } from '../embeddings';
+
+function makeRow(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    title: `Entry ${id}`,
+    content: {},
+    hasEmbedding: true,
+    embeddingModel: EMBEDDING_MODEL,
+    embeddingHash: hashEmbeddingText(`Entry ${id}`),
+    textHash: hashEmbeddingText(`Entry ${id}`),
+    ...overrides,
+  };
+}
+
+// ============= Tests =============
+
+describe('embeddingState', () => {
+  const hash = hashEmbeddingText('Renew passport');
+
+  it('is current when model and text hash both match', () => {
+    expect(embeddingState({ hasEmbedding: true, embeddingModel: EMBEDDING_MODEL, embeddingHash: hash }, hash)).toBe('current');
+  });
+
+  it('reports a missing vector before anything else', () => {
+    expect(embeddingState({ hasEmbedding: false, embeddingModel: null, embeddingHash: null }, hash)).toBe('missing');
+  });
+
+  it('reports vectors from another model, or untracked ones, as outdated', () => {
+    expect(embeddingState({ hasEmbedding: true, embeddingModel: 'text-embedding-ada-002', embeddingHash: hash }, hash)).toBe('outdated_model');
+    expect(embeddingState({ hasEmbedding: true, embeddingModel: null, embeddingHash: null }, hash)).toBe('outdated_model');
+  });
+
+  it('reports a vector built from other text as stale', () => {
+    expect(embeddingState({ hasEmbedding: true, embeddingModel: EMBEDDING_MODEL, embeddingHash: null }, hash)).toBe('stale');
+    expect(embeddingState(
+      { hasEmbedding: true, embeddingModel: EMBEDDING_MODEL, embeddingHash: hashEmbeddingText('Renew passport soon') },
+      hash
+    )).toBe('stale');
+  });
+});
+
+describe('getEmbeddingStatus', () => {
+  it('reports the stored counts without reading entry text', async () => {
+    selectWhereMock
+      .mockResolvedValueOnce([{ total: 40, missing: 2, outdatedModel: 3, stale: 4 }])
+      .mockResolvedValueOnce([{ total: 5 }]);
+
+    expect(await getEmbeddingStatus()).toEqual({
+      model: EMBEDDING_MODEL,
+      total: 40,
+      missing: 2,
+      outdatedModel: 3,
+      stale: 4,
+      outdatedExamples: 5,
+    });
+    expect(selectLimitMock).not.toHaveBeenCalled();
+  });
+});
+
+describe('reindexEmbeddings', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    batchMock.mockResolvedValue([]);
+    mockGenerateEmbeddingsBatch.mockImplementation(async (texts: string[]) => texts.map(() => [0.1, 0.2]));
+  });
+
+  it('embeds only entries that need it and records model and hash', async () => {
+    selectLimitMock
+      .mockResolvedValueOnce([
+        makeRow('e1'),
+        makeRow('e2', { hasEmbedding: false, embeddingModel: null, embeddingHash: null }),
+        makeRow('e3', { embeddingHash: 'old' }),
+      ])
+      .mockResolvedValueOnce([]); // classifier examples
+
+    const result = await reindexEmbeddings();
+
+    expect(result).toMatchObject({ embedded: 2, failed: 0, examplesEmbedded: 0, remaining: false });
+    expect(mockGenerateEmbeddingsBatch).toHaveBeenCalledWith(['Entry e2', 'Entry e3'], 20);
+    expect(batchMock).toHaveBeenCalledTimes(1);
+    expect(updateSetMock).toHaveBeenCalledWith({
+      embedding: [0.1, 0.2],
+      embeddingModel: EMBEDDING_MODEL,
+      embeddingHash: hashEmbeddingText('Entry e2'),
+    });
+  });
+
+  it('fills in a missing text hash without re-embedding a current vector', async () => {
+    selectLimitMock
+      .mockResolvedValueOnce([makeRow('e1', { textHash: null }), makeRow('e2', { embeddingHash: 'old', textHash: null })])
+      .mockResolvedValueOnce([]);
+
+    const result = await reindexEmbeddings();
+
+    expect(result).toMatchObject({ embedded: 1 });
+    expect(mockGenerateEmbeddingsBatch).toHaveBeenCalledWith(['Entry e2'], 20);
+    expect(updateSetMock).toHaveBeenCalledWith({ textHash: hashEmbeddingText('Entry e1') });
+    expect(updateSetMock).toHaveBeenCalledWith({ textHash: hashEmbeddingText('Entry e2') });
+  });
+
+  it('corrects a wrong text hash on a current vector so the row stops being scanned', async () => {
+    selectLimitMock
+      .mockResolvedValueOnce([makeRow('e1', { textHash: 'wrong' })])
+      .mockResolvedValueOnce([]);
+
+    const result = await reindexEmbeddings();
+
+    expect(result).toMatchObject({ embedded: 0 });
+    expect(mockGenerateEmbeddingsBatch).not.toHaveBeenCalled();
+    expect(updateSetMock).toHaveBeenCalledWith({ textHash: hashEmbeddingText('Entry e1') });
+    expect(batchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops at the limit and reports remaining work', async () => {
+    selectLimitMock.mockResolvedValueOnce(
+      ['e1', 'e2', 'e3'].map(id => makeRow(id, { embeddingModel: 'text-embedding-ada-002' }))
+    );
+
+    const result = await reindexEmbeddings({ limit: 2 });
+
+    expect(result).toMatchObject({ embedded: 2, remaining: true });
+    expect(mockGenerateEmbeddingsBatch).toHaveBeenCalledWith(['Entry e1', 'Entry e2'], 20);
+    expect(selectLimitMock).toHaveBeenCalledTimes(1); // Examples wait for the next pass
+  });
+
+  it('counts a failed batch and carries on with the next one', async () => {
+    selectLimitMock
+      .mockResolvedValueOnce(['e1', 'e2', 'e3'].map(id => makeRow(id, { hasEmbedding: false })))
+      .mockResolvedValueOnce([]);
+    mockGenerateEmbeddingsBatch
+      .mockRejectedValueOnce(new Error('Rate limited'))
+      .mockImplementation(async (texts: string[]) => texts.map(() => [0.3]));
+
+    const result = await reindexEmbeddings({ batchSize: 2 });
+
+    expect(result).toMatchObject({ embedded: 1, failed: 2 });
+    expect(batchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('re-embeds classifier examples with what is left of the limit', async () => {
+    selectLimitMock
+      .mockResolvedValueOnce([makeRow('e1')])
+      .mockResolvedValueOnce([
+        { id: 'x1', rawInput: 'call mum' },
+        { id: 'x2', rawInput: 'book dentist' },
+      ]);
+
+    const result = await reindexEmbeddings({ limit: 1 });
+
+    expect(result).toMatchObject({ embedded: 0, examplesEmbedded: 1, remaining: true });
+    expect(selectLimitMock).toHaveBeenLastCalledWith(2);
+    expect(updateSetMock).toHaveBeenCalledWith({ embedding: [0.1, 0.2], embeddingModel: EMBEDDING_MODEL });
+  });
+});
@@ -0,0 +1,274 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ============= Hoisted mock variables =============
+
+const { mockUpsertEmbedding, mockChainRef, createChain } = vi.hoisted(() => {
+  const mockUpsertEmbedding = vi.fn().mockResolvedValue(undefined);
+
+  // Chainable, thenable DB mock (same shape as entries.test.ts)
+  function createChain() {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const chain: Record<string, any> = {};
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    chain._result = [] as any[];
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    chain.then = vi.fn((resolve: any) => resolve(chain._result));
+    chain.select = vi.fn().mockReturnValue(chain);
+    chain.from = vi.fn().mockReturnValue(chain);
+    chain.where = vi.fn().mockReturnValue(chain);
+    chain.limit = vi.fn().mockReturnValue(chain);
+    chain.orderBy = vi.fn().mockReturnValue(chain);
+    chain.insert = vi.fn().mockReturnValue(chain);
+    chain.values = vi.fn().mockReturnValue(chain);
+    chain.update = vi.fn().mockReturnValue(chain);
+    chain.set = vi.fn().mockReturnValue(chain);
+    chain.returning = vi.fn().mockResolvedValue([]);
+    return chain;
+  }
+
+  const mockChainRef: { current: ReturnType<typeof createChain> } = {
+    current: createChain(),
+  };
+
+  return { mockUpsertEmbedding, mockChainRef, createChain };
+});
+
+// ============= Mocks =============
+
+vi.mock('@/lib/logger', () => ({
+  createLogger: vi.fn().mockReturnValue({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+vi.mock('@/services/db/embeddings', () => ({
+  buildEmbeddingText: vi.fn().mockReturnValue('embedding text'),
+  textHashColumn: () => ({ textHash: 'text-hash' }),
+  upsertEmbedding: mockUpsertEmbedding,
+}));
+
+vi.mock('@/db', () => ({
+  db: new Proxy({}, {
+    get(_target, prop) {
+      return mockChainRef.current[prop as string];
+    },
+  }),
+}));
+
+vi.mock('@/db/schema', () => {
+  const col = (name: string) => ({ name, _: { name } });
+  return {
+    entries: {
+      id: col('id'),
+      category: col('category'),
+      title: col('title'),
+      status: col('status'),
+      priority: col('priority'),
+      content: col('content'),
+      dueDate: col('due_date'),
+      archived: col('archived_at'),
+      updatedAt: col('updated_at'),
+    },
+    entryRevisions: {
+      id: col('id'),
+      entryId: col('entry_id'),
+      action: col('action'),
+      changedFields: col('changed_fields'),
+      snapshot: col('snapshot'),
+      createdAt: col('created_at'),
+    },
+  };
+});
+
+import {
+  snapshotEntry,
+  diffSnapshots,
+  recordRevision,
+  getRevisions,
+  restoreRevision,
+} from '../revisions';
+
+// ============= Helpers =============
+
+const MOCK_ENTRY = {
+  id: '550e8400-e29b-41d4-a716-446655440000',
+  notionId: null,
+  category: 'Admin',
+  title: 'Call dentist',
+  status: 'Todo',
+  priority: 'Medium',
+  content: { notes: 'Ask about Tuesday' },
+  embedding: null,
+  embeddingModel: null,
+  embeddingHash: null,
+  textHash: null,
+  searchVector: null,
+  dueDate: new Date('2024-03-01T00:00:00.000Z'),
+  recurrence: null,
+  source: null,
+  archived: null,
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date('2024-01-01'),
+};
+
+// ============= Tests =============
+
+describe('revisions service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockChainRef.current = createChain();
+  });
+
+  describe('snapshotEntry', () => {
+    it('captures restorable fields with ISO dates', () => {
+      expect(snapshotEntry(MOCK_ENTRY)).toEqual({
+        category: 'Admin',
+        title: 'Call dentist',
+        status: 'Todo',
+        priority: 'Medium',
+        content: { notes: 'Ask about Tuesday' },
+        dueDate: '2024-03-01T00:00:00.000Z',
+        archived: null,
+        recurrence: null,
+      });
+    });
+  });
+
+  describe('diffSnapshots', () => {
+    it('lists changed top-level fields and content keys', () => {
+      const before = snapshotEntry(MOCK_ENTRY);
+      const after = {
+        ...before,
+        status: 'Done',
+        content: { notes: 'Booked for Tuesday', nextAction: 'Pay invoice' },
+      };
+
+      expect(diffSnapshots(before, after)).toEqual(['status', 'notes', 'nextAction']);
+    });
+
+    it('reports a changed recurrence rule, but not one missing from an older snapshot', () => {
+      const before = snapshotEntry(MOCK_ENTRY);
+      expect(diffSnapshots(before, { ...before, recurrence: 'FREQ=WEEKLY' })).toEqual(['recurrence']);
+
+      const older = { ...before };
+      delete older.recurrence;
+      expect(diffSnapshots(older, before)).toEqual([]);
+    });
+
+    it('returns empty array when nothing changed', () => {
+      const snap = snapshotEntry(MOCK_ENTRY);
+      expect(diffSnapshots(snap, { ...snap, content: { ...snap.content } })).toEqual([]);
+    });
+  });
+
+  describe('recordRevision', () => {
+    it('inserts the previous state with action and changed fields', async () => {
+      await recordRevision(MOCK_ENTRY, 'updated', ['notes']);
+
+      expect(mockChainRef.current.values).toHaveBeenCalledWith({
+        entryId: MOCK_ENTRY.id,
+        action: 'updated',
+        changedFields: ['notes'],
+        snapshot: snapshotEntry(MOCK_ENTRY),
+      });
+    });
+
+    it('never throws when the insert fails', async () => {
+      mockChainRef.current.values = vi.fn(() => {
+        throw new Error('DB down');
+      });
+
+      await expect(recordRevision(MOCK_ENTRY, 'archived')).resolves.toBeUndefined();
+    });
+  });
+
+  describe('getRevisions', () => {
+    it('returns revisions newest first with a limit', async () => {
+      mockChainRef.current._result = [{ id: 'rev-1' }];
+
+      const result = await getRevisions(MOCK_ENTRY.id, 10);
+
+      expect(result).toEqual([{ id: 'rev-1' }]);
+      expect(mockChainRef.current.orderBy).toHaveBeenCalled();
+      expect(mockChainRef.current.limit).toHaveBeenCalledWith(10);
+    });
+  });
+
+  describe('restoreRevision', () => {
+    const revision = {
+      id: 'rev-1',
+      entryId: MOCK_ENTRY.id,
+      action: 'updated',
+      changedFields: ['notes'],
+      snapshot: {
+        ...snapshotEntry(MOCK_ENTRY),
+        content: { notes: 'Original notes' },
+      },
+      createdAt: new Date('2024-02-01'),
+    };
+
+    it('returns null when the revision does not exist', async () => {
+      mockChainRef.current._result = [];
+
+      expect(await restoreRevision(MOCK_ENTRY.id, 'missing')).toBeNull();
+      expect(mockChainRef.current.update).not.toHaveBeenCalled();
+    });
+
+    it('records the current state, applies the snapshot and refreshes the embedding', async () => {
+      const chain = mockChainRef.current;
+      const lookups = [[revision], [MOCK_ENTRY]];
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      chain.then = vi.fn((resolve: any) => resolve(lookups.shift() ?? []));
+      const restored = { ...MOCK_ENTRY, content: { notes: 'Original notes' } };
+      chain.returning = vi.fn().mockResolvedValue([restored]);
+
+      const result = await restoreRevision(MOCK_ENTRY.id, 'rev-1');
+
+      expect(result).toEqual(restored);
+      expect(chain.values).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'restored', changedFields: ['notes'] })
+      );
+      expect(chain.set).toHaveBeenCalledWith(
+        expect.objectContaining({
+          title: 'Call dentist',
+          content: { notes: 'Original notes' },
+          dueDate: new Date('2024-03-01T00:00:00.000Z'),
+          archived: null,
+        })
+      );
+      expect(mockUpsertEmbedding).toHaveBeenCalledWith(MOCK_ENTRY.id, 'embedding text');
+    });
+
+    it('restores the recurrence rule from the snapshot', async () => {
+      const chain = mockChainRef.current;
+      const lookups = [[{ ...revision, snapshot: { ...revision.snapshot, recurrence: 'FREQ=MONTHLY' } }], [MOCK_ENTRY]];
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      chain.then = vi.fn((resolve: any) => resolve(lookups.shift() ?? []));
+      chain.returning = vi.fn().mockResolvedValue([{ ...MOCK_ENTRY, recurrence: 'FREQ=MONTHLY' }]);
+
+      await restoreRevision(MOCK_ENTRY.id, 'rev-1');
+
+      expect(chain.values).toHaveBeenCalledWith(
+        expect.objectContaining({ changedFields: ['recurrence', 'notes'] })
+      );
+      expect(chain.set).toHaveBeenCalledWith(expect.objectContaining({ recurrence: 'FREQ=MONTHLY' }));
+    });
+
+    it('keeps the current recurrence rule when the snapshot predates it', async () => {
+      const chain = mockChainRef.current;
+      const olderSnapshot = { ...revision.snapshot };
+      delete olderSnapshot.recurrence;
+      const lookups = [[{ ...revision, snapshot: olderSnapshot }], [{ ...MOCK_ENTRY, recurrence: 'FREQ=WEEKLY' }]];
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      chain.then = vi.fn((resolve: any) => resolve(lookups.shift() ?? []));
+      chain.returning = vi.fn().mockResolvedValue([MOCK_ENTRY]);
+
+      await restoreRevision(MOCK_ENTRY.id, 'rev-1');
+
+      expect(chain.set).toHaveBeenCalledWith(expect.not.objectContaining({ recurrence: expect.anything() }));
+    });
+  });
+});
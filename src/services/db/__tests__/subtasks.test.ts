@@ -0,0 +1,185 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Entry } from '@/db/schema';
+
+// ============= Mocks =============
+
+const { mockGetEntry, mockUpdateEntry, mockCreateEntry, mockAddRelation, mockLogActivity, mockSelectWhere, mockSpawnNextOccurrence } = vi.hoisted(() => ({
+  mockGetEntry: vi.fn(),
+  mockUpdateEntry: vi.fn(),
+  mockCreateEntry: vi.fn(),
+  mockAddRelation: vi.fn(),
+  mockLogActivity: vi.fn(),
+  mockSelectWhere: vi.fn(),
+  mockSpawnNextOccurrence: vi.fn(),
+}));
+
+vi.mock('@/db', () => ({
+  db: {
+    select: () => ({ from: () => ({ where: mockSelectWhere }) }),
+    delete: () => ({ where: vi.fn().mockResolvedValue(undefined) }),
+  },
+}));
+
+vi.mock('../entries', () => ({
+  getEntry: (...args: unknown[]) => mockGetEntry(...args),
+  updateEntry: (...args: unknown[]) => mockUpdateEntry(...args),
+  createEntry: (...args: unknown[]) => mockCreateEntry(...args),
+}));
+
+vi.mock('../relations', () => ({
+  addRelation: (...args: unknown[]) => mockAddRelation(...args),
+}));
+
+vi.mock('../activity', () => ({
+  logActivity: (...args: unknown[]) => mockLogActivity(...args),
+}));
+
+vi.mock('../recurrence', () => ({
+  spawnNextOccurrence: (...args: unknown[]) => mockSpawnNextOccurrence(...args),
+}));
+
+vi.mock('../categories', async () => {
+  const { BUILTIN_CATEGORIES, findCategory } = await import('@/config/categories');
+  return { getCategory: async (name: string) => findCategory(BUILTIN_CATEGORIES, name) };
+});
+
+import { addSubtask, setSubtaskDone, syncParentSubtasks, readSubtasks, subtaskProgress, supportsSubtasks } from '../subtasks';
+
+function makeEntry(overrides: Partial<Entry>): Entry {
+  return {
+    id: 'p1',
+    notionId: null,
+    category: 'Projects',
+    title: 'Launch site',
+    status: 'Active',
+    priority: 'Medium',
+    content: {},
+    embedding: null,
+    embeddingModel: null,
+    embeddingHash: null,
+    textHash: null,
+    searchVector: null,
+    dueDate: null,
+    recurrence: null,
+    source: null,
+    archived: null,
+    createdAt: new Date('2025-01-01'),
+    updatedAt: new Date('2025-01-01'),
+    ...overrides,
+  };
+}
+
+const checklist = [
+  { id: 's1', text: 'Write copy', done: false },
+  { id: 's2', text: 'Buy domain', done: false, entryId: 'a1' },
+  { id: 's3', text: 'Deploy', done: false },
+];
+
+// ============= Tests =============
+
+describe('subtasks service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockUpdateEntry.mockImplementation(async (id: string, input: { content?: Record<string, unknown> }) =>
+      makeEntry({ id, content: input.content }));
+  });
+
+  it('reads subtasks and progress from content', () => {
+    const project = makeEntry({ content: { subtasks: [...checklist.slice(0, 2), { ...checklist[2], done: true }] } });
+    expect(subtaskProgress(readSubtasks(project))).toEqual({ done: 1, total: 3 });
+    expect(readSubtasks(makeEntry({ content: { subtasks: 'nope' } }))).toEqual([]);
+  });
+
+  it('only lets categories with a subtasks field hold a checklist', async () => {
+    expect(await supportsSubtasks({ category: 'Projects' })).toBe(true);
+    expect(await supportsSubtasks({ category: 'Admin' })).toBe(false);
+    expect(await supportsSubtasks({ category: 'Recipes' })).toBe(false);
+  });
+
+  describe('addSubtask', () => {
+    it('appends a checklist line and fills an empty next action', async () => {
+      const item = await addSubtask(makeEntry({}), { text: 'Write copy' });
+
+      expect(item).toMatchObject({ text: 'Write copy', done: false });
+      expect(mockUpdateEntry).toHaveBeenCalledWith('p1', {
+        content: { subtasks: [item], nextAction: 'Write copy' },
+      });
+    });
+
+    it('keeps an existing next action', async () => {
+      await addSubtask(makeEntry({ content: { nextAction: 'Call Sam' } }), { text: 'Write copy' });
+      expect(mockUpdateEntry.mock.calls[0][1].content).not.toHaveProperty('nextAction');
+    });
+
+    it('creates a linked Admin entry related with part_of', async () => {
+      mockCreateEntry.mockResolvedValue(makeEntry({ id: 'a9', category: 'Admin', title: 'Buy domain' }));
+
+      const item = await addSubtask(makeEntry({}), { text: 'Buy domain', asEntry: true });
+
+      expect(mockCreateEntry).toHaveBeenCalledWith({ category: 'Admin', title: 'Buy domain' });
+      expect(mockAddRelation).toHaveBeenCalledWith('a9', 'p1', 'part_of');
+      expect(item?.entryId).toBe('a9');
+    });
+
+    it('returns null when linking an entry that does not exist', async () => {
+      mockGetEntry.mockResolvedValue(null);
+      expect(await addSubtask(makeEntry({}), { entryId: 'missing' })).toBeNull();
+      expect(mockUpdateEntry).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('setSubtaskDone', () => {
+    it('advances next action to the first open subtask and completes the linked entry', async () => {
+      mockGetEntry.mockResolvedValue(makeEntry({ id: 'a1', category: 'Admin', status: 'Todo' }));
+      const project = makeEntry({ content: { subtasks: checklist, nextAction: 'Write copy' } });
+
+      await setSubtaskDone(project, 's1', true);
+      expect(mockUpdateEntry).toHaveBeenLastCalledWith('p1', {
+        content: { subtasks: [{ ...checklist[0], done: true }, checklist[1], checklist[2]], nextAction: 'Buy domain' },
+      });
+
+      await setSubtaskDone(project, 's2', true);
+      expect(mockUpdateEntry).toHaveBeenCalledWith('a1', { status: 'Done' });
+    });
+
+    it('completes the project when the last subtask is ticked', async () => {
+      const project = makeEntry({
+        content: { subtasks: [{ ...checklist[0], done: true }, { ...checklist[2] }] },
+      });
+
+      await setSubtaskDone(project, 's3', true);
+
+      expect(mockUpdateEntry).toHaveBeenCalledWith('p1', expect.objectContaining({ status: 'Complete' }));
+      expect(mockLogActivity).toHaveBeenCalledWith('p1', 'completed', expect.objectContaining({ via: 'subtasks' }));
+      expect(mockSpawnNextOccurrence).toHaveBeenCalledWith(expect.objectContaining({ id: 'p1' }), 'Complete');
+    });
+
+    it('leaves recurrence alone while subtasks are still open', async () => {
+      await setSubtaskDone(makeEntry({ content: { subtasks: checklist } }), 's1', true);
+      expect(mockSpawnNextOccurrence).not.toHaveBeenCalled();
+    });
+
+    it('returns null for an unknown subtask', async () => {
+      expect(await setSubtaskDone(makeEntry({ content: { subtasks: checklist } }), 'nope', true)).toBeNull();
+    });
+  });
+
+  describe('syncParentSubtasks', () => {
+    it('ticks the linked item in each parent project', async () => {
+      mockSelectWhere.mockResolvedValue([{ projectId: 'p1' }]);
+      mockGetEntry.mockResolvedValue(makeEntry({ content: { subtasks: checklist } }));
+
+      await syncParentSubtasks(makeEntry({ id: 'a1', category: 'Admin', status: 'Todo' }), 'Done');
+
+      const content = mockUpdateEntry.mock.calls[0][1].content;
+      expect(content.subtasks[1]).toEqual({ ...checklist[1], done: true });
+      expect(content.nextAction).toBe('Write copy');
+    });
+
+    it('does nothing for entries that are not part of a project', async () => {
+      mockSelectWhere.mockResolvedValue([]);
+      await syncParentSubtasks(makeEntry({ id: 'a1', category: 'Admin' }), 'Done');
+      expect(mockUpdateEntry).not.toHaveBeenCalled();
+    });
+  });
+});
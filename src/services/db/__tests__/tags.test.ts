@@ -0,0 +1,49 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// ============= Mocks =============
+
+vi.mock('@/db', () => ({ db: {} }));
+
+import { normalizeTag, normalizeTags, extractHashtags, MAX_TAG_LENGTH, MAX_TAGS_PER_ENTRY } from '../tags';
+
+// ============= Tests =============
+
+describe('normalizeTag', () => {
+  it('lowercases, drops the hash and hyphenates spaces', () => {
+    expect(normalizeTag('#Q3 Launch!')).toBe('q3-launch');
+    expect(normalizeTag('  deep_work  ')).toBe('deep-work');
+  });
+
+  it('keeps letters from any script', () => {
+    expect(normalizeTag('Café')).toBe('café');
+  });
+
+  it('rejects names with nothing left', () => {
+    expect(normalizeTag('#')).toBeNull();
+    expect(normalizeTag(' -!- ')).toBeNull();
+  });
+
+  it('cuts long names', () => {
+    expect(normalizeTag('a'.repeat(50))).toHaveLength(MAX_TAG_LENGTH);
+  });
+});
+
+describe('normalizeTags', () => {
+  it('drops duplicates and invalid names', () => {
+    expect(normalizeTags(['Health', '#health', '', 'Q3 launch'])).toEqual(['health', 'q3-launch']);
+  });
+
+  it('caps the number of tags', () => {
+    expect(normalizeTags(Array.from({ length: 15 }, (_, i) => `t${i}`))).toHaveLength(MAX_TAGS_PER_ENTRY);
+  });
+});
+
+describe('extractHashtags', () => {
+  it('finds hashtags but not anchors or numbers inside words', () => {
+    expect(extractHashtags('#Garden: build a bee hotel #weekend_project, see page#3')).toEqual(['garden', 'weekend-project']);
+  });
+
+  it('returns nothing for plain text', () => {
+    expect(extractHashtags('Call the plumber')).toEqual([]);
+  });
+});
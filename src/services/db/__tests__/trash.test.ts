@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ============= Mocks =============
+
+const { mockFindConfigEntry, mockUpsertConfig, returningMock, limitMock } = vi.hoisted(() => ({
+  mockFindConfigEntry: vi.fn(),
+  mockUpsertConfig: vi.fn(),
+  returningMock: vi.fn(),
+  limitMock: vi.fn(),
+}));
+
+vi.mock('../config', () => ({
+  findConfigEntry: mockFindConfigEntry,
+  upsertConfig: mockUpsertConfig,
+}));
+
+const mockPurgeOrphanedAttachments = vi.fn().mockResolvedValue(0);
+vi.mock('@/services/attachments', () => ({
+  purgeOrphanedAttachments: (...args: unknown[]) => mockPurgeOrphanedAttachments(...args),
+}));
+
+const deleteWhereMock = vi.fn().mockReturnValue({ returning: returningMock });
+const deleteMock = vi.fn().mockReturnValue({ where: deleteWhereMock });
+const orderByMock = vi.fn().mockReturnValue({ limit: limitMock });
+const whereMock = vi.fn().mockReturnValue({ orderBy: orderByMock });
+const fromMock = vi.fn().mockReturnValue({ where: whereMock });
+const selectMock = vi.fn().mockReturnValue({ from: fromMock });
+
+vi.mock('@/db', () => ({
+  db: {
+    select: (...args: unknown[]) => selectMock(...args),
+    delete: (...args: unknown[]) => deleteMock(...args),
+  },
+}));
+
+import {
+  getTrashRetentionDays,
+  setTrashRetentionDays,
+  getPurgeDate,
+  listTrash,
+  purgeEntry,
+  purgeExpiredEntries,
+  DEFAULT_TRASH_RETENTION_DAYS,
+} from '../trash';
+
+// ============= Tests =============
+
+describe('trash service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    deleteWhereMock.mockReturnValue({ returning: returningMock });
+    deleteMock.mockReturnValue({ where: deleteWhereMock });
+    orderByMock.mockReturnValue({ limit: limitMock });
+    whereMock.mockReturnValue({ orderBy: orderByMock });
+    fromMock.mockReturnValue({ where: whereMock });
+    selectMock.mockReturnValue({ from: fromMock });
+  });
+
+  describe('retention', () => {
+    it('reads retention days from config', async () => {
+      mockFindConfigEntry.mockResolvedValue({ id: 'c1', value: { data: 7 } });
+
+      expect(await getTrashRetentionDays()).toBe(7);
+      expect(mockFindConfigEntry).toHaveBeenCalledWith('trash_retention_days');
+    });
+
+    it('falls back to the default when unset or invalid', async () => {
+      mockFindConfigEntry.mockResolvedValueOnce(null);
+      expect(await getTrashRetentionDays()).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+
+      mockFindConfigEntry.mockResolvedValueOnce({ id: 'c1', value: { data: 'soon' } });
+      expect(await getTrashRetentionDays()).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+    });
+
+    it('stores retention days in config', async () => {
+      await setTrashRetentionDays(90);
+      expect(mockUpsertConfig).toHaveBeenCalledWith('trash_retention_days', 90);
+    });
+
+    it('computes the purge date from archive time', () => {
+      const archivedAt = new Date('2024-01-01T00:00:00.000Z');
+      expect(getPurgeDate(archivedAt, 30).toISOString()).toBe('2024-01-31T00:00:00.000Z');
+    });
+  });
+
+  describe('listTrash', () => {
+    it('returns archived entries with the given limit', async () => {
+      const rows = [{ id: 'e1', title: 'Call dentist', archived: new Date() }];
+      limitMock.mockResolvedValue(rows);
+
+      const result = await listTrash({ search: 'dentist', limit: 5 });
+
+      expect(result).toEqual(rows);
+      expect(limitMock).toHaveBeenCalledWith(5);
+    });
+  });
+
+  describe('purge', () => {
+    it('purgeEntry reports whether a trashed row was deleted', async () => {
+      returningMock.mockResolvedValueOnce([{ id: 'e1' }]);
+      expect(await purgeEntry('e1')).toBe(true);
+
+      returningMock.mockResolvedValueOnce([]);
+      expect(await purgeEntry('live-entry')).toBe(false);
+      expect(mockPurgeOrphanedAttachments).toHaveBeenCalledTimes(1);
+    });
+
+    it('purgeExpiredEntries returns the number of rows deleted', async () => {
+      mockFindConfigEntry.mockResolvedValue({ id: 'c1', value: { data: 30 } });
+      returningMock.mockResolvedValueOnce([{ id: 'e1' }, { id: 'e2' }]);
+
+      const purged = await purgeExpiredEntries(new Date('2024-03-01'));
+
+      expect(purged).toBe(2);
+      expect(deleteMock).toHaveBeenCalled();
+    });
+  });
+});
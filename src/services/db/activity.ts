@@ -18,13 +18,20 @@ import { activityLog, entries } from '@/db/schema';
 export type ActionType =
   | 'created'
   | 'status_changed'
+  | 'priority_changed'
   | 'snoozed'
   | 'completed'
   | 'archived'
   | 'recategorized'
   | 'note_added'
   | 'saved_reading'
-  | 'searched';
+  | 'searched'
+  | 'restored'
+  | 'attachment_added'
+  | 'attachment_removed'
+  | 'merged'
+  | 'tagged'
+  | 'bulk_action'; // One row per bulk request (no entry); its entries' rows carry the same batch_id
 
 export interface ActivityFilters {
   entryId?: string;
@@ -0,0 +1,263 @@
+/**
+ * Bulk actions — one change applied to many entries at once
+ *
+ * Each entry is checked first and gets its own result (updated, skipped or
+ * failed). The writes for the entries that pass — the entry updates, their
+ * revisions and activity rows, and one row for the batch itself — go to
+ * Postgres as a single batch, which the Neon HTTP driver runs as one
+ * transaction: either every checked entry changes or none does.
+ */
+
+import { randomUUID } from 'crypto';
+import { inArray, eq } from 'drizzle-orm';
+import type { BatchItem } from 'drizzle-orm/batch';
+import { db } from '@/db';
+import { entries, entryRevisions, entryTags, activityLog, type Entry, type NewEntry } from '@/db/schema';
+import { findCategory, type CategoryDefinition } from '@/config/categories';
+import { refitContent } from '@/lib/content';
+import { createLogger } from '@/lib/logger';
+import { getCategories } from './categories';
+import { ensureTags, getTagsForEntries, normalizeTag, MAX_TAGS_PER_ENTRY } from './tags';
+import { snapshotEntry, type RevisionAction } from './revisions';
+import { spawnNextOccurrence } from './recurrence';
+import { syncParentSubtasks } from './subtasks';
+import { upsertEmbedding, buildEmbeddingText, textHashColumn } from './embeddings';
+import type { ActionType } from './activity';
+
+const log = createLogger('db/bulk');
+
+// ============= Types =============
+
+export type BulkAction =
+  | { type: 'status'; status: string }
+  | { type: 'priority'; priority: string | null }
+  | { type: 'archive' }
+  | { type: 'recategorize'; category: string } // Category name ('Idea') or stored name ('Ideas')
+  | { type: 'snooze'; dueDate: string | null } // YYYY-MM-DD; null clears the date
+  | { type: 'tag'; tag: string };
+
+export interface BulkItemResult {
+  id: string;
+  result: 'updated' | 'skipped' | 'failed';
+  reason?: string; // Why it was skipped or failed
+}
+
+export interface BulkResult {
+  batchId: string;
+  items: BulkItemResult[];
+  updated: number;
+}
+
+/** Most entries one request can change */
+export const MAX_BULK_ENTRIES = 100;
+
+// What one entry needs written; `set` is empty for a tag
+interface PlannedChange {
+  entry: Entry;
+  set: Partial<NewEntry>;
+  revision: RevisionAction | null;
+  changedFields: string[];
+  activity: { action: ActionType; metadata: Record<string, unknown> };
+}
+
+type Plan = PlannedChange | { skip: string } | { fail: string };
+
+// ============= Planning =============
+
+/** The change an action makes to one entry, or why it doesn't apply */
+export function planChange(
+  entry: Entry,
+  action: BulkAction,
+  categories: CategoryDefinition[],
+  entryTagNames: string[] = []
+): Plan {
+  const definition = findCategory(categories, entry.category);
+
+  switch (action.type) {
+    case 'status': {
+      if (entry.status === action.status) return { skip: `Already ${action.status}` };
+      if (definition && !definition.statuses.includes(action.status)) {
+        return { fail: `${definition.name} has no status "${action.status}"` };
+      }
+      return {
+        entry,
+        set: { status: action.status },
+        revision: 'updated',
+        changedFields: ['status'],
+        activity: { action: 'status_changed', metadata: { from: entry.status, to: action.status } },
+      };
+    }
+
+    case 'priority': {
+      if (entry.priority === action.priority) return { skip: `Already ${action.priority || 'without priority'}` };
+      return {
+        entry,
+        set: { priority: action.priority },
+        revision: 'updated',
+        changedFields: ['priority'],
+        activity: { action: 'priority_changed', metadata: { from: entry.priority, to: action.priority } },
+      };
+    }
+
+    case 'snooze': {
+      const current = entry.dueDate?.toISOString().split('T')[0] || null;
+      if (current === action.dueDate) return { skip: 'Already due then' };
+      return {
+        entry,
+        set: { dueDate: action.dueDate ? new Date(action.dueDate) : null },
+        revision: 'updated',
+        changedFields: ['dueDate'],
+        activity: { action: 'snoozed', metadata: { to: action.dueDate } },
+      };
+    }
+
+    case 'archive': {
+      return {
+        entry,
+        set: { archived: new Date() },
+        revision: 'archived',
+        changedFields: ['archived'],
+        activity: { action: 'archived', metadata: { title: entry.title, category: entry.category } },
+      };
+    }
+
+    case 'recategorize': {
+      const target = findCategory(categories, action.category);
+      if (!target) return { fail: `Unknown category "${action.category}"` };
+      if (target.dbName === entry.category) return { skip: `Already in ${target.name}` };
+      const content = refitContent(target, (entry.content as Record<string, unknown>) || {});
+      return {
+        entry,
+        set: {
+          category: target.dbName,
+          status: target.defaultStatus,
+          content,
+          ...textHashColumn(entry.title, content),
+        },
+        revision: 'recategorized',
+        changedFields: ['category', 'status'],
+        activity: { action: 'recategorized', metadata: { from: entry.category, to: target.dbName } },
+      };
+    }
+
+    case 'tag': {
+      const tag = normalizeTag(action.tag);
+      if (!tag) return { fail: `Invalid tag "${action.tag}"` };
+      if (entryTagNames.includes(tag)) return { skip: `Already tagged #${tag}` };
+      if (entryTagNames.length >= MAX_TAGS_PER_ENTRY) return { fail: `Already has ${MAX_TAGS_PER_ENTRY} tags` };
+      return {
+        entry,
+        set: {},
+        revision: null,
+        changedFields: [],
+        activity: { action: 'tagged', metadata: { added: [tag], removed: [] } },
+      };
+    }
+  }
+}
+
+// ============= Apply =============
+
+/**
+ * Apply one action to many entries. Missing and archived entries fail on
+ * their own; the rest are written together in one transaction.
+ */
+export async function applyBulkAction(ids: string[], action: BulkAction): Promise<BulkResult> {
+  const uniqueIds = [...new Set(ids)].slice(0, MAX_BULK_ENTRIES);
+  const batchId = randomUUID();
+
+  const [found, categories, tagsByEntry] = await Promise.all([
+    uniqueIds.length > 0 ? db.select().from(entries).where(inArray(entries.id, uniqueIds)) : Promise.resolve([]),
+    getCategories(),
+    action.type === 'tag' ? getTagsForEntries(uniqueIds) : Promise.resolve(new Map<string, string[]>()),
+  ]);
+  const byId = new Map(found.map(entry => [entry.id, entry]));
+
+  const items: BulkItemResult[] = [];
+  const changes: PlannedChange[] = [];
+  for (const id of uniqueIds) {
+    const entry = byId.get(id);
+    if (!entry || entry.archived) {
+      items.push({ id, result: 'failed', reason: 'Entry not found' });
+      continue;
+    }
+    const plan = planChange(entry, action, categories, tagsByEntry.get(id));
+    if ('skip' in plan) {
+      items.push({ id, result: 'skipped', reason: plan.skip });
+    } else if ('fail' in plan) {
+      items.push({ id, result: 'failed', reason: plan.fail });
+    } else {
+      items.push({ id, result: 'updated' });
+      changes.push(plan);
+    }
+  }
+
+  if (changes.length === 0) return { batchId, items, updated: 0 };
+
+  const tagId = action.type === 'tag' ? (await ensureTags([normalizeTag(action.tag)!]))[0] : null;
+  const now = new Date();
+
+  const statements: BatchItem<'pg'>[] = [];
+  for (const change of changes) {
+    const { entry } = change;
+    if (Object.keys(change.set).length > 0) {
+      statements.push(db.update(entries).set({ ...change.set, updatedAt: now }).where(eq(entries.id, entry.id)));
+    }
+    if (tagId) {
+      statements.push(db.insert(entryTags).values({ entryId: entry.id, tagId }).onConflictDoNothing());
+    }
+    if (change.revision) {
+      statements.push(db.insert(entryRevisions).values({
+        entryId: entry.id,
+        action: change.revision,
+        changedFields: change.changedFields,
+        snapshot: snapshotEntry(entry),
+      }));
+    }
+    statements.push(db.insert(activityLog).values({
+      entryId: entry.id,
+      action: change.activity.action,
+      metadata: { ...change.activity.metadata, batch_id: batchId },
+    }));
+  }
+
+  // The batch as a whole, so the individual rows can be traced back to one request
+  statements.push(db.insert(activityLog).values({
+    entryId: null,
+    action: 'bulk_action',
+    metadata: {
+      batch_id: batchId,
+      type: action.type,
+      action,
+      entry_ids: changes.map(change => change.entry.id),
+      skipped: items.filter(item => item.result === 'skipped').length,
+      failed: items.filter(item => item.result === 'failed').length,
+    },
+  }));
+
+  await db.batch(statements as [BatchItem<'pg'>, ...BatchItem<'pg'>[]]);
+
+  await runFollowUps(changes, action);
+  return { batchId, items, updated: changes.length };
+}
+
+/**
+ * What a single update would have done after the write: spawn the next
+ * occurrence of completed recurring entries, tick off project subtasks, and
+ * re-embed moved entries. Best-effort — the batch is already committed.
+ */
+async function runFollowUps(changes: PlannedChange[], action: BulkAction): Promise<void> {
+  for (const { entry, set } of changes) {
+    const updated: Entry = { ...entry, ...set } as Entry;
+    try {
+      if (action.type === 'status') {
+        await spawnNextOccurrence(updated, action.status);
+        await syncParentSubtasks(updated, action.status);
+      } else if (action.type === 'recategorize') {
+        await upsertEmbedding(entry.id, buildEmbeddingText(updated.title, (updated.content as Record<string, unknown>) || {}));
+      }
+    } catch (err) {
+      log.error('Bulk follow-up failed', err, { entryId: entry.id, type: action.type });
+    }
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * Categories — user-defined categories and their status workflows
+ *
+ * Every place that used to hard-code the category list (capture classifier,
+ * createEntry defaults, recategorize validation, Telegram keyboards) reads
+ * definitions from here. Falls back to BUILTIN_CATEGORIES when the table is
+ * empty or unreachable, so capture keeps working before the migration runs.
+ */
+
+import { eq, asc, sql } from 'drizzle-orm';
+import type { BatchItem } from 'drizzle-orm/batch';
+import { db } from '@/db';
+import { categories, entries, classifierExamples, inboxLog, type CategoryRow } from '@/db/schema';
+import { BUILTIN_CATEGORIES, findCategory, type CategoryDefinition } from '@/config/categories';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('db/categories');
+
+// Definitions change rarely; keep them in memory per instance for a minute
+const CACHE_TTL_MS = 60 * 1000;
+let cache: { loadedAt: number; definitions: CategoryDefinition[] } | null = null;
+
+export type CategoryInput = Omit<CategoryDefinition, 'sortOrder'> & { sortOrder?: number };
+
+// ============= Read =============
+
+function toDefinition(row: CategoryRow): CategoryDefinition {
+  return {
+    name: row.name,
+    dbName: row.dbName,
+    description: row.description,
+    statuses: row.statuses,
+    defaultStatus: row.defaultStatus,
+    doneStatus: row.doneStatus,
+    icon: row.icon,
+    gradient: row.gradient,
+    titleField: row.titleField,
+    fields: row.fields || [],
+    defaultContent: row.defaultContent || {},
+    defaultPriority: row.defaultPriority,
+    sortOrder: row.sortOrder,
+  };
+}
+
+/** All category definitions in display order */
+export async function getCategories(): Promise<CategoryDefinition[]> {
+  if (cache && Date.now() - cache.loadedAt < CACHE_TTL_MS) return cache.definitions;
+
+  let definitions = BUILTIN_CATEGORIES;
+  try {
+    const rows = await db.select().from(categories).orderBy(asc(categories.sortOrder), asc(categories.name));
+    if (rows.length > 0) definitions = rows.map(toDefinition);
+  } catch (err) {
+    log.error('Failed to load categories, using built-ins', err);
+  }
+
+  cache = { loadedAt: Date.now(), definitions };
+  return definitions;
+}
+
+export function clearCategoryCache(): void {
+  cache = null;
+}
+
+export async function getCategory(name: string): Promise<CategoryDefinition | undefined> {
+  return findCategory(await getCategories(), name);
+}
+
+// ============= Write =============
+
+/** Seed the built-ins before the first edit so they aren't lost when the table stops being empty */
+async function ensureSeeded(): Promise<void> {
+  const [{ count }] = await db.select({ count: sql<number>`count(*)::int` }).from(categories);
+  if (count > 0) return;
+  await db.insert(categories).values(BUILTIN_CATEGORIES).onConflictDoNothing();
+}
+
+export async function createCategory(input: CategoryInput): Promise<CategoryDefinition> {
+  await ensureSeeded();
+  clearCategoryCache();
+  const existing = await getCategories();
+  const [row] = await db
+    .insert(categories)
+    .values({ ...input, sortOrder: input.sortOrder ?? existing.length })
+    .returning();
+
+  clearCategoryCache();
+  return toDefinition(row);
+}
+
+/**
+ * Update a category. Renaming it moves everything recorded under the old
+ * names along in the same batch, so nothing is orphaned: entries by stored
+ * name, and classifier examples and the inbox log by singular name.
+ */
+export async function updateCategory(name: string, input: Partial<CategoryInput>): Promise<CategoryDefinition | null> {
+  await ensureSeeded();
+  const current = await getCategory(name);
+  if (!current) return null;
+
+  const statements: BatchItem<'pg'>[] = [
+    db.update(categories).set({ ...input, updatedAt: new Date() }).where(eq(categories.name, current.name)).returning(),
+  ];
+  const movedEntries = !!input.dbName && input.dbName !== current.dbName;
+  if (movedEntries) {
+    statements.push(db.update(entries).set({ category: input.dbName }).where(eq(entries.category, current.dbName)));
+  }
+  const renamed = !!input.name && input.name !== current.name;
+  if (renamed) {
+    statements.push(
+      db.update(classifierExamples).set({ category: input.name }).where(eq(classifierExamples.category, current.name)),
+      db.update(classifierExamples).set({ previousCategory: input.name }).where(eq(classifierExamples.previousCategory, current.name)),
+      db.update(inboxLog).set({ category: input.name }).where(eq(inboxLog.category, current.name)),
+      db.update(inboxLog).set({ fixedCategory: input.name }).where(eq(inboxLog.fixedCategory, current.name)),
+    );
+  }
+
+  const [rows] = await db.batch(statements as [BatchItem<'pg'>, ...BatchItem<'pg'>[]]);
+  const [row] = rows as CategoryRow[];
+  if (!row) return null;
+
+  if (movedEntries) log.info('Moved entries to renamed category', { from: current.dbName, to: input.dbName });
+  if (renamed) log.info('Moved capture history to renamed category', { from: current.name, to: input.name });
+
+  clearCategoryCache();
+  return toDefinition(row);
+}
+
+/**
+ * Delete a category. Refuses while entries (including archived ones) still
+ * use it — returns how many so the caller can ask the user to move them first.
+ */
+export async function deleteCategory(name: string): Promise<{ deleted: boolean; inUse: number }> {
+  await ensureSeeded();
+  const current = await getCategory(name);
+  if (!current) return { deleted: false, inUse: 0 };
+
+  const [{ count }] = await db
+    .select({ count: sql<number>`count(*)::int` })
+    .from(entries)
+    .where(eq(entries.category, current.dbName));
+  if (count > 0) return { deleted: false, inUse: count };
+
+  await db.delete(categories).where(eq(categories.name, current.name));
+  clearCategoryCache();
+  return { deleted: true, inUse: 0 };
+}
@@ -0,0 +1,87 @@
+/**
+ * Classifier examples — recategorizations kept as few-shot training data
+ *
+ * Whenever a capture is moved to another category (web confirm card, review
+ * inbox, Telegram `recat:`), the raw input and the category it belongs in are
+ * stored with an embedding. At capture time the most similar corrections are
+ * handed to `classifyText` so it follows our own taxonomy.
+ * Correcting the same input again replaces its label.
+ */
+
+import { sql, desc, isNotNull, and } from 'drizzle-orm';
+import { db } from '@/db';
+import { classifierExamples } from '@/db/schema';
+import type { FewShotExample } from '@/services/classifier';
+import { generateEmbedding, EMBEDDING_MODEL } from './embeddings';
+
+export interface CorrectionInput {
+  rawInput: string;
+  category: string; // Where the capture belongs (singular name)
+  previousCategory?: string | null;
+  source: 'web' | 'telegram';
+}
+
+// ============= WRITE =============
+
+/** Store a correction; embedding failures still keep the label */
+export async function recordCorrection(input: CorrectionInput): Promise<void> {
+  const rawInput = input.rawInput.trim();
+  if (!rawInput || input.category === input.previousCategory) return;
+
+  const embedding = await generateEmbedding(rawInput).catch(() => null);
+
+  await db
+    .insert(classifierExamples)
+    .values({
+      rawInput,
+      category: input.category,
+      previousCategory: input.previousCategory || null,
+      source: input.source,
+      embedding,
+      embeddingModel: embedding ? EMBEDDING_MODEL : null,
+    })
+    .onConflictDoUpdate({
+      target: classifierExamples.rawInput,
+      set: {
+        category: input.category,
+        previousCategory: input.previousCategory || null,
+        source: input.source,
+        createdAt: new Date(),
+      },
+    });
+}
+
+// ============= READ =============
+
+/**
+ * Corrections most similar to `text`, best first. Skips the embedding call
+ * entirely until at least one correction exists.
+ */
+export async function findSimilarExamples(
+  text: string,
+  options: { limit?: number; threshold?: number } = {}
+): Promise<FewShotExample[]> {
+  const limit = options.limit || 4;
+  const threshold = options.threshold || 0.5;
+
+  const [existing] = await db
+    .select({ id: classifierExamples.id })
+    .from(classifierExamples)
+    .where(isNotNull(classifierExamples.embedding))
+    .limit(1);
+  if (!existing) return [];
+
+  const embeddingStr = `[${(await generateEmbedding(text)).join(',')}]`;
+
+  const rows = await db
+    .select({ text: classifierExamples.rawInput, category: classifierExamples.category })
+    .from(classifierExamples)
+    .where(and(
+      isNotNull(classifierExamples.embedding),
+      sql`1 - (${classifierExamples.embedding} <=> ${embeddingStr}::vector) > ${threshold}`
+    ))
+    .orderBy(sql`${classifierExamples.embedding} <=> ${embeddingStr}::vector`, desc(classifierExamples.createdAt))
+    .limit(limit);
+
+  return rows;
+}
@@ -1,23 +1,55 @@
 /**
  * Embedding generation and storage utilities
- * Uses OpenAI text-embedding-3-small (1536 dimensions)
+ * Uses the `embedding` LLM task (text-embedding-3-small by default), fitted to 1536 dimensions
  */
 
-import OpenAI from 'openai';
+import { createHash } from 'crypto';
 import { eq } from 'drizzle-orm';
 import { db } from '@/db';
 import { entries } from '@/db/schema';
+import { getLLM, providerConfig } from '@/lib/llm';
 
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+/**
+ * Model behind every stored vector. Changing it marks all existing vectors as
+ * outdated; the re-index job (services/db/reindex.ts) re-embeds them.
+ */
+export const EMBEDDING_MODEL = providerConfig('embedding').model;
+
+/** Size of entries.embedding and classifier_examples.embedding (vector(1536)) */
+export const EMBEDDING_DIMENSIONS = 1536;
+
+const MAX_INPUT_CHARS = 32000;
+
+// text-embedding-3 models can shorten their vectors to any size on request
+const SUPPORTS_DIMENSIONS = /^text-embedding-3/;
+
+async function embed(input: string[]): Promise<number[][]> {
+  const { client, model } = getLLM('embedding');
+  const response = await client.embeddings.create({
+    model,
+    input,
+    ...(SUPPORTS_DIMENSIONS.test(model) && { dimensions: EMBEDDING_DIMENSIONS }),
+  });
+  return response.data.map(d => fitDimensions(d.embedding, model));
+}
+
+/**
+ * Make a vector fit the column. Shorter vectors (e.g. 768 from
+ * nomic-embed-text) are zero-padded, which leaves cosine similarity between
+ * them unchanged; longer ones can't be stored.
+ */
+export function fitDimensions(vector: number[], model = EMBEDDING_MODEL): number[] {
+  if (vector.length === EMBEDDING_DIMENSIONS) return vector;
+  if (vector.length > EMBEDDING_DIMENSIONS) {
+    throw new Error(`${model} returns ${vector.length}-dimension vectors; at most ${EMBEDDING_DIMENSIONS} can be stored`);
+  }
+  return [...vector, ...new Array(EMBEDDING_DIMENSIONS - vector.length).fill(0)];
+}
 
 /** Generate a single embedding vector from text */
 export async function generateEmbedding(text: string): Promise<number[]> {
-  const truncated = text.slice(0, 32000);
-  const response = await openai.embeddings.create({
-    model: 'text-embedding-3-small',
-    input: truncated,
-  });
-  return response.data[0].embedding;
+  const [embedding] = await embed([text.slice(0, MAX_INPUT_CHARS)]);
+  return embedding;
 }
 
 /** Generate embeddings for multiple texts in batches */
@@ -28,12 +60,8 @@ export async function generateEmbeddingsBatch(
   const results: number[][] = [];
 
   for (let i = 0; i < texts.length; i += batchSize) {
-    const batch = texts.slice(i, i + batchSize).map(t => t.slice(0, 32000));
-    const response = await openai.embeddings.create({
-      model: 'text-embedding-3-small',
-      input: batch,
-    });
-    results.push(...response.data.map(d => d.embedding));
+    const batch = texts.slice(i, i + batchSize).map(t => t.slice(0, MAX_INPUT_CHARS));
+    results.push(...(await embed(batch)));
 
     if (i + batchSize < texts.length) {
       await new Promise(r => setTimeout(r, 500));
@@ -43,12 +71,27 @@ export async function generateEmbeddingsBatch(
   return results;
 }
 
+/** Hash of the text an embedding is built from (as sent to the model) */
+export function hashEmbeddingText(text: string): string {
+  return createHash('sha256').update(text.slice(0, MAX_INPUT_CHARS)).digest('hex');
+}
+
+/** Entry columns for a vector built from `text` with the current model */
+export function embeddingColumns(embedding: number[], text: string) {
+  return { embedding, embeddingModel: EMBEDDING_MODEL, embeddingHash: hashEmbeddingText(text) };
+}
+
+/** Entry column for the hash of its current text, written with every title or content change */
+export function textHashColumn(title: string, content: Record<string, unknown>) {
+  return { textHash: hashEmbeddingText(buildEmbeddingText(title, content)) };
+}
+
 /** Generate and store an embedding for an entry */
 export async function upsertEmbedding(entryId: string, text: string): Promise<void> {
   const embedding = await generateEmbedding(text);
   await db
     .update(entries)
-    .set({ embedding })
+    .set(embeddingColumns(embedding, text))
     .where(eq(entries.id, entryId));
 }
 
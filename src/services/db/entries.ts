@@ -4,80 +4,145 @@
  * All reads and writes go directly to Neon.
  */
 
-import { eq, and, sql, ilike, desc, asc, count } from 'drizzle-orm';
+import { eq, and, or, sql, ilike, inArray, gte, lt, desc, asc, count, type SQL } from 'drizzle-orm';
 import { db } from '@/db';
-import { entries, inboxLog, type NewEntry } from '@/db/schema';
-import { DEFAULT_STATUS } from '@/config/constants';
-import { generateEmbedding, buildEmbeddingText } from './embeddings';
+import { entries, entryRelations, inboxLog, type NewEntry, type Entry } from '@/db/schema';
+import { generateEmbedding, buildEmbeddingText, embeddingColumns, hashEmbeddingText, textHashColumn } from './embeddings';
+import { getCategory } from './categories';
+import { taggedWith } from './tags';
+import { recordRevision, snapshotEntry, diffSnapshots, type RevisionAction } from './revisions';
+import { validateContent } from '@/lib/content';
 import { createLogger } from '@/lib/logger';
+import type { CategoryDefinition } from '@/config/categories';
 
 const log = createLogger('db/entries');
 
 // ============= Types =============
 
 export interface CreateEntryInput {
-  category: 'People' | 'Project' | 'Idea' | 'Admin' | 'Reading';
+  category: string; // Category name ('Project') or stored name ('Projects') from the categories table
   title: string;
   status?: string;
   priority?: string;
-  content?: Record<string, unknown>;
+  content?: Record<string, unknown>; // Checked against the category's content schema
   dueDate?: string | null; // ISO date string
+  recurrence?: string | null; // Canonical RRULE text
   embedding?: number[];
+  notionId?: string | null; // Legacy/import source ID, used for dedupe
+  source?: string | null; // Capture source ('web', 'telegram', ...)
+}
+
+export interface CreateEntryOptions {
+  // Store the vector with the row instead of after it, for callers that search by it straight away
+  waitForEmbedding?: boolean;
 }
 
 export interface UpdateEntryInput {
   title?: string;
   status?: string;
   priority?: string;
-  content?: Record<string, unknown>;
+  content?: Record<string, unknown>; // Merged into the stored content; only these keys are checked
   dueDate?: string | null;
+  recurrence?: string | null;
 }
 
+// A list matches any of its values; date ranges are [after, before)
 export interface QueryFilters {
-  category?: string;
-  status?: string;
-  priority?: string;
+  category?: string | string[]; // Stored names ('Projects')
+  status?: string | string[]; // Case-insensitive
+  priority?: string | string[];
+  source?: string | string[];
+  tags?: string[]; // Entries carrying every one of these tags
   search?: string;
+  dueAfter?: Date;
+  dueBefore?: Date;
+  createdAfter?: Date;
+  createdBefore?: Date;
+  updatedAfter?: Date;
+  updatedBefore?: Date;
+  hasRelation?: boolean; // true: linked to at least one entry; false: linked to none
   limit?: number;
   offset?: number;
   orderBy?: 'created_at' | 'updated_at' | 'due_date' | 'title';
   orderDir?: 'asc' | 'desc';
 }
 
-// Map category to the DB category name used in entries table
-const CATEGORY_TO_DB_CATEGORY: Record<string, string> = {
-  People: 'People',
-  Project: 'Projects',
-  Idea: 'Ideas',
-  Admin: 'Admin',
-  Reading: 'Reading',
-};
+export type EntryFilters = Omit<QueryFilters, 'limit' | 'offset' | 'orderBy' | 'orderDir'>;
+
+// Sorts a cursor can resume; all are non-null, with id as the tiebreaker
+export type EntrySort = 'created_at' | 'updated_at' | 'title';
+
+export interface EntryPageOptions {
+  sort?: EntrySort;
+  order?: 'asc' | 'desc';
+  limit?: number;
+  cursor?: EntryCursor;
+}
+
+export interface EntryCursor {
+  sort: EntrySort;
+  value: string; // Sort column as Postgres text, so timestamps keep their microseconds
+  id: string;
+}
+
+export interface EntryPage {
+  items: Entry[];
+  total: number; // Matching entries across all pages
+  nextCursor: string | null;
+}
+
+/** Largest page listEntries returns */
+export const MAX_PAGE_SIZE = 100;
 
 // ============= CREATE =============
 
-export async function createEntry(input: CreateEntryInput) {
-  const dbCategory = CATEGORY_TO_DB_CATEGORY[input.category] || input.category;
-  const defaultStatus = DEFAULT_STATUS[input.category];
+/** Content as the category's schema parses it; throws when it doesn't fit */
+function checkedContent(definition: CategoryDefinition, content: Record<string, unknown>): Record<string, unknown> {
+  const result = validateContent(definition, content);
+  if (!result.success) throw new Error(result.error);
+  return result.data;
+}
+
+export async function createEntry(input: CreateEntryInput, options: CreateEntryOptions = {}) {
+  // Stored category name and default status come from the category definition
+  const definition = await getCategory(input.category);
+  const dbCategory = definition?.dbName || input.category;
+  const defaultStatus = definition?.defaultStatus;
+  const content = definition ? checkedContent(definition, input.content || {}) : input.content || {};
+  const embeddingText = buildEmbeddingText(input.title, content);
+
+  // A failed wait falls back to the async path below
+  let embedding = input.embedding;
+  if (!embedding && options.waitForEmbedding) {
+    embedding = await generateEmbedding(embeddingText).catch(err => {
+      log.error('Failed to generate embedding', err);
+      return undefined;
+    });
+  }
 
   // 1. Insert into Neon first (fast) so the caller isn't blocked by embedding generation
   const [neonEntry] = await db
     .insert(entries)
     .values({
+      notionId: input.notionId || null,
       category: dbCategory,
       title: input.title,
       status: input.status || defaultStatus,
       priority: input.priority || null,
-      content: input.content || {},
-      embedding: input.embedding || null,
+      content,
+      textHash: hashEmbeddingText(embeddingText),
+      ...(embedding ? embeddingColumns(embedding, embeddingText) : { embedding: null }),
       dueDate: input.dueDate ? new Date(input.dueDate) : null,
+      recurrence: input.recurrence || null,
+      source: input.source || null,
     })
     .returning();
 
-  // 2. Generate embedding async (non-blocking) — backfills after insert
-  if (!input.embedding) {
-    const embeddingText = buildEmbeddingText(input.title, input.content || {});
+  // 2. Generate embedding async (non-blocking). On serverless this may be cut
+  //    short; the re-index job picks up entries left without a vector.
+  if (!embedding) {
     generateEmbedding(embeddingText)
-      .then(embedding => db.update(entries).set({ embedding }).where(eq(entries.id, neonEntry.id)))
+      .then(embedding => db.update(entries).set(embeddingColumns(embedding, embeddingText)).where(eq(entries.id, neonEntry.id)))
       .catch(err => log.error('Failed to generate embedding', err));
   }
 
@@ -104,27 +169,56 @@ export async function getEntryByLegacyId(legacyId: string) {
   return entry || null;
 }
 
-export async function queryEntries(filters: QueryFilters = {}) {
-  const conditions = [];
+// One value or any of several
+function matchAny(values: string | string[], match: (value: string) => SQL): SQL | undefined {
+  const list = Array.isArray(values) ? values : [values];
+  return list.length === 1 ? match(list[0]) : or(...list.map(match));
+}
+
+/** WHERE conditions shared by queries, counts and pages; archived entries are always excluded */
+function filterConditions(filters: EntryFilters): SQL[] {
+  const conditions: (SQL | undefined)[] = [];
 
-  if (filters.category) {
-    conditions.push(eq(entries.category, filters.category));
+  if (filters.category?.length) {
+    conditions.push(Array.isArray(filters.category)
+      ? inArray(entries.category, filters.category)
+      : eq(entries.category, filters.category));
+  }
+  if (filters.status?.length) {
+    conditions.push(matchAny(filters.status, status => ilike(entries.status, status)));
+  }
+  if (filters.priority?.length) {
+    conditions.push(matchAny(filters.priority, priority => eq(entries.priority, priority)));
   }
-  if (filters.status) {
-    conditions.push(ilike(entries.status, filters.status));
+  if (filters.source?.length) {
+    conditions.push(matchAny(filters.source, source => eq(entries.source, source)));
   }
-  if (filters.priority) {
-    conditions.push(eq(entries.priority, filters.priority));
+  if (filters.tags?.length) {
+    conditions.push(taggedWith(filters.tags));
   }
   if (filters.search) {
     conditions.push(
       sql`(${entries.title} ILIKE ${'%' + filters.search + '%'} OR ${entries.content}::text ILIKE ${'%' + filters.search + '%'})`
     );
   }
+  if (filters.dueAfter) conditions.push(gte(entries.dueDate, filters.dueAfter));
+  if (filters.dueBefore) conditions.push(lt(entries.dueDate, filters.dueBefore));
+  if (filters.createdAfter) conditions.push(gte(entries.createdAt, filters.createdAfter));
+  if (filters.createdBefore) conditions.push(lt(entries.createdAt, filters.createdBefore));
+  if (filters.updatedAfter) conditions.push(gte(entries.updatedAt, filters.updatedAfter));
+  if (filters.updatedBefore) conditions.push(lt(entries.updatedAt, filters.updatedBefore));
+  if (filters.hasRelation !== undefined) {
+    const linked = sql`EXISTS (SELECT 1 FROM ${entryRelations} WHERE ${entryRelations.sourceId} = ${entries.id} OR ${entryRelations.targetId} = ${entries.id})`;
+    conditions.push(filters.hasRelation ? linked : sql`NOT ${linked}`);
+  }
 
   // Exclude archived
   conditions.push(sql`${entries.archived} IS NULL`);
 
+  return conditions.filter((condition): condition is SQL => condition !== undefined);
+}
+
+export async function queryEntries(filters: QueryFilters = {}) {
   const orderCol = {
     created_at: entries.createdAt,
     updated_at: entries.updatedAt,
@@ -137,7 +231,7 @@ export async function queryEntries(filters: QueryFilters = {}) {
   const results = await db
     .select()
     .from(entries)
-    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .where(and(...filterConditions(filters)))
     .orderBy(orderFn(orderCol))
     .limit(filters.limit || 100)
     .offset(filters.offset || 0);
@@ -145,26 +239,82 @@ export async function queryEntries(filters: QueryFilters = {}) {
   return results;
 }
 
-export async function countEntries(filters: Omit<QueryFilters, 'limit' | 'offset' | 'orderBy' | 'orderDir'> = {}) {
-  const conditions = [];
-  if (filters.category) conditions.push(eq(entries.category, filters.category));
-  if (filters.status) conditions.push(ilike(entries.status, filters.status));
-  if (filters.priority) conditions.push(eq(entries.priority, filters.priority));
-  if (filters.search) {
-    conditions.push(
-      sql`(${entries.title} ILIKE ${'%' + filters.search + '%'} OR ${entries.content}::text ILIKE ${'%' + filters.search + '%'})`
-    );
-  }
-  conditions.push(sql`${entries.archived} IS NULL`);
-
+export async function countEntries(filters: EntryFilters = {}) {
   const [result] = await db
     .select({ total: count() })
     .from(entries)
-    .where(and(...conditions));
+    .where(and(...filterConditions(filters)));
 
   return result.total;
 }
 
+// ============= PAGES =============
+
+const SORT_COLUMNS = {
+  created_at: { column: entries.createdAt, type: 'timestamptz' },
+  updated_at: { column: entries.updatedAt, type: 'timestamptz' },
+  title: { column: entries.title, type: 'text' },
+} as const;
+
+/** Opaque cursor string for a position in the sort order */
+export function encodeCursor(cursor: EntryCursor): string {
+  return Buffer.from(JSON.stringify([cursor.sort, cursor.value, cursor.id])).toString('base64url');
+}
+
+/** The cursor's position, or null when it is malformed or was made for another sort */
+export function decodeCursor(cursor: string, sort: EntrySort): EntryCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (!Array.isArray(parsed) || parsed.length !== 3 || parsed[0] !== sort) return null;
+    if (typeof parsed[1] !== 'string' || typeof parsed[2] !== 'string') return null;
+    return { sort, value: parsed[1], id: parsed[2] };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * One page of entries in a stable order (sort column, then id) with the total
+ * across all pages. The cursor resumes strictly after the last entry returned,
+ * so entries added or edited meanwhile don't shift or repeat the pages.
+ */
+export async function listEntries(filters: EntryFilters = {}, options: EntryPageOptions = {}): Promise<EntryPage> {
+  const sort = options.sort || 'created_at';
+  const order = options.order || 'desc';
+  const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, options.limit || 50));
+  const { column, type } = SORT_COLUMNS[sort];
+
+  const conditions = filterConditions(filters);
+  const { cursor } = options;
+  if (cursor) {
+    const position = sql`(${cursor.value}::${sql.raw(type)}, ${cursor.id}::uuid)`;
+    conditions.push(order === 'asc'
+      ? sql`(${column}, ${entries.id}) > ${position}`
+      : sql`(${column}, ${entries.id}) < ${position}`);
+  }
+
+  const orderFn = order === 'asc' ? asc : desc;
+  const [rows, total] = await Promise.all([
+    db
+      .select({ entry: entries, sortValue: sql<string>`${column}::text` })
+      .from(entries)
+      .where(and(...conditions))
+      .orderBy(orderFn(column), orderFn(entries.id))
+      .limit(limit + 1), // One extra row tells whether another page follows
+    countEntries(filters),
+  ]);
+
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+  return {
+    items: page.map(row => row.entry),
+    total,
+    nextCursor: rows.length > limit && last
+      ? encodeCursor({ sort, value: last.sortValue, id: last.entry.id })
+      : null,
+  };
+}
+
 // ============= UPDATE =============
 
 export async function updateEntry(id: string, input: UpdateEntryInput) {
@@ -178,15 +328,26 @@ export async function updateEntry(id: string, input: UpdateEntryInput) {
   if (input.dueDate !== undefined) {
     updateData.dueDate = input.dueDate ? new Date(input.dueDate) : null;
   }
+  if (input.recurrence !== undefined) updateData.recurrence = input.recurrence;
+  // Previous state: needed to merge content and to record the revision
+  const existing = await getEntry(id);
+
   if (input.content !== undefined) {
-    // Merge content rather than replace
-    const existing = await getEntry(id);
+    // Merge content rather than replace; rows from before the schemas may not fit, so only the update is checked
+    const definition = existing && await getCategory(existing.category);
+    const content = definition ? checkedContent(definition, input.content) : input.content;
     if (existing) {
-      updateData.content = { ...(existing.content as Record<string, unknown>), ...input.content };
+      updateData.content = { ...(existing.content as Record<string, unknown>), ...content };
     } else {
-      updateData.content = input.content;
+      updateData.content = content;
     }
   }
+  if (existing && (input.title !== undefined || input.content !== undefined)) {
+    Object.assign(updateData, textHashColumn(
+      (updateData.title as string | undefined) ?? existing.title,
+      (updateData.content as Record<string, unknown> | undefined) ?? (existing.content as Record<string, unknown>) ?? {}
+    ));
+  }
 
   const [updated] = await db
     .update(entries)
@@ -196,6 +357,10 @@ export async function updateEntry(id: string, input: UpdateEntryInput) {
 
   if (!updated) return null;
 
+  if (existing) {
+    await recordRevision(existing, 'updated', diffSnapshots(snapshotEntry(existing), snapshotEntry(updated)));
+  }
+
   // Re-generate embedding if title or content changed
   if (input.title !== undefined || input.content !== undefined) {
     try {
@@ -204,7 +369,7 @@ export async function updateEntry(id: string, input: UpdateEntryInput) {
         (updated.content as Record<string, unknown>) || {}
       );
       const embedding = await generateEmbedding(text);
-      await db.update(entries).set({ embedding }).where(eq(entries.id, id));
+      await db.update(entries).set(embeddingColumns(embedding, text)).where(eq(entries.id, id));
     } catch (err) {
       log.error('Failed to update embedding', err);
     }
@@ -215,30 +380,104 @@ export async function updateEntry(id: string, input: UpdateEntryInput) {
 
 // ============= ARCHIVE (soft delete) =============
 
-export async function archiveEntry(id: string) {
+export async function archiveEntry(id: string, action: RevisionAction = 'archived') {
+  const existing = await getEntry(id);
+
   const [archived] = await db
     .update(entries)
     .set({ archived: new Date() })
     .where(eq(entries.id, id))
     .returning();
 
+  if (archived && existing) {
+    await recordRevision(existing, action, ['archived']);
+  }
+
   return archived || null;
 }
 
-// ============= SEARCH (vector + keyword) =============
+/** Un-archive an entry; relations and activity links were never removed, so they reappear as-is */
+export async function restoreEntry(id: string) {
+  const existing = await getEntry(id);
+  if (!existing?.archived) return null;
+
+  const [restored] = await db
+    .update(entries)
+    .set({ archived: null, updatedAt: new Date() })
+    .where(eq(entries.id, id))
+    .returning();
+
+  if (restored) {
+    await recordRevision(existing, 'restored', ['archived']);
+  }
+
+  return restored || null;
+}
+
+// ============= SEARCH (full-text + vector, fused) =============
+
+// Standard RRF damping constant — keeps a single top rank from dominating the merge
+const RRF_K = 60;
+
+const searchColumns = {
+  id: entries.id,
+  notionId: entries.notionId,
+  category: entries.category,
+  title: entries.title,
+  status: entries.status,
+  priority: entries.priority,
+  content: entries.content,
+  dueDate: entries.dueDate,
+  createdAt: entries.createdAt,
+  updatedAt: entries.updatedAt,
+};
+
+type SearchRow = Pick<Entry, keyof typeof searchColumns>;
+
+/**
+ * Merge several ranked lists with reciprocal rank fusion.
+ * Each item scores sum(1 / (k + rank)) across the lists it appears in, so
+ * entries found by both keyword and vector search rise to the top.
+ */
+export function reciprocalRankFusion<T extends { id: string }>(
+  lists: T[][],
+  k = RRF_K
+): Array<T & { score: number }> {
+  const fused = new Map<string, { item: T; score: number }>();
+
+  for (const list of lists) {
+    list.forEach((item, index) => {
+      const contribution = 1 / (k + index + 1);
+      const existing = fused.get(item.id);
+      if (existing) {
+        existing.score += contribution;
+      } else {
+        fused.set(item.id, { item, score: contribution });
+      }
+    });
+  }
+
+  return [...fused.values()]
+    .sort((a, b) => b.score - a.score)
+    .map(({ item, score }) => ({ ...item, score }));
+}
 
 export async function searchEntries(
   query: string,
-  options: { category?: string; limit?: number } = {}
+  options: { category?: string; tags?: string[]; limit?: number } = {}
 ) {
   const limit = options.limit || 20;
+  // Each leg fetches a wider pool so fusion has overlap to work with
+  const candidates = limit * 2;
 
-  // Generate query embedding
+  // Generate query embedding (skipped for a blank query: a tag-only search lists matches by recency)
   let queryEmbedding: number[] | null = null;
-  try {
-    queryEmbedding = await generateEmbedding(query);
-  } catch (err) {
-    log.error('Failed to generate search embedding', err);
+  if (query.trim()) {
+    try {
+      queryEmbedding = await generateEmbedding(query);
+    } catch (err) {
+      log.error('Failed to generate search embedding', err);
+    }
   }
 
   // Build WHERE conditions
@@ -246,45 +485,51 @@ export async function searchEntries(
   if (options.category) {
     conditions.push(eq(entries.category, options.category));
   }
+  const tagCondition = options.tags?.length ? taggedWith(options.tags) : undefined;
+  if (tagCondition) {
+    conditions.push(tagCondition);
+  }
 
+  // Keyword leg: ranked tsvector match, plus title substring (trigram-indexed) for partial names
+  const tsQuery = sql`websearch_to_tsquery('english', ${query})`;
+  const textRank = sql<number>`ts_rank_cd(${entries.searchVector}, ${tsQuery})`;
+  const keywordSearch = db
+    .select({ ...searchColumns, textRank })
+    .from(entries)
+    .where(and(
+      ...conditions,
+      sql`(${entries.searchVector} @@ ${tsQuery} OR ${entries.title} ILIKE ${'%' + query + '%'})`
+    ))
+    .orderBy(desc(textRank), desc(entries.updatedAt))
+    .limit(candidates);
+
+  // Vector leg: nearest neighbours by cosine distance (skipped if embedding failed)
+  let vectorSearch: Promise<Array<SearchRow & { similarity: number }>> = Promise.resolve([]);
   if (queryEmbedding) {
-    // Hybrid search: vector similarity + keyword matching
     const embeddingStr = `[${queryEmbedding.join(',')}]`;
-    const results = await db
+    vectorSearch = db
       .select({
-        id: entries.id,
-        notionId: entries.notionId,
-        category: entries.category,
-        title: entries.title,
-        status: entries.status,
-        priority: entries.priority,
-        content: entries.content,
-        dueDate: entries.dueDate,
-        createdAt: entries.createdAt,
-        updatedAt: entries.updatedAt,
+        ...searchColumns,
         similarity: sql<number>`1 - (${entries.embedding} <=> ${embeddingStr}::vector)`,
       })
       .from(entries)
-      .where(and(...conditions))
+      .where(and(...conditions, sql`${entries.embedding} IS NOT NULL`))
       .orderBy(sql`${entries.embedding} <=> ${embeddingStr}::vector`)
-      .limit(limit);
+      .limit(candidates);
+  }
 
-    return results;
-  } else {
-    // Fallback: keyword search only
-    conditions.push(
-      sql`(${entries.title} ILIKE ${'%' + query + '%'} OR ${entries.content}::text ILIKE ${'%' + query + '%'})`
-    );
+  const [keywordResults, vectorResults] = await Promise.all([keywordSearch, vectorSearch]);
 
-    const results = await db
-      .select()
-      .from(entries)
-      .where(and(...conditions))
-      .orderBy(desc(entries.updatedAt))
-      .limit(limit);
+  const similarityById = new Map(vectorResults.map(r => [r.id, Number(r.similarity) || 0]));
+  const textRankById = new Map(keywordResults.map(r => [r.id, Number(r.textRank) || 0]));
 
-    return results.map(r => ({ ...r, similarity: 0 }));
-  }
+  return reciprocalRankFusion<SearchRow>([keywordResults, vectorResults])
+    .slice(0, limit)
+    .map(r => ({
+      ...r,
+      similarity: similarityById.get(r.id) ?? 0,
+      textRank: textRankById.get(r.id) ?? 0,
+    }));
 }
 
 // ============= INBOX LOG =============
@@ -295,6 +540,7 @@ export async function createInboxLogEntry(data: {
   confidence: number;
   destinationId?: string;
   status?: string;
+  source?: string;
 }) {
   const [logEntry] = await db
     .insert(inboxLog)
@@ -304,6 +550,7 @@ export async function createInboxLogEntry(data: {
       confidence: data.confidence,
       destinationId: data.destinationId || null,
       status: data.status || 'Processed',
+      source: data.source || null,
     })
     .returning();
 
@@ -0,0 +1,110 @@
+/**
+ * Inbox log triage — low-confidence captures and classifier accuracy
+ *
+ * Every capture writes an inbox_log row. Captures the classifier wasn't sure
+ * about are still filed in its best-guess category but logged as
+ * 'Needs Review'; triage either confirms the guess ('Processed'), moves the
+ * entry (recategorize → 'Fixed') or dismisses it ('Ignored'). Processed vs
+ * Fixed over time is the classifier's accuracy.
+ * The threshold is stored in the config table under `review_confidence_threshold`.
+ */
+
+import { eq, and, desc, gte, inArray, count } from 'drizzle-orm';
+import { db } from '@/db';
+import { entries, inboxLog } from '@/db/schema';
+import type { InboxLogStatus } from '@/config/categories';
+import { findConfigEntry, upsertConfig } from './config';
+
+// ============= Threshold =============
+
+const THRESHOLD_KEY = 'review_confidence_threshold';
+export const DEFAULT_REVIEW_THRESHOLD = 0.6;
+
+/** Captures below this confidence are parked as Needs Review */
+export async function getReviewThreshold(): Promise<number> {
+  const entry = await findConfigEntry(THRESHOLD_KEY);
+  const threshold = (entry?.value as { data?: unknown } | undefined)?.data;
+  return typeof threshold === 'number' && threshold >= 0 && threshold <= 1 ? threshold : DEFAULT_REVIEW_THRESHOLD;
+}
+
+export async function setReviewThreshold(threshold: number): Promise<void> {
+  await upsertConfig(THRESHOLD_KEY, threshold);
+}
+
+/** Inbox log status for a fresh capture */
+export function captureLogStatus(confidence: number, threshold: number): InboxLogStatus {
+  return confidence < threshold ? 'Needs Review' : 'Processed';
+}
+
+// ============= READ =============
+
+/** Needs Review rows (newest first) with the entry each capture was filed as */
+export async function listNeedsReview(limit: number = 50) {
+  const rows = await db
+    .select()
+    .from(inboxLog)
+    .where(eq(inboxLog.status, 'Needs Review'))
+    .orderBy(desc(inboxLog.createdAt))
+    .limit(limit);
+
+  // destination_id is free text (legacy Notion IDs too) — only UUIDs can match entries
+  const ids = rows
+    .map(r => r.destinationId)
+    .filter((id): id is string => !!id && /^[0-9a-f-]{36}$/i.test(id));
+  const destinations = ids.length > 0
+    ? await db
+      .select({ id: entries.id, title: entries.title, category: entries.category, archived: entries.archived })
+      .from(entries)
+      .where(inArray(entries.id, ids))
+    : [];
+  const byId = new Map(destinations.map(d => [d.id, d]));
+
+  return rows.map(row => ({ ...row, entry: row.destinationId ? byId.get(row.destinationId) || null : null }));
+}
+
+/** Row counts per status, optionally since a date, and Processed / (Processed + Fixed) */
+export async function getClassifierAccuracy(since?: Date) {
+  const rows = await db
+    .select({ status: inboxLog.status, count: count() })
+    .from(inboxLog)
+    .where(since ? gte(inboxLog.createdAt, since) : undefined)
+    .groupBy(inboxLog.status);
+
+  const counts: Record<string, number> = {};
+  for (const row of rows) counts[row.status || 'Processed'] = Number(row.count);
+
+  const processed = counts['Processed'] || 0;
+  const fixed = counts['Fixed'] || 0;
+  return {
+    processed,
+    fixed,
+    needsReview: counts['Needs Review'] || 0,
+    ignored: counts['Ignored'] || 0,
+    accuracy: processed + fixed > 0 ? processed / (processed + fixed) : null,
+  };
+}
+
+// ============= WRITE =============
+
+/**
+ * A capture was moved to another category: mark its log row(s) Fixed and
+ * point them at the replacement entry. Returns the updated rows' raw input
+ * and original category.
+ */
+export async function markInboxFixed(oldEntryId: string, newCategory: string, newEntryId: string) {
+  return db
+    .update(inboxLog)
+    .set({ status: 'Fixed', fixedCategory: newCategory, destinationId: newEntryId })
+    .where(eq(inboxLog.destinationId, oldEntryId))
+    .returning({ id: inboxLog.id, rawInput: inboxLog.rawInput, category: inboxLog.category });
+}
+
+/** Close a Needs Review row: confirmed as filed ('Processed') or dismissed ('Ignored') */
+export async function resolveReview(id: string, status: 'Processed' | 'Ignored') {
+  const [row] = await db
+    .update(inboxLog)
+    .set({ status })
+    .where(and(eq(inboxLog.id, id), eq(inboxLog.status, 'Needs Review')))
+    .returning();
+  return row || null;
+}
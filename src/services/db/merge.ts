@@ -0,0 +1,235 @@
+/**
+ * Duplicates — near-identical captures and merging them
+ *
+ * A new entry that sits very close (by embedding) to an open entry in the
+ * same category is offered as a merge at capture time. Merging folds the
+ * duplicate into the existing entry: notes are combined, the earliest created
+ * date is kept, and relations, activity, attachments and inbox log rows move
+ * over (tags are copied) before the duplicate is archived (so it stays
+ * restorable from trash, tags included).
+ */
+
+import { eq, and, or, ne, sql, inArray } from 'drizzle-orm';
+import type { BatchItem } from 'drizzle-orm/batch';
+import { db } from '@/db';
+import {
+  entries,
+  entryRelations,
+  entryRevisions,
+  entryTags,
+  activityLog,
+  attachments,
+  inboxLog,
+  type Entry,
+  type EntryRelation,
+  type NewEntry,
+} from '@/db/schema';
+import { normalizeContent, refitContent, validateContent } from '@/lib/content';
+import { createLogger } from '@/lib/logger';
+import { getEntry } from './entries';
+import { getCategory } from './categories';
+import { getEntryTags, ensureTags, normalizeTags } from './tags';
+import { snapshotEntry, diffSnapshots } from './revisions';
+import { upsertEmbedding, buildEmbeddingText, textHashColumn } from './embeddings';
+
+const log = createLogger('db/merge');
+
+// ============= Types =============
+
+export interface DuplicateCandidate {
+  id: string;
+  title: string;
+  category: string;
+  similarity: number;
+}
+
+/** Above this similarity a capture is treated as a repeat, not just related (auto-linking starts at 0.8) */
+export const DUPLICATE_THRESHOLD = 0.92;
+
+// ============= Detect =============
+
+/**
+ * The open entry (same category, not done, not archived) most similar to the
+ * given one, if it clears the duplicate threshold.
+ */
+export async function findDuplicate(
+  entryId: string,
+  threshold: number = DUPLICATE_THRESHOLD
+): Promise<DuplicateCandidate | null> {
+  const entry = await getEntry(entryId);
+  if (!entry?.embedding) return null;
+
+  const embeddingStr = `[${entry.embedding.join(',')}]`;
+  const doneStatus = (await getCategory(entry.category))?.doneStatus;
+
+  const [match] = await db
+    .select({
+      id: entries.id,
+      title: entries.title,
+      category: entries.category,
+      similarity: sql<number>`1 - (${entries.embedding} <=> ${embeddingStr}::vector)`,
+    })
+    .from(entries)
+    .where(
+      and(
+        ne(entries.id, entryId),
+        eq(entries.category, entry.category),
+        sql`${entries.archived} IS NULL`,
+        sql`${entries.embedding} IS NOT NULL`,
+        doneStatus ? sql`${entries.status} IS DISTINCT FROM ${doneStatus}` : undefined,
+        sql`1 - (${entries.embedding} <=> ${embeddingStr}::vector) > ${threshold}`
+      )
+    )
+    .orderBy(sql`${entries.embedding} <=> ${embeddingStr}::vector`)
+    .limit(1);
+
+  return match || null;
+}
+
+// ============= Merge =============
+
+/** Target's content wins field by field; notes from both are kept, the duplicate's wording included */
+export function mergeContent(target: Entry, duplicate: Entry): Record<string, unknown> {
+  const targetContent = (target.content as Record<string, unknown>) || {};
+  const duplicateContent = (duplicate.content as Record<string, unknown>) || {};
+  const content: Record<string, unknown> = { ...duplicateContent, ...targetContent };
+
+  const targetNotes = (targetContent.notes as string | undefined)?.trim();
+  const duplicateNotes = [
+    duplicate.title.trim() !== target.title.trim() ? duplicate.title.trim() : '',
+    (duplicateContent.notes as string | undefined)?.trim() || '',
+  ].filter(Boolean).join('\n');
+
+  if (duplicateNotes && duplicateNotes !== targetNotes) {
+    content.notes = targetNotes ? `${targetNotes}\n\n${duplicateNotes}` : duplicateNotes;
+  }
+  return content;
+}
+
+/**
+ * Relations that became redundant once both ends point at the same entry:
+ * self-links, and repeats of a pair (either direction) with the same type.
+ */
+export function redundantRelations(relations: EntryRelation[]): string[] {
+  const seen = new Set<string>();
+  const redundant: string[] = [];
+  for (const relation of relations) {
+    const pair = [relation.sourceId, relation.targetId].sort().join(':');
+    const key = `${pair}:${relation.relationType}`;
+    if (relation.sourceId === relation.targetId || seen.has(key)) {
+      redundant.push(relation.id);
+    } else {
+      seen.add(key);
+    }
+  }
+  return redundant;
+}
+
+/**
+ * Fold `duplicateId` into `targetId` and archive the duplicate. Both must be
+ * in the same category. Every write — the target update, the re-pointed
+ * relations, activity, attachments and inbox rows, the copied tags, both
+ * revisions and the archive — goes out as one batch, which the Neon HTTP
+ * driver runs as one transaction, so a failed merge leaves both entries as
+ * they were. Returns the updated target, or null if either entry is missing
+ * or archived.
+ */
+export async function mergeEntries(duplicateId: string, targetId: string): Promise<Entry | null> {
+  if (duplicateId === targetId) {
+    throw new Error('Cannot merge an entry into itself');
+  }
+
+  const [duplicate, target] = await Promise.all([getEntry(duplicateId), getEntry(targetId)]);
+  if (!duplicate || !target || duplicate.archived || target.archived) return null;
+  if (duplicate.category !== target.category) {
+    throw new Error(`Cannot merge a ${duplicate.category} entry into a ${target.category} entry`);
+  }
+
+  // Rows from before the schemas may not fit, so the combined content is brought into shape first
+  const definition = await getCategory(target.category);
+  let content = mergeContent(target, duplicate);
+  if (definition) {
+    content = refitContent(definition, normalizeContent(definition, content).content);
+    const checked = validateContent(definition, content);
+    if (!checked.success) throw new Error(checked.error);
+    content = checked.data;
+  }
+
+  const now = new Date();
+  const set: Partial<NewEntry> = {
+    content,
+    ...textHashColumn(target.title, content),
+    updatedAt: now,
+    ...(!target.dueDate && duplicate.dueDate && { dueDate: duplicate.dueDate }),
+    ...(!target.priority && duplicate.priority && { priority: duplicate.priority }),
+    // Keep the earliest created date — the thought is as old as its first capture
+    ...(duplicate.createdAt < target.createdAt && { createdAt: duplicate.createdAt }),
+  };
+  const after = { ...target, ...set } as Entry;
+
+  // Relations as they will be once the duplicate's point at the target; repeats are dropped first
+  const relations = await db
+    .select()
+    .from(entryRelations)
+    .where(or(
+      inArray(entryRelations.sourceId, [duplicateId, targetId]),
+      inArray(entryRelations.targetId, [duplicateId, targetId])
+    ));
+  const redundant = redundantRelations(relations.map(relation => ({
+    ...relation,
+    sourceId: relation.sourceId === duplicateId ? targetId : relation.sourceId,
+    targetId: relation.targetId === duplicateId ? targetId : relation.targetId,
+  })));
+
+  const [duplicateTags, targetTags] = await Promise.all([getEntryTags(duplicateId), getEntryTags(targetId)]);
+  const addedTags = normalizeTags([...targetTags, ...duplicateTags]).filter(tag => !targetTags.includes(tag));
+  const tagIds = await ensureTags(addedTags);
+
+  const statements: BatchItem<'pg'>[] = [
+    db.update(entries).set(set).where(eq(entries.id, targetId)),
+    db.insert(entryRevisions).values({
+      entryId: targetId,
+      action: 'updated',
+      changedFields: diffSnapshots(snapshotEntry(target), snapshotEntry(after)),
+      snapshot: snapshotEntry(target),
+    }),
+  ];
+  if (redundant.length > 0) {
+    statements.push(db.delete(entryRelations).where(inArray(entryRelations.id, redundant)));
+  }
+  statements.push(
+    db.update(entryRelations).set({ sourceId: targetId }).where(eq(entryRelations.sourceId, duplicateId)),
+    db.update(entryRelations).set({ targetId }).where(eq(entryRelations.targetId, duplicateId)),
+    db.update(activityLog).set({ entryId: targetId }).where(eq(activityLog.entryId, duplicateId)),
+    db.update(attachments).set({ entryId: targetId }).where(eq(attachments.entryId, duplicateId)),
+    db.update(inboxLog).set({ destinationId: targetId }).where(eq(inboxLog.destinationId, duplicateId))
+  );
+  if (tagIds.length > 0) {
+    statements.push(db.insert(entryTags).values(tagIds.map(tagId => ({ entryId: targetId, tagId }))).onConflictDoNothing());
+  }
+  statements.push(
+    db.update(entries).set({ archived: now }).where(eq(entries.id, duplicateId)),
+    db.insert(entryRevisions).values({
+      entryId: duplicateId,
+      action: 'merged',
+      changedFields: ['archived'],
+      snapshot: snapshotEntry(duplicate),
+    }),
+    db.insert(activityLog).values({
+      entryId: targetId,
+      action: 'merged',
+      metadata: { merged_id: duplicateId, merged_title: duplicate.title },
+    })
+  );
+
+  await db.batch(statements as [BatchItem<'pg'>, ...BatchItem<'pg'>[]]);
+
+  // The merged text needs a new vector; best-effort like any other edit
+  try {
+    await upsertEmbedding(targetId, buildEmbeddingText(after.title, content));
+  } catch (err) {
+    log.error('Failed to update embedding after merge', err, { targetId });
+  }
+
+  return after;
+}
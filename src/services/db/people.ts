@@ -0,0 +1,179 @@
+/**
+ * People mentions — link captures to the People entries they name
+ *
+ * The classifier lists the people a capture mentions; each mention is matched
+ * against People entries by name (tolerating first-name-only and small typos)
+ * and company, and matches get an explicit relation instead of relying on
+ * embedding similarity. Unmatched names are returned so callers can offer to
+ * create them.
+ */
+
+import { eq, and, isNull } from 'drizzle-orm';
+import { db } from '@/db';
+import { entries, type Entry } from '@/db/schema';
+import type { MentionedPerson } from '@/services/classifier';
+import { addRelation } from './relations';
+
+// ============= Types =============
+
+export interface PersonCandidate {
+  id: string;
+  name: string;
+  company?: string;
+}
+
+export interface LinkedPerson extends PersonCandidate {
+  score: number;
+}
+
+export interface PeopleLinks {
+  linked: LinkedPerson[];
+  unknown: MentionedPerson[]; // Not in People yet — offered for creation
+}
+
+/** Minimum match score to link without asking */
+export const PERSON_MATCH_THRESHOLD = 0.8;
+
+// ============= Matching =============
+
+/** Lowercase, accents and punctuation stripped: 'José O\'Neil' → 'jose oneil' */
+export function normalizeName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/['’.]/g, '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/** 1 for identical strings, falling towards 0 as edits pile up */
+function stringSimilarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - editDistance(a, b) / longest;
+}
+
+/** 'Acme' and 'Acme Corp' (or a near-miss spelling) are the same company */
+function sameCompany(a: string, b: string): boolean {
+  const x = normalizeName(a);
+  const y = normalizeName(b);
+  return x.startsWith(y) || y.startsWith(x) || stringSimilarity(x, y) >= 0.8;
+}
+
+/**
+ * How likely a mention refers to a person, 0–1. Full names and near-misses
+ * score by edit distance; a first name alone ("Dana") matches a full name
+ * ("Dana Whitfield"). Matching companies add confidence, conflicting ones
+ * take it away.
+ */
+export function scorePersonMatch(mention: MentionedPerson, person: PersonCandidate): number {
+  const mentionName = normalizeName(mention.name);
+  const personName = normalizeName(person.name);
+  if (!mentionName || !personName) return 0;
+
+  const mentionTokens = mentionName.split(' ');
+  const personTokens = personName.split(' ');
+
+  let score: number;
+  if (mentionName === personName) {
+    score = 1;
+  } else if (mentionTokens.every(token => personTokens.includes(token))) {
+    // "Dana" or "Dana W" style partial names
+    score = mentionTokens.length === 1 ? 0.85 : 0.9;
+  } else {
+    score = stringSimilarity(mentionName, personName);
+  }
+
+  if (mention.company && person.company) {
+    score = sameCompany(mention.company, person.company) ? Math.min(1, score + 0.1) : score - 0.3;
+  }
+
+  return score;
+}
+
+/**
+ * The person a mention refers to, null when nobody clears the threshold, or
+ * 'ambiguous' when the best match is tied (two Danas and no company to tell
+ * them apart) — ambiguous mentions are neither linked nor offered for creation.
+ */
+export function matchPerson(
+  mention: MentionedPerson,
+  people: PersonCandidate[],
+  threshold: number = PERSON_MATCH_THRESHOLD
+): LinkedPerson | 'ambiguous' | null {
+  const scored = people
+    .map(person => ({ ...person, score: scorePersonMatch(mention, person) }))
+    .filter(match => match.score >= threshold)
+    .sort((a, b) => b.score - a.score);
+
+  if (scored.length === 0) return null;
+  if (scored.length > 1 && scored[1].score === scored[0].score) return 'ambiguous';
+  return scored[0];
+}
+
+// ============= Link =============
+
+/** Every People entry that isn't archived, as match candidates */
+export async function listPeople(): Promise<PersonCandidate[]> {
+  const rows = await db
+    .select({ id: entries.id, title: entries.title, content: entries.content })
+    .from(entries)
+    .where(and(eq(entries.category, 'People'), isNull(entries.archived)));
+
+  return rows.map(row => {
+    const company = (row.content as Record<string, unknown> | null)?.company;
+    return { id: row.id, name: row.title, ...(typeof company === 'string' && company && { company }) };
+  });
+}
+
+/**
+ * Relate an entry to the People entries its capture mentions. A People entry
+ * mentioning itself ("Met Dana from Acme") is skipped. Returns the links made
+ * and the names that matched nobody.
+ */
+export async function linkMentionedPeople(entry: Entry, mentions: MentionedPerson[]): Promise<PeopleLinks> {
+  const links: PeopleLinks = { linked: [], unknown: [] };
+  if (mentions.length === 0) return links;
+
+  const people = (await listPeople()).filter(person => person.id !== entry.id);
+  const selfName = entry.category === 'People' ? normalizeName(entry.title) : null;
+  const seenUnknown = new Set<string>();
+
+  for (const mention of mentions) {
+    const key = normalizeName(mention.name);
+    if (!key || key === selfName) continue;
+
+    const match = matchPerson(mention, people);
+    if (match === 'ambiguous') continue;
+
+    if (!match) {
+      if (!seenUnknown.has(key)) {
+        seenUnknown.add(key);
+        links.unknown.push(mention);
+      }
+      continue;
+    }
+
+    if (links.linked.some(person => person.id === match.id)) continue;
+    await addRelation(entry.id, match.id, 'related_to');
+    links.linked.push(match);
+  }
+
+  return links;
+}
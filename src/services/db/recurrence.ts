@@ -0,0 +1,81 @@
+/**
+ * Recurring entries
+ *
+ * An entry with a recurrence rule stands for the current occurrence of a
+ * series. Completing it (moving it to its category's done status) creates
+ * the next occurrence and hands the rule over to it, so the completed entry
+ * stays in history as a one-off. The rule only moves once the new entry
+ * exists; if creating it fails, the series stays on the completed entry.
+ */
+
+import { eq } from 'drizzle-orm';
+import { db } from '@/db';
+import { entries, type Entry } from '@/db/schema';
+import { createEntry } from './entries';
+import { getCategory } from './categories';
+import { logActivity } from './activity';
+import { nextOccurrence } from '@/lib/utils/rrule';
+import { localDateInTimezone } from '@/lib/utils/date';
+import { normalizeContent, refitContent } from '@/lib/content';
+import { getUserTimezone } from '@/services/google/calendar';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('db/recurrence');
+
+// Date-only due dates are stored at UTC midnight; timed ones fall on the user's local day
+function dueDay(dueDate: Date, timezone: string): string {
+  const iso = dueDate.toISOString();
+  return iso.endsWith('T00:00:00.000Z') ? iso.split('T')[0] : localDateInTimezone(timezone, dueDate);
+}
+
+/**
+ * Create the next occurrence of a recurring entry that was just moved to
+ * `status`. Returns the new entry, or null when the entry doesn't recur,
+ * the status isn't its done status, the series has ended, or the new entry
+ * couldn't be created (logged; completing the entry again retries).
+ */
+export async function spawnNextOccurrence(entry: Entry, status: string): Promise<Entry | null> {
+  if (!entry.recurrence) return null;
+
+  const definition = await getCategory(entry.category);
+  if (!definition?.doneStatus || status !== definition.doneStatus) return null;
+
+  const timezone = await getUserTimezone();
+  const today = localDateInTimezone(timezone);
+  const anchor = entry.dueDate ? dueDay(entry.dueDate, timezone) : today;
+  const next = nextOccurrence(entry.recurrence, anchor, today);
+
+  // Completing this one again must not spawn twice, so the rule leaves it either way
+  const clearRule = () => db.update(entries).set({ recurrence: null }).where(eq(entries.id, entry.id));
+
+  if (!next) {
+    await clearRule();
+    log.info('Recurrence ended', { entryId: entry.id, rule: entry.recurrence });
+    return null;
+  }
+
+  // Content written before the category schemas (or under another category) must still fit
+  const { content } = normalizeContent(definition, (entry.content as Record<string, unknown>) || {});
+
+  let created: Entry;
+  try {
+    created = await createEntry({
+      category: entry.category,
+      title: entry.title,
+      priority: entry.priority || undefined,
+      content: refitContent(definition, content),
+      dueDate: next.dueDate,
+      recurrence: next.rule,
+      source: entry.source,
+    });
+  } catch (err) {
+    log.error('Failed to create next occurrence; the rule stays on the completed entry', err, { entryId: entry.id });
+    return null;
+  }
+
+  await clearRule();
+
+  logActivity(created.id, 'created', { category: entry.category, recurrence_of: entry.id });
+  log.info('Next occurrence created', { entryId: entry.id, nextId: created.id, dueDate: next.dueDate });
+  return created;
+}
@@ -0,0 +1,240 @@
+/**
+ * Embedding re-index — keeps stored vectors in step with entry text and the model
+ *
+ * An entry needs embedding when it has no vector (the fire-and-forget call in
+ * createEntry never finished), when its vector came from another model
+ * (EMBEDDING_MODEL changed), or when the hash of its current text differs
+ * from the one stored with the vector (content changed by a path that doesn't
+ * re-embed). Every title or content write stores the current text hash, so
+ * all three are comparisons between columns: the status is one counting
+ * query, and a pass only reads the entries that need work. A stored text
+ * hash that is missing (rows from before it existed) or doesn't match the
+ * text is corrected by the first pass that reaches the row.
+ * Each pass embeds a bounded number of entries so a cron run or a Settings
+ * click stays within a serverless time limit; the next pass carries on.
+ * Classifier examples are re-embedded too when the model changes.
+ */
+
+import { and, asc, eq, gt, isNull, or, ne, sql, count, type SQL } from 'drizzle-orm';
+import type { BatchItem } from 'drizzle-orm/batch';
+import { db } from '@/db';
+import { entries, classifierExamples } from '@/db/schema';
+import { createLogger } from '@/lib/logger';
+import {
+  EMBEDDING_MODEL,
+  buildEmbeddingText,
+  embeddingColumns,
+  generateEmbeddingsBatch,
+  hashEmbeddingText,
+} from './embeddings';
+
+const log = createLogger('db/reindex');
+
+// ============= Types =============
+
+export type EmbeddingState = 'current' | 'missing' | 'outdated_model' | 'stale';
+
+export interface EmbeddingStatus {
+  model: string;
+  total: number; // Entries, archived ones excluded
+  missing: number;
+  outdatedModel: number;
+  stale: number;
+  outdatedExamples: number; // Classifier examples without a vector from the current model
+}
+
+export interface ReindexResult {
+  model: string;
+  embedded: number;
+  failed: number;
+  examplesEmbedded: number;
+  remaining: boolean; // More work was found than this pass could do
+}
+
+interface ReindexOptions {
+  limit?: number; // Most entries (and then examples) to embed in this pass
+  batchSize?: number; // Texts per embeddings request
+}
+
+interface ScannedEntry {
+  id: string;
+  text: string;
+  textHash: string;
+  storedTextHash: string | null; // As scanned; null for rows written before the text hash was stored
+  state: EmbeddingState;
+}
+
+/** Entries embedded per pass unless told otherwise; about 10 requests */
+export const DEFAULT_REINDEX_LIMIT = 200;
+
+const SCAN_PAGE_SIZE = 500;
+
+// ============= State =============
+
+/** Whether an entry's stored vector still matches its text and the current model */
+export function embeddingState(
+  row: { hasEmbedding: boolean; embeddingModel: string | null; embeddingHash: string | null },
+  textHash: string
+): EmbeddingState {
+  if (!row.hasEmbedding) return 'missing';
+  if (row.embeddingModel !== EMBEDDING_MODEL) return 'outdated_model';
+  if (row.embeddingHash !== textHash) return 'stale';
+  return 'current';
+}
+
+// Conditions on stored columns; only the vector's presence is checked, never its value
+const missing = sql`${entries.embedding} IS NULL`;
+const outdatedModel = sql`${entries.embedding} IS NOT NULL AND ${entries.embeddingModel} IS DISTINCT FROM ${EMBEDDING_MODEL}`;
+const stale = sql`${entries.embedding} IS NOT NULL AND ${entries.embeddingModel} = ${EMBEDDING_MODEL}
+  AND (${entries.textHash} IS NULL OR ${entries.embeddingHash} IS DISTINCT FROM ${entries.textHash})`;
+
+const countWhere = (condition: SQL) => sql<number>`count(*) filter (where ${condition})`.mapWith(Number);
+
+/** Store an entry's computed text hash, unless a write since the scan has already replaced the scanned one */
+function storeTextHash(entry: ScannedEntry) {
+  const unchanged = entry.storedTextHash === null ? isNull(entries.textHash) : eq(entries.textHash, entry.storedTextHash);
+  return db.update(entries).set({ textHash: entry.textHash }).where(and(eq(entries.id, entry.id), unchanged));
+}
+
+/**
+ * Walk the live entries that may need embedding, in id order and a page at a
+ * time, without loading the vectors. `visit` returns false to stop early.
+ */
+async function scanEntries(visit: (entry: ScannedEntry) => boolean): Promise<void> {
+  let lastId: string | null = null;
+
+  for (;;) {
+    const page = await db
+      .select({
+        id: entries.id,
+        title: entries.title,
+        content: entries.content,
+        textHash: entries.textHash,
+        embeddingModel: entries.embeddingModel,
+        embeddingHash: entries.embeddingHash,
+        hasEmbedding: sql<boolean>`${entries.embedding} IS NOT NULL`,
+      })
+      .from(entries)
+      .where(and(isNull(entries.archived), or(missing, outdatedModel, stale), lastId ? gt(entries.id, lastId) : undefined))
+      .orderBy(asc(entries.id))
+      .limit(SCAN_PAGE_SIZE);
+
+    for (const row of page) {
+      const text = buildEmbeddingText(row.title, (row.content as Record<string, unknown>) || {});
+      const textHash = hashEmbeddingText(text);
+      const entry = { id: row.id, text, textHash, storedTextHash: row.textHash, state: embeddingState(row, textHash) };
+      if (!visit(entry)) return;
+    }
+
+    if (page.length < SCAN_PAGE_SIZE) return;
+    lastId = page[page.length - 1].id;
+  }
+}
+
+// Classifier examples whose vector is missing or from another model
+const outdatedExample = or(
+  isNull(classifierExamples.embedding),
+  isNull(classifierExamples.embeddingModel),
+  ne(classifierExamples.embeddingModel, EMBEDDING_MODEL)
+);
+
+/**
+ * How many entries (and classifier examples) need embedding, by reason.
+ * Rows without a stored text hash count as stale until a pass fills it in.
+ */
+export async function getEmbeddingStatus(): Promise<EmbeddingStatus> {
+  const [[totals], [examples]] = await Promise.all([
+    db
+      .select({
+        total: count(),
+        missing: countWhere(missing),
+        outdatedModel: countWhere(outdatedModel),
+        stale: countWhere(stale),
+      })
+      .from(entries)
+      .where(isNull(entries.archived)),
+    db.select({ total: count() }).from(classifierExamples).where(outdatedExample),
+  ]);
+
+  return { model: EMBEDDING_MODEL, ...totals, outdatedExamples: examples.total };
+}
+
+// ============= Re-index =============
+
+/**
+ * One re-index pass: embed up to `limit` entries that need it, then, with
+ * what's left of the limit, classifier examples from another model. A failed
+ * request only loses its own batch; those entries are retried next pass.
+ */
+export async function reindexEmbeddings(options: ReindexOptions = {}): Promise<ReindexResult> {
+  const limit = options.limit ?? DEFAULT_REINDEX_LIMIT;
+  const batchSize = options.batchSize ?? 20;
+  const result: ReindexResult = { model: EMBEDDING_MODEL, embedded: 0, failed: 0, examplesEmbedded: 0, remaining: false };
+
+  const pending: ScannedEntry[] = [];
+  const backfill: ScannedEntry[] = []; // Current vectors whose stored text hash is missing or wrong
+  await scanEntries(entry => {
+    if (entry.state === 'current') {
+      if (entry.storedTextHash !== entry.textHash) backfill.push(entry);
+      return true;
+    }
+    if (pending.length === limit) {
+      result.remaining = true;
+      return false;
+    }
+    pending.push(entry);
+    return true;
+  });
+
+  for (let i = 0; i < backfill.length; i += SCAN_PAGE_SIZE) {
+    const updates: BatchItem<'pg'>[] = backfill.slice(i, i + SCAN_PAGE_SIZE).map(storeTextHash);
+    await db.batch(updates as [BatchItem<'pg'>, ...BatchItem<'pg'>[]]);
+  }
+
+  for (let i = 0; i < pending.length; i += batchSize) {
+    const batch = pending.slice(i, i + batchSize);
+    try {
+      const vectors = await generateEmbeddingsBatch(batch.map(entry => entry.text), batchSize);
+      const updates: BatchItem<'pg'>[] = batch.flatMap((entry, j) => [
+        db.update(entries).set(embeddingColumns(vectors[j], entry.text)).where(eq(entries.id, entry.id)),
+        ...(entry.storedTextHash === entry.textHash ? [] : [storeTextHash(entry)]),
+      ]);
+      await db.batch(updates as [BatchItem<'pg'>, ...BatchItem<'pg'>[]]);
+      result.embedded += batch.length;
+    } catch (err) {
+      log.error('Re-index batch failed', err, { first: batch[0].id, size: batch.length });
+      result.failed += batch.length;
+    }
+  }
+
+  const exampleLimit = limit - pending.length;
+  if (exampleLimit > 0) {
+    const examples = await db
+      .select({ id: classifierExamples.id, rawInput: classifierExamples.rawInput })
+      .from(classifierExamples)
+      .where(outdatedExample)
+      .limit(exampleLimit + 1);
+
+    if (examples.length > exampleLimit) result.remaining = true;
+    const batch = examples.slice(0, exampleLimit);
+    if (batch.length > 0) {
+      try {
+        const vectors = await generateEmbeddingsBatch(batch.map(example => example.rawInput), batchSize);
+        const updates: BatchItem<'pg'>[] = batch.map((example, j) =>
+          db.update(classifierExamples)
+            .set({ embedding: vectors[j], embeddingModel: EMBEDDING_MODEL })
+            .where(eq(classifierExamples.id, example.id))
+        );
+        await db.batch(updates as [BatchItem<'pg'>, ...BatchItem<'pg'>[]]);
+        result.examplesEmbedded = batch.length;
+      } catch (err) {
+        log.error('Re-index of classifier examples failed', err, { size: batch.length });
+      }
+    }
+  } else if (pending.length > 0) {
+    result.remaining = true; // Examples were not checked this pass
+  }
+
+  log.info('Re-index pass finished', { ...result });
+  return result;
+}
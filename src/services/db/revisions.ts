@@ -0,0 +1,142 @@
+/**
+ * Entry revisions — version history and undo
+ *
+ * Every update, recategorize, archive and restore snapshots the entry's
+ * previous state, so an overwritten note or status can be brought back.
+ *
+ * Writes are best-effort (never throw) so history never blocks an edit.
+ */
+
+import { eq, and, desc } from 'drizzle-orm';
+import { db } from '@/db';
+import { entries, entryRevisions, type Entry, type EntryRevision } from '@/db/schema';
+import { buildEmbeddingText, textHashColumn, upsertEmbedding } from './embeddings';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('db/revisions');
+
+// ============= Types =============
+
+export type RevisionAction = 'updated' | 'recategorized' | 'archived' | 'restored' | 'merged';
+
+export type RevisionSnapshot = EntryRevision['snapshot'];
+
+const SNAPSHOT_FIELDS = ['category', 'title', 'status', 'priority', 'dueDate', 'archived', 'recurrence'] as const;
+
+// ============= Helpers =============
+
+/** Capture the restorable fields of an entry */
+export function snapshotEntry(entry: Entry): RevisionSnapshot {
+  return {
+    category: entry.category,
+    title: entry.title,
+    status: entry.status,
+    priority: entry.priority,
+    content: (entry.content as Record<string, unknown>) || {},
+    dueDate: entry.dueDate?.toISOString() || null,
+    archived: entry.archived?.toISOString() || null,
+    recurrence: entry.recurrence,
+  };
+}
+
+/** List the fields (and content keys) that differ between two snapshots */
+export function diffSnapshots(before: RevisionSnapshot, after: RevisionSnapshot): string[] {
+  const changed: string[] = SNAPSHOT_FIELDS.filter(field => (before[field] ?? null) !== (after[field] ?? null));
+
+  const contentKeys = new Set([...Object.keys(before.content), ...Object.keys(after.content)]);
+  for (const key of contentKeys) {
+    if (JSON.stringify(before.content[key]) !== JSON.stringify(after.content[key])) {
+      changed.push(key);
+    }
+  }
+
+  return changed;
+}
+
+// ============= WRITE (best-effort) =============
+
+/**
+ * Store the entry's state as it was before a change. Never throws.
+ */
+export async function recordRevision(
+  previous: Entry,
+  action: RevisionAction,
+  changedFields: string[] = []
+): Promise<void> {
+  try {
+    await db.insert(entryRevisions).values({
+      entryId: previous.id,
+      action,
+      changedFields,
+      snapshot: snapshotEntry(previous),
+    });
+  } catch (err) {
+    log.error('Failed to record revision', err, { entryId: previous.id, action });
+  }
+}
+
+// ============= READ =============
+
+/** Revision history for an entry, newest first */
+export async function getRevisions(entryId: string, limit: number = 50) {
+  return db
+    .select()
+    .from(entryRevisions)
+    .where(eq(entryRevisions.entryId, entryId))
+    .orderBy(desc(entryRevisions.createdAt))
+    .limit(limit);
+}
+
+// ============= RESTORE =============
+
+/**
+ * Roll an entry back to a revision's snapshot.
+ * The current state is recorded first, so a restore can itself be undone.
+ * Returns null if the entry or revision doesn't exist.
+ */
+export async function restoreRevision(entryId: string, revisionId: string): Promise<Entry | null> {
+  const [revision] = await db
+    .select()
+    .from(entryRevisions)
+    .where(and(eq(entryRevisions.id, revisionId), eq(entryRevisions.entryId, entryId)))
+    .limit(1);
+  if (!revision) return null;
+
+  const [current] = await db
+    .select()
+    .from(entries)
+    .where(eq(entries.id, entryId))
+    .limit(1);
+  if (!current) return null;
+
+  const target = revision.snapshot;
+  await recordRevision(current, 'restored', diffSnapshots(snapshotEntry(current), target));
+
+  const [restored] = await db
+    .update(entries)
+    .set({
+      category: target.category,
+      title: target.title,
+      status: target.status,
+      priority: target.priority,
+      content: target.content,
+      ...textHashColumn(target.title, target.content),
+      dueDate: target.dueDate ? new Date(target.dueDate) : null,
+      archived: target.archived ? new Date(target.archived) : null,
+      // Older snapshots don't know the rule, so they leave the current one alone
+      ...(target.recurrence !== undefined && { recurrence: target.recurrence }),
+      updatedAt: new Date(),
+    })
+    .where(eq(entries.id, entryId))
+    .returning();
+
+  if (!restored) return null;
+
+  try {
+    await upsertEmbedding(restored.id, buildEmbeddingText(restored.title, target.content));
+  } catch (err) {
+    log.error('Failed to refresh embedding after restore', err);
+  }
+
+  return restored;
+}
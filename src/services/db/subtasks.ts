@@ -0,0 +1,241 @@
+/**
+ * Project subtasks — an ordered checklist stored in the project's content
+ *
+ * Items are either plain checklist lines or links to full entries (usually
+ * Admin tasks) that also carry a `part_of` relation to the project. The list
+ * in `content.subtasks` is the source of truth for order and done state;
+ * linked entries are kept in step when either side is completed.
+ *
+ * Ticking an item advances `nextAction` to the first open item, and ticking
+ * the last one completes the project (spawning its next occurrence if it
+ * recurs). Only categories whose content schema has `subtasks` keep a list.
+ */
+
+import { eq, and, inArray, isNull } from 'drizzle-orm';
+import { db } from '@/db';
+import { entries, entryRelations, type Entry } from '@/db/schema';
+import { createEntry, getEntry, updateEntry } from './entries';
+import { addRelation } from './relations';
+import { getCategory } from './categories';
+import { logActivity } from './activity';
+import { spawnNextOccurrence } from './recurrence';
+import { contentKeys } from '@/lib/content';
+
+// ============= Types =============
+
+export interface SubtaskItem {
+  id: string;
+  text: string;
+  done: boolean;
+  entryId?: string; // Linked entry (part_of the project)
+}
+
+export interface Subtask extends SubtaskItem {
+  status?: string | null; // Linked entry's current status
+  dueDate?: string | null;
+}
+
+export interface SubtaskProgress {
+  done: number;
+  total: number;
+}
+
+export type AddSubtaskInput =
+  | { text: string; asEntry?: boolean; category?: string }
+  | { entryId: string };
+
+// ============= Helpers =============
+
+/** Subtask items stored on an entry (empty for anything that isn't a project) */
+export function readSubtasks(entry: Pick<Entry, 'content'>): SubtaskItem[] {
+  const items = ((entry.content as Record<string, unknown>) || {}).subtasks;
+  return Array.isArray(items) ? (items as SubtaskItem[]) : [];
+}
+
+/** Whether the entry's category can hold a checklist (Projects) */
+export async function supportsSubtasks(entry: Pick<Entry, 'category'>): Promise<boolean> {
+  const definition = await getCategory(entry.category);
+  return !!definition && contentKeys(definition).includes('subtasks');
+}
+
+export function subtaskProgress(items: SubtaskItem[]): SubtaskProgress {
+  return { done: items.filter(i => i.done).length, total: items.length };
+}
+
+async function isDone(entry: Entry, status: string | null = entry.status): Promise<boolean> {
+  const doneStatus = (await getCategory(entry.category))?.doneStatus;
+  return !!doneStatus && status === doneStatus;
+}
+
+/**
+ * Write the list back, moving nextAction to the first open item when
+ * `advance` is set and completing the project once every item is done.
+ */
+async function saveSubtasks(project: Entry, items: SubtaskItem[], advance: boolean) {
+  const content: Record<string, unknown> = { subtasks: items };
+  if (advance) {
+    content.nextAction = items.find(i => !i.done)?.text || '';
+  }
+
+  const update: { content: Record<string, unknown>; status?: string } = { content };
+  const doneStatus = (await getCategory(project.category))?.doneStatus;
+  const allDone = items.length > 0 && items.every(i => i.done);
+  if (allDone && doneStatus && project.status !== doneStatus) {
+    update.status = doneStatus;
+  }
+
+  const updated = await updateEntry(project.id, update);
+
+  if (update.status && updated) {
+    logActivity(project.id, 'completed', { from: project.status, to: update.status, via: 'subtasks' });
+    await spawnNextOccurrence(updated, update.status);
+  }
+  return updated;
+}
+
+// ============= READ =============
+
+/** Subtasks in order, with linked entries' current title, status and due date */
+export async function getSubtasks(project: Entry): Promise<Subtask[]> {
+  const items = readSubtasks(project);
+
+  const linkedIds = items.map(i => i.entryId).filter((id): id is string => !!id);
+  const linked = linkedIds.length > 0
+    ? await db.select().from(entries).where(and(inArray(entries.id, linkedIds), isNull(entries.archived)))
+    : [];
+  const byId = new Map(linked.map(e => [e.id, e]));
+
+  return items
+    // Linked entries that were deleted drop out of the list
+    .filter(item => !item.entryId || byId.has(item.entryId))
+    .map(item => {
+      const entry = item.entryId ? byId.get(item.entryId) : undefined;
+      if (!entry) return item;
+      return {
+        ...item,
+        text: entry.title,
+        status: entry.status,
+        dueDate: entry.dueDate?.toISOString().split('T')[0] || null,
+      };
+    });
+}
+
+// ============= WRITE =============
+
+/**
+ * Append a subtask: a checklist line, a new linked entry (`asEntry`, Admin
+ * by default), or an existing entry by ID. Null if that entry doesn't exist.
+ */
+export async function addSubtask(project: Entry, input: AddSubtaskInput): Promise<SubtaskItem | null> {
+  const items = readSubtasks(project);
+
+  let item: SubtaskItem;
+  if ('entryId' in input) {
+    const child = await getEntry(input.entryId);
+    if (!child || child.id === project.id) return null;
+    const existing = items.find(i => i.entryId === child.id);
+    if (existing) return existing;
+    await addRelation(child.id, project.id, 'part_of');
+    item = { id: crypto.randomUUID(), text: child.title, done: await isDone(child), entryId: child.id };
+  } else if (input.asEntry) {
+    const child = await createEntry({ category: input.category || 'Admin', title: input.text });
+    await addRelation(child.id, project.id, 'part_of');
+    logActivity(child.id, 'created', { category: input.category || 'Admin', part_of: project.id });
+    item = { id: crypto.randomUUID(), text: input.text, done: false, entryId: child.id };
+  } else {
+    item = { id: crypto.randomUUID(), text: input.text, done: false };
+  }
+
+  const next = [...items, item];
+  // A project without a next action picks up its first open subtask
+  const content = (project.content as Record<string, unknown>) || {};
+  await saveSubtasks(project, next, !content.nextAction);
+  return item;
+}
+
+/**
+ * Tick or untick a subtask; linked entries move to their done / default
+ * status. Returns the updated project, or null for an unknown subtask.
+ */
+export async function setSubtaskDone(project: Entry, subtaskId: string, done: boolean) {
+  const items = readSubtasks(project);
+  const item = items.find(i => i.id === subtaskId);
+  if (!item) return null;
+
+  if (item.entryId) {
+    const child = await getEntry(item.entryId);
+    const definition = child ? await getCategory(child.category) : undefined;
+    const status = done ? definition?.doneStatus : definition?.defaultStatus;
+    if (child && status && child.status !== status) {
+      await updateEntry(child.id, { status });
+      logActivity(child.id, 'status_changed', { from: child.status, to: status, via: 'subtasks' });
+    }
+  }
+
+  const next = items.map(i => (i.id === subtaskId ? { ...i, done } : i));
+  return saveSubtasks(project, next, done);
+}
+
+/** Rename a checklist line (linked entries keep their own title) */
+export async function renameSubtask(project: Entry, subtaskId: string, text: string) {
+  const items = readSubtasks(project);
+  if (!items.some(i => i.id === subtaskId)) return null;
+
+  return saveSubtasks(project, items.map(i => (i.id === subtaskId ? { ...i, text } : i)), false);
+}
+
+/** Reorder subtasks; IDs missing from `order` keep their relative order at the end */
+export async function reorderSubtasks(project: Entry, order: string[]) {
+  const items = readSubtasks(project);
+  const rank = (id: string) => {
+    const index = order.indexOf(id);
+    return index === -1 ? order.length : index;
+  };
+
+  const sorted = [...items].sort((a, b) => rank(a.id) - rank(b.id));
+  return saveSubtasks(project, sorted, false);
+}
+
+/** Remove a subtask; a linked entry stays but loses its part_of relation */
+export async function removeSubtask(project: Entry, subtaskId: string) {
+  const items = readSubtasks(project);
+  const item = items.find(i => i.id === subtaskId);
+  if (!item) return null;
+
+  if (item.entryId) {
+    await db.delete(entryRelations).where(and(
+      eq(entryRelations.sourceId, item.entryId),
+      eq(entryRelations.targetId, project.id),
+      eq(entryRelations.relationType, 'part_of'),
+    ));
+  }
+
+  return saveSubtasks(project, items.filter(i => i.id !== subtaskId), false);
+}
+
+// ============= Roll-up =============
+
+/**
+ * A linked entry changed status outside the checklist (task list, Telegram):
+ * tick or untick its item in every project it is part of.
+ */
+export async function syncParentSubtasks(entry: Entry, status: string): Promise<void> {
+  const parents = await db
+    .select({ projectId: entryRelations.targetId })
+    .from(entryRelations)
+    .where(and(eq(entryRelations.sourceId, entry.id), eq(entryRelations.relationType, 'part_of')));
+  if (parents.length === 0) return;
+
+  const done = await isDone(entry, status);
+
+  for (const { projectId } of parents) {
+    const project = await getEntry(projectId);
+    if (!project) continue;
+
+    const items = readSubtasks(project);
+    const item = items.find(i => i.entryId === entry.id);
+    if (!item || item.done === done) continue;
+
+    await saveSubtasks(project, items.map(i => (i.entryId === entry.id ? { ...i, done } : i)), done);
+  }
+}
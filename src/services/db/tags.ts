@@ -0,0 +1,179 @@
+/**
+ * Tags — free-form labels that cut across categories
+ *
+ * Names are normalized on the way in ('#Q3 Launch' → 'q3-launch') so the same
+ * tag is never stored twice. Entries link to tags many-to-many; filters match
+ * entries carrying every requested tag.
+ */
+
+import { eq, and, inArray, notInArray, sql, desc, count, type SQL } from 'drizzle-orm';
+import { db } from '@/db';
+import { entries, tags, entryTags } from '@/db/schema';
+
+// ============= Types =============
+
+export interface TagCount {
+  name: string;
+  count: number; // Entries (not archived) carrying the tag
+}
+
+/** Longest tag name kept; longer input is cut */
+export const MAX_TAG_LENGTH = 32;
+
+/** Most tags one entry can carry */
+export const MAX_TAGS_PER_ENTRY = 10;
+
+// ============= Names =============
+
+/** Lowercase, '#' dropped, spaces to hyphens, other punctuation removed: '#Q3 Launch!' → 'q3-launch' */
+export function normalizeTag(name: string): string | null {
+  const tag = name
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/^#+/, '')
+    .trim()
+    .replace(/[\s_]+/g, '-')
+    .replace(/[^\p{L}\p{N}/-]/gu, '')
+    .replace(/-{2,}/g, '-')
+    .replace(/^-|-$/g, '')
+    .slice(0, MAX_TAG_LENGTH);
+  return tag || null;
+}
+
+/** Normalized, de-duplicated and capped; invalid names are dropped */
+export function normalizeTags(names: string[]): string[] {
+  const unique = new Set<string>();
+  for (const name of names) {
+    const tag = normalizeTag(name);
+    if (tag) unique.add(tag);
+  }
+  return [...unique].slice(0, MAX_TAGS_PER_ENTRY);
+}
+
+/** '#hashtags' written in free text, normalized */
+export function extractHashtags(text: string): string[] {
+  return normalizeTags([...text.matchAll(/(?:^|\s)#([\p{L}\p{N}][\p{L}\p{N}_/-]*)/gu)].map(m => m[1]));
+}
+
+// ============= Read =============
+
+/** Tags in use, most used first */
+export async function listTags(limit: number = 200): Promise<TagCount[]> {
+  const total = count(entryTags.entryId);
+  const rows = await db
+    .select({ name: tags.name, count: total })
+    .from(tags)
+    .innerJoin(entryTags, eq(entryTags.tagId, tags.id))
+    .innerJoin(entries, eq(entries.id, entryTags.entryId))
+    .where(sql`${entries.archived} IS NULL`)
+    .groupBy(tags.name)
+    .orderBy(desc(total), tags.name)
+    .limit(limit);
+
+  return rows.map(row => ({ name: row.name, count: Number(row.count) }));
+}
+
+/** An entry's tags, alphabetically */
+export async function getEntryTags(entryId: string): Promise<string[]> {
+  const rows = await db
+    .select({ name: tags.name })
+    .from(entryTags)
+    .innerJoin(tags, eq(tags.id, entryTags.tagId))
+    .where(eq(entryTags.entryId, entryId))
+    .orderBy(tags.name);
+
+  return rows.map(row => row.name);
+}
+
+/** Tags for a page of entries in one query, keyed by entry ID (entries without tags are absent) */
+export async function getTagsForEntries(entryIds: string[]): Promise<Map<string, string[]>> {
+  const byEntry = new Map<string, string[]>();
+  if (entryIds.length === 0) return byEntry;
+
+  const rows = await db
+    .select({ entryId: entryTags.entryId, name: tags.name })
+    .from(entryTags)
+    .innerJoin(tags, eq(tags.id, entryTags.tagId))
+    .where(inArray(entryTags.entryId, entryIds))
+    .orderBy(tags.name);
+
+  for (const row of rows) {
+    const list = byEntry.get(row.entryId);
+    if (list) list.push(row.name);
+    else byEntry.set(row.entryId, [row.name]);
+  }
+  return byEntry;
+}
+
+/** WHERE condition: the entry carries every one of the given (normalized) tags */
+export function taggedWith(names: string[]): SQL | undefined {
+  const wanted = normalizeTags(names);
+  if (wanted.length === 0) return undefined;
+
+  const tagged = db
+    .select({ entryId: entryTags.entryId })
+    .from(entryTags)
+    .innerJoin(tags, eq(tags.id, entryTags.tagId))
+    .where(inArray(tags.name, wanted))
+    .groupBy(entryTags.entryId)
+    .having(sql`count(distinct ${tags.name}) = ${wanted.length}`);
+
+  return inArray(entries.id, tagged);
+}
+
+// ============= Write =============
+
+/** IDs for the given names, creating tags that don't exist yet */
+export async function ensureTags(names: string[]): Promise<string[]> {
+  if (names.length === 0) return [];
+
+  await db
+    .insert(tags)
+    .values(names.map(name => ({ name })))
+    .onConflictDoNothing({ target: tags.name });
+
+  const rows = await db
+    .select({ id: tags.id })
+    .from(tags)
+    .where(inArray(tags.name, names));
+
+  return rows.map(row => row.id);
+}
+
+/** Add tags to an entry, keeping the ones it has. Returns the entry's tags afterwards. */
+export async function addEntryTags(entryId: string, names: string[]): Promise<string[]> {
+  const current = await getEntryTags(entryId);
+  const wanted = normalizeTags([...current, ...names]);
+  const added = wanted.filter(tag => !current.includes(tag));
+  if (added.length === 0) return current;
+
+  const tagIds = await ensureTags(added);
+  await db
+    .insert(entryTags)
+    .values(tagIds.map(tagId => ({ entryId, tagId })))
+    .onConflictDoNothing();
+
+  return wanted.sort();
+}
+
+/** Replace an entry's tags with exactly these. Returns the entry's tags afterwards. */
+export async function setEntryTags(entryId: string, names: string[]): Promise<string[]> {
+  const wanted = normalizeTags(names);
+  const tagIds = await ensureTags(wanted);
+
+  await db
+    .delete(entryTags)
+    .where(and(
+      eq(entryTags.entryId, entryId),
+      tagIds.length > 0 ? notInArray(entryTags.tagId, tagIds) : undefined
+    ));
+
+  if (tagIds.length > 0) {
+    await db
+      .insert(entryTags)
+      .values(tagIds.map(tagId => ({ entryId, tagId })))
+      .onConflictDoNothing();
+  }
+
+  return wanted.sort();
+}
@@ -0,0 +1,103 @@
+/**
+ * Trash — archived entries awaiting restore or permanent purge
+ *
+ * archiveEntry() only stamps archived_at, so relations and activity links stay
+ * attached until the row ages past the retention window and is purged.
+ * Retention is stored in the config table under `trash_retention_days`.
+ * Purging also deletes the entry's attachment files.
+ */
+
+import { eq, and, sql, ilike, desc, lt, isNotNull } from 'drizzle-orm';
+import { db } from '@/db';
+import { entries, entryRevisions } from '@/db/schema';
+import { findConfigEntry, upsertConfig } from './config';
+import { purgeOrphanedAttachments } from '@/services/attachments';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('trash');
+
+/** Attachments lose their entry_id when it's purged; clean up their files (best-effort) */
+async function cleanUpAttachments(): Promise<void> {
+  try {
+    await purgeOrphanedAttachments();
+  } catch (err) {
+    log.error('Failed to clean up attachments', err);
+  }
+}
+
+// ============= Retention =============
+
+const RETENTION_KEY = 'trash_retention_days';
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+/** Days an archived entry is kept before purge */
+export async function getTrashRetentionDays(): Promise<number> {
+  const entry = await findConfigEntry(RETENTION_KEY);
+  const days = (entry?.value as { data?: unknown } | undefined)?.data;
+  return typeof days === 'number' && days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+export async function setTrashRetentionDays(days: number): Promise<void> {
+  await upsertConfig(RETENTION_KEY, days);
+}
+
+/** When an entry archived at `archivedAt` becomes eligible for purge */
+export function getPurgeDate(archivedAt: Date, retentionDays: number): Date {
+  return new Date(archivedAt.getTime() + retentionDays * 24 * 60 * 60 * 1000);
+}
+
+// ============= List =============
+
+/**
+ * Archived entries, most recently deleted first.
+ * Originals left behind by a recategorize are skipped — their content lives on in the new entry.
+ * Those are archived with a 'recategorized' revision; entries merely moved to
+ * another category in place (bulk recategorize) also carry that action, but
+ * not on the archive itself, so they still show up once deleted.
+ */
+export async function listTrash(options: { search?: string; limit?: number } = {}) {
+  const conditions = [
+    isNotNull(entries.archived),
+    sql`NOT EXISTS (
+      SELECT 1 FROM ${entryRevisions}
+      WHERE ${entryRevisions.entryId} = ${entries.id}
+        AND ${entryRevisions.action} = 'recategorized'
+        AND ${entryRevisions.changedFields} @> '["archived"]'::jsonb
+    )`,
+  ];
+  if (options.search) {
+    conditions.push(ilike(entries.title, `%${options.search}%`));
+  }
+
+  return db
+    .select()
+    .from(entries)
+    .where(and(...conditions))
+    .orderBy(desc(entries.archived))
+    .limit(options.limit || 100);
+}
+
+// ============= Purge (hard delete) =============
+
+/** Permanently delete a single archived entry. Returns false if it isn't in the trash. */
+export async function purgeEntry(id: string): Promise<boolean> {
+  const deleted = await db
+    .delete(entries)
+    .where(and(eq(entries.id, id), isNotNull(entries.archived)))
+    .returning({ id: entries.id });
+  if (deleted.length > 0) await cleanUpAttachments();
+  return deleted.length > 0;
+}
+
+/** Permanently delete everything archived longer than the retention window. Returns the count purged. */
+export async function purgeExpiredEntries(now: Date = new Date()): Promise<number> {
+  const retentionDays = await getTrashRetentionDays();
+  const cutoff = new Date(now.getTime() - retentionDays * 24 * 60 * 60 * 1000);
+
+  const deleted = await db
+    .delete(entries)
+    .where(and(isNotNull(entries.archived), lt(entries.archived, cutoff)))
+    .returning({ id: entries.id });
+  if (deleted.length > 0) await cleanUpAttachments();
+  return deleted.length;
+}
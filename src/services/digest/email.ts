@@ -1,4 +1,4 @@
-import OpenAI from 'openai';
+import { getLLM, isLLMConfigured } from '@/lib/llm';
 import { getEmailDetail } from '@/services/google/gmail';
 import type { GmailMessage } from '@/services/google/types';
 import type { YesterboxCategory, EmailDigestItem, EmailDashboard } from '@/lib/types';
@@ -6,7 +6,6 @@ import { isGoogleConnected } from '@/services/google/auth';
 import { searchEmails } from '@/services/google/gmail';
 import { createLogger } from '@/lib/logger';
 
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
 const log = createLogger('digest/email');
 
 // Parse "John Doe <john@example.com>" into "John Doe"
@@ -63,16 +62,16 @@ export async function classifyEmails(emails: GmailMessage[]): Promise<EmailDiges
     aiSummary: e.snippet,
   }));
 
-  if (!OPENAI_API_KEY) return baseItems;
+  if (!isLLMConfigured('summarization')) return baseItems;
 
   const emailSummaries = emails.map((e, i) =>
     `[${i}] From: ${e.from} | Subject: ${e.subject} | Snippet: ${e.snippet}`
   ).join('\n');
 
   try {
-    const openai = new OpenAI({ apiKey: OPENAI_API_KEY });
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
+    const { client, model } = getLLM('summarization');
+    const completion = await client.chat.completions.create({
+      model,
       temperature: 0,
       response_format: { type: 'json_object' },
       messages: [
@@ -130,7 +129,7 @@ Focus the summary on WHAT THE USER NEEDS TO DO, not what the email says.`,
 export async function enrichCriticalEmails(emails: EmailDigestItem[]): Promise<void> {
   const criticalCategories: YesterboxCategory[] = ['Urgent & High-Priority', 'Deadline-Driven'];
   const criticalEmails = emails.filter(e => criticalCategories.includes(e.yCategory));
-  if (criticalEmails.length === 0 || !OPENAI_API_KEY) return;
+  if (criticalEmails.length === 0 || !isLLMConfigured('summarization')) return;
 
   // Fetch full body for each critical email in parallel
   const bodies = await Promise.all(
@@ -147,9 +146,9 @@ export async function enrichCriticalEmails(emails: EmailDigestItem[]): Promise<v
   ).join('\n---\n');
 
   try {
-    const openai = new OpenAI({ apiKey: OPENAI_API_KEY });
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
+    const { client, model } = getLLM('summarization');
+    const completion = await client.chat.completions.create({
+      model,
       temperature: 0,
       response_format: { type: 'json_object' },
       messages: [
@@ -222,15 +221,15 @@ export async function generateEmailDashboard(emails: EmailDigestItem[]): Promise
   const criticalCount = (categoryCounts['Urgent & High-Priority'] || 0) + (categoryCounts['Deadline-Driven'] || 0);
 
   let aiConclusion = '';
-  if (OPENAI_API_KEY) {
+  if (isLLMConfigured('summarization')) {
     try {
       const summary = Object.entries(categoryCounts)
         .map(([cat, count]) => `${count} ${cat}`)
         .join(', ');
 
-      const openai = new OpenAI({ apiKey: OPENAI_API_KEY });
-      const completion = await openai.chat.completions.create({
-        model: 'gpt-4o-mini',
+      const { client, model } = getLLM('summarization');
+      const completion = await client.chat.completions.create({
+        model,
         temperature: 0.3,
         messages: [
           {
@@ -1,9 +1,8 @@
-import OpenAI from 'openai';
+import { getLLM, isLLMConfigured } from '@/lib/llm';
 import type { CalendarEvent } from '@/services/google/types';
 import type { EmailDigestItem } from '@/lib/types';
 import type { DigestItem } from './data';
 
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
 
 export async function generateDailySummary(
   projects: DigestItem[],
@@ -13,8 +12,8 @@ export async function generateDailySummary(
   activitySummary?: Record<string, number>,
   emailDigest?: EmailDigestItem[],
 ): Promise<string> {
-  if (!OPENAI_API_KEY) {
-    return 'AI summary unavailable - OpenAI not configured';
+  if (!isLLMConfigured('summarization')) {
+    return 'AI summary unavailable - no LLM configured';
   }
 
   const hasEmails = emailDigest && emailDigest.length > 0;
@@ -87,9 +86,9 @@ export async function generateDailySummary(
     }
   }
 
-  const openai = new OpenAI({ apiKey: OPENAI_API_KEY });
-  const completion = await openai.chat.completions.create({
-    model: 'gpt-4o-mini',
+  const { client, model } = getLLM('summarization');
+  const completion = await client.chat.completions.create({
+    model,
     temperature: 0.5,
     messages: [
       {
@@ -124,8 +123,8 @@ export async function generateWeeklySummary(
   totalInbox: number,
   weeklyActivity?: { summary: Record<string, number>; snoozedItems: Array<{ title: string; snoozeCount: number }>; mostActive: Array<{ title: string; category: string; actionCount: number }> }
 ): Promise<string> {
-  if (!OPENAI_API_KEY) {
-    return 'AI summary unavailable - OpenAI not configured';
+  if (!isLLMConfigured('summarization')) {
+    return 'AI summary unavailable - no LLM configured';
   }
 
   const totalActivity = totalInbox + completedTasks.length + completedProjects.length;
@@ -184,9 +183,9 @@ export async function generateWeeklySummary(
     }
   }
 
-  const openai = new OpenAI({ apiKey: OPENAI_API_KEY });
-  const completion = await openai.chat.completions.create({
-    model: 'gpt-4o-mini',
+  const { client, model } = getLLM('summarization');
+  const completion = await client.chat.completions.create({
+    model,
     temperature: 0.4,
     messages: [
       {
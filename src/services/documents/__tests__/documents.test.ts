@@ -0,0 +1,203 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// ============= Mocks =============
+
+const { mockCreate } = vi.hoisted(() => ({
+  mockCreate: vi.fn(),
+}));
+
+vi.mock('openai', () => ({
+  default: class {
+    chat = { completions: { create: mockCreate } };
+  },
+}));
+
+import { detectDocumentKind, parseDocument, readDocumentBody } from '../parse';
+import { chunkDocument, pageRange } from '../chunk';
+import { condenseDocument } from '../condense';
+
+// ============= Helpers =============
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+/** Smallest valid one-page PDF with a single line of text */
+function makePdf(text: string): Uint8Array {
+  const stream = `BT /F1 12 Tf 72 720 Td (${text}) Tj ET`;
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>',
+    `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+  ];
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(pdf.length);
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(o => `${String(o).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF`;
+  return encode(pdf);
+}
+
+// ============= Tests =============
+
+describe('detectDocumentKind', () => {
+  it('uses the content type first', () => {
+    expect(detectDocumentKind('application/pdf', 'https://example.com/download')).toBe('pdf');
+    expect(detectDocumentKind('text/markdown; charset=utf-8')).toBe('markdown');
+    expect(detectDocumentKind('text/plain', 'notes.md')).toBe('markdown');
+    expect(detectDocumentKind('text/plain', 'notes.txt')).toBe('text');
+  });
+
+  it('falls back to the extension for generic or missing types', () => {
+    expect(detectDocumentKind('application/octet-stream', 'https://example.com/paper.pdf?dl=1')).toBe('pdf');
+    expect(detectDocumentKind('', 'README.markdown')).toBe('markdown');
+    expect(detectDocumentKind(null, 'todo.txt')).toBe('text');
+  });
+
+  it('treats HTML and other types as not documents', () => {
+    expect(detectDocumentKind('text/html; charset=utf-8', 'https://example.com/report.pdf')).toBeNull();
+    expect(detectDocumentKind('image/png', 'photo.png')).toBeNull();
+    expect(detectDocumentKind(null, 'https://example.com/blog/post')).toBeNull();
+  });
+});
+
+describe('readDocumentBody', () => {
+  // A body delivered in chunks, with no content-length header
+  function streamed(chunks: string[]): { response: Response; cancel: ReturnType<typeof vi.fn> } {
+    const cancel = vi.fn();
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        const next = chunks.shift();
+        if (next === undefined) controller.close();
+        else controller.enqueue(encode(next));
+      },
+      cancel,
+    });
+    return { response: new Response(body), cancel };
+  }
+
+  it('returns the whole body under the limit', async () => {
+    const { response } = streamed(['hello ', 'world']);
+    expect(new TextDecoder().decode(await readDocumentBody(response, 20))).toBe('hello world');
+  });
+
+  it('stops downloading once the body passes the limit', async () => {
+    const { response, cancel } = streamed(['0123456789', '0123456789', '0123456789']);
+
+    await expect(readDocumentBody(response, 15)).rejects.toThrow('Document too large');
+    expect(cancel).toHaveBeenCalled();
+  });
+
+  it('refuses a declared length over the limit without reading', async () => {
+    const response = new Response('tiny', { headers: { 'content-length': '1000' } });
+    await expect(readDocumentBody(response, 100)).rejects.toThrow('Document too large');
+  });
+});
+
+describe('parseDocument', () => {
+  it('takes a Markdown title from the first heading', async () => {
+    const doc = await parseDocument(encode('Intro line\n\n# Vector Databases\n\nBody text'), 'markdown', 'vectors.md');
+
+    expect(doc.title).toBe('Vector Databases');
+    expect(doc.pages).toHaveLength(1);
+    expect(doc.paged).toBe(false);
+  });
+
+  it('titles plain text from the file name', async () => {
+    const doc = await parseDocument(encode('Some notes'), 'text', 'https://example.com/files/meeting-notes_2024.txt');
+    expect(doc.title).toBe('meeting notes 2024');
+  });
+
+  it('extracts PDF text one page at a time', async () => {
+    const doc = await parseDocument(makePdf('Quarterly revenue grew 40 percent'), 'pdf', 'report.pdf');
+
+    expect(doc.kind).toBe('pdf');
+    expect(doc.paged).toBe(true);
+    expect(doc.pages).toEqual(['Quarterly revenue grew 40 percent']);
+    expect(doc.title).toBe('report');
+  });
+
+  it('rejects empty documents', async () => {
+    await expect(parseDocument(encode('  \n '), 'text')).rejects.toThrow('Document is empty');
+  });
+});
+
+describe('chunkDocument', () => {
+  it('groups pages with [Page N] markers and tracks the range', () => {
+    const chunks = chunkDocument({ pages: ['a'.repeat(40), 'b'.repeat(40), 'c'.repeat(40)], paged: true }, 110);
+
+    expect(chunks).toHaveLength(2);
+    expect(chunks[0].text).toBe(`[Page 1]\n${'a'.repeat(40)}\n\n[Page 2]\n${'b'.repeat(40)}`);
+    expect(chunks[0]).toMatchObject({ firstPage: 1, lastPage: 2 });
+    expect(chunks[1]).toMatchObject({ firstPage: 3, lastPage: 3 });
+  });
+
+  it('splits a long page at paragraph breaks, keeping its marker', () => {
+    const page = `${'x'.repeat(60)}\n\n${'y'.repeat(60)}`;
+    const chunks = chunkDocument({ pages: [page], paged: true }, 90);
+
+    expect(chunks.map(c => c.text)).toEqual([`[Page 1]\n${'x'.repeat(60)}`, `[Page 1]\n${'y'.repeat(60)}`]);
+  });
+
+  it('leaves out markers for unpaged text', () => {
+    const [chunk] = chunkDocument({ pages: ['plain text'], paged: false });
+    expect(chunk.text).toBe('plain text');
+  });
+
+  it('formats page ranges', () => {
+    expect(pageRange({ firstPage: 3, lastPage: 3 })).toBe('p. 3');
+    expect(pageRange({ firstPage: 3, lastPage: 7 })).toBe('pp. 3–7');
+  });
+});
+
+describe('condenseDocument', () => {
+  const longDoc = {
+    kind: 'pdf' as const,
+    title: 'Long Report',
+    pages: ['a'.repeat(9000), 'b'.repeat(9000)],
+    paged: true,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('OPENAI_API_KEY', 'test-key');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('passes short documents through without a model call', async () => {
+    const result = await condenseDocument({ ...longDoc, pages: ['short page'] });
+
+    expect(result).toEqual({ content: '[Page 1]\nshort page', chunkCount: 1, truncated: false });
+    expect(mockCreate).not.toHaveBeenCalled();
+  });
+
+  it('condenses each chunk of a long document into cited notes', async () => {
+    mockCreate
+      .mockResolvedValueOnce({ choices: [{ message: { content: '- Point A (p. 1)' } }] })
+      .mockResolvedValueOnce({ choices: [{ message: { content: '- Point B (p. 2)' } }] });
+
+    const result = await condenseDocument(longDoc);
+
+    expect(mockCreate).toHaveBeenCalledTimes(2);
+    expect(result.content).toBe('NOTES (p. 1):\n- Point A (p. 1)\n\nNOTES (p. 2):\n- Point B (p. 2)');
+    expect(result.truncated).toBe(false);
+  });
+
+  it('falls back to raw text when a chunk fails', async () => {
+    mockCreate
+      .mockRejectedValueOnce(new Error('rate limited'))
+      .mockResolvedValueOnce({ choices: [{ message: { content: '- Point B (p. 2)' } }] });
+
+    const result = await condenseDocument(longDoc);
+
+    expect(result.content).toContain(`NOTES (p. 1):\n[Page 1]\n${'a'.repeat(100)}`);
+  });
+});
@@ -0,0 +1,74 @@
+// Split parsed documents into prompt-sized chunks that remember their page range
+// Paged documents keep a [Page N] marker at the start of every page so the model can cite it
+
+import type { ParsedDocument } from './parse';
+
+// ============= Types =============
+
+export interface DocumentChunk {
+  text: string;
+  firstPage: number;
+  lastPage: number;
+}
+
+/** Roughly 3k tokens — small enough to leave room for notes in a gpt-4o-mini call */
+export const CHUNK_CHARS = 12000;
+
+// ============= Helpers =============
+
+/** Break one long page at paragraph, then sentence, then hard boundaries */
+function splitLongText(text: string, maxChars: number): string[] {
+  const pieces: string[] = [];
+  let rest = text;
+
+  while (rest.length > maxChars) {
+    const window = rest.slice(0, maxChars);
+    let cut = window.lastIndexOf('\n\n');
+    if (cut < maxChars / 2) cut = window.lastIndexOf('. ') + 1;
+    if (cut < maxChars / 2) cut = maxChars;
+    pieces.push(rest.slice(0, cut).trim());
+    rest = rest.slice(cut).trim();
+  }
+  if (rest) pieces.push(rest);
+  return pieces;
+}
+
+// ============= Chunking =============
+
+/**
+ * Group consecutive pages into chunks of at most `maxChars`. A page longer
+ * than that is split and each piece keeps the page's marker.
+ */
+export function chunkDocument(
+  doc: Pick<ParsedDocument, 'pages' | 'paged'>,
+  maxChars: number = CHUNK_CHARS
+): DocumentChunk[] {
+  const chunks: DocumentChunk[] = [];
+  let current: DocumentChunk | null = null;
+
+  doc.pages.forEach((page, index) => {
+    if (!page) return;
+    const pageNumber = index + 1;
+    const marker = doc.paged ? `[Page ${pageNumber}]\n` : '';
+
+    for (const piece of splitLongText(page, maxChars - marker.length)) {
+      const block = marker + piece;
+      if (current && current.text.length + block.length + 2 <= maxChars) {
+        current.text += `\n\n${block}`;
+        current.lastPage = pageNumber;
+      } else {
+        current = { text: block, firstPage: pageNumber, lastPage: pageNumber };
+        chunks.push(current);
+      }
+    }
+  });
+
+  return chunks;
+}
+
+/** "p. 3" or "pp. 3–7" */
+export function pageRange(chunk: Pick<DocumentChunk, 'firstPage' | 'lastPage'>): string {
+  return chunk.firstPage === chunk.lastPage
+    ? `p. ${chunk.firstPage}`
+    : `pp. ${chunk.firstPage}–${chunk.lastPage}`;
+}
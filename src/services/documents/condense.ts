@@ -0,0 +1,77 @@
+// Fit long documents into one summary prompt
+// Each chunk is condensed to dense notes (keeping page citations), then the notes are summarized
+
+import { getLLM, isLLMConfigured, type LLM } from '@/lib/llm';
+import { createLogger } from '@/lib/logger';
+import { chunkDocument, pageRange, type DocumentChunk } from './chunk';
+import type { ParsedDocument } from './parse';
+
+const log = createLogger('documents');
+
+/** Chunks beyond this are dropped (about 240k characters, a few hundred pages) */
+export const MAX_CHUNKS = 20;
+
+/** Condense this many chunks at a time */
+const CONCURRENCY = 4;
+
+export interface CondensedDocument {
+  /** Text to summarize — the document itself, or notes on it when it was too long */
+  content: string;
+  chunkCount: number;
+  /** True when pages past MAX_CHUNKS were left out */
+  truncated: boolean;
+}
+
+async function condenseChunk(llm: LLM, title: string, chunk: DocumentChunk, paged: boolean): Promise<string> {
+  const cite = paged
+    ? ' End every note with its page citation, e.g. "(p. 12)", using the [Page N] markers.'
+    : '';
+  const response = await llm.client.chat.completions.create({
+    model: llm.model,
+    temperature: 0.2,
+    max_tokens: 1200,
+    messages: [
+      {
+        role: 'system',
+        content: `You take dense research notes on one section of a longer document. Keep every specific claim, number, name, definition, framework, quote and recommendation. Write terse bullet points, no preamble.${cite}`,
+      },
+      {
+        role: 'user',
+        content: `DOCUMENT: ${title}\nSECTION: ${paged ? pageRange(chunk) : 'part of the text'}\n\n${chunk.text}`,
+      },
+    ],
+  });
+  return response.choices[0]?.message?.content?.trim() || '';
+}
+
+/**
+ * Text for `generateSummary`. Short documents pass through with their page
+ * markers; long ones are chunked and each chunk condensed to notes first.
+ */
+export async function condenseDocument(doc: ParsedDocument): Promise<CondensedDocument> {
+  const chunks = chunkDocument(doc);
+  const kept = chunks.slice(0, MAX_CHUNKS);
+  const truncated = chunks.length > MAX_CHUNKS;
+
+  if (kept.length === 1 || !isLLMConfigured('summarization')) {
+    return { content: kept[0]?.text || '', chunkCount: chunks.length, truncated: chunks.length > 1 };
+  }
+
+  const llm = getLLM('summarization');
+  const notes: string[] = [];
+  for (let i = 0; i < kept.length; i += CONCURRENCY) {
+    const batch = kept.slice(i, i + CONCURRENCY);
+    const results = await Promise.all(batch.map(chunk =>
+      condenseChunk(llm, doc.title, chunk, doc.paged).catch(err => {
+        log.warn('Chunk condense failed, using raw text', { error: err instanceof Error ? err.message : String(err) });
+        return chunk.text.slice(0, 2000);
+      })
+    ));
+    batch.forEach((chunk, j) => {
+      const heading = doc.paged ? `NOTES (${pageRange(chunk)})` : `NOTES (part ${i + j + 1})`;
+      notes.push(`${heading}:\n${results[j]}`);
+    });
+  }
+
+  return { content: notes.join('\n\n'), chunkCount: chunks.length, truncated };
+}
@@ -0,0 +1,6 @@
+export { detectDocumentKind, parseDocument, readDocumentBody, MAX_DOCUMENT_BYTES } from './parse';
+export { chunkDocument, pageRange, CHUNK_CHARS } from './chunk';
+export { condenseDocument, MAX_CHUNKS } from './condense';
+export type { DocumentKind, ParsedDocument } from './parse';
+export type { DocumentChunk } from './chunk';
+export type { CondensedDocument } from './condense';
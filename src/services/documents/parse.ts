@@ -0,0 +1,140 @@
+// Parse PDFs, plain text and Markdown (from a URL or an upload) into pages of text
+// Text files have no pages, so they come back as a single page the chunker splits
+
+import { extractText, getDocumentProxy, getMeta } from 'unpdf';
+
+// ============= Types =============
+
+export type DocumentKind = 'pdf' | 'text' | 'markdown';
+
+export interface ParsedDocument {
+  kind: DocumentKind;
+  title: string;
+  author?: string;
+  /** One string per PDF page; a single element for text and Markdown */
+  pages: string[];
+  /** True when `pages` are real pages that summaries can cite */
+  paged: boolean;
+}
+
+/** Largest document we'll download or accept as an upload */
+export const MAX_DOCUMENT_BYTES = 20 * 1024 * 1024;
+
+// ============= Helpers =============
+
+function extension(name: string): string {
+  const match = name.toLowerCase().split(/[?#]/)[0].match(/\.([a-z]+)$/);
+  return match ? match[1] : '';
+}
+
+/** Title from a file name or URL path: "state-of-ai_2024.pdf" → "state of ai 2024" */
+function titleFromName(name: string): string {
+  const last = decodeURIComponent(name.split(/[?#]/)[0].split('/').filter(Boolean).pop() || '');
+  return last.replace(/\.[^.]+$/, '').replace(/[-_]+/g, ' ').trim() || 'Untitled document';
+}
+
+function normalizeText(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * The document kind for a response or upload, from its content type and then
+ * its file extension (servers often send PDFs as application/octet-stream).
+ * Null means "not a document" — HTML and everything else.
+ */
+export function detectDocumentKind(mimeType: string | null | undefined, name: string = ''): DocumentKind | null {
+  const type = (mimeType || '').split(';')[0].trim().toLowerCase();
+  if (type === 'application/pdf') return 'pdf';
+  if (type === 'text/markdown' || type === 'text/x-markdown') return 'markdown';
+  if (type === 'text/plain') return extension(name) === 'md' ? 'markdown' : 'text';
+  if (type && type !== 'application/octet-stream') return null;
+
+  const ext = extension(name);
+  if (ext === 'pdf') return 'pdf';
+  if (ext === 'md' || ext === 'markdown') return 'markdown';
+  if (ext === 'txt') return 'text';
+  return null;
+}
+
+/**
+ * A downloaded document's bytes, refused once they pass `maxBytes`. The
+ * content-length header is only a hint (it can be missing or wrong), so the
+ * body is counted as it streams and the download is cancelled at the limit.
+ */
+export async function readDocumentBody(response: Response, maxBytes: number = MAX_DOCUMENT_BYTES): Promise<Uint8Array> {
+  const tooLarge = () => new Error(`Document too large (max ${maxBytes / 1024 / 1024} MB)`);
+  if (Number(response.headers.get('content-length')) > maxBytes) {
+    await response.body?.cancel();
+    throw tooLarge();
+  }
+  if (!response.body) return new Uint8Array(0);
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+
+  const data = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    data.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return data;
+}
+
+// ============= Parsers =============
+
+async function parsePdf(data: Uint8Array, name: string): Promise<ParsedDocument> {
+  const pdf = await getDocumentProxy(data);
+  const { text } = await extractText(pdf, { mergePages: false });
+  const { info } = await getMeta(pdf).catch(() => ({ info: {} as Record<string, unknown> }));
+
+  const metaTitle = typeof info.Title === 'string' ? info.Title.trim() : '';
+  const metaAuthor = typeof info.Author === 'string' ? info.Author.trim() : '';
+
+  return {
+    kind: 'pdf',
+    title: metaTitle || titleFromName(name),
+    author: metaAuthor || undefined,
+    pages: text.map(normalizeText),
+    paged: true,
+  };
+}
+
+function parseText(data: Uint8Array, name: string, kind: 'text' | 'markdown'): ParsedDocument {
+  const text = normalizeText(new TextDecoder().decode(data));
+  const heading = kind === 'markdown' ? text.match(/^#\s+(.+)$/m)?.[1].trim() : undefined;
+
+  return {
+    kind,
+    title: heading || titleFromName(name),
+    pages: [text],
+    paged: false,
+  };
+}
+
+/** Parse document bytes; `name` is the file name or URL, used for a fallback title */
+export async function parseDocument(data: Uint8Array, kind: DocumentKind, name: string = ''): Promise<ParsedDocument> {
+  const parsed = kind === 'pdf' ? await parsePdf(data, name) : parseText(data, name, kind);
+
+  if (!parsed.pages.some(page => page.length > 0)) {
+    throw new Error(kind === 'pdf'
+      ? 'No text found in PDF (it may be a scanned image)'
+      : 'Document is empty');
+  }
+  return parsed;
+}
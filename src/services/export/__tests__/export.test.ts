@@ -0,0 +1,178 @@
+import { describe, it, expect } from 'vitest';
+import { unzipSync, strFromU8 } from 'fflate';
+import { safeFileName, humanizeKey, buildNotePaths, buildVaultFiles, attachmentPath } from '../markdown';
+import { createJsonStream, createMarkdownZipStream } from '../stream';
+import type { Attachment } from '@/db/schema';
+import type { ExportData, ExportEntry } from '../data';
+
+// ============= Helpers =============
+
+function makeEntry(overrides: Partial<ExportEntry>): ExportEntry {
+  return {
+    id: 'e1',
+    notionId: null,
+    category: 'Projects',
+    title: 'Build MVP',
+    status: 'Active',
+    priority: 'High',
+    content: {},
+    dueDate: null,
+    recurrence: null,
+    source: null,
+    archived: null,
+    tags: [],
+    createdAt: new Date('2024-01-01T00:00:00.000Z'),
+    updatedAt: new Date('2024-01-02T00:00:00.000Z'),
+    ...overrides,
+  };
+}
+
+const project = makeEntry({
+  id: 'p1',
+  content: { notes: 'Ship it', nextAction: 'Write spec', source: 'https://example.com' },
+  dueDate: new Date('2024-03-01T00:00:00.000Z'),
+  tags: ['q3-launch', 'work'],
+});
+const person = makeEntry({ id: 'u1', category: 'People', title: 'Sarah: PM', status: 'New', priority: null });
+
+const photo: Attachment = {
+  id: 'a1b2c3d4-0000',
+  entryId: 'p1',
+  kind: 'image',
+  fileName: 'whiteboard.jpg',
+  mimeType: 'image/jpeg',
+  size: 3,
+  storageBackend: 'local',
+  storageKey: 'p1/a1b2c3d4-0000-whiteboard.jpg',
+  description: 'A whiteboard sketch of the MVP',
+  processedAt: new Date('2024-01-02'),
+  createdAt: new Date('2024-01-02'),
+};
+
+const DATA: ExportData = {
+  exportedAt: new Date('2024-04-01T00:00:00.000Z'),
+  entries: [project, person],
+  relations: [
+    { id: 'r1', sourceId: 'u1', targetId: 'p1', relationType: 'part_of', createdAt: new Date('2024-01-03') },
+  ],
+  inboxLog: [],
+  activity: [],
+  attachments: [photo],
+};
+
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<Uint8Array> {
+  const chunks: Uint8Array[] = [];
+  const reader = stream.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+  }
+  const out = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+  let offset = 0;
+  for (const c of chunks) {
+    out.set(c, offset);
+    offset += c.length;
+  }
+  return out;
+}
+
+// ============= Tests =============
+
+describe('markdown helpers', () => {
+  it('strips characters that break file names and wiki-links', () => {
+    expect(safeFileName('Q3: plan / review [draft]')).toBe('Q3- plan - review -draft-');
+    expect(safeFileName('   ')).toBe('Untitled');
+  });
+
+  it('humanizes camelCase content keys', () => {
+    expect(humanizeKey('nextAction')).toBe('Next Action');
+    expect(humanizeKey('raw_insight')).toBe('Raw insight');
+  });
+
+  it('dedupes note paths within a category', () => {
+    const paths = buildNotePaths([
+      makeEntry({ id: 'a', title: 'Plan' }),
+      makeEntry({ id: 'b', title: 'plan' }),
+      makeEntry({ id: 'c', title: 'Plan', category: 'Ideas' }),
+    ]);
+    expect(paths.get('a')).toBe('Projects/Plan');
+    expect(paths.get('b')).toBe('Projects/plan (2)');
+    expect(paths.get('c')).toBe('Ideas/Plan');
+  });
+});
+
+describe('buildVaultFiles', () => {
+  const files = [...buildVaultFiles(DATA)];
+  const projectNote = files.find(f => f.path === 'Projects/Build MVP.md')!.content;
+  const personNote = files.find(f => f.path === 'People/Sarah- PM.md')!.content;
+
+  it('writes front-matter with category, status, priority and due date', () => {
+    expect(projectNote).toMatch(/^---\nid: "p1"\ntitle: "Build MVP"\ncategory: "Projects"\nstatus: "Active"\npriority: "High"\ndue: "2024-03-01"/);
+    expect(projectNote).toContain('source: "https://example.com"');
+    expect(personNote).not.toContain('priority:');
+  });
+
+  it('lists tags in the front-matter', () => {
+    expect(projectNote).toContain('\ntags: ["q3-launch", "work"]\n---');
+    expect(personNote).not.toContain('tags:');
+  });
+
+  it('renders content fields as sections', () => {
+    expect(projectNote).toContain('## Notes\n\nShip it');
+    expect(projectNote).toContain('## Next Action\n\nWrite spec');
+    expect(projectNote).not.toContain('## Source');
+  });
+
+  it('links related entries in both directions', () => {
+    expect(personNote).toContain('- Part of: [[Projects/Build MVP]]');
+    expect(projectNote).toContain('- Has part: [[People/Sarah- PM|Sarah: PM]]');
+  });
+
+  it('embeds attachments with their descriptions', () => {
+    expect(attachmentPath(photo)).toBe('_attachments/a1b2c3d4-whiteboard.jpg');
+    expect(projectNote).toContain('## Attachments\n\n![[_attachments/a1b2c3d4-whiteboard.jpg]]\nA whiteboard sketch of the MVP');
+    expect(personNote).not.toContain('## Attachments');
+  });
+
+  it('includes raw relations, inbox log, activity and attachments', () => {
+    expect(files.map(f => f.path)).toEqual(expect.arrayContaining([
+      '_data/relations.json',
+      '_data/inbox-log.json',
+      '_data/activity.json',
+      '_data/attachments.json',
+    ]));
+  });
+});
+
+describe('export streams', () => {
+  it('streams a parseable JSON bundle', async () => {
+    const bytes = await readAll(createJsonStream(DATA));
+    const bundle = JSON.parse(new TextDecoder().decode(bytes));
+
+    expect(bundle.version).toBe(1);
+    expect(bundle.counts).toEqual({ entries: 2, relations: 1, inbox_log: 0, activity: 0, attachments: 1 });
+    expect(bundle.entries.map((e: { id: string }) => e.id)).toEqual(['p1', 'u1']);
+    expect(bundle.relations[0].relationType).toBe('part_of');
+    expect(bundle.entries[0].tags).toEqual(['q3-launch', 'work']);
+  });
+
+  it('streams a zip containing one note per entry', async () => {
+    const bytes = await readAll(createMarkdownZipStream(DATA));
+    const files = unzipSync(bytes);
+
+    expect(Object.keys(files)).toContain('Projects/Build MVP.md');
+    expect(strFromU8(files['Projects/Build MVP.md'])).toContain('# Build MVP');
+  });
+
+  it('adds attachment bytes read from storage, skipping missing files', async () => {
+    const missing = { ...photo, id: 'ffffffff-0000', fileName: 'gone.jpg' };
+    const data = { ...DATA, attachments: [missing, photo] };
+    const read = async (a: Attachment) => (a.id === photo.id ? new Uint8Array([1, 2, 3]) : null);
+
+    const files = unzipSync(await readAll(createMarkdownZipStream(data, read)));
+
+    expect(Array.from(files['_attachments/a1b2c3d4-whiteboard.jpg'])).toEqual([1, 2, 3]);
+    expect(files['_attachments/ffffffff-gone.jpg']).toBeUndefined();
+  });
+});
@@ -0,0 +1,84 @@
+// Load everything that goes into an export: entries (with their tags), relations, attachments, inbox log, activity
+
+import { asc, isNull } from 'drizzle-orm';
+import { db } from '@/db';
+import {
+  entries,
+  entryRelations,
+  attachments,
+  inboxLog,
+  activityLog,
+  type Entry,
+  type EntryRelation,
+  type Attachment,
+  type InboxLogEntry,
+  type ActivityLogEntry,
+} from '@/db/schema';
+import { getTagsForEntries } from '@/services/db/tags';
+
+// ============= Types =============
+
+/** Entry without the derived search columns (embedding and its tracking, tsvector), plus its tag names */
+export type ExportEntry = Omit<Entry, 'embedding' | 'embeddingModel' | 'embeddingHash' | 'textHash' | 'searchVector'> & {
+  tags: string[];
+};
+
+export interface ExportData {
+  exportedAt: Date;
+  entries: ExportEntry[];
+  relations: EntryRelation[];
+  attachments: Attachment[]; // Metadata only; the bytes are read from storage when zipping
+  inboxLog: InboxLogEntry[];
+  activity: ActivityLogEntry[];
+}
+
+export interface ExportOptions {
+  includeArchived?: boolean;
+}
+
+const exportColumns = {
+  id: entries.id,
+  notionId: entries.notionId,
+  category: entries.category,
+  title: entries.title,
+  status: entries.status,
+  priority: entries.priority,
+  content: entries.content,
+  dueDate: entries.dueDate,
+  recurrence: entries.recurrence,
+  source: entries.source,
+  archived: entries.archived,
+  createdAt: entries.createdAt,
+  updatedAt: entries.updatedAt,
+};
+
+// ============= Load =============
+
+export async function loadExportData(options: ExportOptions = {}): Promise<ExportData> {
+  const [entryRows, relationRows, attachmentRows, inboxRows, activityRows] = await Promise.all([
+    db
+      .select(exportColumns)
+      .from(entries)
+      .where(options.includeArchived ? undefined : isNull(entries.archived))
+      .orderBy(asc(entries.createdAt)),
+    db.select().from(entryRelations).orderBy(asc(entryRelations.createdAt)),
+    db.select().from(attachments).orderBy(asc(attachments.createdAt)),
+    db.select().from(inboxLog).orderBy(asc(inboxLog.createdAt)),
+    db.select().from(activityLog).orderBy(asc(activityLog.createdAt)),
+  ]);
+
+  // Drop relations that point at entries left out of the export
+  const ids = new Set(entryRows.map(e => e.id));
+  const relations = relationRows.filter(r => ids.has(r.sourceId) && ids.has(r.targetId));
+  const entryAttachments = attachmentRows.filter(a => a.entryId && ids.has(a.entryId));
+  const tagsByEntry = await getTagsForEntries([...ids]);
+
+  return {
+    exportedAt: new Date(),
+    entries: entryRows.map(e => ({ ...e, tags: tagsByEntry.get(e.id) || [] })),
+    relations,
+    attachments: entryAttachments,
+    inboxLog: inboxRows,
+    activity: activityRows,
+  };
+}
@@ -0,0 +1,6 @@
+export { loadExportData } from './data';
+export { createJsonStream, createMarkdownZipStream, EXPORT_FORMAT_VERSION } from './stream';
+export type { AttachmentReader } from './stream';
+export { buildVaultFiles, vaultAttachments, attachmentPath, entryToMarkdown, buildNotePaths } from './markdown';
+export type { ExportData, ExportEntry, ExportOptions } from './data';
+export type { VaultFile, VaultAttachment } from './markdown';
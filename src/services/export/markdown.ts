@@ -0,0 +1,216 @@
+// Render entries as an Obsidian-compatible Markdown vault
+// One note per entry, YAML front-matter, [[wiki-links]] for entry_relations,
+// original attachments under _attachments/ embedded with ![[...]]
+
+import type { Attachment, EntryRelation } from '@/db/schema';
+import type { ExportData, ExportEntry } from './data';
+
+// ============= Types =============
+
+export interface VaultFile {
+  path: string;
+  content: string;
+}
+
+/** An attachment's original file, read from storage while zipping */
+export interface VaultAttachment {
+  path: string;
+  attachment: Attachment;
+}
+
+interface NoteLink {
+  label: string;
+  targetId: string;
+}
+
+// Outgoing label, incoming label
+const RELATION_LABELS: Record<string, [string, string]> = {
+  related_to: ['Related to', 'Related to'],
+  part_of: ['Part of', 'Has part'],
+  inspired_by: ['Inspired by', 'Inspired'],
+};
+
+// Content keys promoted to front-matter instead of body sections
+const FRONT_MATTER_CONTENT_KEYS = ['source'];
+
+// ============= Helpers =============
+
+/** Make a title safe for use as a file name (and as a wiki-link target) */
+export function safeFileName(title: string): string {
+  const cleaned = title
+    .replace(/[\\/:*?"<>|#^[\]]/g, '-')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 100)
+    .trim();
+  return cleaned || 'Untitled';
+}
+
+/** "nextAction" → "Next Action" */
+export function humanizeKey(key: string): string {
+  const spaced = key.replace(/([a-z0-9])([A-Z])/g, '$1 $2').replace(/[_-]+/g, ' ');
+  return spaced.charAt(0).toUpperCase() + spaced.slice(1);
+}
+
+/**
+ * Assign each entry a vault path (without .md): `<Category>/<Title>`.
+ * Duplicate titles within a category get a numeric suffix.
+ */
+export function buildNotePaths(entries: ExportEntry[]): Map<string, string> {
+  const paths = new Map<string, string>();
+  const taken = new Set<string>();
+
+  for (const entry of entries) {
+    const base = `${safeFileName(entry.category)}/${safeFileName(entry.title)}`;
+    let path = base;
+    for (let n = 2; taken.has(path.toLowerCase()); n++) {
+      path = `${base} (${n})`;
+    }
+    taken.add(path.toLowerCase());
+    paths.set(entry.id, path);
+  }
+
+  return paths;
+}
+
+function yamlValue(value: string): string {
+  // JSON strings are valid YAML double-quoted scalars
+  return JSON.stringify(value);
+}
+
+function renderFrontMatter(entry: ExportEntry): string {
+  const content = entry.content || {};
+  const fields: Array<[string, string | null | undefined]> = [
+    ['id', entry.id],
+    ['title', entry.title],
+    ['category', entry.category],
+    ['status', entry.status],
+    ['priority', entry.priority],
+    ['due', entry.dueDate?.toISOString().split('T')[0]],
+    ['recurrence', entry.recurrence],
+    ['source', entry.source],
+    ['created', entry.createdAt.toISOString()],
+    ['updated', entry.updatedAt.toISOString()],
+    ['archived', entry.archived?.toISOString()],
+  ];
+  for (const key of FRONT_MATTER_CONTENT_KEYS) {
+    if (typeof content[key] === 'string' && content[key]) {
+      fields.push([key, content[key] as string]);
+    }
+  }
+
+  const lines = fields
+    .filter(([, value]) => value)
+    .map(([key, value]) => `${key}: ${yamlValue(value!)}`);
+  if (entry.tags.length > 0) {
+    lines.push(`tags: [${entry.tags.map(yamlValue).join(', ')}]`);
+  }
+
+  return `---\n${lines.join('\n')}\n---`;
+}
+
+function renderContentValue(value: unknown): string | null {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value === 'string') return value.trim() || null;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (Array.isArray(value) && value.every(v => typeof v === 'string')) {
+    return value.length > 0 ? value.map(v => `- ${v}`).join('\n') : null;
+  }
+  return '```json\n' + JSON.stringify(value, null, 2) + '\n```';
+}
+
+/** Vault path for an attachment's original file */
+export function attachmentPath(attachment: Pick<Attachment, 'id' | 'fileName'>): string {
+  return `_attachments/${attachment.id.slice(0, 8)}-${safeFileName(attachment.fileName)}`;
+}
+
+function wikiLink(path: string, title: string): string {
+  const alias = path.split('/').pop();
+  return alias === title ? `[[${path}]]` : `[[${path}|${title.replace(/[|\]]/g, '-')}]]`;
+}
+
+// ============= Render =============
+
+/** Render a single entry as a Markdown note */
+export function entryToMarkdown(
+  entry: ExportEntry,
+  links: NoteLink[],
+  paths: Map<string, string>,
+  titles: Map<string, string>,
+  files: Attachment[] = []
+): string {
+  const sections: string[] = [renderFrontMatter(entry), `# ${entry.title}`];
+
+  for (const [key, value] of Object.entries(entry.content || {})) {
+    if (FRONT_MATTER_CONTENT_KEYS.includes(key)) continue;
+    const rendered = renderContentValue(value);
+    if (rendered) sections.push(`## ${humanizeKey(key)}\n\n${rendered}`);
+  }
+
+  const linkLines = links
+    .filter(link => paths.has(link.targetId))
+    .map(link => `- ${link.label}: ${wikiLink(paths.get(link.targetId)!, titles.get(link.targetId) || '')}`);
+  if (linkLines.length > 0) {
+    sections.push(`## Links\n\n${linkLines.join('\n')}`);
+  }
+
+  // Images embed inline; other files embed as Obsidian's PDF / audio players
+  const fileLines = files.map(a => {
+    const line = `![[${attachmentPath(a)}]]`;
+    return a.description ? `${line}\n${a.description}` : line;
+  });
+  if (fileLines.length > 0) {
+    sections.push(`## Attachments\n\n${fileLines.join('\n\n')}`);
+  }
+
+  return sections.join('\n\n') + '\n';
+}
+
+/** Group relations into per-entry link lists (both directions) */
+function collectLinks(relations: EntryRelation[]): Map<string, NoteLink[]> {
+  const links = new Map<string, NoteLink[]>();
+  const push = (id: string, link: NoteLink) => {
+    if (!links.has(id)) links.set(id, []);
+    links.get(id)!.push(link);
+  };
+
+  for (const r of relations) {
+    const [outgoing, incoming] = RELATION_LABELS[r.relationType] || [humanizeKey(r.relationType), humanizeKey(r.relationType)];
+    push(r.sourceId, { label: outgoing, targetId: r.targetId });
+    push(r.targetId, { label: incoming, targetId: r.sourceId });
+  }
+
+  return links;
+}
+
+/**
+ * Every file in the vault: one note per entry, plus the raw relations,
+ * inbox log, activity and attachment metadata as JSON under `_data/` so nothing is lost.
+ */
+export function* buildVaultFiles(data: ExportData): Generator<VaultFile> {
+  const paths = buildNotePaths(data.entries);
+  const titles = new Map(data.entries.map(e => [e.id, e.title]));
+  const links = collectLinks(data.relations);
+  const files = new Map<string, Attachment[]>();
+  for (const a of data.attachments) {
+    if (!files.has(a.entryId!)) files.set(a.entryId!, []);
+    files.get(a.entryId!)!.push(a);
+  }
+
+  for (const entry of data.entries) {
+    yield {
+      path: `${paths.get(entry.id)}.md`,
+      content: entryToMarkdown(entry, links.get(entry.id) || [], paths, titles, files.get(entry.id)),
+    };
+  }
+
+  yield { path: '_data/relations.json', content: JSON.stringify(data.relations, null, 2) };
+  yield { path: '_data/inbox-log.json', content: JSON.stringify(data.inboxLog, null, 2) };
+  yield { path: '_data/activity.json', content: JSON.stringify(data.activity, null, 2) };
+  yield { path: '_data/attachments.json', content: JSON.stringify(data.attachments, null, 2) };
+}
+
+/** Attachment files to add to the vault next to the notes that embed them */
+export function vaultAttachments(data: ExportData): VaultAttachment[] {
+  return data.attachments.map(attachment => ({ path: attachmentPath(attachment), attachment }));
+}
@@ -0,0 +1,106 @@
+// Turn export data into response streams (JSON bundle or zipped Markdown vault)
+
+import { Zip, ZipDeflate, ZipPassThrough, strToU8 } from 'fflate';
+import type { Attachment } from '@/db/schema';
+import type { ExportData } from './data';
+import { buildVaultFiles, vaultAttachments } from './markdown';
+
+export const EXPORT_FORMAT_VERSION = 1;
+
+/** Yield the JSON bundle piece by piece so large exports never sit in one string */
+export function* jsonBundleChunks(data: ExportData): Generator<string> {
+  yield `{"version":${EXPORT_FORMAT_VERSION},"exported_at":${JSON.stringify(data.exportedAt.toISOString())}`;
+  yield `,"counts":${JSON.stringify({
+    entries: data.entries.length,
+    relations: data.relations.length,
+    inbox_log: data.inboxLog.length,
+    activity: data.activity.length,
+    attachments: data.attachments.length,
+  })}`;
+
+  const sections: Array<[string, unknown[]]> = [
+    ['entries', data.entries],
+    ['relations', data.relations],
+    ['inbox_log', data.inboxLog],
+    ['activity', data.activity],
+    ['attachments', data.attachments],
+  ];
+  for (const [name, rows] of sections) {
+    yield `,${JSON.stringify(name)}:[`;
+    for (let i = 0; i < rows.length; i++) {
+      yield (i > 0 ? ',' : '') + JSON.stringify(rows[i]);
+    }
+    yield ']';
+  }
+
+  yield '}\n';
+}
+
+/** Stream the JSON bundle */
+export function createJsonStream(data: ExportData): ReadableStream<Uint8Array> {
+  const chunks = jsonBundleChunks(data);
+  const encoder = new TextEncoder();
+
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      const next = chunks.next();
+      if (next.done) {
+        controller.close();
+      } else {
+        controller.enqueue(encoder.encode(next.value));
+      }
+    },
+  });
+}
+
+/** Reads an attachment's bytes; null when they're gone from storage */
+export type AttachmentReader = (attachment: Attachment) => Promise<Uint8Array | null>;
+
+/**
+ * Stream a zip of the Markdown vault, compressing one note per pull, then
+ * storing one attachment per pull (already-compressed media isn't deflated)
+ */
+export function createMarkdownZipStream(
+  data: ExportData,
+  readAttachment: AttachmentReader = async () => null
+): ReadableStream<Uint8Array> {
+  const files = buildVaultFiles(data);
+  const attachments = vaultAttachments(data);
+  let zip: Zip;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      zip = new Zip((err, chunk, final) => {
+        if (err) {
+          controller.error(err);
+          return;
+        }
+        controller.enqueue(chunk);
+        if (final) controller.close();
+      });
+    },
+    async pull() {
+      const next = files.next();
+      if (!next.done) {
+        const file = new ZipDeflate(next.value.path, { level: 6 });
+        zip.add(file);
+        file.push(strToU8(next.value.content), true);
+        return;
+      }
+
+      // Skip files missing from storage; the note still links the name
+      let bytes: Uint8Array | null = null;
+      let item = attachments.shift();
+      while (item && !(bytes = await readAttachment(item.attachment))) {
+        item = attachments.shift();
+      }
+      if (!item || !bytes) {
+        zip.end();
+        return;
+      }
+      const file = new ZipPassThrough(item.path);
+      zip.add(file);
+      file.push(bytes, true);
+    },
+  });
+}
@@ -7,7 +7,8 @@ import type { CalendarEvent, CalendarListResponse } from './types';
 
 let cachedTimezone: string | null = null;
 
-async function getUserTimezone(): Promise<string> {
+/** The user's timezone: USER_TIMEZONE, else the Google Calendar setting, else UTC */
+export async function getUserTimezone(): Promise<string> {
   if (process.env.USER_TIMEZONE) return process.env.USER_TIMEZONE;
   if (cachedTimezone) return cachedTimezone;
 
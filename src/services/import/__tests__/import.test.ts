@@ -0,0 +1,324 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { zipSync, strToU8 } from 'fflate';
+
+// ============= Mocks =============
+
+const { whereMock, mockCreateEntry, mockEmbeddingsBatch, mockLogActivity, mockAddEntryTags } = vi.hoisted(() => ({
+  whereMock: vi.fn(),
+  mockCreateEntry: vi.fn(),
+  mockEmbeddingsBatch: vi.fn(),
+  mockLogActivity: vi.fn(),
+  mockAddEntryTags: vi.fn(),
+}));
+
+vi.mock('@/db', () => ({
+  db: {
+    select: () => ({ from: () => ({ where: whereMock }) }),
+  },
+}));
+
+vi.mock('@/services/db/entries', () => ({
+  createEntry: mockCreateEntry,
+}));
+
+vi.mock('@/services/db/embeddings', () => ({
+  generateEmbeddingsBatch: mockEmbeddingsBatch,
+  buildEmbeddingText: (title: string) => title,
+}));
+
+vi.mock('@/services/db/activity', () => ({
+  logActivity: mockLogActivity,
+}));
+
+vi.mock('@/services/db/tags', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/services/db/tags')>()),
+  addEntryTags: mockAddEntryTags,
+}));
+
+vi.mock('@/services/db/categories', async () => {
+  const { BUILTIN_CATEGORIES } = await import('@/config/categories');
+  return { getCategories: vi.fn().mockResolvedValue(BUILTIN_CATEGORIES) };
+});
+
+import {
+  parseCsv,
+  parseFrontMatter,
+  parseMarkdownFile,
+  splitNotionName,
+  readImportFiles,
+  parseImportFiles,
+} from '../parsers';
+import { mapRecord, parseImportDate, resolveCategory } from '../mapping';
+import { planImport, applyImport } from '../pipeline';
+import { BUILTIN_CATEGORIES, type CategoryDefinition } from '@/config/categories';
+
+const NOTION_HEX = '0123456789abcdef0123456789abcdef';
+const NOTION_UUID = '01234567-89ab-cdef-0123-456789abcdef';
+
+// ============= Parsers =============
+
+describe('parsers', () => {
+  it('parses quoted CSV fields with commas, quotes and newlines', () => {
+    const rows = parseCsv('\uFEFFName,Notes\r\n"Plan, v2","He said ""go""\nnow"\r\n\r\n');
+    expect(rows).toEqual([
+      ['Name', 'Notes'],
+      ['Plan, v2', 'He said "go"\nnow'],
+    ]);
+  });
+
+  it('splits Notion page IDs off exported names', () => {
+    expect(splitNotionName(`Build MVP ${NOTION_HEX}`)).toEqual({ name: 'Build MVP', notionId: NOTION_UUID });
+    expect(splitNotionName('Plain note')).toEqual({ name: 'Plain note' });
+  });
+
+  it('parses front-matter scalars and lists', () => {
+    const { fields, body } = parseFrontMatter('---\ntitle: "A: B"\ntags:\n  - one\n  - two\naliases: [x, y]\n---\nBody');
+    expect(fields).toEqual({ title: 'A: B', tags: 'one, two', aliases: 'x, y' });
+    expect(body).toBe('Body');
+  });
+
+  it('reads Notion property lines under the title', () => {
+    const record = parseMarkdownFile({
+      path: `Projects ${NOTION_HEX}/Build MVP ${NOTION_HEX}.md`,
+      text: '# Build MVP\n\nStatus: Active\nPriority: High\n\nShip the thing.',
+    });
+    expect(record).toMatchObject({
+      title: 'Build MVP',
+      categoryHint: 'Projects',
+      notionId: NOTION_UUID,
+      fields: { Status: 'Active', Priority: 'High' },
+      body: 'Ship the thing.',
+    });
+  });
+
+  it('prefers Notion _all.csv over the filtered view and skips zip junk', () => {
+    const zip = zipSync({
+      'Ideas.csv': strToU8('Name\nOnly visible\n'),
+      'Ideas_all.csv': strToU8('Name\nOnly visible\nHidden too\n'),
+      '__MACOSX/._Ideas.csv': strToU8('junk'),
+      'image.png': new Uint8Array([1, 2, 3]),
+    });
+    const records = parseImportFiles(readImportFiles('export.zip', zip));
+
+    expect(records.map(r => r.title)).toEqual(['Only visible', 'Hidden too']);
+    expect(records[0]).toMatchObject({ categoryHint: 'Ideas', sourcePath: 'Ideas_all.csv#2' });
+  });
+
+  it('rejects unsupported uploads', () => {
+    expect(() => readImportFiles('photo.png', new Uint8Array())).toThrow('Unsupported file type');
+  });
+});
+
+// ============= Mapping =============
+
+describe('mapRecord', () => {
+  it('resolves category from a field, then the folder, then the default', () => {
+    expect(resolveCategory('Tasks')?.name).toBe('Admin');
+    expect(mapRecord({ title: 'A', fields: { Type: 'person' }, categoryHint: 'Ideas', sourcePath: 'a' }, 'Idea'))
+      .toMatchObject({ input: { category: 'People' } });
+    expect(mapRecord({ title: 'B', fields: {}, categoryHint: 'Projects', sourcePath: 'b' }, 'Idea'))
+      .toMatchObject({ input: { category: 'Project' } });
+    expect(mapRecord({ title: 'C', fields: {}, categoryHint: 'Inbox', sourcePath: 'c' }, 'Admin'))
+      .toMatchObject({ input: { category: 'Admin' } });
+  });
+
+  it('maps status, priority, dates and category-specific content', () => {
+    const mapped = mapRecord({
+      title: 'Build MVP',
+      categoryHint: 'Projects',
+      fields: { Status: 'active', Priority: 'HIGH', Deadline: 'March 1, 2024 → March 3, 2024', 'Next Action': 'Write spec' },
+      sourcePath: 'p.md',
+    }, 'Idea');
+
+    expect(mapped).toMatchObject({
+      input: {
+        status: 'Active',
+        priority: 'High',
+        dueDate: '2024-03-01',
+        content: { nextAction: 'Write spec' },
+      },
+      warnings: [],
+    });
+  });
+
+  it('keeps unknown and out-of-category fields in notes and warns on bad values', () => {
+    const mapped = mapRecord({
+      title: 'Jane',
+      categoryHint: 'People',
+      fields: { Status: 'Ghosted', Company: 'Acme', 'Next Action': 'Call', Mood: 'great' },
+      body: 'Met at the conference.',
+      sourcePath: 'jane.md',
+    }, 'Idea');
+
+    if (typeof mapped === 'string') throw new Error(mapped);
+    expect(mapped.input.status).toBeUndefined();
+    expect(mapped.warnings).toEqual(['Unknown People status "Ghosted" — using default']);
+    expect(mapped.input.content).toEqual({
+      company: 'Acme',
+      notes: 'Met at the conference.\n\nNext Action: Call\nMood: great',
+    });
+  });
+
+  it('reads back sections and front-matter from our own Markdown export', () => {
+    const record = parseMarkdownFile({
+      path: 'Projects/Build MVP.md',
+      text: [
+        '---', 'id: "p1"', 'title: "Build MVP"', 'category: "Projects"', 'status: "Active"', 'due: "2024-03-01"', 'recurrence: "FREQ=MONTHLY"',
+        'tags: ["q3-launch", "work"]', '---', '',
+        '# Build MVP', '', '## Notes', '', 'Ship it', '', '## Next Action', '', 'Write spec', '',
+        '## Links', '', '- Part of: [[Areas/Work]]', '',
+      ].join('\n'),
+    });
+    const mapped = mapRecord(record, 'Idea');
+
+    expect(mapped).toMatchObject({
+      input: {
+        category: 'Project',
+        title: 'Build MVP',
+        status: 'Active',
+        dueDate: '2024-03-01',
+        recurrence: 'FREQ=MONTHLY',
+        content: { notes: 'Ship it', nextAction: 'Write spec' },
+      },
+      tags: ['q3-launch', 'work'],
+    });
+  });
+
+  it('normalises tags from a comma-separated column', () => {
+    const mapped = mapRecord({ title: 'A', fields: { Tags: '#Q3 Launch, home' }, sourcePath: 'a.csv#2' }, 'Idea');
+    expect(mapped).toMatchObject({ tags: ['q3-launch', 'home'] });
+    expect(mapped).not.toHaveProperty('input.content');
+  });
+
+  it('maps fields declared by a user-defined category', () => {
+    const recipe: CategoryDefinition = {
+      ...BUILTIN_CATEGORIES[2],
+      name: 'Recipe',
+      dbName: 'Recipes',
+      statuses: ['To Try', 'Cooked'],
+      defaultStatus: 'To Try',
+      fields: [{ key: 'ingredients', contentKey: 'ingredients', description: 'Ingredient list' }],
+    };
+    const mapped = mapRecord({
+      title: 'Dal',
+      categoryHint: 'Recipes',
+      fields: { Ingredients: 'lentils, cumin', Status: 'cooked' },
+      sourcePath: 'Recipes/Dal.md',
+    }, 'Idea', [...BUILTIN_CATEGORIES, recipe]);
+
+    expect(mapped).toMatchObject({
+      input: { category: 'Recipe', status: 'Cooked', content: { ingredients: 'lentils, cumin' } },
+      warnings: [],
+    });
+  });
+
+  it('rejects records without a title', () => {
+    expect(mapRecord({ title: '  ', fields: {}, sourcePath: 'x.csv#3' }, 'Idea')).toBe('Missing title');
+  });
+
+  it('parses ISO and loose dates', () => {
+    expect(parseImportDate('2024-05-06T10:00:00Z')).toBe('2024-05-06');
+    expect(parseImportDate('not a date')).toBeUndefined();
+  });
+});
+
+// ============= Pipeline =============
+
+describe('import pipeline', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    whereMock.mockResolvedValue([]);
+  });
+
+  it('merges records for the same entry and reports existing ones as duplicates', async () => {
+    whereMock.mockResolvedValue([
+      { id: 'e1', notionId: NOTION_UUID, title: 'Renamed in app', category: 'Projects' },
+      { id: 'e2', notionId: null, title: 'weekly review', category: 'Ideas' },
+    ]);
+
+    const plan = await planImport([
+      { title: 'Build MVP', categoryHint: 'Projects', notionId: NOTION_UUID, fields: {}, sourcePath: 'a.md' },
+      { title: 'Weekly Review', categoryHint: 'Ideas', fields: {}, sourcePath: 'b.md' },
+      { title: 'New idea', categoryHint: 'Ideas', fields: { Status: 'Spark', Tags: 'ideas' }, sourcePath: 'c.csv#2' },
+      { title: 'New idea', categoryHint: 'Ideas', fields: { Notes: 'from the page', tags: 'ideas, later' }, sourcePath: 'c.md' },
+      { title: '', fields: {}, sourcePath: 'c.csv#3' },
+    ]);
+
+    expect(plan.duplicates).toEqual([
+      { title: 'Build MVP', category: 'Project', existingId: 'e1', matchedOn: 'notionId', sourcePath: 'a.md' },
+      { title: 'Weekly Review', category: 'Idea', existingId: 'e2', matchedOn: 'title', sourcePath: 'b.md' },
+    ]);
+    expect(plan.create).toHaveLength(1);
+    expect(plan.create[0]).toMatchObject({
+      input: { title: 'New idea', status: 'Spark', content: { notes: 'from the page' } },
+      tags: ['ideas', 'later'],
+      sourcePaths: ['c.csv#2', 'c.md'],
+    });
+    expect(plan.invalid).toEqual([{ sourcePath: 'c.csv#3', reason: 'Missing title' }]);
+    expect(mockCreateEntry).not.toHaveBeenCalled();
+  });
+
+  it('skips the lookup when nothing is importable', async () => {
+    const plan = await planImport([{ title: '', fields: {}, sourcePath: 'x' }]);
+    expect(plan.create).toEqual([]);
+    expect(whereMock).not.toHaveBeenCalled();
+  });
+
+  it('creates entries with batched embeddings and logs activity', async () => {
+    mockEmbeddingsBatch.mockResolvedValue([[0.1], [0.2]]);
+    mockCreateEntry
+      .mockResolvedValueOnce({ id: 'n1', title: 'One', category: 'Ideas' })
+      .mockRejectedValueOnce(new Error('insert failed'));
+
+    const result = await applyImport({
+      create: [
+        { input: { category: 'Idea', title: 'One' }, tags: [], sourcePaths: ['1.md'], warnings: [] },
+        { input: { category: 'Idea', title: 'Two' }, tags: [], sourcePaths: ['2.md'], warnings: [] },
+      ],
+      duplicates: [],
+      invalid: [],
+    });
+
+    expect(mockEmbeddingsBatch).toHaveBeenCalledWith(['One', 'Two']);
+    expect(mockCreateEntry).toHaveBeenCalledWith(
+      { category: 'Idea', title: 'One', embedding: [0.1], source: 'import' },
+      { waitForEmbedding: false }
+    );
+    expect(mockLogActivity).toHaveBeenCalledWith('n1', 'created', { category: 'Idea', source: 'import' });
+    expect(result).toEqual({
+      created: [{ id: 'n1', title: 'One', category: 'Ideas' }],
+      failed: [{ title: 'Two', error: 'insert failed' }],
+    });
+  });
+
+  it('still creates entries when batch embedding fails', async () => {
+    mockEmbeddingsBatch.mockRejectedValue(new Error('rate limited'));
+    mockCreateEntry.mockResolvedValue({ id: 'n1', title: 'One', category: 'Ideas' });
+
+    const result = await applyImport({
+      create: [{ input: { category: 'Idea', title: 'One' }, tags: [], sourcePaths: ['1.md'], warnings: [] }],
+      duplicates: [],
+      invalid: [],
+    });
+
+    expect(mockCreateEntry).toHaveBeenCalledWith(
+      { category: 'Idea', title: 'One', embedding: undefined, source: 'import' },
+      { waitForEmbedding: false }
+    );
+    expect(result.created).toHaveLength(1);
+  });
+
+  it('tags imported entries once they exist', async () => {
+    mockEmbeddingsBatch.mockResolvedValue([[0.1]]);
+    mockCreateEntry.mockResolvedValue({ id: 'n1', title: 'One', category: 'Ideas' });
+    mockAddEntryTags.mockResolvedValue(['q3-launch']);
+
+    await applyImport({
+      create: [{ input: { category: 'Idea', title: 'One' }, tags: ['q3-launch'], sourcePaths: ['1.md'], warnings: [] }],
+      duplicates: [],
+      invalid: [],
+    });
+
+    expect(mockAddEntryTags).toHaveBeenCalledWith('n1', ['q3-launch']);
+  });
+});
@@ -0,0 +1,6 @@
+export { readImportFiles, parseImportFiles } from './parsers';
+export { mapRecord, resolveCategory } from './mapping';
+export { planImport, applyImport } from './pipeline';
+export type { ImportFile, ImportRecord } from './parsers';
+export type { MappedEntry } from './mapping';
+export type { ImportPlan, ImportResult, PlannedEntry, ImportDuplicate, ImportOptions } from './pipeline';
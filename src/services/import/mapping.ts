@@ -0,0 +1,239 @@
+// Map raw import records onto CreateEntryInput for each category
+// Unknown or out-of-category fields are kept as "Key: value" lines in notes
+
+import type { CreateEntryInput } from '@/services/db/entries';
+import { BUILTIN_CATEGORIES, PRIORITY_OPTIONS, findCategory, type CategoryDefinition } from '@/config/categories';
+import { normalizeRecurrence } from '@/lib/utils/rrule';
+import { contentKeys } from '@/lib/content';
+import { normalizeTags } from '@/services/db/tags';
+import type { ImportRecord } from './parsers';
+
+// ============= Types =============
+
+export interface MappedEntry {
+  input: CreateEntryInput;
+  tags: string[]; // Normalised tag names, applied once the entry exists
+  sourcePath: string;
+  warnings: string[];
+}
+
+type FieldTarget = 'category' | 'status' | 'priority' | 'dueDate' | 'recurrence' | 'tags' | 'ignore' | ContentKey;
+type ContentKey =
+  | 'notes' | 'context' | 'company' | 'role' | 'lastContact'
+  | 'nextAction' | 'area'
+  | 'oneLiner' | 'rawInsight' | 'ideaCategory' | 'source'
+  | 'adminCategory';
+
+// ============= Field tables =============
+
+// Keys are normalised: lowercase, letters and digits only
+const FIELD_TARGETS: Record<string, FieldTarget> = {
+  category: 'category',
+  type: 'category',
+  status: 'status',
+  priority: 'priority',
+  due: 'dueDate',
+  duedate: 'dueDate',
+  date: 'dueDate',
+  deadline: 'dueDate',
+  nextfollowup: 'dueDate',
+  followup: 'dueDate',
+  recurrence: 'recurrence',
+  repeat: 'recurrence',
+  repeats: 'recurrence',
+  tags: 'tags',
+  tag: 'tags',
+  notes: 'notes',
+  note: 'notes',
+  description: 'notes',
+  body: 'notes',
+  context: 'context',
+  company: 'company',
+  organization: 'company',
+  role: 'role',
+  position: 'role',
+  lastcontact: 'lastContact',
+  nextaction: 'nextAction',
+  area: 'area',
+  oneliner: 'oneLiner',
+  summary: 'oneLiner',
+  tldr: 'oneLiner',
+  rawinsight: 'rawInsight',
+  insight: 'rawInsight',
+  ideacategory: 'ideaCategory',
+  source: 'source',
+  url: 'source',
+  link: 'source',
+  admincategory: 'adminCategory',
+  // Bookkeeping columns from exports — not user content
+  id: 'ignore',
+  notionid: 'ignore',
+  created: 'ignore',
+  createdtime: 'ignore',
+  updated: 'ignore',
+  lasteditedtime: 'ignore',
+  archived: 'ignore',
+};
+
+// Common folder/database names for the built-in categories
+const CATEGORY_ALIASES: Record<string, string> = {
+  people: 'People',
+  person: 'People',
+  contacts: 'People',
+  project: 'Project',
+  projects: 'Project',
+  idea: 'Idea',
+  ideas: 'Idea',
+  admin: 'Admin',
+  task: 'Admin',
+  tasks: 'Admin',
+  todo: 'Admin',
+  reading: 'Reading',
+  readinglist: 'Reading',
+  articles: 'Reading',
+};
+
+// ============= Helpers =============
+
+export function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/** Resolve a folder, database or field name to a category: aliases first, then names */
+export function resolveCategory(
+  value: string | undefined,
+  categories: CategoryDefinition[] = BUILTIN_CATEGORIES
+): CategoryDefinition | undefined {
+  if (!value) return undefined;
+  const alias = CATEGORY_ALIASES[normalizeKey(value)];
+  return (alias && findCategory(categories, alias))
+    || categories.find(c => normalizeKey(c.name) === normalizeKey(value) || normalizeKey(c.dbName) === normalizeKey(value));
+}
+
+/** Content key for a field declared by the category definition, e.g. "Ingredients" → 'ingredients' */
+function definitionField(category: CategoryDefinition, key: string): string | undefined {
+  const normalized = normalizeKey(key);
+  return category.fields.find(f => normalizeKey(f.key) === normalized || normalizeKey(f.contentKey) === normalized)?.contentKey;
+}
+
+function matchOption(value: string, options: readonly string[]): string | undefined {
+  return options.find(o => o.toLowerCase() === value.trim().toLowerCase());
+}
+
+/** Parse a date from ISO, Notion ("March 1, 2024 → March 3, 2024") or similar; returns YYYY-MM-DD */
+export function parseImportDate(value: string): string | undefined {
+  const first = value.split('→')[0].trim();
+  if (/^\d{4}-\d{2}-\d{2}/.test(first)) return first.slice(0, 10);
+  const time = Date.parse(first);
+  if (Number.isNaN(time)) return undefined;
+  const d = new Date(time);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * Pull `## Heading` sections that name a known field (e.g. "## Next Action")
+ * out of a Markdown body. Everything else stays in the body.
+ * A "## Links" section made only of wiki-links (our own export) is dropped.
+ */
+export function extractSections(body: string): { sections: Record<string, string>; rest: string } {
+  const sections: Record<string, string> = {};
+  const kept: string[] = [];
+  const parts = body.split(/^(?=## )/m);
+
+  for (const part of parts) {
+    const heading = part.match(/^## (.+)\r?\n/);
+    if (!heading) {
+      kept.push(part);
+      continue;
+    }
+    const text = part.slice(heading[0].length).trim();
+    const key = normalizeKey(heading[1]);
+    const target = FIELD_TARGETS[key];
+
+    if (key === 'links' && text.split('\n').every(line => /^- .*\[\[.+\]\]\s*$/.test(line))) continue;
+    if (target && target !== 'ignore' && target !== 'category') {
+      sections[heading[1].trim()] = text;
+    } else {
+      kept.push(part);
+    }
+  }
+
+  return { sections, rest: kept.join('').trim() };
+}
+
+// ============= Map =============
+
+/**
+ * Map one record to a CreateEntryInput. Returns a string error when the
+ * record can't be imported (no title).
+ */
+export function mapRecord(
+  record: ImportRecord,
+  defaultCategory: string,
+  categories: CategoryDefinition[] = BUILTIN_CATEGORIES
+): MappedEntry | string {
+  const title = record.title.trim();
+  if (!title) return 'Missing title';
+
+  const warnings: string[] = [];
+  const { sections, rest } = record.body ? extractSections(record.body) : { sections: {}, rest: '' };
+  const fields = { ...record.fields, ...sections };
+
+  // Category: explicit field, then folder/database name, then the default
+  const categoryField = Object.entries(fields).find(([k]) => FIELD_TARGETS[normalizeKey(k)] === 'category');
+  const definition = resolveCategory(categoryField?.[1], categories)
+    || resolveCategory(record.categoryHint, categories)
+    || resolveCategory(defaultCategory, categories);
+  if (!definition) return `Unknown category "${defaultCategory}"`;
+
+  const category = definition.name;
+  const allowedKeys = contentKeys(definition);
+
+  const input: CreateEntryInput = { category, title };
+  const content: Record<string, string> = {};
+  const tags: string[] = [];
+  const extras: string[] = [];
+
+  for (const [key, raw] of Object.entries(fields)) {
+    const value = raw.trim();
+    if (!value) continue;
+    const target = FIELD_TARGETS[normalizeKey(key)];
+    const customKey = definitionField(definition, key);
+
+    if (target === 'ignore' || target === 'category') continue;
+
+    if (customKey) {
+      content[customKey] = content[customKey] ? `${content[customKey]}\n\n${value}` : value;
+    } else if (target === 'status') {
+      const status = matchOption(value, definition.statuses);
+      if (status) input.status = status;
+      else warnings.push(`Unknown ${category} status "${value}" — using default`);
+    } else if (target === 'priority') {
+      const priority = matchOption(value, PRIORITY_OPTIONS);
+      if (priority) input.priority = priority;
+      else warnings.push(`Unknown priority "${value}"`);
+    } else if (target === 'dueDate') {
+      const due = parseImportDate(value);
+      if (due) input.dueDate = due;
+      else warnings.push(`Unreadable date "${value}"`);
+    } else if (target === 'recurrence') {
+      const rule = normalizeRecurrence(value);
+      if (rule) input.recurrence = rule;
+      else warnings.push(`Unreadable repeat rule "${value}"`);
+    } else if (target === 'tags') {
+      tags.push(...value.split(','));
+    } else if (target && allowedKeys.includes(target)) {
+      content[target] = content[target] ? `${content[target]}\n\n${value}` : value;
+    } else {
+      extras.push(`${key}: ${value}`);
+    }
+  }
+
+  const notes = [content.notes, rest, extras.join('\n')].filter(Boolean).join('\n\n');
+  if (notes) content.notes = notes;
+
+  if (Object.keys(content).length > 0) input.content = content;
+  if (record.notionId) input.notionId = record.notionId;
+
+  return { input, tags: normalizeTags(tags), sourcePath: record.sourcePath, warnings };
+}
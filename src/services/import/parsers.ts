@@ -0,0 +1,266 @@
+// Parse import sources (Markdown vaults, CSV, Notion export zips) into raw records
+// Records are source-agnostic: a title plus loosely-named fields, mapped later
+
+import { unzipSync, strFromU8 } from 'fflate';
+
+// ============= Types =============
+
+export interface ImportFile {
+  path: string;
+  text: string;
+}
+
+export interface ImportRecord {
+  title: string;
+  /** Category hint from the enclosing folder or CSV/database name (a Category field wins) */
+  categoryHint?: string;
+  /** Notion page ID (dashed UUID) when the source is a Notion export */
+  notionId?: string;
+  /** Loosely-named source fields, e.g. { Status: 'Active', 'Next Action': '...' } */
+  fields: Record<string, string>;
+  /** Free-form Markdown body (becomes notes) */
+  body?: string;
+  sourcePath: string;
+}
+
+// Notion appends a 32-char hex page ID to exported file and folder names
+const NOTION_ID_SUFFIX = /\s+([0-9a-f]{32})$/i;
+
+const IMPORTABLE_EXTENSIONS = ['.md', '.markdown', '.csv'];
+
+// ============= Helpers =============
+
+function extension(path: string): string {
+  const match = path.toLowerCase().match(/\.[a-z]+$/);
+  return match ? match[0] : '';
+}
+
+function baseName(path: string): string {
+  const name = path.split('/').pop() || path;
+  return name.replace(/\.[^.]+$/, '');
+}
+
+/** Split a Notion export name into its display name and page ID */
+export function splitNotionName(name: string): { name: string; notionId?: string } {
+  const match = name.match(NOTION_ID_SUFFIX);
+  if (!match) return { name: name.trim() };
+  const hex = match[1].toLowerCase();
+  return {
+    name: name.slice(0, match.index).trim(),
+    notionId: `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`,
+  };
+}
+
+/** Nearest parent folder name, without any Notion ID suffix */
+function folderHint(path: string): string | undefined {
+  const parts = path.split('/').filter(Boolean);
+  if (parts.length < 2) return undefined;
+  return splitNotionName(parts[parts.length - 2]).name;
+}
+
+// ============= Markdown =============
+
+function parseScalar(raw: string): string {
+  const value = raw.trim();
+  if (value.startsWith('"') && value.endsWith('"')) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+  if (value.startsWith("'") && value.endsWith("'")) {
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  return value;
+}
+
+/** Parse simple `key: value` YAML front-matter (lists are joined with commas) */
+export function parseFrontMatter(text: string): { fields: Record<string, string>; body: string } {
+  const match = text.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (!match) return { fields: {}, body: text };
+
+  const fields: Record<string, string> = {};
+  let listKey: string | null = null;
+  for (const line of match[1].split(/\r?\n/)) {
+    const item = line.match(/^\s+-\s+(.*)$/);
+    if (item && listKey) {
+      fields[listKey] = fields[listKey] ? `${fields[listKey]}, ${parseScalar(item[1])}` : parseScalar(item[1]);
+      continue;
+    }
+    const pair = line.match(/^([A-Za-z0-9_ -]+):\s*(.*)$/);
+    if (!pair) continue;
+    const key = pair[1].trim();
+    const value = pair[2].trim();
+    if (value === '') {
+      listKey = key;
+      fields[key] = '';
+    } else {
+      listKey = null;
+      fields[key] = value.startsWith('[') && value.endsWith(']')
+        ? value.slice(1, -1).split(',').map(parseScalar).filter(Boolean).join(', ')
+        : parseScalar(value);
+    }
+  }
+
+  return { fields, body: text.slice(match[0].length) };
+}
+
+/**
+ * Parse a Markdown note. Handles YAML front-matter (Obsidian, our own export)
+ * and Notion's "Property: value" block under the H1.
+ */
+export function parseMarkdownFile(file: ImportFile): ImportRecord {
+  const { name, notionId } = splitNotionName(baseName(file.path));
+  const { fields, body: rest } = parseFrontMatter(file.text);
+  let body = rest.replace(/^\s+/, '');
+
+  let title = fields.title || '';
+  delete fields.title;
+
+  const heading = body.match(/^#\s+(.+)\r?\n?/);
+  if (heading) {
+    title = title || heading[1].trim();
+    body = body.slice(heading[0].length).replace(/^\s+/, '');
+  }
+
+  // Notion pages list database properties as "Key: value" lines right after the title
+  if (notionId) {
+    const lines = body.split(/\r?\n/);
+    let i = 0;
+    for (; i < lines.length; i++) {
+      const prop = lines[i].match(/^([^:#\n]{1,40}):\s+(.+)$/);
+      if (!prop) break;
+      fields[prop[1].trim()] = prop[2].trim();
+    }
+    body = lines.slice(i).join('\n').replace(/^\s+/, '');
+  }
+
+  return {
+    title: title || name,
+    categoryHint: folderHint(file.path),
+    notionId: fields.notion_id || notionId,
+    fields,
+    body: body.trim() || undefined,
+    sourcePath: file.path,
+  };
+}
+
+// ============= CSV =============
+
+/** RFC 4180 CSV parser (quoted fields, escaped quotes, CRLF) */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (inQuotes) {
+      if (ch === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+}
+
+const TITLE_COLUMNS = ['name', 'title'];
+
+/** Parse a CSV with a header row; the title comes from a Name/Title column (or the first column) */
+export function parseCsvFile(file: ImportFile): ImportRecord[] {
+  const [header, ...rows] = parseCsv(file.text);
+  if (!header) return [];
+
+  const headers = header.map(h => h.trim());
+  const titleIndex = Math.max(0, headers.findIndex(h => TITLE_COLUMNS.includes(h.toLowerCase())));
+  // Notion names database exports after the database ("Projects 1a2b….csv", "Projects_all.csv")
+  const databaseName = splitNotionName(baseName(file.path).replace(/_all$/, '')).name;
+
+  return rows.map((cells, i) => {
+    const fields: Record<string, string> = {};
+    headers.forEach((h, col) => {
+      const value = (cells[col] || '').trim();
+      if (col !== titleIndex && h && value) fields[h] = value;
+    });
+
+    return {
+      title: (cells[titleIndex] || '').trim(),
+      categoryHint: databaseName,
+      notionId: fields.notion_id || fields['Notion ID'] || undefined,
+      fields,
+      sourcePath: `${file.path}#${i + 2}`,
+    };
+  });
+}
+
+// ============= Sources =============
+
+/** Expand an uploaded file (zip, csv, md) into importable text files */
+export function readImportFiles(name: string, bytes: Uint8Array): ImportFile[] {
+  const ext = extension(name);
+
+  if (ext === '.zip') {
+    const entries = unzipSync(bytes);
+    const files: ImportFile[] = [];
+    for (const [path, data] of Object.entries(entries)) {
+      const parts = path.split('/');
+      if (parts.some(p => p.startsWith('.') || p === '__MACOSX')) continue;
+      if (!IMPORTABLE_EXTENSIONS.includes(extension(path))) continue;
+      files.push({ path, text: strFromU8(data) });
+    }
+    return files;
+  }
+
+  if (IMPORTABLE_EXTENSIONS.includes(ext)) {
+    return [{ path: name, text: strFromU8(bytes) }];
+  }
+
+  throw new Error(`Unsupported file type: ${ext || name}. Use .zip, .csv or .md`);
+}
+
+/**
+ * Turn files into records. Notion exports ship every database twice
+ * (`Name.csv` for the current view and `Name_all.csv`); the `_all` copy wins.
+ */
+export function parseImportFiles(files: ImportFile[]): ImportRecord[] {
+  const csvPaths = new Set(files.filter(f => extension(f.path) === '.csv').map(f => f.path));
+  const records: ImportRecord[] = [];
+
+  for (const file of files) {
+    const ext = extension(file.path);
+    if (ext === '.csv') {
+      if (csvPaths.has(file.path.replace(/\.csv$/i, '_all.csv'))) continue;
+      records.push(...parseCsvFile(file));
+    } else {
+      records.push(parseMarkdownFile(file));
+    }
+  }
+
+  return records;
+}
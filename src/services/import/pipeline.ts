@@ -0,0 +1,192 @@
+// Import pipeline: plan (map + dedupe, no writes) then apply (batch embed + insert)
+// Every import is planned first so callers can show a dry-run diff
+
+import { inArray, or, sql } from 'drizzle-orm';
+import { db } from '@/db';
+import { entries } from '@/db/schema';
+import type { CreateEntryInput } from '@/services/db/entries';
+import { generateEmbeddingsBatch, buildEmbeddingText } from '@/services/db/embeddings';
+import { capture, fromImport } from '@/services/capture';
+import { getCategories } from '@/services/db/categories';
+import { normalizeTags } from '@/services/db/tags';
+import { findCategory } from '@/config/categories';
+import { createLogger } from '@/lib/logger';
+import type { ImportRecord } from './parsers';
+import { mapRecord } from './mapping';
+
+const log = createLogger('import');
+
+// ============= Types =============
+
+export interface PlannedEntry {
+  input: CreateEntryInput;
+  tags: string[];
+  sourcePaths: string[];
+  warnings: string[];
+}
+
+export interface ImportDuplicate {
+  title: string;
+  category: string;
+  existingId: string;
+  matchedOn: 'notionId' | 'title';
+  sourcePath: string;
+}
+
+export interface ImportPlan {
+  create: PlannedEntry[];
+  duplicates: ImportDuplicate[];
+  invalid: Array<{ sourcePath: string; reason: string }>;
+}
+
+export interface ImportResult {
+  created: Array<{ id: string; title: string; category: string }>;
+  failed: Array<{ title: string; error: string }>;
+}
+
+export interface ImportOptions {
+  defaultCategory?: string;
+}
+
+// ============= Helpers =============
+
+function titleKey(category: string, title: string): string {
+  return `${category}:${title.trim().toLowerCase()}`;
+}
+
+/** Fold a second record for the same entry (e.g. Notion page + its CSV row) into the first */
+function mergePlanned(target: PlannedEntry, extra: PlannedEntry): void {
+  const a = target.input;
+  const b = extra.input;
+  a.status = a.status || b.status;
+  a.priority = a.priority || b.priority;
+  a.dueDate = a.dueDate || b.dueDate;
+  a.notionId = a.notionId || b.notionId;
+
+  const content: Record<string, unknown> = { ...(b.content || {}), ...(a.content || {}) };
+  const notesA = a.content?.notes as string | undefined;
+  const notesB = b.content?.notes as string | undefined;
+  if (notesA && notesB && notesA !== notesB) content.notes = `${notesA}\n\n${notesB}`;
+  if (Object.keys(content).length > 0) a.content = content;
+  target.tags = normalizeTags([...target.tags, ...extra.tags]);
+
+  target.sourcePaths.push(...extra.sourcePaths);
+  target.warnings.push(...extra.warnings);
+}
+
+// ============= Plan =============
+
+/**
+ * Map records and split them into new entries, duplicates of existing
+ * entries (by notionId, then category + title), and invalid rows.
+ * Read-only — safe to call for a dry run.
+ */
+export async function planImport(records: ImportRecord[], options: ImportOptions = {}): Promise<ImportPlan> {
+  const plan: ImportPlan = { create: [], duplicates: [], invalid: [] };
+  const byKey = new Map<string, PlannedEntry>();
+  const byNotionId = new Map<string, PlannedEntry>();
+  const categories = await getCategories();
+  // Dedupe compares against stored category names ('Projects'), as createEntry writes them
+  const dbName = (category: string) => findCategory(categories, category)?.dbName || category;
+
+  // 1. Map and merge records that describe the same entry within this import
+  for (const record of records) {
+    const mapped = mapRecord(record, options.defaultCategory || 'Idea', categories);
+    if (typeof mapped === 'string') {
+      plan.invalid.push({ sourcePath: record.sourcePath, reason: mapped });
+      continue;
+    }
+
+    const planned: PlannedEntry = {
+      input: mapped.input,
+      tags: mapped.tags,
+      sourcePaths: [mapped.sourcePath],
+      warnings: mapped.warnings,
+    };
+    const key = titleKey(dbName(planned.input.category), planned.input.title);
+    const existing = (planned.input.notionId && byNotionId.get(planned.input.notionId)) || byKey.get(key);
+
+    if (existing) {
+      mergePlanned(existing, planned);
+      if (existing.input.notionId) byNotionId.set(existing.input.notionId, existing);
+      continue;
+    }
+
+    byKey.set(key, planned);
+    if (planned.input.notionId) byNotionId.set(planned.input.notionId, planned);
+  }
+
+  const candidates = [...byKey.values()];
+  if (candidates.length === 0) return plan;
+
+  // 2. Look up existing entries that share a notionId or a title
+  const notionIds = candidates.map(c => c.input.notionId).filter((id): id is string => !!id);
+  const titles = [...new Set(candidates.map(c => c.input.title.trim().toLowerCase()))];
+
+  const conditions = [inArray(sql`lower(${entries.title})`, titles)];
+  if (notionIds.length > 0) conditions.push(inArray(entries.notionId, notionIds));
+
+  const existingRows = await db
+    .select({ id: entries.id, notionId: entries.notionId, title: entries.title, category: entries.category })
+    .from(entries)
+    .where(or(...conditions));
+
+  const existingByNotionId = new Map(existingRows.filter(r => r.notionId).map(r => [r.notionId!, r]));
+  const existingByKey = new Map(existingRows.map(r => [titleKey(r.category, r.title), r]));
+
+  // 3. Anything already in the brain is reported, not re-created
+  for (const candidate of candidates) {
+    const { input } = candidate;
+    const notionMatch = input.notionId ? existingByNotionId.get(input.notionId) : undefined;
+    const titleMatch = existingByKey.get(titleKey(dbName(input.category), input.title));
+    const match = notionMatch || titleMatch;
+
+    if (match) {
+      plan.duplicates.push({
+        title: input.title,
+        category: input.category,
+        existingId: match.id,
+        matchedOn: notionMatch ? 'notionId' : 'title',
+        sourcePath: candidate.sourcePaths[0],
+      });
+    } else {
+      plan.create.push(candidate);
+    }
+  }
+
+  return plan;
+}
+
+// ============= Apply =============
+
+/**
+ * Write a plan's new entries. Embeddings are generated in batches up front;
+ * if that fails, createEntry falls back to embedding each entry on its own.
+ */
+export async function applyImport(plan: ImportPlan): Promise<ImportResult> {
+  const result: ImportResult = { created: [], failed: [] };
+  if (plan.create.length === 0) return result;
+
+  let embeddings: number[][] = [];
+  try {
+    embeddings = await generateEmbeddingsBatch(
+      plan.create.map(p => buildEmbeddingText(p.input.title, p.input.content || {}))
+    );
+  } catch (err) {
+    log.error('Batch embedding failed; entries will embed individually', err);
+  }
+
+  for (let i = 0; i < plan.create.length; i++) {
+    const { input, tags } = plan.create[i];
+    try {
+      const { items: [{ entry }] } = await capture(fromImport(input, embeddings[i], tags));
+      result.created.push({ id: entry.id, title: entry.title, category: entry.category });
+    } catch (err) {
+      log.error('Failed to import entry', err, { title: input.title });
+      result.failed.push({ title: input.title, error: err instanceof Error ? err.message : 'Unknown error' });
+    }
+  }
+
+  log.info('Import finished', { created: result.created.length, failed: result.failed.length });
+  return result;
+}
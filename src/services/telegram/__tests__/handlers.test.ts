@@ -1,4 +1,4 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 
 // ============= Mocks =============
 
@@ -36,11 +36,80 @@ vi.mock('@/services/db/entries', () => ({
   archiveEntry: (...args: unknown[]) => mockArchiveEntry(...args),
 }));
 
+vi.mock('@/services/db/categories', async () => {
+  const { BUILTIN_CATEGORIES, findCategory } = await import('@/config/categories');
+  return {
+    getCategories: vi.fn().mockResolvedValue(BUILTIN_CATEGORIES),
+    getCategory: vi.fn(async (name: string) => findCategory(BUILTIN_CATEGORIES, name)),
+  };
+});
+
+const mockSpawnNextOccurrence = vi.fn().mockResolvedValue(null);
+vi.mock('@/services/db/recurrence', () => ({
+  spawnNextOccurrence: (...args: unknown[]) => mockSpawnNextOccurrence(...args),
+}));
+
+const mockSyncParentSubtasks = vi.fn().mockResolvedValue(undefined);
+vi.mock('@/services/db/subtasks', () => ({
+  syncParentSubtasks: (...args: unknown[]) => mockSyncParentSubtasks(...args),
+}));
+
+const mockMarkInboxFixed = vi.fn().mockResolvedValue([{ id: 'log-1', rawInput: 'test idea about bees', category: 'Admin' }]);
+vi.mock('@/services/db/inbox', () => ({
+  DEFAULT_REVIEW_THRESHOLD: 0.6,
+  getReviewThreshold: vi.fn().mockResolvedValue(0.6),
+  captureLogStatus: (confidence: number, threshold: number) => (confidence < threshold ? 'Needs Review' : 'Processed'),
+  markInboxFixed: (...args: unknown[]) => mockMarkInboxFixed(...args),
+}));
+
+const mockFindSimilarExamples = vi.fn().mockResolvedValue([]);
+const mockRecordCorrection = vi.fn().mockResolvedValue(undefined);
+vi.mock('@/services/db/classifier-examples', () => ({
+  findSimilarExamples: (...args: unknown[]) => mockFindSimilarExamples(...args),
+  recordCorrection: (...args: unknown[]) => mockRecordCorrection(...args),
+}));
+
+vi.mock('@/services/google/calendar', () => ({
+  getUserTimezone: vi.fn().mockResolvedValue('America/New_York'),
+}));
+
+const mockGetEntryHistory = vi.fn().mockResolvedValue([]);
+vi.mock('@/services/db/activity', () => ({
+  logActivity: vi.fn(),
+  getEntryHistory: (...args: unknown[]) => mockGetEntryHistory(...args),
+}));
+
+const mockAddRelation = vi.fn().mockResolvedValue({});
 vi.mock('@/services/db/relations', () => ({
   suggestRelations: vi.fn().mockResolvedValue([]),
-  addRelation: vi.fn().mockResolvedValue({}),
+  addRelation: (...args: unknown[]) => mockAddRelation(...args),
+  getRelatedEntries: vi.fn().mockResolvedValue([]),
 }));
 
+const mockFindDuplicate = vi.fn().mockResolvedValue(null);
+const mockMergeEntries = vi.fn();
+vi.mock('@/services/db/merge', () => ({
+  findDuplicate: (...args: unknown[]) => mockFindDuplicate(...args),
+  mergeEntries: (...args: unknown[]) => mockMergeEntries(...args),
+}));
+
+const mockLinkMentionedPeople = vi.fn().mockResolvedValue({ linked: [], unknown: [] });
+vi.mock('@/services/db/people', () => ({
+  linkMentionedPeople: (...args: unknown[]) => mockLinkMentionedPeople(...args),
+  listPeople: vi.fn().mockResolvedValue([]),
+  matchPerson: vi.fn().mockReturnValue(null),
+}));
+
+vi.mock('@/services/db/tags', async () => {
+  const { normalizeTags, extractHashtags } = await vi.importActual<typeof import('@/services/db/tags')>('@/services/db/tags');
+  return {
+    normalizeTags,
+    extractHashtags,
+    listTags: vi.fn().mockResolvedValue([]),
+    addEntryTags: vi.fn().mockImplementation(async (_id: string, names: string[]) => [...names].sort()),
+  };
+});
+
 const mockDbDelete = vi.fn().mockReturnValue({ where: vi.fn().mockResolvedValue(undefined) });
 vi.mock('@/db', () => ({
   db: { delete: (...args: unknown[]) => mockDbDelete(...args) },
@@ -130,6 +199,11 @@ describe('Telegram handlers', () => {
     mockSearchEntries.mockResolvedValue([]);
     mockGetEntry.mockResolvedValue(null);
     mockCountEntries.mockResolvedValue(5);
+    vi.stubEnv('OPENAI_API_KEY', 'test-key');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
   });
 
   // ============= Routing =============
@@ -193,7 +267,9 @@ describe('Telegram handlers', () => {
       expect(mockCreateEntry).toHaveBeenCalledWith(expect.objectContaining({
         category: 'Admin',
         title: 'Buy groceries',
-      }));
+        source: 'telegram',
+      }), { waitForEmbedding: false });
+      expect(mockCreateInboxLogEntry).toHaveBeenCalledWith(expect.objectContaining({ source: 'telegram', status: 'Processed' }));
       expect(mockSendMessage).toHaveBeenCalledWith(
         12345,
         expect.stringContaining('Task saved'),
@@ -208,7 +284,7 @@ describe('Telegram handlers', () => {
       expect(mockCreateEntry).toHaveBeenCalledWith(expect.objectContaining({
         category: 'Idea',
         title: 'Build a spaceship',
-      }));
+      }), { waitForEmbedding: false });
       expect(mockSendMessage).toHaveBeenCalledWith(
         12345,
         expect.stringContaining('Idea saved'),
@@ -258,7 +334,7 @@ describe('Telegram handlers', () => {
         category: 'Admin',
         title: 'Call dentist',
         dueDate: expect.stringMatching(/^\d{4}-\d{2}-\d{2}$/),
-      }));
+      }), { waitForEmbedding: false });
       expect(mockSendMessage).toHaveBeenCalledWith(
         12345,
         expect.stringContaining('Reminder set'),
@@ -276,7 +352,7 @@ describe('Telegram handlers', () => {
       expect(mockCreateEntry).toHaveBeenCalledWith(expect.objectContaining({
         title: 'Renew passport',
         dueDate: '2026-06-15',
-      }));
+      }), { waitForEmbedding: false });
     });
   });
 
@@ -378,6 +454,203 @@ describe('Telegram handlers', () => {
         (call: unknown[]) => typeof call[1] === 'string' && (call[1] as string).includes('Captured')
       );
       expect(captureCall).toBeTruthy();
+      expect(mockCreateInboxLogEntry).toHaveBeenCalledWith(expect.objectContaining({ status: 'Processed' }));
+    });
+
+    it('offers a merge when the capture repeats an open entry', async () => {
+      mockChatCreate.mockResolvedValue({
+        choices: [{
+          message: {
+            content: JSON.stringify({
+              category: 'Admin',
+              confidence: 0.95,
+              extracted_data: { task: 'Follow up with Sam re: pricing' },
+              reasoning: 'Task',
+            }),
+          },
+        }],
+      });
+      mockFindDuplicate.mockResolvedValueOnce({ id: 'old-id', title: 'Follow up with Sam', category: 'Admin', similarity: 0.95 });
+
+      await handleUpdate(textUpdate('/capture follow up with Sam re: pricing'));
+
+      const captureCall = mockSendMessage.mock.calls.find(
+        (call: unknown[]) => typeof call[1] === 'string' && (call[1] as string).includes('Looks like a repeat')
+      );
+      expect(captureCall?.[2].reply_markup.inline_keyboard[0]).toEqual([
+        { text: '🔗 Merge into existing', callback_data: 'merge:new-id' },
+      ]);
+    });
+
+    it('lists linked people and offers to add unknown ones', async () => {
+      mockChatCreate.mockResolvedValue({
+        choices: [{
+          message: {
+            content: JSON.stringify({
+              category: 'Project',
+              confidence: 0.9,
+              extracted_data: { name: 'Q3 launch' },
+              reasoning: 'Project',
+              people: [{ name: 'Dana', company: 'Acme' }, { name: 'Priya', company: 'Globex' }],
+            }),
+          },
+        }],
+      });
+      mockLinkMentionedPeople.mockResolvedValueOnce({
+        linked: [{ id: 'p-dana', name: 'Dana Whitfield', company: 'Acme', score: 0.95 }],
+        unknown: [{ name: 'Priya', company: 'Globex' }],
+      });
+
+      await handleUpdate(textUpdate('/capture Lunch with Dana from Acme and Priya from Globex about the Q3 launch'));
+
+      const captureCall = mockSendMessage.mock.calls.find(
+        (call: unknown[]) => typeof call[1] === 'string' && (call[1] as string).includes('Captured')
+      );
+      expect(captureCall?.[1]).toContain('👤 Linked: Dana Whitfield');
+      expect(captureCall?.[1]).toContain('➕ New: Priya (Globex)');
+      expect(captureCall?.[2].reply_markup.inline_keyboard[0]).toEqual([
+        { text: '➕ Add Priya (Globex)', callback_data: 'addp:new-id:0' },
+      ]);
+    });
+
+    it('lists the tags applied to the capture', async () => {
+      mockChatCreate.mockResolvedValue({
+        choices: [{
+          message: {
+            content: JSON.stringify({
+              category: 'Idea',
+              confidence: 0.9,
+              extracted_data: { title: 'Bee hotel' },
+              reasoning: 'Idea',
+            }),
+          },
+        }],
+      });
+
+      await handleUpdate(textUpdate('/capture Build a bee hotel #garden #weekend'));
+
+      const captureCall = mockSendMessage.mock.calls.find(
+        (call: unknown[]) => typeof call[1] === 'string' && (call[1] as string).includes('Captured')
+      );
+      expect(captureCall?.[1]).toContain('🏷 #garden #weekend');
+    });
+
+    it('captures each item of a compound message as its own entry', async () => {
+      mockChatCreate.mockResolvedValue({
+        choices: [{
+          message: {
+            content: JSON.stringify({
+              items: [
+                { category: 'Admin', confidence: 0.9, extracted_data: { task: 'Buy printer ink' }, reasoning: '', text: 'buy printer ink' },
+                { category: 'Idea', confidence: 0.85, extracted_data: { title: 'Weekly demo day' }, reasoning: '', text: 'idea: weekly demo day' },
+              ],
+            }),
+          },
+        }],
+      });
+
+      await handleUpdate(textUpdate('/capture buy printer ink, idea: weekly demo day'));
+
+      expect(mockCreateEntry).toHaveBeenCalledTimes(2);
+      expect(mockCreateEntry).toHaveBeenCalledWith(expect.objectContaining({ category: 'Admin', title: 'Buy printer ink' }), { waitForEmbedding: true });
+      expect(mockCreateEntry).toHaveBeenCalledWith(expect.objectContaining({ category: 'Idea', title: 'Weekly demo day' }), { waitForEmbedding: true });
+      expect(mockCreateInboxLogEntry).toHaveBeenCalledWith(expect.objectContaining({ rawInput: 'idea: weekly demo day' }));
+      expect(mockSendMessage).toHaveBeenCalledWith(12345, '✂️ Split into 2 entries');
+      const captureCalls = mockSendMessage.mock.calls.filter(
+        (call: unknown[]) => typeof call[1] === 'string' && (call[1] as string).includes('Captured')
+      );
+      expect(captureCalls).toHaveLength(2);
+    });
+
+    it('stores a due date resolved in the user timezone', async () => {
+      mockChatCreate.mockResolvedValue({
+        choices: [{
+          message: {
+            content: JSON.stringify({
+              category: 'Admin',
+              confidence: 0.9,
+              extracted_data: { task: 'Renew passport', due_date: '2025-07-18', due_time: '15:00' },
+              reasoning: 'Task with deadline',
+            }),
+          },
+        }],
+      });
+
+      await handleUpdate(textUpdate('/capture renew passport by next Friday 3pm'));
+
+      const systemPrompt = mockChatCreate.mock.calls[0][0].messages[0].content;
+      expect(systemPrompt).toContain('(America/New_York)');
+      expect(mockCreateEntry).toHaveBeenCalledWith(expect.objectContaining({ dueDate: '2025-07-18T15:00:00-04:00' }), { waitForEmbedding: true });
+      expect(mockSendMessage).toHaveBeenCalledWith(12345, expect.stringContaining('📅 Due 2025-07-18 15:00'), expect.any(Object));
+    });
+
+    it('passes similar past corrections to the classifier', async () => {
+      mockFindSimilarExamples.mockResolvedValueOnce([{ text: 'Sourdough starter notes', category: 'Idea' }]);
+      mockChatCreate.mockResolvedValue({
+        choices: [{ message: { content: JSON.stringify({ category: 'Idea', confidence: 0.9, extracted_data: {}, reasoning: '' }) } }],
+      });
+
+      await handleUpdate(textUpdate('/capture Rye starter feeding schedule'));
+
+      expect(mockFindSimilarExamples).toHaveBeenCalledWith('Rye starter feeding schedule');
+      const systemPrompt = mockChatCreate.mock.calls[0][0].messages[0].content;
+      expect(systemPrompt).toContain('- "Sourdough starter notes" → Idea');
+    });
+
+    it('parks low-confidence captures for review', async () => {
+      mockChatCreate.mockResolvedValue({
+        choices: [{
+          message: {
+            content: JSON.stringify({
+              category: 'Idea',
+              confidence: 0.4,
+              extracted_data: { title: 'Maybe something' },
+              reasoning: 'Unclear',
+            }),
+          },
+        }],
+      });
+
+      await handleUpdate(textUpdate('/capture maybe something about bees'));
+
+      expect(mockCreateInboxLogEntry).toHaveBeenCalledWith(expect.objectContaining({ status: 'Needs Review', confidence: 0.4 }));
+      expect(mockSendMessage).toHaveBeenCalledWith(12345, expect.stringContaining('parked for review'), expect.any(Object));
+    });
+
+    it('offers every defined category on the recategorize keyboard', async () => {
+      mockChatCreate.mockResolvedValue({
+        choices: [{
+          message: {
+            content: JSON.stringify({
+              category: 'Project',
+              confidence: 0.9,
+              extracted_data: { name: 'Launch app', next_action: 'Write copy' },
+              reasoning: 'Multi-step',
+            }),
+          },
+        }],
+      });
+
+      await handleUpdate(textUpdate('/capture Launch the app'));
+
+      expect(mockCreateEntry).toHaveBeenCalledWith(expect.objectContaining({
+        category: 'Project',
+        title: 'Launch app',
+        priority: 'Medium',
+        content: { area: 'Work', nextAction: 'Write copy' },
+      }), { waitForEmbedding: true });
+      const captureCall = mockSendMessage.mock.calls.find(
+        (call: unknown[]) => typeof call[1] === 'string' && (call[1] as string).includes('Captured')
+      )!;
+      const buttons = (captureCall[2] as { reply_markup: { inline_keyboard: Array<Array<{ callback_data: string }>> } })
+        .reply_markup.inline_keyboard.flat().map(b => b.callback_data);
+      expect(buttons).toEqual([
+        'recat:new-id:People',
+        'recat:new-id:Project',
+        'recat:new-id:Idea',
+        'recat:new-id:Admin',
+        'recat:new-id:Reading',
+      ]);
     });
   });
 
@@ -397,6 +670,24 @@ describe('Telegram handlers', () => {
       expect(mockUpdateEntry).toHaveBeenCalledWith('e2', { status: 'Complete' });
     });
 
+    it('ticks the entry off in its parent project checklists', async () => {
+      const entry = { id: 'e5', category: 'Admin', title: 'Draft spec', status: 'Todo' };
+      mockGetEntry.mockResolvedValue(entry);
+      await handleUpdate(callbackUpdate('done:e5'));
+      expect(mockSyncParentSubtasks).toHaveBeenCalledWith(entry, 'Done');
+    });
+
+    it('creates the next occurrence of a recurring entry', async () => {
+      const entry = { id: 'e3', category: 'Admin', title: 'Bins out', status: 'Todo', recurrence: 'FREQ=WEEKLY;BYDAY=MO' };
+      mockGetEntry.mockResolvedValue(entry);
+      mockSpawnNextOccurrence.mockResolvedValueOnce({ id: 'e4', dueDate: new Date('2025-01-20T00:00:00Z') });
+
+      await handleUpdate(callbackUpdate('done:e3'));
+
+      expect(mockSpawnNextOccurrence).toHaveBeenCalledWith(entry, 'Done');
+      expect(mockSendMessage).toHaveBeenCalledWith(12345, expect.stringContaining('Next due 2025-01-20'), expect.any(Object));
+    });
+
     it('handles missing entry gracefully', async () => {
       mockGetEntry.mockResolvedValue(null);
       await handleUpdate(callbackUpdate('done:nonexistent'));
@@ -466,10 +757,71 @@ describe('Telegram handlers', () => {
     it('archives old entry and creates new one', async () => {
       mockGetEntry.mockResolvedValue({ id: 'e1', category: 'Admin', title: 'Test', content: {} });
       await handleUpdate(callbackUpdate('recat:e1:Idea'));
-      expect(mockArchiveEntry).toHaveBeenCalledWith('e1');
+      expect(mockArchiveEntry).toHaveBeenCalledWith('e1', 'recategorized');
       expect(mockCreateEntry).toHaveBeenCalledWith(expect.objectContaining({ category: 'Idea' }));
+      expect(mockMarkInboxFixed).toHaveBeenCalledWith('e1', 'Idea', 'new-id');
+      expect(mockRecordCorrection).toHaveBeenCalledWith({
+        rawInput: 'test idea about bees',
+        category: 'Idea',
+        previousCategory: 'Admin',
+        source: 'telegram',
+      });
       expect(mockSendMessage).toHaveBeenCalledWith(12345, expect.stringContaining('Moved → Idea'), expect.any(Object));
     });
+
+    it('rejects categories that are not defined', async () => {
+      mockGetEntry.mockResolvedValue({ id: 'e1', category: 'Admin', title: 'Test', content: {} });
+      await handleUpdate(callbackUpdate('recat:e1:Recipe'));
+      expect(mockArchiveEntry).not.toHaveBeenCalled();
+      expect(mockSendMessage).toHaveBeenCalledWith(12345, '⚠️ Unknown category: Recipe');
+    });
+  });
+
+  describe('callback: merge', () => {
+    it('merges the entry into its duplicate', async () => {
+      mockFindDuplicate.mockResolvedValueOnce({ id: 'old-id', title: 'Follow up with Sam', category: 'Admin', similarity: 0.95 });
+      mockMergeEntries.mockResolvedValueOnce({ id: 'old-id', title: 'Follow up with Sam' });
+
+      await handleUpdate(callbackUpdate('merge:new-id'));
+
+      expect(mockMergeEntries).toHaveBeenCalledWith('new-id', 'old-id');
+      expect(mockSendMessage).toHaveBeenCalledWith(12345, expect.stringContaining('Merged'), expect.any(Object));
+    });
+
+    it('reports when there is nothing left to merge', async () => {
+      await handleUpdate(callbackUpdate('merge:new-id'));
+
+      expect(mockMergeEntries).not.toHaveBeenCalled();
+      expect(mockSendMessage).toHaveBeenCalledWith(12345, expect.stringContaining('Nothing to merge'));
+    });
+  });
+
+  describe('callback: add person', () => {
+    it('creates the mentioned person from the capture activity and links it', async () => {
+      mockGetEntry.mockResolvedValueOnce({ id: 'new-id', category: 'Project', title: 'Q3 launch', archived: null });
+      mockGetEntryHistory.mockResolvedValueOnce([
+        { action: 'created', metadata: { new_people: [{ name: 'Priya', company: 'Globex' }] } },
+      ]);
+      mockCreateEntry.mockResolvedValueOnce({ id: 'p-priya', category: 'People', title: 'Priya' });
+
+      await handleUpdate(callbackUpdate('addp:new-id:0'));
+
+      expect(mockCreateEntry).toHaveBeenCalledWith(expect.objectContaining({
+        category: 'People',
+        title: 'Priya',
+        content: expect.objectContaining({ company: 'Globex' }),
+        source: 'telegram',
+      }), { waitForEmbedding: false });
+      expect(mockAddRelation).toHaveBeenCalledWith('new-id', 'p-priya', 'related_to');
+      expect(mockSendMessage).toHaveBeenCalledWith(12345, expect.stringContaining('Priya'), expect.any(Object));
+    });
+
+    it('reports when the entry is gone', async () => {
+      await handleUpdate(callbackUpdate('addp:new-id:0'));
+
+      expect(mockCreateEntry).not.toHaveBeenCalled();
+      expect(mockSendMessage).toHaveBeenCalledWith(12345, expect.stringContaining('Nothing to add'));
+    });
   });
 
   // ============= Inline Query =============
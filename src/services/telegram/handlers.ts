@@ -2,24 +2,72 @@
 // Routes incoming messages to the appropriate brain API
 
 import { sendMessage, sendMarkdown, answerCallbackQuery, answerInlineQuery, getFile, getFileDownloadUrl, type InlineQueryResultArticle } from './client';
-import { createEntry, createInboxLogEntry, updateEntry, countEntries } from '@/services/db/entries';
+import { updateEntry, countEntries } from '@/services/db/entries';
 import { searchEntries } from '@/services/db/entries';
-import { suggestRelations, addRelation } from '@/services/db/relations';
 import { eq } from 'drizzle-orm';
 import { db } from '@/db';
 import { chatSessions } from '@/db/schema';
-import OpenAI from 'openai';
+import { getCategories, getCategory } from '@/services/db/categories';
+import { capture, fromTelegram, fromTelegramCommand, fromPhoto, addMentionedPerson, type CapturedItem } from '@/services/capture';
+import { saveAttachment } from '@/services/attachments';
+import { describeImage, imageDataUrl } from '@/services/vision';
+import { transcribeAudio } from '@/services/transcribe';
+import { spawnNextOccurrence } from '@/services/db/recurrence';
+import { syncParentSubtasks } from '@/services/db/subtasks';
+import { markInboxFixed } from '@/services/db/inbox';
+import { findDuplicate, mergeEntries } from '@/services/db/merge';
+import { getEntryHistory } from '@/services/db/activity';
+import type { MentionedPerson } from '@/services/classifier';
+import { recordCorrection } from '@/services/db/classifier-examples';
+import { describeRecurrence } from '@/lib/utils/rrule';
 import { createLogger } from '@/lib/logger';
 
 const log = createLogger('telegram/handlers');
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
 const ALLOWED_CHAT_ID = process.env.TELEGRAM_CHAT_ID;
 
-// Category emoji map
+// Category emoji map (fallback for entries whose category has no definition)
 const CAT_EMOJI: Record<string, string> = {
   People: '👤', Project: '📋', Projects: '📋', Idea: '💡', Ideas: '💡', Admin: '✅', Reading: '📖',
 };
 
+/** "Wrong category?" keyboard offering every defined category, three per row */
+async function recategorizeKeyboard(entryId: string) {
+  const categories = await getCategories();
+  const buttons = categories.map(c => ({ text: `${c.icon} ${c.name}`, callback_data: `recat:${entryId}:${c.name}` }));
+  const rows = [];
+  for (let i = 0; i < buttons.length; i += 3) rows.push(buttons.slice(i, i + 3));
+  return { inline_keyboard: rows };
+}
+
+/** Mentioned people offered for creation from a Telegram reply (one button each) */
+const MAX_PERSON_BUTTONS = 3;
+
+/** "Dana (Acme)" */
+function personLabel(person: MentionedPerson): string {
+  return person.company ? `${person.name} (${person.company})` : person.name;
+}
+
+/**
+ * Capture reply keyboard: merge offer (for likely repeats) and "add person"
+ * buttons for unknown mentioned names above the recategorize buttons
+ */
+async function captureKeyboard(entryId: string, isDuplicate: boolean, newPeople: MentionedPerson[] = []) {
+  const keyboard = await recategorizeKeyboard(entryId);
+  const extraRows = newPeople.slice(0, MAX_PERSON_BUTTONS).map((person, i) => [
+    { text: `➕ Add ${personLabel(person)}`, callback_data: `addp:${entryId}:${i}` },
+  ]);
+  if (isDuplicate) {
+    extraRows.unshift([{ text: '🔗 Merge into existing', callback_data: `merge:${entryId}` }]);
+  }
+  keyboard.inline_keyboard.unshift(...extraRows);
+  return keyboard;
+}
+
+/** Resolved due date as shown in replies: '2025-07-18' or '2025-07-18 15:00' */
+function formatDue(dueDate: string): string {
+  return dueDate.slice(0, 16).replace('T', ' ');
+}
+
 // Telegram update types
 export interface TelegramUpdate {
   update_id: number;
@@ -169,86 +217,53 @@ function extractCommand(text: string): { name: string; args: string } | null {
 
 // ============= Command Handlers =============
 
-async function handleCapture(chatId: number, text: string): Promise<void> {
+async function handleCapture(chatId: number, text: string): Promise<CapturedItem[]> {
   if (!text || text.length < 3) {
     await sendMessage(chatId, '⚠️ Please provide at least 3 characters to capture.');
-    return;
+    return [];
   }
 
   await sendMessage(chatId, '🧠 Classifying...');
 
   try {
-    const classification = await classifyText(text);
-    const { category, confidence, extracted_data } = classification;
-
-    const entryTitle = extracted_data.name || extracted_data.title || extracted_data.task || text.slice(0, 100);
-    const content: Record<string, unknown> = {};
-
-    if (category === 'Admin') {
-      content.adminCategory = 'Home';
-    } else if (category === 'Project') {
-      content.area = 'Work';
-      if (extracted_data.next_action) content.nextAction = extracted_data.next_action;
-    } else if (category === 'Idea') {
-      content.ideaCategory = 'Life';
-      if (extracted_data.raw_insight) content.rawInsight = extracted_data.raw_insight;
-    } else if (category === 'People') {
-      content.lastContact = new Date().toISOString().split('T')[0];
-      if (extracted_data.company) content.company = extracted_data.company;
-      if (extracted_data.context) content.context = extracted_data.context;
+    const { items } = await capture(fromTelegram(text));
+
+    // Compound input ("call Priya, buy ink, idea: ...") becomes one entry per item
+    if (items.length > 1) {
+      await sendMessage(chatId, `✂️ Split into ${items.length} entries`);
     }
 
-    const newEntry = await createEntry({
-      category,
-      title: entryTitle,
-      priority: category === 'Admin' ? (extracted_data.priority || 'Medium') : (category === 'Project' ? 'Medium' : undefined),
-      content,
-    });
+    for (const item of items) {
+      const { entry, category, confidence, dueDate, recurrence, duplicate, people, newPeople, tags } = item;
+      const emoji = (await getCategory(category))?.icon || CAT_EMOJI[category] || '📝';
+      const confPct = Math.round(confidence * 100);
+      const confBar = '█'.repeat(Math.round(confPct / 10)) + '░'.repeat(10 - Math.round(confPct / 10));
 
-    // Log to inbox
-    try {
-      await createInboxLogEntry({
-        rawInput: text,
-        category,
-        confidence,
-        destinationId: newEntry.id,
-        status: 'Processed',
+      await sendMessage(chatId, [
+        `${emoji} *Captured → ${category}*`,
+        '',
+        `📌 ${entry.title}`,
+        ...(recurrence
+          ? [`🔁 ${describeRecurrence(recurrence)}${dueDate ? ` · first due ${formatDue(dueDate)}` : ''}`]
+          : dueDate ? [`📅 Due ${formatDue(dueDate)}`] : []),
+        `${confBar} ${confPct}%`,
+        ...(item.logStatus === 'Needs Review' ? ['🤔 Low confidence — parked for review'] : []),
+        ...(people.length > 0 ? [`👤 Linked: ${people.map(p => p.name).join(', ')}`] : []),
+        ...(newPeople.length > 0 ? [`➕ New: ${newPeople.map(personLabel).join(', ')}`] : []),
+        ...(tags.length > 0 ? [`🏷 ${tags.map(tag => `#${tag}`).join(' ')}`] : []),
+        ...(duplicate ? ['', `🔁 Looks like a repeat of _${duplicate.title}_`] : []),
+        '',
+        `_Wrong category? Tap to fix:_`,
+      ].join('\n'), {
+        parse_mode: 'Markdown',
+        reply_markup: await captureKeyboard(entry.id, !!duplicate, newPeople),
       });
-    } catch { /* non-critical */ }
-
-    // Auto-relations (best-effort)
-    try {
-      const suggestions = await suggestRelations(newEntry.id, { limit: 3, threshold: 0.8 });
-      for (const s of suggestions) {
-        await addRelation(newEntry.id, s.id, 'related_to');
-      }
-    } catch { /* non-critical */ }
-
-    const emoji = CAT_EMOJI[category] || '📝';
-    const confPct = Math.round(confidence * 100);
-    const confBar = '█'.repeat(Math.round(confPct / 10)) + '░'.repeat(10 - Math.round(confPct / 10));
-
-    await sendMessage(chatId, [
-      `${emoji} *Captured → ${category}*`,
-      '',
-      `📌 ${entryTitle}`,
-      `${confBar} ${confPct}%`,
-      '',
-      `_Wrong category? Tap to fix:_`,
-    ].join('\n'), {
-      parse_mode: 'Markdown',
-      reply_markup: {
-        inline_keyboard: [[
-          { text: '👤 People', callback_data: `recat:${newEntry.id}:People` },
-          { text: '📋 Project', callback_data: `recat:${newEntry.id}:Project` },
-          { text: '💡 Idea', callback_data: `recat:${newEntry.id}:Idea` },
-          { text: '✅ Admin', callback_data: `recat:${newEntry.id}:Admin` },
-        ]],
-      },
-    });
+    }
+    return items;
   } catch (error) {
     log.error('Telegram capture error', error);
     await sendMessage(chatId, '❌ Failed to capture. Please try again.');
+    return [];
   }
 }
 
@@ -260,31 +275,7 @@ async function handleQuickCapture(chatId: number, text: string, category: 'Admin
   }
 
   try {
-    const content: Record<string, unknown> = {};
-    if (category === 'Admin') {
-      content.adminCategory = 'Home';
-    } else {
-      content.ideaCategory = 'Life';
-      content.rawInsight = text;
-    }
-
-    const newEntry = await createEntry({
-      category,
-      title: text.slice(0, 100),
-      priority: category === 'Admin' ? 'Medium' : undefined,
-      content,
-    });
-
-    // Log to inbox
-    try {
-      await createInboxLogEntry({
-        rawInput: text,
-        category,
-        confidence: 1.0,
-        destinationId: newEntry.id,
-        status: 'Processed',
-      });
-    } catch { /* non-critical */ }
+    await capture(fromTelegramCommand(text, category));
 
     const emoji = CAT_EMOJI[category] || '📝';
     const label = category === 'Admin' ? 'Task' : 'Idea';
@@ -360,23 +351,7 @@ async function handleRemind(chatId: number, text: string): Promise<void> {
 
     const dateStr = date.toISOString().split('T')[0];
 
-    const newEntry = await createEntry({
-      category: 'Admin',
-      title: remainder,
-      priority: 'Medium',
-      content: { adminCategory: 'Home' },
-      dueDate: dateStr,
-    });
-
-    try {
-      await createInboxLogEntry({
-        rawInput: text,
-        category: 'Admin',
-        confidence: 1.0,
-        destinationId: newEntry.id,
-        status: 'Processed',
-      });
-    } catch { /* non-critical */ }
+    await capture(fromTelegramCommand(text, 'Admin', { title: remainder, dueDate: dateStr }));
 
     const dayName = date.toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric' });
 
@@ -568,92 +543,86 @@ async function handleVoice(chatId: number, voice: { file_id: string; duration: n
 
     const downloadUrl = getFileDownloadUrl(fileInfo.result.file_path);
     const audioResponse = await fetch(downloadUrl);
-    const audioBuffer = await audioResponse.arrayBuffer();
+    const audio = new Uint8Array(await audioResponse.arrayBuffer());
 
-    const openai = new OpenAI({ apiKey: OPENAI_API_KEY });
-    const file = new File([audioBuffer], 'voice.ogg', { type: 'audio/ogg' });
-    const transcription = await openai.audio.transcriptions.create({
-      file,
-      model: 'whisper-1',
-    });
-
-    const text = transcription.text?.trim();
+    const text = await transcribeAudio(audio, 'voice.ogg', 'audio/ogg');
     if (!text) {
       await sendMessage(chatId, '⚠️ Could not transcribe audio. Try again.');
       return;
     }
 
     await sendMessage(chatId, `🎙️ _"${text}"_`, { parse_mode: 'Markdown' });
-    await handleCapture(chatId, text);
+    const [first] = await handleCapture(chatId, text);
+    if (first) {
+      await attachFile(first.entry.id, { data: audio, fileName: 'voice.ogg', mimeType: 'audio/ogg' }, text);
+    }
   } catch (error) {
     log.error('Voice transcription error', error);
     await sendMessage(chatId, '❌ Failed to transcribe voice message.');
   }
 }
 
+/** Download the largest size of a Telegram photo */
+async function downloadPhoto(
+  photos: { file_id: string; width: number; height: number }[]
+): Promise<{ data: Uint8Array; fileName: string; mimeType: string } | null> {
+  const photo = photos[photos.length - 1];
+  const fileInfo = await getFile(photo.file_id);
+  if (!fileInfo.ok || !fileInfo.result?.file_path) return null;
+
+  const photoResponse = await fetch(getFileDownloadUrl(fileInfo.result.file_path));
+  return {
+    data: new Uint8Array(await photoResponse.arrayBuffer()),
+    fileName: fileInfo.result.file_path.split('/').pop() || 'photo.jpg',
+    mimeType: 'image/jpeg',
+  };
+}
+
+/** Keep the original photo or voice note on the entry (best-effort) */
+async function attachFile(
+  entryId: string,
+  file: { data: Uint8Array; fileName: string; mimeType: string },
+  description?: string
+) {
+  try {
+    await saveAttachment({ entryId, ...file, description });
+  } catch (error) {
+    log.error('Failed to store attachment', error, { fileName: file.fileName });
+  }
+}
+
 async function handlePhoto(
   chatId: number,
   photos: { file_id: string; width: number; height: number }[],
   caption?: string
 ): Promise<void> {
-  // If there's a caption, capture it as text
+  // If there's a caption, capture it as text and keep the photo on the first entry
   if (caption && caption.length >= 3) {
-    await handleCapture(chatId, caption);
+    const [first] = await handleCapture(chatId, caption);
+    if (first) {
+      const photo = await downloadPhoto(photos).catch(() => null);
+      if (photo) await attachFile(first.entry.id, photo);
+    }
     return;
   }
 
   await sendMessage(chatId, '📸 Analyzing image...');
 
   try {
-    // Get the largest photo (last in array)
-    const photo = photos[photos.length - 1];
-
-    const fileInfo = await getFile(photo.file_id);
-    if (!fileInfo.ok || !fileInfo.result?.file_path) {
+    const photo = await downloadPhoto(photos);
+    if (!photo) {
       await sendMessage(chatId, '❌ Could not retrieve photo.');
       return;
     }
 
-    const downloadUrl = getFileDownloadUrl(fileInfo.result.file_path);
-    const photoResponse = await fetch(downloadUrl);
-    const photoBuffer = await photoResponse.arrayBuffer();
-    const base64 = Buffer.from(photoBuffer).toString('base64');
-    const dataUrl = `data:image/jpeg;base64,${base64}`;
-
-    const openai = new OpenAI({ apiKey: OPENAI_API_KEY });
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages: [{
-        role: 'user',
-        content: [
-          { type: 'text', text: 'Describe this image concisely in 1-2 sentences for a personal knowledge base. Focus on what it shows and why someone might save it.' },
-          { type: 'image_url', image_url: { url: dataUrl } },
-        ],
-      }],
-      max_tokens: 150,
-    });
-
-    const description = response.choices[0]?.message?.content?.trim();
+    const description = await describeImage(imageDataUrl(photo.data));
     if (!description) {
       await sendMessage(chatId, '⚠️ Could not analyze image. Try adding a caption.');
       return;
     }
 
-    const newEntry = await createEntry({
-      category: 'Idea',
-      title: description.slice(0, 100),
-      content: { rawInsight: description, ideaCategory: 'Life' },
-    });
-
-    try {
-      await createInboxLogEntry({
-        rawInput: `[Photo] ${description}`,
-        category: 'Idea',
-        confidence: 0.9,
-        destinationId: newEntry.id,
-        status: 'Processed',
-      });
-    } catch { /* non-critical */ }
+    const { items: [{ entry: newEntry }] } = await capture(fromPhoto('telegram', description));
+    await attachFile(newEntry.id, photo, description);
 
     await sendMessage(chatId, [
       '📸 *Photo captured*',
@@ -661,14 +630,7 @@ async function handlePhoto(
       `💡 ${description}`,
     ].join('\n'), {
       parse_mode: 'Markdown',
-      reply_markup: {
-        inline_keyboard: [[
-          { text: '👤 People', callback_data: `recat:${newEntry.id}:People` },
-          { text: '📋 Project', callback_data: `recat:${newEntry.id}:Project` },
-          { text: '💡 Idea', callback_data: `recat:${newEntry.id}:Idea` },
-          { text: '✅ Admin', callback_data: `recat:${newEntry.id}:Admin` },
-        ]],
-      },
+      reply_markup: await recategorizeKeyboard(newEntry.id),
     });
   } catch (error) {
     log.error('Photo capture error', error);
@@ -898,10 +860,13 @@ async function handleCallbackQuery(query: CallbackQuery): Promise<void> {
         return;
       }
 
-      const doneStatus = ['Projects'].includes(entry.category) ? 'Complete' : 'Done';
+      const doneStatus = (await getCategory(entry.category))?.doneStatus || 'Done';
       await updateEntry(entryId, { status: doneStatus });
+      const next = await spawnNextOccurrence(entry, doneStatus);
+      await syncParentSubtasks(entry, doneStatus);
 
-      await sendMessage(chatId, `✅ *Done!*\n\n~${entry.title}~`, { parse_mode: 'Markdown' });
+      const nextLine = next?.dueDate ? `\n\n🔁 Next due ${next.dueDate.toISOString().split('T')[0]}` : '';
+      await sendMessage(chatId, `✅ *Done!*\n\n~${entry.title}~${nextLine}`, { parse_mode: 'Markdown' });
     } catch (error) {
       log.error('Mark done error', error);
       await sendMessage(chatId, '❌ Failed to mark done.');
@@ -909,6 +874,52 @@ async function handleCallbackQuery(query: CallbackQuery): Promise<void> {
     return;
   }
 
+  // Handle merge: "merge:<entryId>" — the duplicate is looked up again (ids together exceed Telegram's 64-byte limit)
+  if (query.data.startsWith('merge:')) {
+    const entryId = query.data.slice(6);
+    await answerCallbackQuery(query.id, 'Merging...');
+
+    try {
+      const duplicate = await findDuplicate(entryId);
+      const merged = duplicate && await mergeEntries(entryId, duplicate.id);
+      if (!merged) {
+        await sendMessage(chatId, '⚠️ Nothing to merge — the entry or its match is gone.');
+        return;
+      }
+      await sendMessage(chatId, `🔗 *Merged* into ${merged.title}`, { parse_mode: 'Markdown' });
+    } catch (error) {
+      log.error('Merge error', error);
+      await sendMessage(chatId, '❌ Failed to merge.');
+    }
+    return;
+  }
+
+  // Handle add person: "addp:<entryId>:<index>" — the name is read back from the capture's activity (names can exceed the 64-byte limit)
+  if (query.data.startsWith('addp:')) {
+    const [, entryId, index] = query.data.split(':');
+    await answerCallbackQuery(query.id, 'Adding person...');
+
+    try {
+      const { getEntry } = await import('@/services/db/entries');
+      const entry = await getEntry(entryId);
+      const created = (await getEntryHistory(entryId)).find(
+        row => row.action === 'created' && Array.isArray(row.metadata?.new_people)
+      );
+      const person = (created?.metadata?.new_people as MentionedPerson[] | undefined)?.[Number(index)];
+      if (!entry || entry.archived || !person) {
+        await sendMessage(chatId, '⚠️ Nothing to add — the entry is gone.');
+        return;
+      }
+
+      const added = await addMentionedPerson(entry, person, 'telegram');
+      await sendMessage(chatId, `👤 *${added.name}* linked to ${entry.title}`, { parse_mode: 'Markdown' });
+    } catch (error) {
+      log.error('Add person error', error);
+      await sendMessage(chatId, '❌ Failed to add person.');
+    }
+    return;
+  }
+
   // Handle recategorize: "recat:<entryId>:<newCategory>"
   if (query.data.startsWith('recat:')) {
     const [, entryId, newCategory] = query.data.split(':');
@@ -922,14 +933,31 @@ async function handleCallbackQuery(query: CallbackQuery): Promise<void> {
         return;
       }
 
-      await archiveEntry(entryId);
-      await createNewEntry({
-        category: newCategory as 'People' | 'Project' | 'Idea' | 'Admin',
+      const definition = await getCategory(newCategory);
+      if (!definition) {
+        await sendMessage(chatId, `⚠️ Unknown category: ${newCategory}`);
+        return;
+      }
+
+      await archiveEntry(entryId, 'recategorized');
+      const newEntry = await createNewEntry({
+        category: definition.name,
         title: entry.title,
         content: entry.content as Record<string, unknown>,
+        source: entry.source,
       });
-
-      const emoji = CAT_EMOJI[newCategory] || '📝';
+      try {
+        const [logRow] = await markInboxFixed(entryId, definition.name, newEntry.id);
+        const previous = await getCategory(entry.category);
+        await recordCorrection({
+          rawInput: logRow?.rawInput || entry.title,
+          category: definition.name,
+          previousCategory: previous?.name || entry.category,
+          source: 'telegram',
+        });
+      } catch { /* non-critical */ }
+
+      const emoji = definition.icon;
       await sendMessage(chatId, `${emoji} *Moved → ${newCategory}*`, { parse_mode: 'Markdown' });
     } catch (error) {
       log.error('Recategorize error', error);
@@ -997,15 +1025,7 @@ async function handleCallbackQuery(query: CallbackQuery): Promise<void> {
         return;
       }
 
-      const statusOptions: Record<string, string[]> = {
-        People: ['New', 'Active', 'Dormant'],
-        Projects: ['Not Started', 'Active', 'Waiting', 'Complete'],
-        Ideas: ['Spark', 'Developing', 'Actionable'],
-        Admin: ['Todo', 'Done'],
-        Reading: ['Unread', 'Reading', 'Read'],
-      };
-
-      const options = statusOptions[entry.category] || ['Todo', 'Active', 'Done'];
+      const options = (await getCategory(entry.category))?.statuses || ['Todo', 'Active', 'Done'];
 
       await sendMessage(chatId, [
         `✏️ *${entry.title}*`,
@@ -1033,8 +1053,11 @@ async function handleCallbackQuery(query: CallbackQuery): Promise<void> {
     await answerCallbackQuery(query.id, `Setting ${newStatus}...`);
 
     try {
-      await updateEntry(entryId, { status: newStatus });
-      await sendMessage(chatId, `✏️ Status → *${newStatus}*`, { parse_mode: 'Markdown' });
+      const updated = await updateEntry(entryId, { status: newStatus });
+      const next = updated ? await spawnNextOccurrence(updated, newStatus) : null;
+      if (updated) await syncParentSubtasks(updated, newStatus);
+      const nextLine = next?.dueDate ? `\n🔁 Next due ${next.dueDate.toISOString().split('T')[0]}` : '';
+      await sendMessage(chatId, `✏️ Status → *${newStatus}*${nextLine}`, { parse_mode: 'Markdown' });
     } catch (error) {
       log.error('Edit status error', error);
       await sendMessage(chatId, '❌ Failed to update.');
@@ -1100,60 +1123,3 @@ function parseNaturalDate(text: string): { date: Date | null; remainder: string
 
   return { date: null, remainder: text };
 }
-
-// ============= AI Classification (same as capture route) =============
-
-interface ClassificationResult {
-  category: 'People' | 'Project' | 'Idea' | 'Admin';
-  confidence: number;
-  extracted_data: Record<string, string>;
-  reasoning: string;
-}
-
-async function classifyText(text: string): Promise<ClassificationResult> {
-  const openai = new OpenAI({ apiKey: OPENAI_API_KEY });
-
-  const response = await openai.chat.completions.create({
-    model: 'gpt-4o-mini',
-    temperature: 0,
-    messages: [
-      {
-        role: 'system',
-        content: `You are a Second Brain classifier. Analyze the input and categorize it.
-
-RULES:
-1. People = names, contacts, networking, follow-ups, meetings with individuals
-2. Projects = tasks with deliverables, multi-step work, deadlines
-3. Ideas = insights, quotes, observations, "shower thoughts", learnings
-4. Admin = errands, appointments, logistics, bills, personal tasks
-
-OUTPUT STRICT JSON:
-{
-  "category": "People" | "Project" | "Idea" | "Admin",
-  "confidence": 0.0-1.0,
-  "extracted_data": { ... category-specific fields ... },
-  "reasoning": "Brief explanation"
-}
-
-For People: {"name": "PersonName", "company": "", "context": "..."}
-For Project: {"name": "ProjectTitle", "next_action": "..."}
-For Idea: {"title": "IdeaTitle", "raw_insight": "..."}
-For Admin: {"task": "TaskDescription", "priority": "Medium"}`,
-      },
-      { role: 'user', content: text },
-    ],
-  });
-
-  const content = response.choices[0]?.message?.content || '';
-
-  try {
-    return JSON.parse(content);
-  } catch {
-    return {
-      category: 'Admin',
-      confidence: 0.5,
-      extracted_data: { task: text },
-      reasoning: 'Parse error, defaulting to Admin',
-    };
-  }
-}
@@ -0,0 +1,37 @@
+// Speech-to-text for voice captures (Telegram voice notes, recordings from the web app)
+// The transcript becomes the capture text; the audio is kept as an attachment
+
+import { getLLM } from '@/lib/llm';
+
+// MediaRecorder and Telegram mime types → extensions Whisper accepts
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a',
+  'audio/x-m4a': 'm4a',
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+};
+
+/** Whisper transcript of the audio, or null when nothing was heard */
+export async function transcribeAudio(
+  data: Uint8Array,
+  fileName: string = 'voice.ogg',
+  mimeType: string = 'audio/ogg'
+): Promise<string | null> {
+  const { client, model } = getLLM('transcription');
+  const transcription = await client.audio.transcriptions.create({
+    file: new File([new Uint8Array(data)], fileName, { type: mimeType }),
+    model,
+  });
+
+  return transcription.text?.trim() || null;
+}
+
+/** Whisper reads the format from the extension, so name uploads after their mime type */
+export function audioFileName(mimeType: string, baseName: string = 'voice'): string {
+  const type = mimeType.split(';')[0].trim().toLowerCase();
+  const extension = AUDIO_EXTENSIONS[type] || type.split('/')[1] || 'webm';
+  return `${baseName}.${extension}`;
+}
@@ -0,0 +1,30 @@
+// Image description for photo captures (Telegram photos, images shared to the PWA)
+// The description becomes the entry text; the original file is kept as an attachment
+
+import { getLLM } from '@/lib/llm';
+
+const DESCRIBE_PROMPT =
+  'Describe this image concisely in 1-2 sentences for a personal knowledge base. Focus on what it shows and why someone might save it.';
+
+/** Base64 data URL for image bytes, as the vision model expects them */
+export function imageDataUrl(bytes: Uint8Array, mimeType: string = 'image/jpeg'): string {
+  return `data:${mimeType};base64,${Buffer.from(bytes).toString('base64')}`;
+}
+
+/** One or two sentences describing the image, or null when the model returns nothing */
+export async function describeImage(dataUrl: string): Promise<string | null> {
+  const { client, model } = getLLM('vision');
+  const response = await client.chat.completions.create({
+    model,
+    messages: [{
+      role: 'user',
+      content: [
+        { type: 'text', text: DESCRIBE_PROMPT },
+        { type: 'image_url', image_url: { url: dataUrl } },
+      ],
+    }],
+    max_tokens: 150,
+  });
+
+  return response.choices[0]?.message?.content?.trim() || null;
+}
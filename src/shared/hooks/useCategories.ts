@@ -0,0 +1,53 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { fetchCategories } from '@/lib/api';
+import { BUILTIN_CATEGORIES, toCategoryInfo } from '@/config/categories';
+import type { CategoryInfo } from '@/lib/types';
+
+// Shown until the live set loads, and kept if it fails to
+const BUILTIN_CATEGORY_INFO = BUILTIN_CATEGORIES.map(toCategoryInfo);
+
+// One request per page load, shared by every component that needs definitions
+let pending: Promise<CategoryInfo[]> | null = null;
+
+function loadCategories(): Promise<CategoryInfo[]> {
+  if (!pending) {
+    pending = fetchCategories().then((result) => {
+      if (result.status !== 'success') pending = null;
+      return result.categories || [];
+    });
+  }
+  return pending;
+}
+
+/** Drop the shared copy after categories are edited */
+export function invalidateCategories(): void {
+  pending = null;
+}
+
+/** Match by capture name ('Project'), stored name ('Projects') or tab id ('projects') */
+export function findCategoryInfo(categories: CategoryInfo[], name: string): CategoryInfo | undefined {
+  const key = name.trim().toLowerCase();
+  return categories.find((c) => c.name.toLowerCase() === key || c.db_name.toLowerCase() === key);
+}
+
+/**
+ * Category definitions from /api/categories, including user-defined ones.
+ * The built-in definitions stand in until the request finishes.
+ */
+export function useCategories(): CategoryInfo[] {
+  const [categories, setCategories] = useState<CategoryInfo[]>(BUILTIN_CATEGORY_INFO);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadCategories().then((list) => {
+      if (!cancelled && list.length > 0) setCategories(list);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return categories;
+}
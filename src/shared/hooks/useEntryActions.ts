@@ -2,6 +2,7 @@
 
 import { useState, useCallback } from 'react';
 import { markDone, snoozeEntry, deleteEntry } from '@/lib/api';
+import { useCategories, findCategoryInfo } from './useCategories';
 
 const CATEGORY_TO_DB: Record<string, string> = {
   People: 'people',
@@ -17,13 +18,14 @@ interface UseEntryActionsOptions {
 
 export function useEntryActions(options: UseEntryActionsOptions = {}) {
   const [loadingId, setLoadingId] = useState<string | null>(null);
+  const categories = useCategories();
 
   const handleMarkDone = useCallback(async (id: string, category: string) => {
     const db = CATEGORY_TO_DB[category];
     if (!db) return;
     setLoadingId(id);
     try {
-      await markDone(id, db);
+      await markDone(id, db, findCategoryInfo(categories, category)?.done_status);
       options.onSuccess?.(id, 'done');
     } catch (err) {
       console.warn('Failed to mark done:', err);
@@ -31,7 +33,7 @@ export function useEntryActions(options: UseEntryActionsOptions = {}) {
     } finally {
       setLoadingId(null);
     }
-  }, [options]);
+  }, [options, categories]);
 
   const handleSnooze = useCallback(async (id: string, category: string, days = 7) => {
     const db = CATEGORY_TO_DB[category];
@@ -0,0 +1,100 @@
+'use client';
+
+import { useState, useRef, useEffect, useCallback, useSyncExternalStore } from 'react';
+
+// Whisper accepts all of these; the first one the browser supports wins
+const MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/mp4', 'audio/ogg;codecs=opus'];
+
+// Voice notes longer than this are stopped automatically (keeps uploads well under the size limit)
+const MAX_SECONDS = 5 * 60;
+
+// Support never changes after load; false during SSR so hydration matches
+const subscribeNever = () => () => {};
+const detectSupport = () => typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+/** Elapsed recording time as m:ss */
+export function formatRecordingTime(seconds: number): string {
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+interface UseVoiceRecorderOptions {
+  /** Called with the finished recording */
+  onRecorded: (audio: Blob) => void;
+  onError?: (message: string) => void;
+}
+
+export function useVoiceRecorder({ onRecorded, onError }: UseVoiceRecorderOptions) {
+  const isSupported = useSyncExternalStore(subscribeNever, detectSupport, () => false);
+  const [isRecording, setIsRecording] = useState(false);
+  const [seconds, setSeconds] = useState(0);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const limitRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Latest callbacks, so a recording started before a re-render still reports to the current ones
+  const callbacksRef = useRef({ onRecorded, onError });
+  useEffect(() => {
+    callbacksRef.current = { onRecorded, onError };
+  });
+
+  const stop = useCallback(() => {
+    if (timerRef.current) clearInterval(timerRef.current);
+    if (limitRef.current) clearTimeout(limitRef.current);
+    timerRef.current = null;
+    limitRef.current = null;
+    if (recorderRef.current?.state === 'recording') {
+      recorderRef.current.stop();
+    }
+    setIsRecording(false);
+  }, []);
+
+  const start = useCallback(async () => {
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch {
+      callbacksRef.current.onError?.('Microphone access denied');
+      return;
+    }
+
+    const mimeType = MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    const chunks: Blob[] = [];
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    recorder.onstop = () => {
+      stream.getTracks().forEach((track) => track.stop());
+      const audio = new Blob(chunks, { type: recorder.mimeType || mimeType || 'audio/webm' });
+      if (audio.size > 0) callbacksRef.current.onRecorded(audio);
+    };
+
+    recorderRef.current = recorder;
+    recorder.start();
+    setSeconds(0);
+    setIsRecording(true);
+    timerRef.current = setInterval(() => setSeconds((s) => s + 1), 1000);
+    limitRef.current = setTimeout(stop, MAX_SECONDS * 1000);
+  }, [stop]);
+
+  const toggle = useCallback(() => {
+    if (isRecording) {
+      stop();
+    } else {
+      start();
+    }
+  }, [isRecording, start, stop]);
+
+  // Release the microphone if the component unmounts mid-recording
+  useEffect(() => () => {
+    if (timerRef.current) clearInterval(timerRef.current);
+    if (limitRef.current) clearTimeout(limitRef.current);
+    if (recorderRef.current?.state === 'recording') {
+      recorderRef.current.onstop = null;
+      recorderRef.current.stop();
+      recorderRef.current.stream.getTracks().forEach((track) => track.stop());
+    }
+  }, []);
+
+  return { isSupported, isRecording, seconds, toggle, stop };
+}